@@ -0,0 +1,10 @@
+-- Evidence scoring for Clinical Event Edges
+-- evidence_score combines rule priority, temporal proximity, semantic relatedness
+-- and event confidence; evidence keeps the component breakdown for rule tuning
+
+ALTER TABLE clinical_event_edges
+ADD COLUMN IF NOT EXISTS evidence_score FLOAT CHECK (evidence_score >= 0 AND evidence_score <= 1),
+ADD COLUMN IF NOT EXISTS evidence JSONB DEFAULT '{}';
+
+-- Index for filtering weak edges when rendering the graph
+CREATE INDEX IF NOT EXISTS idx_clinical_event_edges_evidence ON clinical_event_edges(patient_id, evidence_score DESC);
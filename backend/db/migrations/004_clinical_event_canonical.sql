@@ -0,0 +1,26 @@
+-- Canonical Clinical Events
+-- Repeated mentions of the same diagnosis or medication across reports are merged
+-- into one event instead of one node per report
+
+ALTER TABLE clinical_events
+ADD COLUMN IF NOT EXISTS canonical_key TEXT,
+ADD COLUMN IF NOT EXISTS first_seen_date DATE,
+ADD COLUMN IF NOT EXISTS last_seen_date DATE,
+ADD COLUMN IF NOT EXISTS source_report_ids UUID[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS mention_count INTEGER DEFAULT 1;
+
+-- Backfill existing rows as single mentions
+UPDATE clinical_events
+SET first_seen_date = COALESCE(first_seen_date, event_date),
+    last_seen_date = COALESCE(last_seen_date, event_date),
+    source_report_ids = CASE
+        WHEN source_report_id IS NOT NULL AND (source_report_ids IS NULL OR source_report_ids = '{}')
+        THEN ARRAY[source_report_id]
+        ELSE COALESCE(source_report_ids, '{}')
+    END;
+
+-- Index for canonical lookups during extraction
+CREATE INDEX IF NOT EXISTS idx_clinical_events_canonical ON clinical_events(patient_id, event_type, canonical_key);
+
+COMMENT ON COLUMN clinical_events.canonical_key IS 'Normalized identity of a diagnosis/medication ("pathway:type2_diabetes", "metformin") used to merge mentions across reports.';
+COMMENT ON COLUMN clinical_events.source_report_ids IS 'Every report that mentioned this event. source_report_id keeps the first one.';
@@ -0,0 +1,24 @@
+-- Lab Parameter Normalization
+-- Parameters are coded to LOINC and converted to the test's canonical UCUM unit so
+-- trends line up across labs that report different names and units.
+-- The reported name/value/unit are kept alongside the normalized values.
+
+ALTER TABLE health_parameters
+ADD COLUMN IF NOT EXISTS parameter_code TEXT,
+ADD COLUMN IF NOT EXISTS loinc_code TEXT,
+ADD COLUMN IF NOT EXISTS raw_name TEXT,
+ADD COLUMN IF NOT EXISTS raw_value TEXT,
+ADD COLUMN IF NOT EXISTS raw_unit TEXT,
+ADD COLUMN IF NOT EXISTS normalized_value NUMERIC,
+ADD COLUMN IF NOT EXISTS normalized_unit TEXT;
+
+-- Trend queries by test across reports
+CREATE INDEX IF NOT EXISTS idx_health_parameters_user_loinc_measured_at
+ON health_parameters (user_id, loinc_code, measured_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_health_parameters_parameter_code
+ON health_parameters (parameter_code);
+
+COMMENT ON COLUMN health_parameters.loinc_code IS 'LOINC code from backend/terminology/lab-tests.json; NULL when the name is not in the catalog.';
+COMMENT ON COLUMN health_parameters.normalized_value IS 'Value in normalized_unit (the test''s canonical UCUM unit); NULL when the reported unit cannot be converted.';
+COMMENT ON COLUMN health_parameters.raw_value IS 'Value exactly as reported, before any parsing or conversion.';
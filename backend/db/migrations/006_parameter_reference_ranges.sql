@@ -0,0 +1,18 @@
+-- Deterministic Parameter Status
+-- Status comes from the lab's printed range or a reference interval keyed by
+-- LOINC, age band, sex and pregnancy (backend/terminology/reference-ranges.json).
+-- The LLM's judgement is only kept as a fallback and is marked as such.
+
+ALTER TABLE health_parameters
+ADD COLUMN IF NOT EXISTS normal_range_min NUMERIC,
+ADD COLUMN IF NOT EXISTS normal_range_max NUMERIC,
+ADD COLUMN IF NOT EXISTS reference_range_text TEXT,
+ADD COLUMN IF NOT EXISTS range_source TEXT CHECK (range_source IN ('lab', 'reference')),
+ADD COLUMN IF NOT EXISTS status_source TEXT CHECK (status_source IN ('lab_range', 'reference_range', 'llm', 'default'));
+
+-- Pregnancy changes the reference interval for several tests
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS is_pregnant BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN health_parameters.normal_range_min IS 'Lower limit in the reported unit: the lab''s printed range when extracted, else the reference interval for the patient.';
+COMMENT ON COLUMN health_parameters.status_source IS 'lab_range / reference_range: computed. llm: the model''s judgement, used only when no range applies. default: no information, assumed normal.';
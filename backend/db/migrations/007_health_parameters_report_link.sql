@@ -0,0 +1,11 @@
+-- Link health parameters to the report they were read from
+-- Chat answers cite parameters by report so the UI can open the source document.
+-- health_reports.id for the upload paths; NULL for manual entries and older rows.
+
+ALTER TABLE health_parameters
+ADD COLUMN IF NOT EXISTS report_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_health_parameters_report_id
+ON health_parameters (report_id);
+
+COMMENT ON COLUMN health_parameters.report_id IS 'Report the value was extracted from (health_reports.id or reports.id); NULL when unknown.';
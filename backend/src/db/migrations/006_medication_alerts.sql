@@ -0,0 +1,39 @@
+-- Migration: 006_medication_alerts
+-- Goal: Persist drug–drug and drug–allergy interaction alerts with an acknowledgement workflow
+
+CREATE TABLE IF NOT EXISTS medication_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Stable identity of the finding (rule + drugs/allergy) so re-checks don't duplicate it
+    alert_key TEXT NOT NULL,
+    alert_type TEXT NOT NULL CHECK (alert_type IN ('drug_drug', 'drug_allergy')),
+    rule_id TEXT NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('contraindicated', 'major', 'moderate', 'minor')),
+
+    medication TEXT NOT NULL,
+    counterpart TEXT NOT NULL, -- Interacting medication or allergy
+    effect TEXT NOT NULL,
+    management TEXT,
+
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'acknowledged', 'resolved')),
+    source TEXT NOT NULL DEFAULT 'extraction', -- extraction | voice | manual
+
+    acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    acknowledgement_note TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (patient_id, alert_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_alerts_patient_status ON medication_alerts(patient_id, status);
+
+ALTER TABLE medication_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Patients can read their own alerts; writes go through the backend service role
+CREATE POLICY "Patients can view own medication alerts"
+    ON medication_alerts FOR SELECT
+    USING (auth.uid() = patient_id);
@@ -0,0 +1,65 @@
+-- Migration: 007_critical_value_alerts
+-- Goal: Persist critical lab values as alerts, log every notification sent for them
+-- and escalate alerts nobody acknowledges
+
+CREATE TABLE IF NOT EXISTS critical_value_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Rule + report (or measurement date) so re-processing a report doesn't duplicate it
+    alert_key TEXT NOT NULL,
+    rule_id TEXT NOT NULL, -- "<loinc>:low" | "<loinc>:high"
+    loinc_code TEXT NOT NULL,
+    parameter_name TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('low', 'high')),
+
+    value NUMERIC NOT NULL, -- Canonical unit
+    unit TEXT NOT NULL,
+    critical_limit NUMERIC NOT NULL,
+    raw_value TEXT,
+    raw_unit TEXT,
+    message TEXT NOT NULL,
+
+    report_id UUID,
+    measured_at TIMESTAMP WITH TIME ZONE,
+
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'acknowledged')),
+    source TEXT NOT NULL DEFAULT 'extraction', -- extraction | worker
+
+    escalation_level INTEGER NOT NULL DEFAULT 0,
+    next_escalation_at TIMESTAMP WITH TIME ZONE, -- NULL once acknowledged or fully escalated
+
+    acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    acknowledgement_note TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (patient_id, alert_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_critical_value_alerts_patient_status ON critical_value_alerts(patient_id, status);
+CREATE INDEX IF NOT EXISTS idx_critical_value_alerts_escalation ON critical_value_alerts(next_escalation_at) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS critical_alert_notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id UUID NOT NULL REFERENCES critical_value_alerts(id) ON DELETE CASCADE,
+    recipient_id TEXT NOT NULL, -- User id, or an escalation contact address
+    recipient_role TEXT NOT NULL CHECK (recipient_role IN ('patient', 'doctor', 'escalation')),
+    channel TEXT NOT NULL,
+    escalation_level INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_critical_alert_notifications_alert ON critical_alert_notifications(alert_id);
+
+ALTER TABLE critical_value_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE critical_alert_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Patients can read their own alerts; writes go through the backend service role
+CREATE POLICY "Patients can view own critical value alerts"
+    ON critical_value_alerts FOR SELECT
+    USING (auth.uid() = patient_id);
@@ -0,0 +1,8 @@
+-- 008_chat_citations.sql
+-- Assistant messages store the evidence they were grounded in
+-- (metadata.citations: report id, source row and cited value per [S#] label).
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN chat_messages.metadata IS 'Response metadata: citations, suggested follow-ups, disclaimer.';
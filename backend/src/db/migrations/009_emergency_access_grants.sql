@@ -0,0 +1,46 @@
+-- Migration: 009_emergency_access_grants
+-- Goal: Persist every break-the-glass grant so it can expire, be revoked,
+-- be reviewed (and disputed) by the patient and be reported per organization
+
+CREATE TABLE IF NOT EXISTS emergency_access_grants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    patient_abha TEXT NOT NULL,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+    resource_types TEXT[] NOT NULL,
+    reason TEXT NOT NULL,
+    justification TEXT,
+
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired', 'revoked')),
+    granted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by TEXT, -- Patient user id, or 'system'
+    revocation_reason TEXT,
+
+    -- Patient notification at grant time
+    notification_channel TEXT,
+    notification_status TEXT CHECK (notification_status IN ('sent', 'failed')),
+    notification_error TEXT,
+    notified_at TIMESTAMP WITH TIME ZONE,
+
+    -- Post-hoc review by the patient
+    review_status TEXT NOT NULL DEFAULT 'pending' CHECK (review_status IN ('pending', 'acknowledged', 'disputed')),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_comment TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_access_grants_patient ON emergency_access_grants(patient_id, granted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_emergency_access_grants_org ON emergency_access_grants(organization_id, granted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_emergency_access_grants_expiry ON emergency_access_grants(expires_at) WHERE status = 'active';
+
+ALTER TABLE emergency_access_grants ENABLE ROW LEVEL SECURITY;
+
+-- Patients can read their own grants; writes go through the backend service role
+CREATE POLICY "Patients can view own emergency access grants"
+    ON emergency_access_grants FOR SELECT
+    USING (auth.uid() = patient_id);
@@ -0,0 +1,56 @@
+-- Migration: 010_organization_credentials
+-- Goal: Verify organization client credentials for the external access API:
+-- hashed client secrets that can be rotated with an overlap window,
+-- registered public keys for private_key_jwt client assertions and
+-- per-organization rate limits
+
+-- Per-organization request budget (NULL = ORG_RATE_LIMIT_PER_MINUTE)
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER CHECK (rate_limit_per_minute > 0);
+
+-- ============================================================
+-- CLIENT SECRETS
+-- ============================================================
+-- Several secrets can be valid at once: after a rotation the previous
+-- secret keeps working until expires_at so the organization can roll over
+CREATE TABLE IF NOT EXISTS organization_client_secrets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    secret_hash TEXT NOT NULL, -- scrypt$<salt>$<hash>
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE, -- NULL = current secret
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_client_secrets_org ON organization_client_secrets(organization_id) WHERE revoked_at IS NULL;
+
+-- ============================================================
+-- PUBLIC KEYS (private_key_jwt)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS organization_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    kid TEXT NOT NULL,
+    alg TEXT NOT NULL,
+    public_jwk JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (organization_id, kid)
+);
+
+-- Client assertion ids already presented, so a captured assertion cannot be replayed
+CREATE TABLE IF NOT EXISTS organization_assertion_jtis (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    jti TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (organization_id, jti)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_assertion_jtis_expiry ON organization_assertion_jtis(expires_at);
+
+-- Credentials are only ever read by the backend service role
+ALTER TABLE organization_client_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_assertion_jtis ENABLE ROW LEVEL SECURITY;
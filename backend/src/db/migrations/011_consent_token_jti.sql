@@ -0,0 +1,11 @@
+-- Migration: 011_consent_token_jti
+-- Goal: Identify each consent token by its JWT ID so partners can match
+-- introspection results and revocation list entries to the tokens they hold
+
+ALTER TABLE consent_tokens ADD COLUMN IF NOT EXISTS token_jti TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_consent_tokens_jti ON consent_tokens(token_jti) WHERE token_jti IS NOT NULL;
+
+-- Revocation cache refresh and per-organization revocation lists
+CREATE INDEX IF NOT EXISTS idx_consent_tokens_revoked ON consent_tokens(revoked_at) WHERE revoked = true;
+CREATE INDEX IF NOT EXISTS idx_consent_tokens_org_revoked ON consent_tokens(organization_id, revoked_at) WHERE revoked = true;
@@ -0,0 +1,48 @@
+-- Migration: 012_audit_hash_chain
+-- Goal: One tamper-evident audit trail. audit_events now also records ABHA
+-- API calls (previously audit_logs) and every entry is chained to the one
+-- before it by hash. audit_logs is no longer written.
+
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS sequence BIGINT;
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS entry_hash TEXT;
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'consent' CHECK (source IN ('consent', 'abha'));
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS actor_id UUID;
+
+-- ABHA API calls are logged with action 'abha_api'
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_action_check;
+
+-- One entry per position in the chain; concurrent writers retry on conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_events_sequence ON audit_events(sequence);
+
+-- Entries written before this migration keep sequence NULL and are not
+-- covered by verification
+
+-- ============================================================
+-- APPEND-ONLY GUARD
+-- ============================================================
+-- Chained entries cannot be deleted, and only the FHIR AuditEvent link may
+-- be filled in after insert. Verification still catches changes made with
+-- the trigger disabled.
+CREATE OR REPLACE FUNCTION protect_audit_chain()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.sequence IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'audit_events entry % is part of the audit chain and cannot be deleted', OLD.sequence;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'fhir_audit_event_id') IS DISTINCT FROM (to_jsonb(OLD) - 'fhir_audit_event_id') THEN
+    RAISE EXCEPTION 'audit_events entry % is part of the audit chain and cannot be modified', OLD.sequence;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_audit_chain ON audit_events;
+CREATE TRIGGER protect_audit_chain BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION protect_audit_chain();
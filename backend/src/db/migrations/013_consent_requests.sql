@@ -0,0 +1,38 @@
+-- Migration: 013_consent_requests
+-- Goal: Persist clinician access requests and the patient's answer
+-- requested -> approved | partially_approved | denied | expired
+
+CREATE TABLE IF NOT EXISTS consent_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES patient_master(id) ON DELETE CASCADE,
+    requester_id UUID NOT NULL REFERENCES user_accounts(id) ON DELETE CASCADE,
+    -- Registered organization the clinician requests for; approval then
+    -- also issues an organization consent token
+    organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+
+    purpose TEXT NOT NULL,
+    requested_scopes TEXT[] NOT NULL,
+    requested_duration_hours INTEGER NOT NULL CHECK (requested_duration_hours > 0),
+
+    status TEXT NOT NULL DEFAULT 'requested'
+        CHECK (status IN ('requested', 'approved', 'partially_approved', 'denied', 'expired')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Unanswered requests expire
+
+    -- Patient's answer (may narrow scopes and duration)
+    approved_scopes TEXT[],
+    approved_duration_hours INTEGER,
+    response_note TEXT,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    consent_id UUID REFERENCES consents(id) ON DELETE SET NULL,
+    consent_fhir_id TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_requests_patient ON consent_requests(patient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_consent_requests_requester ON consent_requests(requester_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_consent_requests_open ON consent_requests(expires_at) WHERE status = 'requested';
+
+CREATE TRIGGER update_consent_requests_updated_at BEFORE UPDATE ON consent_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
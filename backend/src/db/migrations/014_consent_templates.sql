@@ -0,0 +1,63 @@
+-- Migration: 014_consent_templates
+-- Goal: Reusable consent templates per organization type (or for one
+-- organization) so patients can grant a standard consent in one tap, and
+-- renewal reminders for long-running consents before they run out
+
+CREATE TABLE IF NOT EXISTS consent_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_type TEXT, -- organizations.type this applies to; NULL = any type
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE, -- Only offered to this organization
+
+    name TEXT NOT NULL,
+    description TEXT,
+    purpose_of_use TEXT NOT NULL CHECK (purpose_of_use IN ('TREATMENT', 'EMERGENCY', 'INSURANCE', 'RESEARCH')),
+    allowed_resources TEXT[] NOT NULL CHECK (cardinality(allowed_resources) > 0),
+    excluded_categories TEXT[] NOT NULL DEFAULT '{}',
+    duration_days INTEGER NOT NULL CHECK (duration_days > 0),
+
+    -- Consents from this template get a reminder this many days before they end
+    renewable BOOLEAN NOT NULL DEFAULT true,
+    renewal_reminder_days INTEGER NOT NULL DEFAULT 14 CHECK (renewal_reminder_days >= 0),
+
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_templates_type ON consent_templates(organization_type) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_consent_templates_org ON consent_templates(organization_id) WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS update_consent_templates_updated_at ON consent_templates;
+CREATE TRIGGER update_consent_templates_updated_at BEFORE UPDATE ON consent_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- RENEWAL TRACKING
+-- ============================================================
+ALTER TABLE consent_tokens ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES consent_templates(id) ON DELETE SET NULL;
+ALTER TABLE consent_tokens ADD COLUMN IF NOT EXISTS renewal_reminded_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE consent_tokens ADD COLUMN IF NOT EXISTS renewed_by UUID REFERENCES consent_tokens(id) ON DELETE SET NULL;
+
+-- Reminder worker scans unrevoked tokens by expiry
+CREATE INDEX IF NOT EXISTS idx_consent_tokens_renewal ON consent_tokens(expires_at)
+  WHERE revoked = false AND renewal_reminded_at IS NULL;
+
+-- ============================================================
+-- DEFAULT TEMPLATES
+-- ============================================================
+INSERT INTO consent_templates (organization_type, name, description, purpose_of_use, allowed_resources, excluded_categories, duration_days, renewable, renewal_reminder_days)
+SELECT * FROM (VALUES
+    ('hospital', 'Primary care physician', 'Treatment by your regular doctor: all clinical data for 1 year',
+        'TREATMENT', ARRAY['Observation', 'DiagnosticReport', 'DocumentReference', 'Condition', 'MedicationRequest', 'AllergyIntolerance', 'Encounter', 'Procedure'], ARRAY[]::TEXT[], 365, true, 30),
+    ('lab', 'Lab tests', 'Ordering and reporting lab tests for 90 days',
+        'TREATMENT', ARRAY['Observation', 'DiagnosticReport'], ARRAY[]::TEXT[], 90, true, 14),
+    ('hiu', 'Insurance claim', 'Diagnostic reports for an insurance claim, 30 days',
+        'INSURANCE', ARRAY['DiagnosticReport'], ARRAY[]::TEXT[], 30, false, 0),
+    ('caregiver', 'Caregiver', 'A caregiver following your conditions and medications for 6 months',
+        'TREATMENT', ARRAY['Condition', 'MedicationRequest', 'AllergyIntolerance', 'Observation'], ARRAY[]::TEXT[], 180, true, 14),
+    ('research', 'Research study', 'Test results and conditions for a study, without sensitive categories, 1 year',
+        'RESEARCH', ARRAY['Observation', 'Condition'], ARRAY['mental_health', 'hiv', 'reproductive_health', 'substance_use'], 365, false, 0)
+) AS defaults(organization_type, name, description, purpose_of_use, allowed_resources, excluded_categories, duration_days, renewable, renewal_reminder_days)
+WHERE NOT EXISTS (SELECT 1 FROM consent_templates);
+
+ALTER TABLE consent_templates ENABLE ROW LEVEL SECURITY;
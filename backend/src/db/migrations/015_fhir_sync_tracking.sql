@@ -0,0 +1,29 @@
+-- Migration: 015_fhir_sync_tracking
+-- Goal: Track full-history FHIR syncs per resource. resources_synced holds
+-- one entry per resource (source, Niraiva identifier, created / unchanged /
+-- failed, FHIR id or error); a sync with failures can be retried, which
+-- records a new log pointing at the original
+
+CREATE TABLE IF NOT EXISTS fhir_sync_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    sync_type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'in_progress',
+    resources_synced JSONB DEFAULT '[]'::jsonb,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE fhir_sync_logs ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES fhir_sync_logs(id) ON DELETE SET NULL;
+
+-- 'partial': some sources were written, others failed and can be retried
+ALTER TABLE fhir_sync_logs DROP CONSTRAINT IF EXISTS fhir_sync_logs_status_check;
+ALTER TABLE fhir_sync_logs ADD CONSTRAINT fhir_sync_logs_status_check
+  CHECK (status IN ('in_progress', 'completed', 'partial', 'failed'));
+
+ALTER TABLE fhir_sync_logs DROP CONSTRAINT IF EXISTS fhir_sync_logs_sync_type_check;
+ALTER TABLE fhir_sync_logs ADD CONSTRAINT fhir_sync_logs_sync_type_check
+  CHECK (sync_type IN ('full', 'vitals', 'retry'));
+
+CREATE INDEX IF NOT EXISTS idx_fhir_sync_logs_user ON fhir_sync_logs(user_id, created_at DESC);
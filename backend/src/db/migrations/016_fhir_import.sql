@@ -0,0 +1,36 @@
+-- Migration: 016_fhir_import
+-- Goal: Import Observations and Conditions that partner systems write to
+-- the shared FHIR server. A _lastUpdated cursor per resource type drives
+-- polling; every resource version read is recorded with what it became in
+-- Niraiva, including conflicts with data Niraiva already had
+
+CREATE TABLE IF NOT EXISTS fhir_import_cursors (
+    resource_type TEXT PRIMARY KEY,
+    last_updated TIMESTAMP WITH TIME ZONE NOT NULL, -- Newest meta.lastUpdated imported
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS fhir_imported_resources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_type TEXT NOT NULL,
+    fhir_id TEXT NOT NULL,
+    version_id TEXT, -- meta.versionId last read; the same version is not imported twice
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    status TEXT NOT NULL CHECK (status IN ('imported', 'updated', 'merged', 'duplicate', 'conflict', 'skipped')),
+    target_table TEXT CHECK (target_table IN ('health_parameters', 'clinical_events')),
+    target_id UUID, -- Row created, updated or matched in target_table
+    conflict JSONB, -- { field, local, remote, resolution } when status = 'conflict'
+    reason TEXT, -- Why a resource was skipped
+
+    source TEXT, -- meta.source of the system that wrote the resource
+    last_updated TIMESTAMP WITH TIME ZONE,
+    imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (resource_type, fhir_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fhir_imported_resources_user ON fhir_imported_resources(user_id, status);
+
+ALTER TABLE fhir_import_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fhir_imported_resources ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,48 @@
+-- Migration: 017_fhir_export
+-- Goal: FHIR Bulk Data $export for a patient's record. A kick-off creates a
+-- job that runs in the background; the finished job holds one NDJSON file
+-- per resource type until it expires. Jobs started by organizations record
+-- the consent they ran under
+
+CREATE TABLE IF NOT EXISTS fhir_export_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Whose record is exported
+    fhir_patient_id TEXT NOT NULL,
+
+    -- Requester: the patient themselves, or an organization under a consent
+    requester_type TEXT NOT NULL CHECK (requester_type IN ('patient', 'organization')),
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    consent_id TEXT,
+    purpose_of_use TEXT,
+
+    resource_types TEXT[] NOT NULL, -- _type, narrowed to what the consent allows
+    since TIMESTAMP WITH TIME ZONE, -- _since
+    request_url TEXT NOT NULL, -- The kick-off request, echoed in the manifest
+
+    status TEXT NOT NULL DEFAULT 'accepted' CHECK (status IN ('accepted', 'in-progress', 'completed', 'failed', 'cancelled')),
+    progress TEXT, -- X-Progress while running
+    error TEXT,
+    transaction_time TIMESTAMP WITH TIME ZONE, -- When the data was read
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE, -- Files are gone after this
+
+    CHECK (requester_type = 'patient' OR organization_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fhir_export_jobs_user ON fhir_export_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fhir_export_jobs_expiry ON fhir_export_jobs(expires_at) WHERE expires_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS fhir_export_files (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES fhir_export_jobs(id) ON DELETE CASCADE,
+    resource_type TEXT NOT NULL,
+    resource_count INTEGER NOT NULL,
+    ndjson TEXT NOT NULL, -- One resource per line (application/fhir+ndjson)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (job_id, resource_type)
+);
+
+ALTER TABLE fhir_export_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fhir_export_files ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,92 @@
+-- Migration: 018_smart_auth
+-- Goal: SMART App Launch authorization server for third-party apps on
+-- the /fhir API: apps registered by partner organizations, EHR launch
+-- contexts created by doctors, authorization requests/codes (PKCE) and
+-- opaque access/refresh tokens stored as hashes
+
+-- ============================================================
+-- APPS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS smart_apps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id TEXT NOT NULL UNIQUE,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    client_secret_hash TEXT, -- scrypt$<salt>$<hash>; NULL = public client (PKCE only)
+    redirect_uris TEXT[] NOT NULL,
+    launch_url TEXT, -- Where EHR launches send the doctor
+    scopes TEXT[] NOT NULL, -- Most the app may ever be granted
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_apps_org ON smart_apps(organization_id);
+
+-- ============================================================
+-- EHR LAUNCHES
+-- ============================================================
+-- A doctor opens an app from a patient's record; the app passes the
+-- launch id back in its authorization request
+CREATE TABLE IF NOT EXISTS smart_launches (
+    id TEXT PRIMARY KEY,
+    client_id TEXT NOT NULL REFERENCES smart_apps(client_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL, -- Supabase user ID of the launching doctor
+    patient_id UUID NOT NULL, -- Supabase user ID of the patient in context
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ============================================================
+-- AUTHORIZATION REQUESTS & CODES
+-- ============================================================
+CREATE TABLE IF NOT EXISTS smart_authorizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id TEXT NOT NULL REFERENCES smart_apps(client_id) ON DELETE CASCADE,
+    redirect_uri TEXT NOT NULL,
+    requested_scope TEXT NOT NULL,
+    state TEXT,
+    launch_id TEXT REFERENCES smart_launches(id) ON DELETE SET NULL,
+    code_challenge TEXT,
+    code_challenge_method TEXT CHECK (code_challenge_method IN ('S256')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied', 'exchanged')),
+    user_id UUID, -- Who decided
+    patient_id UUID, -- Patient in context once approved
+    granted_scope TEXT,
+    code_hash TEXT UNIQUE, -- sha256 of the authorization code
+    code_expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL -- Pending requests lapse after this
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_authorizations_expiry ON smart_authorizations(expires_at);
+
+-- ============================================================
+-- TOKENS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS smart_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id TEXT NOT NULL REFERENCES smart_apps(client_id) ON DELETE CASCADE,
+    authorization_id UUID REFERENCES smart_authorizations(id) ON DELETE SET NULL,
+    user_id UUID NOT NULL, -- Who authorized the app
+    patient_id UUID NOT NULL, -- Patient whose record the token reaches
+    scope TEXT NOT NULL,
+    launch_type TEXT NOT NULL CHECK (launch_type IN ('standalone', 'ehr')),
+    access_token_hash TEXT NOT NULL UNIQUE, -- sha256
+    access_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    refresh_token_hash TEXT UNIQUE, -- sha256; only with offline_access
+    refresh_expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_tokens_patient ON smart_tokens(patient_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_smart_tokens_client ON smart_tokens(client_id) WHERE revoked_at IS NULL;
+
+-- Only the backend service role reads or writes these
+ALTER TABLE smart_apps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_launches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_authorizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_tokens ENABLE ROW LEVEL SECURITY;
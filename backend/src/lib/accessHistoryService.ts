@@ -0,0 +1,366 @@
+/**
+ * Access History Service
+ * "Who accessed my data": the patient's view of the audit trail, in plain
+ * language and grouped by who did it, with revocation per actor
+ */
+
+import { supabaseAdmin } from './supabaseClient';
+import { revokeConsent, getActiveConsentsForOrganization } from './consentService';
+import { revokeAllTokensForOrganization } from './consentTokenService';
+import { consentService as clinicianConsentService } from '../modules/consent/consent.service';
+import { consentRepository } from '../modules/consent/consent.repository';
+
+// ============================================================
+// TYPES & INTERFACES
+// ============================================================
+
+export type AccessActorType = 'organization' | 'clinician' | 'self';
+
+export interface AccessHistoryEntry {
+    id: string;
+    occurredAt: string;
+    actorType: AccessActorType;
+    actorId: string | null;
+    actorName: string;
+    action: string;
+    resourceType: string | null;
+    purposeOfUse: string | null;
+    outcome: 'success' | 'denied' | 'error';
+    description: string;            // Plain-language sentence for the patient
+    reason: string | null;          // Why access was denied, or the emergency reason
+}
+
+export interface AccessActorSummary {
+    actorType: AccessActorType;
+    actorId: string | null;
+    actorName: string;
+    accessCount: number;
+    deniedCount: number;
+    lastAccessAt: string;
+    resourceTypes: string[];
+    canRevoke: boolean;             // Patient can revoke this actor's consent
+    entries: AccessHistoryEntry[];
+}
+
+export interface AccessHistoryFilters {
+    from?: string;
+    to?: string;
+    outcome?: 'success' | 'denied' | 'error';
+    actorType?: AccessActorType;
+    organizationId?: string;
+    resourceType?: string;
+    limit?: number;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+const RESOURCE_LABELS: Record<string, string> = {
+    Patient: 'profile',
+    Observation: 'test results',
+    DocumentReference: 'documents',
+    Condition: 'conditions',
+    MedicationRequest: 'medications',
+    AllergyIntolerance: 'allergies',
+    Encounter: 'visits',
+    medical_records: 'medical records',
+    timeline: 'health timeline',
+    'medication-alerts': 'medication alerts',
+    'critical-alerts': 'critical lab alerts',
+};
+
+const PURPOSE_LABELS: Record<string, string> = {
+    TREATMENT: 'treatment',
+    EMERGENCY: 'an emergency',
+    INSURANCE: 'an insurance claim',
+    RESEARCH: 'research',
+};
+
+// ============================================================
+// PLAIN-LANGUAGE DESCRIPTIONS
+// ============================================================
+
+function describeResource(resourceType: string | null): string {
+    if (!resourceType) return 'records';
+    return resourceType.split(',').map((r) => RESOURCE_LABELS[r] || r).join(' and ');
+}
+
+function describeEntry(entry: Omit<AccessHistoryEntry, 'description'>): string {
+    const resource = describeResource(entry.resourceType);
+    const purpose = entry.purposeOfUse && PURPOSE_LABELS[entry.purposeOfUse]
+        ? ` for ${PURPOSE_LABELS[entry.purposeOfUse]}`
+        : '';
+
+    if (entry.actorType === 'self') {
+        const endpoint = entry.resourceType ? ` (${entry.resourceType})` : '';
+        return entry.outcome === 'success'
+            ? `You used your ABHA account${endpoint}`
+            : `An ABHA request from your account failed${endpoint}`;
+    }
+
+    if (entry.action === 'emergency_access') {
+        return entry.outcome === 'success'
+            ? `${entry.actorName} used emergency access to see your ${resource}`
+            : `${entry.actorName} asked for emergency access to your ${resource} and was refused`;
+    }
+
+    if (entry.outcome === 'denied') {
+        return `${entry.actorName} tried to see your ${resource}${purpose} and was blocked`;
+    }
+    if (entry.outcome === 'error') {
+        return `${entry.actorName} tried to see your ${resource}${purpose}, but the request failed`;
+    }
+
+    const verb = entry.action === 'search' ? 'searched' : entry.action === 'read' ? 'viewed' : 'changed';
+    return `${entry.actorName} ${verb} your ${resource}${purpose}`;
+}
+
+// ============================================================
+// IDENTITIES
+// ============================================================
+
+/**
+ * The patient_master record behind a patient's Supabase user. Audit
+ * entries and organization consents use the Supabase user ID; clinician
+ * consents (and consent-checked routes keyed by patient record) use this.
+ */
+async function findPatientRecordId(patientUserId: string): Promise<string | null> {
+    const account = await consentRepository.findUserAccount(patientUserId);
+    return account?.linked_patient_id || null;
+}
+
+/**
+ * Active consents a clinician (by Supabase user ID, as in the audit trail)
+ * holds on a patient record. Consents are granted to user_accounts.
+ */
+async function findClinicianConsents(clinicianUserId: string, patientRecordId: string | null) {
+    if (!patientRecordId) return [];
+    const account = await consentRepository.findUserAccount(clinicianUserId);
+    if (!account) return [];
+    return consentRepository.findActiveConsents(account.id, patientRecordId);
+}
+
+// ============================================================
+// HISTORY
+// ============================================================
+
+/**
+ * Accesses and denied attempts on a patient's data, newest first,
+ * with per-actor summaries
+ * @param patientId - Supabase user ID
+ */
+export async function getAccessHistory(
+    patientId: string,
+    filters: AccessHistoryFilters = {}
+): Promise<{ entries: AccessHistoryEntry[]; actors: AccessActorSummary[] }> {
+    const limit = Math.min(filters.limit || DEFAULT_LIMIT, MAX_LIMIT);
+    const patientRecordId = await findPatientRecordId(patientId);
+
+    // 1. audit_events: organization access, clinician access and ABHA calls.
+    // Clinician access may be logged against the patient record instead.
+    const subjects = [`patient_id.eq.${patientId}`, `and(source.eq.abha,actor_id.eq.${patientId})`];
+    if (patientRecordId) subjects.push(`patient_id.eq.${patientRecordId}`);
+
+    let query = supabaseAdmin
+        .from('audit_events')
+        .select(`
+            *,
+            organizations (
+                name
+            )
+        `)
+        .or(subjects.join(','))
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (filters.from) query = query.gte('created_at', filters.from);
+    if (filters.to) query = query.lte('created_at', filters.to);
+    if (filters.outcome) query = query.eq('outcome', filters.outcome);
+    if (filters.organizationId) query = query.eq('organization_id', filters.organizationId);
+    if (filters.resourceType) query = query.eq('resource_type', filters.resourceType);
+
+    const { data: events, error } = await query;
+    if (error) {
+        throw new Error(`Failed to load access history: ${error.message}`);
+    }
+
+    // 2. audit_logs: ABHA calls logged before the shared audit chain
+    let legacyQuery = supabaseAdmin
+        .from('audit_logs')
+        .select('*')
+        .eq('user_id', patientId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (filters.from) legacyQuery = legacyQuery.gte('created_at', filters.from);
+    if (filters.to) legacyQuery = legacyQuery.lte('created_at', filters.to);
+
+    const { data: legacy, error: legacyError } = filters.organizationId || filters.resourceType
+        ? { data: [], error: null }
+        : await legacyQuery;
+    if (legacyError) {
+        console.error('Error fetching legacy audit logs:', legacyError);
+    }
+
+    // 3. Names for clinicians who went through consent checks
+    const clinicianIds = Array.from(new Set((events || [])
+        .filter((e: any) => !e.organization_id && e.source !== 'abha' && e.actor_id)
+        .map((e: any) => e.actor_id)));
+
+    const clinicianNames = new Map<string, string>();
+    if (clinicianIds.length > 0) {
+        const { data: profiles } = await supabaseAdmin
+            .from('user_profiles')
+            .select('user_id, full_name')
+            .in('user_id', clinicianIds);
+        for (const profile of profiles || []) {
+            if (profile.full_name) clinicianNames.set(profile.user_id, `Dr. ${profile.full_name}`);
+        }
+    }
+
+    const entries: AccessHistoryEntry[] = [
+        ...(events || []).map((e: any) => {
+            const actorType: AccessActorType = e.source === 'abha'
+                ? 'self'
+                : e.organization_id ? 'organization' : 'clinician';
+            const actorId = actorType === 'organization' ? e.organization_id : e.actor_id;
+            const entry = {
+                id: e.id,
+                occurredAt: e.created_at,
+                actorType,
+                actorId,
+                actorName: actorType === 'self'
+                    ? 'You'
+                    : actorType === 'organization'
+                        ? e.organizations?.name || 'An organization'
+                        : clinicianNames.get(e.actor_id) || 'A clinician',
+                action: e.action,
+                resourceType: actorType === 'self' ? e.metadata?.endpoint || null : e.resource_type,
+                purposeOfUse: e.purpose_of_use,
+                outcome: e.outcome,
+                reason: e.outcome_reason || e.metadata?.reason || null,
+            };
+            return { ...entry, description: describeEntry(entry) };
+        }),
+        ...(legacy || []).map((l: any) => {
+            const entry = {
+                id: l.id,
+                occurredAt: l.created_at,
+                actorType: 'self' as const,
+                actorId: patientId,
+                actorName: 'You',
+                action: 'abha_api',
+                resourceType: l.endpoint,
+                purposeOfUse: null,
+                outcome: (l.error_message || l.response_code >= 400 ? 'error' : 'success') as AccessHistoryEntry['outcome'],
+                reason: l.error_message || null,
+            };
+            return { ...entry, description: describeEntry(entry) };
+        }),
+    ]
+        .filter((e) => !filters.actorType || e.actorType === filters.actorType)
+        .filter((e) => !filters.outcome || e.outcome === filters.outcome)
+        .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt))
+        .slice(0, limit);
+
+    return { entries, actors: await summarizeActors(patientId, patientRecordId, entries) };
+}
+
+async function summarizeActors(
+    patientId: string,
+    patientRecordId: string | null,
+    entries: AccessHistoryEntry[]
+): Promise<AccessActorSummary[]> {
+    const groups = new Map<string, AccessActorSummary>();
+
+    for (const entry of entries) {
+        const key = `${entry.actorType}:${entry.actorId}`;
+        const group = groups.get(key) || {
+            actorType: entry.actorType,
+            actorId: entry.actorId,
+            actorName: entry.actorName,
+            accessCount: 0,
+            deniedCount: 0,
+            lastAccessAt: entry.occurredAt,
+            resourceTypes: [],
+            canRevoke: false,
+            entries: [],
+        };
+
+        if (entry.outcome === 'success') group.accessCount++;
+        else group.deniedCount++;
+        if (entry.resourceType && !group.resourceTypes.includes(entry.resourceType)) {
+            group.resourceTypes.push(entry.resourceType);
+        }
+        group.entries.push(entry);
+        groups.set(key, group);
+    }
+
+    // Only actors still holding consent have something to revoke
+    for (const group of groups.values()) {
+        if (!group.actorId) continue;
+        if (group.actorType === 'organization') {
+            group.canRevoke = (await getActiveConsentsForOrganization(patientId, group.actorId)).length > 0;
+        } else if (group.actorType === 'clinician') {
+            group.canRevoke = (await findClinicianConsents(group.actorId, patientRecordId)).length > 0;
+        }
+    }
+
+    return Array.from(groups.values()).sort((a, b) => b.lastAccessAt.localeCompare(a.lastAccessAt));
+}
+
+// ============================================================
+// REVOCATION
+// ============================================================
+
+/**
+ * Revoke everything an actor from the access history holds on the patient
+ * @param patientId - Supabase user ID
+ * @param actorId - Organization ID, or the clinician's Supabase user ID
+ * @returns Number of consents revoked
+ */
+export async function revokeActorAccess(
+    patientId: string,
+    actorType: AccessActorType,
+    actorId: string
+): Promise<{ success: boolean; revoked: number; error?: string }> {
+    if (actorType === 'organization') {
+        const reason = 'Revoked from access history';
+        const consents = await getActiveConsentsForOrganization(patientId, actorId);
+        let revoked = 0;
+
+        // Revoke each consent (marks the FHIR Consent inactive too)
+        for (const consentId of new Set(consents.map((c) => c.consent_fhir_id as string))) {
+            const result = await revokeConsent(consentId, patientId, reason);
+            if (result.success) revoked++;
+            else console.error(`Failed to revoke consent ${consentId}:`, result.error);
+        }
+
+        // Catch any remaining token for the pair
+        const remaining = await revokeAllTokensForOrganization(patientId, actorId, reason);
+        if (!remaining.success) {
+            return { success: false, revoked, error: remaining.error };
+        }
+
+        return { success: true, revoked: revoked + remaining.count };
+    }
+
+    if (actorType === 'clinician') {
+        const patientRecordId = await findPatientRecordId(patientId);
+        if (!patientRecordId) {
+            return { success: true, revoked: 0 };
+        }
+
+        const consents = await findClinicianConsents(actorId, patientRecordId);
+        for (const consent of consents) {
+            await clinicianConsentService.revokeConsent(consent.id, patientRecordId);
+        }
+        return { success: true, revoked: consents.length };
+    }
+
+    return { success: false, revoked: 0, error: 'Only organizations and clinicians can be revoked' };
+}
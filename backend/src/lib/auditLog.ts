@@ -0,0 +1,402 @@
+/**
+ * Audit Log
+ * Single tamper-evident audit trail (audit_events) for consent-enforced
+ * access and ABHA API calls. Every entry carries the hash of the entry
+ * before it, so edits, deletions and gaps show up on verification.
+ * Segments of the chain can be exported signed for compliance reviews.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from './supabaseClient';
+import type { PurposeOfUse } from '../types/consentTypes';
+
+// ============================================================
+// TYPES & INTERFACES
+// ============================================================
+
+export type AuditSource = 'consent' | 'abha';
+
+export interface AuditEntryInput {
+    source: AuditSource;
+    action: string;
+    actorId?: string;               // Supabase user ID of the person acting
+    patientId?: string;
+    organizationId?: string;
+    resourceType?: string;
+    resourceId?: string;
+    consentId?: string;
+    purposeOfUse?: PurposeOfUse;
+    outcome: 'success' | 'denied' | 'error';
+    outcomeReason?: string;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata?: Record<string, any>;
+}
+
+export interface AuditEntry {
+    id: string;
+    sequence: number;
+    prev_hash: string;
+    entry_hash: string;
+    source: AuditSource;
+    action: string;
+    actor_id: string | null;
+    patient_id: string | null;
+    organization_id: string | null;
+    resource_type: string | null;
+    resource_id: string | null;
+    consent_id: string | null;
+    purpose_of_use: PurposeOfUse | null;
+    outcome: string;
+    outcome_reason: string | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    metadata: Record<string, any>;
+    created_at: string;
+    fhir_audit_event_id?: string | null;
+}
+
+export interface AuditChainIssue {
+    sequence: number;
+    type: 'gap' | 'broken_link' | 'hash_mismatch' | 'signature' | 'head_mismatch';
+    detail: string;
+}
+
+export interface AuditChainVerification {
+    valid: boolean;
+    checked: number;
+    firstSequence: number | null;
+    lastSequence: number | null;
+    headHash: string | null;
+    issues: AuditChainIssue[];
+}
+
+export interface AuditSegment {
+    from: number;
+    to: number;
+    entries: AuditEntry[];
+    signature: string;              // RS256 JWS over the segment summary
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const GENESIS_HASH = '0'.repeat(64);
+const AUDIT_ISSUER = 'niraiva-audit-log';
+const AUDIT_SIGNING_PRIVATE_KEY = process.env.AUDIT_SIGNING_PRIVATE_KEY;
+const AUDIT_SIGNING_PUBLIC_KEY = process.env.AUDIT_SIGNING_PUBLIC_KEY;
+const MAX_APPEND_ATTEMPTS = 5;
+const VERIFY_PAGE_SIZE = 1000;
+
+// Columns covered by entry_hash (fhir_audit_event_id is a link added later)
+const HASHED_FIELDS = [
+    'sequence', 'prev_hash', 'source', 'action', 'actor_id', 'patient_id', 'organization_id',
+    'resource_type', 'resource_id', 'consent_id', 'purpose_of_use', 'outcome', 'outcome_reason',
+    'ip_address', 'user_agent', 'metadata', 'created_at',
+] as const;
+
+// ============================================================
+// HASHING
+// ============================================================
+
+/**
+ * JSON with sorted object keys, so the hash does not depend on how the
+ * database returns JSONB
+ */
+function canonicalJson(value: any): string {
+    if (value === null || value === undefined) return 'null';
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter((key) => value[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 of an entry's hashed fields (including the previous entry's hash)
+ */
+export function computeEntryHash(entry: Omit<AuditEntry, 'id' | 'entry_hash'>): string {
+    const fields: Record<string, any> = {};
+    for (const field of HASHED_FIELDS) {
+        fields[field] = (entry as any)[field] ?? null;
+    }
+    // Timestamps are compared by instant, not by the database's formatting
+    fields.created_at = new Date(entry.created_at).toISOString();
+    fields.metadata = entry.metadata || {};
+
+    return crypto.createHash('sha256').update(canonicalJson(fields)).digest('hex');
+}
+
+// ============================================================
+// APPEND
+// ============================================================
+
+// Appends from this process run one at a time; other instances are
+// handled by the unique sequence constraint
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+async function getChainHead(): Promise<{ sequence: number; entryHash: string }> {
+    const { data, error } = await supabaseAdmin
+        .from('audit_events')
+        .select('sequence, entry_hash')
+        .not('sequence', 'is', null)
+        .order('sequence', { ascending: false })
+        .limit(1);
+
+    if (error) {
+        throw new Error(`Failed to read audit chain head: ${error.message}`);
+    }
+
+    return data && data.length > 0
+        ? { sequence: data[0].sequence, entryHash: data[0].entry_hash }
+        : { sequence: 0, entryHash: GENESIS_HASH };
+}
+
+async function insertChained(input: AuditEntryInput): Promise<AuditEntry> {
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+        const head = await getChainHead();
+
+        const entry: Omit<AuditEntry, 'id' | 'entry_hash'> = {
+            sequence: head.sequence + 1,
+            prev_hash: head.entryHash,
+            source: input.source,
+            action: input.action,
+            actor_id: input.actorId || null,
+            patient_id: input.patientId || null,
+            organization_id: input.organizationId || null,
+            resource_type: input.resourceType || null,
+            resource_id: input.resourceId || null,
+            consent_id: input.consentId || null,
+            purpose_of_use: input.purposeOfUse || null,
+            outcome: input.outcome,
+            outcome_reason: input.outcomeReason || null,
+            ip_address: input.ipAddress || null,
+            user_agent: input.userAgent || null,
+            metadata: input.metadata || {},
+            created_at: new Date().toISOString(),
+        };
+
+        const { data, error } = await supabaseAdmin
+            .from('audit_events')
+            .insert({ ...entry, entry_hash: computeEntryHash(entry) })
+            .select()
+            .single();
+
+        if (!error) {
+            return data as AuditEntry;
+        }
+
+        // Another instance took this sequence number; re-read the head
+        if (error.code !== '23505') {
+            throw new Error(`Audit logging failed: ${error.message}`);
+        }
+    }
+
+    throw new Error('Audit logging failed: could not append to the audit chain');
+}
+
+/**
+ * Append an entry to the audit chain
+ */
+export function appendAuditEntry(input: AuditEntryInput): Promise<AuditEntry> {
+    const result = appendQueue.then(() => insertChained(input));
+    appendQueue = result.catch(() => undefined);
+    return result;
+}
+
+// ============================================================
+// VERIFICATION
+// ============================================================
+
+/**
+ * Walk a run of entries (ascending sequence) and report every place the
+ * chain does not hold
+ * @param expectedPrevHash - Hash the first entry must link to (null = trust it)
+ */
+export function verifyEntries(entries: AuditEntry[], expectedPrevHash: string | null): AuditChainIssue[] {
+    const issues: AuditChainIssue[] = [];
+    let previous: AuditEntry | null = null;
+
+    for (const entry of entries) {
+        if (previous && entry.sequence !== previous.sequence + 1) {
+            issues.push({
+                sequence: entry.sequence,
+                type: 'gap',
+                detail: `Entries ${previous.sequence + 1}-${entry.sequence - 1} are missing`,
+            });
+        }
+
+        const linkTo = previous ? previous.entry_hash : expectedPrevHash;
+        if (linkTo !== null && entry.prev_hash !== linkTo) {
+            issues.push({
+                sequence: entry.sequence,
+                type: 'broken_link',
+                detail: 'prev_hash does not match the preceding entry',
+            });
+        }
+
+        if (computeEntryHash(entry) !== entry.entry_hash) {
+            issues.push({
+                sequence: entry.sequence,
+                type: 'hash_mismatch',
+                detail: 'Entry contents do not match entry_hash (edited after it was written)',
+            });
+        }
+
+        previous = entry;
+    }
+
+    return issues;
+}
+
+/**
+ * Verify the stored chain, optionally a sequence range of it
+ */
+export async function verifyAuditChain(range: { from?: number; to?: number } = {}): Promise<AuditChainVerification> {
+    const issues: AuditChainIssue[] = [];
+    let checked = 0;
+    let firstSequence: number | null = null;
+    let last: AuditEntry | null = null;
+    let cursor = (range.from || 1) - 1;
+
+    // The first entry links to genesis, or to the entry before the range
+    let expectedPrevHash: string | null = cursor === 0 ? GENESIS_HASH : null;
+    if (cursor > 0) {
+        const { data: before } = await supabaseAdmin
+            .from('audit_events')
+            .select('entry_hash')
+            .eq('sequence', cursor)
+            .maybeSingle();
+        expectedPrevHash = before?.entry_hash || null;
+    }
+
+    while (true) {
+        let query = supabaseAdmin
+            .from('audit_events')
+            .select('*')
+            .gt('sequence', cursor)
+            .order('sequence', { ascending: true })
+            .limit(VERIFY_PAGE_SIZE);
+        if (range.to) query = query.lte('sequence', range.to);
+
+        const { data, error } = await query;
+        if (error) {
+            throw new Error(`Failed to read audit chain: ${error.message}`);
+        }
+
+        const page = (data || []) as AuditEntry[];
+        if (page.length === 0) break;
+
+        if (firstSequence === null) {
+            firstSequence = page[0].sequence;
+            if (page[0].sequence !== cursor + 1) {
+                issues.push({ sequence: page[0].sequence, type: 'gap', detail: `Entries ${cursor + 1}-${page[0].sequence - 1} are missing` });
+            }
+        }
+
+        // Include the last entry of the previous page so links across pages are checked
+        const run = last ? [last, ...page] : page;
+        issues.push(...verifyEntries(run, last ? null : expectedPrevHash).filter((i) => !last || i.sequence !== last.sequence));
+
+        checked += page.length;
+        last = page[page.length - 1];
+        cursor = last.sequence;
+
+        if (page.length < VERIFY_PAGE_SIZE) break;
+    }
+
+    return {
+        valid: issues.length === 0,
+        checked,
+        firstSequence,
+        lastSequence: last?.sequence ?? null,
+        headHash: last?.entry_hash ?? null,
+        issues,
+    };
+}
+
+// ============================================================
+// SIGNED SEGMENTS
+// ============================================================
+
+/**
+ * Export entries from..to with a signature over the segment's first link
+ * and head hash. A reviewer can check the signature, then recompute the
+ * chain inside the segment.
+ */
+export async function exportAuditSegment(from: number, to: number): Promise<AuditSegment> {
+    if (!AUDIT_SIGNING_PRIVATE_KEY) {
+        throw new Error('AUDIT_SIGNING_PRIVATE_KEY not configured');
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_events')
+        .select('*')
+        .gte('sequence', from)
+        .lte('sequence', to)
+        .order('sequence', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to read audit chain: ${error.message}`);
+    }
+
+    const entries = (data || []) as AuditEntry[];
+    if (entries.length === 0) {
+        throw new Error(`No audit entries between ${from} and ${to}`);
+    }
+
+    const issues = verifyEntries(entries, null);
+    if (entries[0].sequence !== from || entries[entries.length - 1].sequence !== to) {
+        issues.push({ sequence: from, type: 'gap', detail: 'Segment does not cover the requested range' });
+    }
+    if (issues.length > 0) {
+        throw new Error(`Refusing to sign a broken segment: ${issues.map((i) => `#${i.sequence} ${i.type}`).join(', ')}`);
+    }
+
+    const signature = jwt.sign({
+        from,
+        to,
+        count: entries.length,
+        prevHash: entries[0].prev_hash,
+        headHash: entries[entries.length - 1].entry_hash,
+    }, AUDIT_SIGNING_PRIVATE_KEY, {
+        algorithm: 'RS256',
+        issuer: AUDIT_ISSUER,
+    });
+
+    return { from, to, entries, signature };
+}
+
+/**
+ * Check an exported segment: signature, summary and the chain inside it
+ */
+export function verifyAuditSegment(segment: AuditSegment, publicKey: string | undefined = AUDIT_SIGNING_PUBLIC_KEY): AuditChainIssue[] {
+    if (!publicKey) {
+        throw new Error('AUDIT_SIGNING_PUBLIC_KEY not configured');
+    }
+
+    let summary: any;
+    try {
+        summary = jwt.verify(segment.signature, publicKey, { algorithms: ['RS256'], issuer: AUDIT_ISSUER });
+    } catch (error: any) {
+        return [{ sequence: segment.from, type: 'signature', detail: `Invalid segment signature: ${error.message}` }];
+    }
+
+    const entries = [...segment.entries].sort((a, b) => a.sequence - b.sequence);
+    const issues = verifyEntries(entries, summary.prevHash);
+    const head = entries[entries.length - 1];
+
+    if (entries.length !== summary.count || entries[0]?.sequence !== summary.from || head?.sequence !== summary.to) {
+        issues.push({ sequence: summary.from, type: 'gap', detail: `Signed for ${summary.count} entries (${summary.from}-${summary.to}), found ${entries.length}` });
+    }
+    if (head?.entry_hash !== summary.headHash) {
+        issues.push({ sequence: summary.to, type: 'head_mismatch', detail: 'Last entry hash differs from the signed head hash' });
+    }
+
+    return issues;
+}
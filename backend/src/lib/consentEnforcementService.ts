@@ -7,6 +7,9 @@
 import { fhirGet, fhirPost, type FhirBundle } from './fhirClient';
 import { validateConsentToken, validateTokenForResource, type PurposeOfUse } from './consentTokenService';
 import { supabaseAdmin } from './supabaseClient';
+import { describeProvisionRestrictions } from './consentProvisions';
+import { createEmergencyGrant, findActiveEmergencyGrant } from './emergencyAccessService';
+import { appendAuditEntry } from './auditLog';
 import type {
     ConsentEvaluationRequest,
     ConsentEvaluationResult,
@@ -32,6 +35,21 @@ export async function evaluateConsent(
 
     // 1. Validate consent token if provided
     if (!request.consentToken) {
+        // Emergency requests may run on an active break-the-glass grant instead
+        if (request.purposeOfUse === 'EMERGENCY') {
+            const grant = await findActiveEmergencyGrant(request.patientAbha, request.organizationId, request.resourceType);
+            if (grant) {
+                return {
+                    allowed: true,
+                    consentId: `EMERGENCY:${grant.id}`,
+                    restrictions: {
+                        allowedResources: grant.resource_types,
+                        validUntil: grant.expires_at,
+                    },
+                };
+            }
+        }
+
         return {
             allowed: false,
             reason: 'No consent token provided',
@@ -139,13 +157,16 @@ export async function evaluateConsent(
     }
 
     // ALL CHECKS PASSED - ALLOW ACCESS
+    // Search results are filtered entry by entry against the returned provision
     return {
         allowed: true,
         consentId: payload.consentId,
         restrictions: {
             allowedResources: payload.allowedResources,
             validUntil: payload.validUntil,
+            ...describeProvisionRestrictions(consent.provision),
         },
+        provision: consent.provision,
     };
 }
 
@@ -155,23 +176,26 @@ export async function evaluateConsent(
 
 /**
  * Evaluate emergency "break-the-glass" access request
- * Allows access without consent but creates audit trail and notifies patient
+ * Allows access without consent but persists a time-limited grant,
+ * notifies the patient and leaves the grant open for patient review
  * 
  * @param patientAbha - Patient ABHA number
  * @param organizationId - Organization requesting emergency access
  * @param reason - Emergency justification
  * @param resourceType - Resource type being accessed
+ * @param justification - Clinical details behind the reason
  * @returns Evaluation result
  */
 export async function evaluateEmergencyAccess(
     patientAbha: string,
     organizationId: string,
     reason: string,
-    resourceType: string
+    resourceType: string,
+    justification?: string
 ): Promise<ConsentEvaluationResult> {
 
     // Validate emergency reason is provided
-    if (!reason || reason.length < 10) {
+    if (!reason || `${reason}${justification || ''}`.length < 10) {
         return {
             allowed: false,
             reason: 'Emergency access requires detailed justification (minimum 10 characters)',
@@ -183,6 +207,7 @@ export async function evaluateEmergencyAccess(
         .from('organizations')
         .select('*')
         .eq('id', organizationId)
+        .eq('active', true)
         .single();
 
     if (orgError || !org) {
@@ -207,16 +232,31 @@ export async function evaluateEmergencyAccess(
         .eq('abha_number', patientAbha)
         .single();
 
-    // TODO: Send notification to patient (email/SMS)
-    // await sendEmergencyAccessNotification(patientMap?.supabase_user_id, org.name, reason);
+    if (!patientMap?.supabase_user_id) {
+        return {
+            allowed: false,
+            reason: 'Patient not found',
+        };
+    }
+
+    // Persist the grant and notify the patient
+    const grant = await createEmergencyGrant({
+        patientId: patientMap.supabase_user_id,
+        patientAbha,
+        organizationId,
+        organizationName: org.name,
+        resourceTypes: [resourceType], // Only requested resource
+        reason,
+        justification,
+    });
 
     // ALLOW emergency access with restrictions
     return {
         allowed: true,
-        consentId: 'EMERGENCY_ACCESS',
+        consentId: `EMERGENCY:${grant.id}`,
         restrictions: {
-            allowedResources: [resourceType], // Only requested resource
-            validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+            allowedResources: grant.resource_types,
+            validUntil: grant.expires_at,
         },
     };
 }
@@ -235,29 +275,13 @@ export async function createAuditEvent(data: AuditEventData): Promise<{
     fhirId?: string;
 }> {
 
-    // 1. Create lightweight SQL audit event
-    const { data: sqlAudit, error: sqlError } = await supabaseAdmin
-        .from('audit_events')
-        .insert({
-            patient_id: data.patientId,
-            organization_id: data.organizationId,
-            action: data.action,
-            resource_type: data.resourceType,
-            resource_id: data.resourceId,
-            consent_id: data.consentId,
-            purpose_of_use: data.purposeOfUse,
-            outcome: data.outcome,
-            outcome_reason: data.outcomeReason,
-            ip_address: data.ipAddress,
-            user_agent: data.userAgent,
-            metadata: data.metadata || {},
-        })
-        .select()
-        .single();
-
-    if (sqlError) {
-        console.error('Failed to create SQL audit event:', sqlError);
-        throw new Error(`Audit logging failed: ${sqlError.message}`);
+    // 1. Append to the hash-chained SQL audit log
+    let sqlAudit;
+    try {
+        sqlAudit = await appendAuditEntry({ source: 'consent', ...data });
+    } catch (error: any) {
+        console.error('Failed to create SQL audit event:', error);
+        throw error;
     }
 
     // 2. Create FHIR AuditEvent resource (ABDM compliance)
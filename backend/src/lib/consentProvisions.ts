@@ -0,0 +1,235 @@
+/**
+ * Consent Provisions
+ * Entry-level evaluation of FHIR Consent.provision: data periods,
+ * security-label exclusions and nested deny/permit exceptions
+ */
+
+import type { FhirBundle } from './fhirClient';
+import type { ConsentGrantRequest, ConsentProvision, SensitiveCategory } from '../types/consentTypes';
+
+const ACT_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+
+// ============================================================
+// SENSITIVE CATEGORIES
+// ============================================================
+
+interface SensitiveCategoryDefinition {
+    label: { system: string; code: string };
+    display: string;
+    // ICD-10 code prefixes that carry this sensitivity when the resource is not labeled
+    icd10Prefixes: string[];
+}
+
+/**
+ * Categories a patient can exclude, with their HL7 information-sensitivity labels
+ */
+export const SENSITIVE_CATEGORIES: Record<SensitiveCategory, SensitiveCategoryDefinition> = {
+    mental_health: {
+        label: { system: ACT_CODE_SYSTEM, code: 'PSY' },
+        display: 'Mental health',
+        icd10Prefixes: ['F0', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9'],
+    },
+    hiv: {
+        label: { system: ACT_CODE_SYSTEM, code: 'HIV' },
+        display: 'HIV/AIDS',
+        icd10Prefixes: ['B20', 'B21', 'B22', 'B23', 'B24', 'Z21', 'R75'],
+    },
+    reproductive_health: {
+        label: { system: ACT_CODE_SYSTEM, code: 'SEX' },
+        display: 'Sexual and reproductive health',
+        icd10Prefixes: ['O', 'Z30', 'Z31', 'Z32', 'Z33', 'Z34', 'Z35', 'Z36', 'Z37', 'N96', 'N97', 'A5', 'A60', 'A63', 'A64'],
+    },
+    substance_use: {
+        label: { system: ACT_CODE_SYSTEM, code: 'ETH' },
+        display: 'Substance use',
+        icd10Prefixes: ['F1'],
+    },
+};
+
+/**
+ * Security labels on a resource: its own meta.security plus labels implied
+ * by ICD-10 codes, so unlabeled records are still caught by an exclusion
+ */
+export function getSecurityLabels(resource: any): Set<string> {
+    const labels = new Set<string>(
+        (resource?.meta?.security || []).map((s: any) => `${s.system}|${s.code}`)
+    );
+
+    const codings = [
+        ...(resource?.code?.coding || []),
+        ...(resource?.type?.coding || []),
+        ...(resource?.category || []).flatMap((c: any) => c?.coding || []),
+        ...(resource?.reasonCode || []).flatMap((c: any) => c?.coding || []),
+    ];
+
+    for (const coding of codings) {
+        if (!coding?.code || !/icd-?10/i.test(coding.system || '')) continue;
+        const code = String(coding.code).toUpperCase();
+        for (const definition of Object.values(SENSITIVE_CATEGORIES)) {
+            if (definition.icd10Prefixes.some((prefix) => code.startsWith(prefix))) {
+                labels.add(`${definition.label.system}|${definition.label.code}`);
+            }
+        }
+    }
+
+    return labels;
+}
+
+// ============================================================
+// PROVISION MATCHING
+// ============================================================
+
+/**
+ * Clinical date of a resource (when the care happened, not when it was stored)
+ */
+export function getClinicalDate(resource: any): string | null {
+    return resource?.effectiveDateTime
+        || resource?.effectivePeriod?.start
+        || resource?.issued
+        || resource?.onsetDateTime
+        || resource?.recordedDate
+        || resource?.authoredOn
+        || resource?.occurrenceDateTime
+        || resource?.performedDateTime
+        || resource?.period?.start
+        || resource?.context?.period?.start
+        || resource?.date
+        || null;
+}
+
+function isWithinPeriod(date: string | null, period: { start?: string; end?: string }): boolean {
+    // Records without a clinical date cannot be shown to fall inside the period
+    if (!date) return false;
+
+    const time = new Date(date).getTime();
+    if (isNaN(time)) return false;
+    if (period.start && time < new Date(period.start).getTime()) return false;
+    // A date-only end covers the whole day
+    if (period.end) {
+        const end = new Date(period.end);
+        if (/^\d{4}-\d{2}-\d{2}$/.test(period.end)) end.setUTCHours(23, 59, 59, 999);
+        if (time > end.getTime()) return false;
+    }
+    return true;
+}
+
+function matchesData(provision: ConsentProvision, resource: any): boolean {
+    const instance = `${resource.resourceType}/${resource.id}`;
+    return (provision.data || []).some((d) => {
+        const reference = d.reference.reference;
+        return reference.includes('/') ? reference === instance : reference === resource.resourceType;
+    });
+}
+
+/**
+ * Whether every criterion set on a provision holds for the resource
+ */
+function matchesProvision(provision: ConsentProvision, resource: any): boolean {
+    if (provision.dataPeriod && !isWithinPeriod(getClinicalDate(resource), provision.dataPeriod)) {
+        return false;
+    }
+
+    if (provision.securityLabel && provision.securityLabel.length > 0) {
+        const labels = getSecurityLabels(resource);
+        if (!provision.securityLabel.some((l) => labels.has(`${l.system}|${l.code}`))) return false;
+    }
+
+    if (provision.data && provision.data.length > 0 && !matchesData(provision, resource)) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Decide a single resource against a provision tree.
+ * The root provision must match; the deepest nested provision that matches
+ * decides (a deny for one document inside a permit, and so on).
+ */
+export function isResourcePermitted(provision: ConsentProvision, resource: any): boolean {
+    if (!matchesProvision(provision, resource)) {
+        return provision.type === 'deny';
+    }
+    return decide(provision, resource);
+}
+
+function decide(provision: ConsentProvision, resource: any): boolean {
+    for (const child of provision.provision || []) {
+        if (matchesProvision(child, resource)) {
+            return decide(child, resource);
+        }
+    }
+    return provision.type === 'permit';
+}
+
+/**
+ * Remove the entries of a search Bundle that the consent does not cover
+ */
+export function filterBundleByProvision(
+    bundle: FhirBundle,
+    provision: ConsentProvision
+): { bundle: FhirBundle; excluded: number } {
+    const entries = bundle.entry || [];
+    const permitted = entries.filter((e) => !e.resource || isResourcePermitted(provision, e.resource));
+    const excluded = entries.length - permitted.length;
+
+    return {
+        bundle: {
+            ...bundle,
+            total: bundle.total !== undefined ? Math.max(bundle.total - excluded, 0) : undefined,
+            entry: permitted,
+        },
+        excluded,
+    };
+}
+
+// ============================================================
+// PROVISION CONSTRUCTION
+// ============================================================
+
+/**
+ * Nested deny provisions for the patient's exclusions in a grant request
+ */
+export function buildExclusionProvisions(request: Pick<ConsentGrantRequest, 'excludedCategories' | 'excludedRecords'>): ConsentProvision[] {
+    const provisions: ConsentProvision[] = [];
+
+    if (request.excludedCategories && request.excludedCategories.length > 0) {
+        provisions.push({
+            type: 'deny',
+            securityLabel: request.excludedCategories.map((c) => SENSITIVE_CATEGORIES[c].label),
+        });
+    }
+
+    if (request.excludedRecords && request.excludedRecords.length > 0) {
+        provisions.push({
+            type: 'deny',
+            data: request.excludedRecords.map((reference) => ({
+                meaning: 'instance' as const,
+                reference: { reference },
+            })),
+        });
+    }
+
+    return provisions;
+}
+
+/**
+ * Summarize the fine-grained restrictions of a provision tree for API responses
+ */
+export function describeProvisionRestrictions(provision: ConsentProvision): {
+    dataPeriod?: { start?: string; end?: string };
+    excludedCategories?: SensitiveCategory[];
+    excludedRecords?: string[];
+} {
+    const denies = (provision.provision || []).filter((p) => p.type === 'deny');
+    const labels = new Set(denies.flatMap((p) => (p.securityLabel || []).map((l) => `${l.system}|${l.code}`)));
+    const excludedCategories = (Object.keys(SENSITIVE_CATEGORIES) as SensitiveCategory[])
+        .filter((c) => labels.has(`${SENSITIVE_CATEGORIES[c].label.system}|${SENSITIVE_CATEGORIES[c].label.code}`));
+    const excludedRecords = denies.flatMap((p) => (p.data || []).map((d) => d.reference.reference));
+
+    return {
+        ...(provision.dataPeriod ? { dataPeriod: provision.dataPeriod } : {}),
+        ...(excludedCategories.length > 0 ? { excludedCategories } : {}),
+        ...(excludedRecords.length > 0 ? { excludedRecords } : {}),
+    };
+}
@@ -13,6 +13,7 @@ import {
     type PurposeOfUse,
 } from './consentTokenService';
 import { supabaseAdmin } from './supabaseClient';
+import { buildExclusionProvisions, SENSITIVE_CATEGORIES } from './consentProvisions';
 import type {
     FhirConsent,
     ConsentGrantRequest,
@@ -145,9 +146,17 @@ export async function grantConsent(request: ConsentGrantRequest): Promise<{
                     reference: resourceType,
                 },
             })),
+            // Only records whose clinical date falls in this range are shared
+            ...(request.dataPeriod ? { dataPeriod: request.dataPeriod } : {}),
         },
     };
 
+    // Sensitive categories and individual records the patient withheld
+    const exclusions = buildExclusionProvisions(request);
+    if (exclusions.length > 0) {
+        consentResource.provision.provision = exclusions;
+    }
+
     // 4. Create Consent in HAPI FHIR
     const fhirResponse = await fhirPost<any>('Consent', consentResource as any);
 
@@ -253,6 +262,7 @@ export async function getPatientConsents(patientId: string): Promise<ConsentList
             revoked,
             revoked_at,
             revoked_reason,
+            template_id,
             organizations (
                 name,
                 type
@@ -289,6 +299,7 @@ export async function getPatientConsents(patientId: string): Promise<ConsentList
             status,
             revokedAt: token.revoked_at,
             revokedReason: token.revoked_reason,
+            templateId: token.template_id || undefined,
         };
     });
 }
@@ -360,6 +371,36 @@ export function validateConsentRequest(request: ConsentGrantRequest): {
         errors.push('Valid until date must be in the future');
     }
 
+    if (request.dataPeriod) {
+        const { start, end } = request.dataPeriod;
+        if (!start && !end) {
+            errors.push('Data period needs a start or an end date');
+        }
+        if ((start && isNaN(new Date(start).getTime())) || (end && isNaN(new Date(end).getTime()))) {
+            errors.push('Data period dates must be valid ISO dates');
+        } else if (start && end && new Date(start) > new Date(end)) {
+            errors.push('Data period start must be before its end');
+        }
+    }
+
+    if (request.excludedCategories !== undefined && !Array.isArray(request.excludedCategories)) {
+        errors.push('Excluded categories must be a list');
+    } else {
+        const unknownCategories = (request.excludedCategories || []).filter((c) => !(c in SENSITIVE_CATEGORIES));
+        if (unknownCategories.length > 0) {
+            errors.push(`Unknown sensitive categories: ${unknownCategories.join(', ')}`);
+        }
+    }
+
+    if (request.excludedRecords !== undefined && !Array.isArray(request.excludedRecords)) {
+        errors.push('Excluded records must be a list');
+    } else {
+        const invalidRecords = (request.excludedRecords || []).filter((r) => !/^[A-Za-z]+\/[A-Za-z0-9\-.]{1,64}$/.test(r));
+        if (invalidRecords.length > 0) {
+            errors.push(`Excluded records must be references like DocumentReference/123: ${invalidRecords.join(', ')}`);
+        }
+    }
+
     return {
         valid: errors.length === 0,
         errors,
@@ -0,0 +1,437 @@
+/**
+ * Consent Template Service
+ * Reusable consents per organization type (e.g. "Primary care physician –
+ * treatment – 1 year"), one-tap grants and renewals from a template, and
+ * renewal reminders before long-running consents end
+ */
+
+import { supabaseAdmin } from './supabaseClient';
+import { grantConsent, validateConsentRequest } from './consentService';
+import { isValidPurposeOfUse } from './consentTokenService';
+import { SENSITIVE_CATEGORIES } from './consentProvisions';
+import { getPatientNotifier } from './patientNotifier';
+import type { ConsentGrantRequest, ConsentTemplate, ConsentTemplateInput } from '../types/consentTypes';
+
+// ============================================================
+// TYPES & INTERFACES
+// ============================================================
+
+export interface TemplateGrantResult {
+    success: boolean;
+    error?: string;
+    consentId?: string;
+    token?: string;
+    tokenId?: string;
+    validUntil?: string;
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+// Consents granted without a template count as long-running from this length
+const RENEWAL_MIN_DAYS = parseInt(process.env.CONSENT_RENEWAL_MIN_DAYS || '90');
+// ...and get their reminder this many days before they end
+const RENEWAL_REMINDER_DAYS = parseInt(process.env.CONSENT_RENEWAL_REMINDER_DAYS || '14');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mapTemplate(row: any): ConsentTemplate {
+    return {
+        id: row.id,
+        organizationType: row.organization_type,
+        organizationId: row.organization_id,
+        name: row.name,
+        description: row.description,
+        purposeOfUse: row.purpose_of_use,
+        allowedResources: row.allowed_resources,
+        excludedCategories: row.excluded_categories || [],
+        durationDays: row.duration_days,
+        renewable: row.renewable,
+        renewalReminderDays: row.renewal_reminder_days,
+        isActive: row.is_active,
+    };
+}
+
+// ============================================================
+// TEMPLATE MANAGEMENT
+// ============================================================
+
+/**
+ * Validate a template definition
+ * @param partial - Only check the fields present (updates)
+ */
+export function validateTemplateInput(input: Partial<ConsentTemplateInput>, partial = false): string[] {
+    const errors: string[] = [];
+
+    if (!partial || input.name !== undefined) {
+        if (!input.name || !input.name.trim()) errors.push('Name is required');
+    }
+    if (!partial || input.purposeOfUse !== undefined) {
+        if (!input.purposeOfUse || !isValidPurposeOfUse(input.purposeOfUse)) {
+            errors.push('Purpose of use must be TREATMENT, EMERGENCY, INSURANCE or RESEARCH');
+        }
+    }
+    if (!partial || input.allowedResources !== undefined) {
+        if (!Array.isArray(input.allowedResources) || input.allowedResources.length === 0) {
+            errors.push('At least one resource type must be allowed');
+        }
+    }
+    if (!partial || input.durationDays !== undefined) {
+        if (!Number.isInteger(input.durationDays) || (input.durationDays as number) < 1) {
+            errors.push('Duration must be a whole number of days');
+        }
+    }
+    if (input.renewalReminderDays !== undefined
+        && (!Number.isInteger(input.renewalReminderDays) || input.renewalReminderDays < 0)) {
+        errors.push('Renewal reminder must be zero or more days');
+    }
+
+    const unknownCategories = (input.excludedCategories || []).filter((c) => !(c in SENSITIVE_CATEGORIES));
+    if (unknownCategories.length > 0) {
+        errors.push(`Unknown sensitive categories: ${unknownCategories.join(', ')}`);
+    }
+
+    return errors;
+}
+
+function toRow(input: Partial<ConsentTemplateInput>): Record<string, any> {
+    const row: Record<string, any> = {
+        organization_type: input.organizationType,
+        organization_id: input.organizationId,
+        name: input.name?.trim(),
+        description: input.description,
+        purpose_of_use: input.purposeOfUse,
+        allowed_resources: input.allowedResources,
+        excluded_categories: input.excludedCategories,
+        duration_days: input.durationDays,
+        renewable: input.renewable,
+        renewal_reminder_days: input.renewalReminderDays,
+    };
+    Object.keys(row).forEach((key) => row[key] === undefined && delete row[key]);
+    return row;
+}
+
+/**
+ * List templates, optionally for one organization type or organization
+ */
+export async function listTemplates(filters: {
+    organizationType?: string;
+    organizationId?: string;
+    includeInactive?: boolean;
+} = {}): Promise<ConsentTemplate[]> {
+    let query = supabaseAdmin
+        .from('consent_templates')
+        .select('*')
+        .order('name');
+
+    if (filters.organizationType) query = query.eq('organization_type', filters.organizationType);
+    if (filters.organizationId) query = query.eq('organization_id', filters.organizationId);
+    if (!filters.includeInactive) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) {
+        throw new Error(`Failed to load consent templates: ${error.message}`);
+    }
+
+    return (data || []).map(mapTemplate);
+}
+
+export async function createTemplate(input: ConsentTemplateInput): Promise<ConsentTemplate> {
+    const { data, error } = await supabaseAdmin
+        .from('consent_templates')
+        .insert(toRow(input))
+        .select()
+        .single();
+
+    if (error || !data) {
+        throw new Error(`Failed to create consent template: ${error?.message}`);
+    }
+
+    return mapTemplate(data);
+}
+
+/**
+ * Update a template. Consents already granted from it keep their terms;
+ * renewals use the new ones.
+ */
+export async function updateTemplate(
+    templateId: string,
+    input: Partial<ConsentTemplateInput>
+): Promise<ConsentTemplate | null> {
+    const { data, error } = await supabaseAdmin
+        .from('consent_templates')
+        .update(toRow(input))
+        .eq('id', templateId)
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to update consent template: ${error.message}`);
+    }
+
+    return data ? mapTemplate(data) : null;
+}
+
+/**
+ * Stop offering a template (granted consents are unaffected)
+ */
+export async function deactivateTemplate(templateId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+        .from('consent_templates')
+        .update({ is_active: false })
+        .eq('id', templateId)
+        .select('id');
+
+    if (error) {
+        throw new Error(`Failed to deactivate consent template: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+}
+
+/**
+ * Templates a patient can grant to an organization: its own templates,
+ * those for its type and those for every type
+ */
+export async function getTemplatesForOrganization(organizationId: string): Promise<{
+    organization: { id: string; name: string; type: string } | null;
+    templates: ConsentTemplate[];
+}> {
+    const { data: org } = await supabaseAdmin
+        .from('organizations')
+        .select('id, name, type')
+        .eq('id', organizationId)
+        .maybeSingle();
+
+    if (!org) {
+        return { organization: null, templates: [] };
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('consent_templates')
+        .select('*')
+        .eq('is_active', true)
+        .or(`organization_id.eq.${org.id},and(organization_id.is.null,organization_type.eq.${org.type}),and(organization_id.is.null,organization_type.is.null)`)
+        .order('name');
+
+    if (error) {
+        throw new Error(`Failed to load consent templates: ${error.message}`);
+    }
+
+    return { organization: org, templates: (data || []).map(mapTemplate) };
+}
+
+// ============================================================
+// ONE-TAP GRANT & RENEWAL
+// ============================================================
+
+/**
+ * Grant a consent to an organization on the terms of a template
+ * @param patientId - Supabase user ID
+ */
+export async function grantConsentFromTemplate(
+    patientId: string,
+    templateId: string,
+    organizationId: string
+): Promise<TemplateGrantResult> {
+    const { organization, templates } = await getTemplatesForOrganization(organizationId);
+    if (!organization) {
+        return { success: false, error: 'Organization not found' };
+    }
+
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) {
+        return { success: false, error: 'Template not available for this organization' };
+    }
+
+    const { data: patientMap } = await supabaseAdmin
+        .from('fhir_user_map')
+        .select('abha_number')
+        .eq('supabase_user_id', patientId)
+        .maybeSingle();
+
+    if (!patientMap?.abha_number) {
+        return { success: false, error: 'Please link your ABHA before granting consent' };
+    }
+
+    const validFrom = new Date();
+    const grantRequest: ConsentGrantRequest = {
+        patientId,
+        patientAbha: patientMap.abha_number,
+        organizationId,
+        organizationName: organization.name,
+        purposeOfUse: template.purposeOfUse,
+        allowedResources: template.allowedResources,
+        validFrom: validFrom.toISOString(),
+        validUntil: new Date(validFrom.getTime() + template.durationDays * DAY_MS).toISOString(),
+        notes: `Granted from template: ${template.name}`,
+        excludedCategories: template.excludedCategories,
+    };
+
+    const validation = validateConsentRequest(grantRequest);
+    if (!validation.valid) {
+        return { success: false, error: validation.errors.join('; ') };
+    }
+
+    const result = await grantConsent(grantRequest);
+
+    const { error } = await supabaseAdmin
+        .from('consent_tokens')
+        .update({ template_id: template.id })
+        .eq('id', result.tokenId);
+
+    if (error) {
+        console.error(`❌ [ConsentTemplates] Failed to link token ${result.tokenId} to template:`, error.message);
+    }
+
+    return {
+        success: true,
+        consentId: result.consent.id,
+        token: result.token,
+        tokenId: result.tokenId,
+        validUntil: grantRequest.validUntil,
+    };
+}
+
+/**
+ * Renew a template consent: a new consent on the template's current terms.
+ * The old one stays valid until it ends, so access is not interrupted.
+ * @param tokenId - consent_tokens ID of the consent being renewed
+ */
+export async function renewConsent(tokenId: string, patientId: string): Promise<TemplateGrantResult> {
+    const { data: token } = await supabaseAdmin
+        .from('consent_tokens')
+        .select('*')
+        .eq('id', tokenId)
+        .maybeSingle();
+
+    if (!token || token.patient_id !== patientId) {
+        return { success: false, error: 'Consent not found' };
+    }
+    if (token.revoked) {
+        return { success: false, error: 'Consent was revoked; grant a new one instead' };
+    }
+    if (token.renewed_by) {
+        return { success: false, error: 'Consent has already been renewed' };
+    }
+    if (!token.template_id) {
+        return { success: false, error: 'Consent was not granted from a template; grant a new one instead' };
+    }
+
+    const { data: template } = await supabaseAdmin
+        .from('consent_templates')
+        .select('renewable, is_active')
+        .eq('id', token.template_id)
+        .maybeSingle();
+
+    if (!template?.is_active || !template.renewable) {
+        return { success: false, error: 'This consent cannot be renewed; grant a new one instead' };
+    }
+
+    const result = await grantConsentFromTemplate(patientId, token.template_id, token.organization_id);
+    if (!result.success) {
+        return result;
+    }
+
+    await supabaseAdmin
+        .from('consent_tokens')
+        .update({ renewed_by: result.tokenId })
+        .eq('id', tokenId);
+
+    return result;
+}
+
+// ============================================================
+// RENEWAL REMINDERS
+// ============================================================
+
+/**
+ * Remind patients about long-running consents that end soon: template
+ * consents per the template's reminder window, other consents of at least
+ * CONSENT_RENEWAL_MIN_DAYS at CONSENT_RENEWAL_REMINDER_DAYS before the end.
+ * Each consent is reminded once; failed notifications retry on the next run.
+ * @returns Number of reminders sent
+ */
+export async function sendRenewalReminders(): Promise<number> {
+    const now = new Date();
+    const { data: templates, error: templateError } = await supabaseAdmin
+        .from('consent_templates')
+        .select('id, name, renewable, renewal_reminder_days');
+
+    if (templateError) {
+        throw new Error(`Failed to load consent templates: ${templateError.message}`);
+    }
+
+    const templatesById = new Map((templates || []).map((t: any) => [t.id, t]));
+    const lookaheadDays = Math.max(RENEWAL_REMINDER_DAYS, ...(templates || []).map((t: any) => t.renewal_reminder_days));
+
+    const { data: tokens, error } = await supabaseAdmin
+        .from('consent_tokens')
+        .select(`
+            id,
+            consent_fhir_id,
+            patient_id,
+            template_id,
+            issued_at,
+            expires_at,
+            organizations (
+                name
+            )
+        `)
+        .eq('revoked', false)
+        .is('renewal_reminded_at', null)
+        .is('renewed_by', null)
+        .gt('expires_at', now.toISOString())
+        .lte('expires_at', new Date(now.getTime() + lookaheadDays * DAY_MS).toISOString());
+
+    if (error) {
+        throw new Error(`Failed to load consents due for renewal: ${error.message}`);
+    }
+
+    const notifier = getPatientNotifier();
+    let sent = 0;
+
+    for (const token of tokens || []) {
+        const expiresAt = new Date(token.expires_at);
+        const template = token.template_id ? templatesById.get(token.template_id) : null;
+        const daysLeft = (expiresAt.getTime() - now.getTime()) / DAY_MS;
+
+        if (template) {
+            if (!template.renewable || daysLeft > template.renewal_reminder_days) continue;
+        } else {
+            const durationDays = (expiresAt.getTime() - new Date(token.issued_at).getTime()) / DAY_MS;
+            if (durationDays < RENEWAL_MIN_DAYS || daysLeft > RENEWAL_REMINDER_DAYS) continue;
+        }
+
+        const organizationName = (token.organizations as any)?.name || 'An organization';
+        try {
+            await notifier.notify({
+                recipientId: token.patient_id,
+                type: 'consent_renewal_due',
+                title: 'Consent ending soon',
+                message: template
+                    ? `Your "${template.name}" consent for ${organizationName} ends on ${expiresAt.toDateString()}. Renew it in one tap to keep sharing.`
+                    : `Your consent for ${organizationName} ends on ${expiresAt.toDateString()}. Grant a new consent if they should keep access.`,
+                data: {
+                    tokenId: token.id,
+                    consentId: token.consent_fhir_id,
+                    templateId: token.template_id,
+                    renewable: !!template,
+                    expiresAt: token.expires_at,
+                },
+            });
+        } catch (notifyError: any) {
+            console.error(`❌ [ConsentTemplates] Renewal reminder failed for token ${token.id}:`, notifyError.message);
+            continue;
+        }
+
+        await supabaseAdmin
+            .from('consent_tokens')
+            .update({ renewal_reminded_at: new Date().toISOString() })
+            .eq('id', token.id);
+        sent++;
+    }
+
+    return sent;
+}
@@ -4,6 +4,7 @@
  * Implements ABDM-compliant consent tokens with purposeOfUse
  */
 
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { supabaseAdmin } from './supabaseClient';
 
@@ -20,6 +21,7 @@ export interface ConsentTokenPayload {
     allowedResources: string[];     // FHIR resource types (Observation, DocumentReference, etc.)
     validFrom: string;              // ISO timestamp
     validUntil: string;             // ISO timestamp
+    jti?: string;                   // Token ID (added by JWT)
     iat?: number;                   // Issued at (added by JWT)
     exp?: number;                   // Expiration (added by JWT)
 }
@@ -34,6 +36,7 @@ export interface ConsentTokenRecord {
     purpose_of_use: PurposeOfUse;
     allowed_resources: string[];
     token_jwt: string;
+    token_jti?: string;
     issued_at: string;
     expires_at: string;
     revoked: boolean;
@@ -48,6 +51,32 @@ export interface TokenValidationResult {
     revoked?: boolean;
 }
 
+/**
+ * RFC 7662 introspection response. Inactive tokens reveal nothing else.
+ */
+export interface TokenIntrospectionResponse {
+    active: boolean;
+    scope?: string;                 // Allowed resource types, space-separated
+    token_type?: 'Bearer';
+    iss?: string;
+    aud?: string;
+    sub?: string;                   // Patient ABHA
+    jti?: string;
+    iat?: number;
+    exp?: number;
+    consent_id?: string;
+    purpose_of_use?: PurposeOfUse;
+    valid_from?: string;
+    valid_until?: string;
+}
+
+export interface RevocationEntry {
+    consentId: string;
+    jti: string | null;
+    revokedAt: string;
+    reason: string | null;
+}
+
 // ============================================================
 // CONFIGURATION
 // ============================================================
@@ -55,7 +84,10 @@ export interface TokenValidationResult {
 const JWT_PRIVATE_KEY = process.env.CONSENT_JWT_PRIVATE_KEY;
 const JWT_PUBLIC_KEY = process.env.CONSENT_JWT_PUBLIC_KEY;
 const JWT_ALGORITHM = 'RS256';
+const JWT_ISSUER = 'niraiva-consent-service';
 const DEFAULT_TOKEN_DURATION_MONTHS = 6;
+const REVOCATION_CACHE_TTL_MS = parseInt(process.env.CONSENT_REVOCATION_CACHE_TTL_MS || '30000');
+const REVOCATION_LIST_TTL_SECONDS = parseInt(process.env.CONSENT_REVOCATION_LIST_TTL_SECONDS || '300');
 
 if (!JWT_PRIVATE_KEY || !JWT_PUBLIC_KEY) {
     console.warn('⚠️  CONSENT_JWT_PRIVATE_KEY or CONSENT_JWT_PUBLIC_KEY not set in environment');
@@ -93,8 +125,9 @@ export function generateConsentToken(payload: ConsentTokenPayload): string {
     const token = jwt.sign(payload, JWT_PRIVATE_KEY, {
         algorithm: JWT_ALGORITHM,
         expiresIn: expiresInSeconds,
-        issuer: 'niraiva-consent-service',
+        issuer: JWT_ISSUER,
         audience: payload.organizationId,
+        jwtid: crypto.randomUUID(),
     });
 
     return token;
@@ -137,6 +170,7 @@ export async function createConsentToken(
 
     // Sign token
     const token = generateConsentToken(payload);
+    const { jti } = jwt.decode(token) as ConsentTokenPayload;
 
     // Store in database
     const { data, error } = await supabaseAdmin
@@ -148,6 +182,7 @@ export async function createConsentToken(
             purpose_of_use: purposeOfUse,
             allowed_resources: allowedResources,
             token_jwt: token,
+            token_jti: jti,
             issued_at: new Date().toISOString(),
             expires_at: validUntil,
             revoked: false,
@@ -180,26 +215,22 @@ export async function validateConsentToken(token: string): Promise<TokenValidati
         // Verify signature and decode
         const decoded = jwt.verify(token, JWT_PUBLIC_KEY, {
             algorithms: [JWT_ALGORITHM],
-            issuer: 'niraiva-consent-service',
+            issuer: JWT_ISSUER,
         }) as ConsentTokenPayload;
 
-        // Check if token is revoked in database
-        const { data: tokenRecord, error } = await supabaseAdmin
-            .from('consent_tokens')
-            .select('revoked, revoked_reason')
-            .eq('consent_fhir_id', decoded.consentId)
-            .eq('token_jwt', token)
-            .maybeSingle();
-
-        if (error) {
+        // Check if token is revoked (served from the revocation cache)
+        let revocation: RevocationEntry | undefined;
+        try {
+            revocation = await findRevocation(decoded);
+        } catch (error) {
             console.error('Error checking token revocation:', error);
             return { valid: false, error: 'Database error checking revocation status' };
         }
 
-        if (tokenRecord?.revoked) {
+        if (revocation) {
             return {
                 valid: false,
-                error: `Token revoked: ${tokenRecord.revoked_reason || 'No reason provided'}`,
+                error: `Token revoked: ${revocation.reason || 'No reason provided'}`,
                 revoked: true,
             };
         }
@@ -264,19 +295,22 @@ export async function revokeConsentToken(
     consentFhirId: string,
     reason?: string
 ): Promise<{ success: boolean; error?: string }> {
-    const { error } = await supabaseAdmin
+    const { data, error } = await supabaseAdmin
         .from('consent_tokens')
         .update({
             revoked: true,
             revoked_at: new Date().toISOString(),
             revoked_reason: reason || 'Revoked by patient',
         })
-        .eq('consent_fhir_id', consentFhirId);
+        .eq('consent_fhir_id', consentFhirId)
+        .select('consent_fhir_id, token_jti, revoked_at, revoked_reason');
 
     if (error) {
         return { success: false, error: error.message };
     }
 
+    cacheRevocations(data || []);
+
     return { success: true };
 }
 
@@ -307,9 +341,173 @@ export async function revokeAllTokensForOrganization(
         return { success: false, count: 0, error: error.message };
     }
 
+    cacheRevocations(data || []);
+
     return { success: true, count: data?.length || 0 };
 }
 
+// ============================================================
+// REVOCATION CACHE
+// ============================================================
+
+// Revoked consents still inside their validity period, by consent ID and jti.
+// Revocations made by this instance land immediately; others within
+// REVOCATION_CACHE_TTL_MS.
+const revokedConsents = new Map<string, RevocationEntry>();
+const revokedJtis = new Map<string, RevocationEntry>();
+let revocationsSyncedAt: string | null = null;
+let revocationsRefreshedAt = 0;
+let revocationsRefresh: Promise<void> | null = null;
+
+function toRevocationEntry(row: any): RevocationEntry {
+    return {
+        consentId: row.consent_fhir_id,
+        jti: row.token_jti || null,
+        revokedAt: row.revoked_at,
+        reason: row.revoked_reason || null,
+    };
+}
+
+function cacheRevocations(rows: any[]): void {
+    for (const row of rows) {
+        const entry = toRevocationEntry(row);
+        revokedConsents.set(entry.consentId, entry);
+        if (entry.jti) revokedJtis.set(entry.jti, entry);
+    }
+}
+
+/**
+ * Pull revocations made since the last sync (all unexpired ones on first load)
+ */
+async function refreshRevocations(): Promise<void> {
+    const startedAt = new Date().toISOString();
+
+    let query = supabaseAdmin
+        .from('consent_tokens')
+        .select('consent_fhir_id, token_jti, revoked_at, revoked_reason')
+        .eq('revoked', true);
+
+    query = revocationsSyncedAt
+        ? query.gte('revoked_at', revocationsSyncedAt)
+        : query.gt('expires_at', startedAt);
+
+    const { data, error } = await query;
+    if (error) {
+        throw new Error(`Failed to load revocations: ${error.message}`);
+    }
+
+    cacheRevocations(data || []);
+    revocationsSyncedAt = startedAt;
+    revocationsRefreshedAt = Date.now();
+}
+
+async function findRevocation(payload: ConsentTokenPayload): Promise<RevocationEntry | undefined> {
+    if (Date.now() - revocationsRefreshedAt > REVOCATION_CACHE_TTL_MS) {
+        revocationsRefresh = revocationsRefresh || refreshRevocations().finally(() => { revocationsRefresh = null; });
+        await revocationsRefresh;
+    }
+
+    return (payload.jti && revokedJtis.get(payload.jti)) || revokedConsents.get(payload.consentId);
+}
+
+// ============================================================
+// INTROSPECTION & REVOCATION LIST
+// ============================================================
+
+/**
+ * RFC 7662 token introspection. Only the organization the token was
+ * issued to learns anything about it.
+ * @param token - JWT string
+ * @param organizationId - Organization asking
+ */
+export async function introspectConsentToken(
+    token: string,
+    organizationId: string
+): Promise<TokenIntrospectionResponse> {
+    const result = await validateConsentToken(token);
+
+    if (!result.valid || !result.payload || result.payload.organizationId !== organizationId) {
+        return { active: false };
+    }
+
+    const payload = result.payload;
+    return {
+        active: true,
+        scope: payload.allowedResources.join(' '),
+        token_type: 'Bearer',
+        iss: JWT_ISSUER,
+        aud: payload.organizationId,
+        sub: payload.patientAbha,
+        jti: payload.jti,
+        iat: payload.iat,
+        exp: payload.exp,
+        consent_id: payload.consentId,
+        purpose_of_use: payload.purposeOfUse,
+        valid_from: payload.validFrom,
+        valid_until: payload.validUntil,
+    };
+}
+
+/**
+ * Signed list of an organization's revoked, not yet expired tokens.
+ * Partners poll it and verify it with the consent signing key.
+ * @param organizationId - Organization the list is for
+ * @param since - Only revocations at or after this time (ISO string)
+ * @returns Compact JWS and when to poll next
+ */
+export async function getSignedRevocationList(
+    organizationId: string,
+    since?: string
+): Promise<{ revocationList: string; entries: number; nextUpdate: string }> {
+    if (!JWT_PRIVATE_KEY) {
+        throw new Error('JWT private key not configured');
+    }
+
+    let query = supabaseAdmin
+        .from('consent_tokens')
+        .select('consent_fhir_id, token_jti, revoked_at, revoked_reason')
+        .eq('organization_id', organizationId)
+        .eq('revoked', true)
+        .gt('expires_at', new Date().toISOString())
+        .order('revoked_at', { ascending: true });
+
+    if (since) query = query.gte('revoked_at', since);
+
+    const { data, error } = await query;
+    if (error) {
+        throw new Error(`Failed to load revocations: ${error.message}`);
+    }
+
+    const revoked = (data || []).map(toRevocationEntry);
+    const nextUpdate = new Date(Date.now() + REVOCATION_LIST_TTL_SECONDS * 1000).toISOString();
+
+    const revocationList = jwt.sign({ since: since || null, revoked }, JWT_PRIVATE_KEY, {
+        algorithm: JWT_ALGORITHM,
+        expiresIn: REVOCATION_LIST_TTL_SECONDS,
+        issuer: JWT_ISSUER,
+        audience: organizationId,
+        keyid: getSigningKeyId(),
+    });
+
+    return { revocationList, entries: revoked.length, nextUpdate };
+}
+
+/**
+ * Public key that signs consent tokens and revocation lists, as a JWK Set
+ */
+export function getSigningJwks(): { keys: crypto.JsonWebKey[] } {
+    if (!JWT_PUBLIC_KEY) {
+        throw new Error('JWT public key not configured');
+    }
+
+    const jwk = crypto.createPublicKey(JWT_PUBLIC_KEY).export({ format: 'jwk' });
+    return { keys: [{ ...jwk, kid: getSigningKeyId(), alg: JWT_ALGORITHM, use: 'sig' }] };
+}
+
+function getSigningKeyId(): string {
+    return crypto.createHash('sha256').update(JWT_PUBLIC_KEY || '').digest('base64url').slice(0, 16);
+}
+
 // ============================================================
 // TOKEN QUERIES
 // ============================================================
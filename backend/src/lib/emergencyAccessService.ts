@@ -0,0 +1,350 @@
+/**
+ * Emergency Access Service
+ * Lifecycle of break-the-glass grants: creation with immediate patient
+ * notification, expiry, revocation, patient review and compliance reporting
+ */
+
+import { supabaseAdmin } from './supabaseClient';
+import { getPatientNotifier } from './patientNotifier';
+
+// ============================================================
+// TYPES & INTERFACES
+// ============================================================
+
+export type EmergencyGrantStatus = 'active' | 'expired' | 'revoked';
+export type EmergencyReviewStatus = 'pending' | 'acknowledged' | 'disputed';
+
+export interface EmergencyAccessGrant {
+    id: string;
+    patient_id: string;
+    patient_abha: string;
+    organization_id: string;
+    resource_types: string[];
+    reason: string;
+    justification: string | null;
+    status: EmergencyGrantStatus;
+    granted_at: string;
+    expires_at: string;
+    revoked_at: string | null;
+    revoked_by: string | null;
+    revocation_reason: string | null;
+    notification_channel: string | null;
+    notification_status: 'sent' | 'failed' | null;
+    notification_error: string | null;
+    notified_at: string | null;
+    review_status: EmergencyReviewStatus;
+    reviewed_at: string | null;
+    review_comment: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface EmergencyAccessReportRow {
+    organizationId: string;
+    organizationName: string;
+    total: number;
+    active: number;
+    expired: number;
+    revoked: number;
+    pendingReview: number;
+    acknowledged: number;
+    disputed: number;
+    notificationFailures: number;
+    grants: EmergencyAccessGrant[];
+}
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const EMERGENCY_ACCESS_HOURS = parseInt(process.env.EMERGENCY_ACCESS_HOURS || '24');
+
+// ============================================================
+// GRANT CREATION
+// ============================================================
+
+/**
+ * Persist an emergency grant and notify the patient straight away.
+ * A failed notification does not block care; it is recorded on the grant
+ * and shows up in the compliance report.
+ */
+export async function createEmergencyGrant(params: {
+    patientId: string;
+    patientAbha: string;
+    organizationId: string;
+    organizationName: string;
+    resourceTypes: string[];
+    reason: string;
+    justification?: string;
+}): Promise<EmergencyAccessGrant> {
+    const grantedAt = new Date();
+    const expiresAt = new Date(grantedAt.getTime() + EMERGENCY_ACCESS_HOURS * 60 * 60 * 1000);
+
+    const { data: grant, error } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .insert({
+            patient_id: params.patientId,
+            patient_abha: params.patientAbha,
+            organization_id: params.organizationId,
+            resource_types: params.resourceTypes,
+            reason: params.reason,
+            justification: params.justification || null,
+            status: 'active',
+            granted_at: grantedAt.toISOString(),
+            expires_at: expiresAt.toISOString(),
+        })
+        .select()
+        .single();
+
+    if (error || !grant) {
+        throw new Error(`Failed to record emergency access grant: ${error?.message}`);
+    }
+
+    const notifier = getPatientNotifier();
+    let notification: Record<string, any>;
+
+    try {
+        await notifier.notify({
+            recipientId: params.patientId,
+            type: 'emergency_access_granted',
+            title: 'Emergency access to your records',
+            message: `${params.organizationName} accessed your ${params.resourceTypes.join(', ')} records in an emergency: ${params.reason}. Access ends ${expiresAt.toISOString()}. You can review or dispute this in your consent dashboard.`,
+            data: { grantId: grant.id, organizationId: params.organizationId, expiresAt: expiresAt.toISOString() },
+        });
+        notification = { notification_status: 'sent', notified_at: new Date().toISOString() };
+    } catch (notifyError: any) {
+        console.error(`❌ [EmergencyAccess] Patient notification failed for grant ${grant.id}:`, notifyError.message);
+        notification = { notification_status: 'failed', notification_error: notifyError.message };
+    }
+
+    const { data: updated } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .update({ ...notification, notification_channel: notifier.channel, updated_at: new Date().toISOString() })
+        .eq('id', grant.id)
+        .select()
+        .single();
+
+    return (updated || grant) as EmergencyAccessGrant;
+}
+
+// ============================================================
+// GRANT QUERIES
+// ============================================================
+
+/**
+ * Active, unexpired grant covering a resource type for an organization
+ */
+export async function findActiveEmergencyGrant(
+    patientAbha: string,
+    organizationId: string,
+    resourceType: string
+): Promise<EmergencyAccessGrant | null> {
+    const { data, error } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .select('*')
+        .eq('patient_abha', patientAbha)
+        .eq('organization_id', organizationId)
+        .eq('status', 'active')
+        .gt('expires_at', new Date().toISOString())
+        .contains('resource_types', [resourceType])
+        .order('granted_at', { ascending: false })
+        .limit(1);
+
+    if (error) {
+        console.error('Error fetching emergency access grant:', error);
+        return null;
+    }
+
+    return (data?.[0] as EmergencyAccessGrant) || null;
+}
+
+/**
+ * All emergency grants on a patient's records, newest first (for review)
+ */
+export async function getPatientEmergencyGrants(patientId: string): Promise<any[]> {
+    const { data, error } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .select(`
+            *,
+            organizations (
+                name,
+                type
+            )
+        `)
+        .eq('patient_id', patientId)
+        .order('granted_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching emergency access grants:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+// ============================================================
+// EXPIRY, REVOCATION & REVIEW
+// ============================================================
+
+/**
+ * Mark grants past their expiry as expired
+ * @returns Number of grants expired
+ */
+export async function expireEmergencyGrants(): Promise<number> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .update({ status: 'expired', updated_at: now })
+        .eq('status', 'active')
+        .lte('expires_at', now)
+        .select('id');
+
+    if (error) {
+        throw new Error(`Failed to expire emergency access grants: ${error.message}`);
+    }
+
+    return data?.length || 0;
+}
+
+/**
+ * End an active grant early
+ */
+export async function revokeEmergencyGrant(
+    grantId: string,
+    revokedBy: string,
+    reason?: string
+): Promise<{ success: boolean; error?: string }> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .update({
+            status: 'revoked',
+            revoked_at: now,
+            revoked_by: revokedBy,
+            revocation_reason: reason || null,
+            updated_at: now,
+        })
+        .eq('id', grantId)
+        .eq('status', 'active')
+        .select('id');
+
+    if (error) {
+        return { success: false, error: error.message };
+    }
+    if (!data || data.length === 0) {
+        return { success: false, error: 'Grant not found or no longer active' };
+    }
+
+    return { success: true };
+}
+
+/**
+ * Patient's post-hoc review. Disputing an access that is still running
+ * also revokes it.
+ */
+export async function reviewEmergencyGrant(
+    grantId: string,
+    patientId: string,
+    decision: 'acknowledged' | 'disputed',
+    comment?: string
+): Promise<{ success: boolean; grant?: EmergencyAccessGrant; error?: string }> {
+    const { data: grant, error: fetchError } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .select('*')
+        .eq('id', grantId)
+        .single();
+
+    if (fetchError || !grant) {
+        return { success: false, error: 'Emergency access grant not found' };
+    }
+
+    if (grant.patient_id !== patientId) {
+        return { success: false, error: 'Unauthorized: grant belongs to different patient' };
+    }
+
+    if (decision === 'disputed' && grant.status === 'active') {
+        const revoked = await revokeEmergencyGrant(grantId, patientId, comment || 'Disputed by patient');
+        if (!revoked.success) return revoked;
+    }
+
+    const now = new Date().toISOString();
+    const { data: updated, error } = await supabaseAdmin
+        .from('emergency_access_grants')
+        .update({
+            review_status: decision,
+            reviewed_at: now,
+            review_comment: comment || null,
+            updated_at: now,
+        })
+        .eq('id', grantId)
+        .select()
+        .single();
+
+    if (error) {
+        return { success: false, error: error.message };
+    }
+
+    return { success: true, grant: updated as EmergencyAccessGrant };
+}
+
+// ============================================================
+// COMPLIANCE REPORTING
+// ============================================================
+
+/**
+ * All emergency accesses in a window, grouped per organization
+ */
+export async function getEmergencyAccessReport(filters: {
+    organizationId?: string;
+    from?: string;
+    to?: string;
+} = {}): Promise<EmergencyAccessReportRow[]> {
+    let query = supabaseAdmin
+        .from('emergency_access_grants')
+        .select(`
+            *,
+            organizations (
+                name
+            )
+        `)
+        .order('granted_at', { ascending: false });
+
+    if (filters.organizationId) query = query.eq('organization_id', filters.organizationId);
+    if (filters.from) query = query.gte('granted_at', filters.from);
+    if (filters.to) query = query.lte('granted_at', filters.to);
+
+    const { data, error } = await query;
+
+    if (error) {
+        throw new Error(`Failed to build emergency access report: ${error.message}`);
+    }
+
+    const rows = new Map<string, EmergencyAccessReportRow>();
+    for (const { organizations, ...grant } of (data || []) as any[]) {
+        const row: EmergencyAccessReportRow = rows.get(grant.organization_id) || {
+            organizationId: grant.organization_id,
+            organizationName: organizations?.name || 'Unknown',
+            total: 0,
+            active: 0,
+            expired: 0,
+            revoked: 0,
+            pendingReview: 0,
+            acknowledged: 0,
+            disputed: 0,
+            notificationFailures: 0,
+            grants: [],
+        };
+
+        row.total++;
+        row[grant.status as EmergencyGrantStatus]++;
+        if (grant.review_status === 'pending') row.pendingReview++;
+        if (grant.review_status === 'acknowledged') row.acknowledged++;
+        if (grant.review_status === 'disputed') row.disputed++;
+        if (grant.notification_status !== 'sent') row.notificationFailures++;
+        row.grants.push(grant as EmergencyAccessGrant);
+
+        rows.set(grant.organization_id, row);
+    }
+
+    return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,360 @@
+/**
+ * ABDM health record documents: a parsed report as an NRCeS document Bundle
+ * (Composition first, then every resource it references, all by urn:uuid)
+ */
+
+import crypto from 'crypto';
+import type { FhirResource } from '../fhirClient';
+import {
+    buildPatientResource,
+    buildEncounterResource,
+    buildDiagnosticReportResource,
+    buildVitalObservation,
+    NIRAIVA_RECORD_SYSTEM,
+    type PatientSyncData,
+} from '../fhir-sync';
+import {
+    buildLabObservation,
+    buildReportCondition,
+    buildReportMedicationRequest,
+    conditionName,
+    medicationName,
+    parameterName,
+    readReport,
+    type ParsedReport,
+} from '../fhir-sync/reportResources';
+import { PROFILES, RECORD_TYPE_CODES, SECTION_CODES, profileUrl, type RecordType } from './profiles';
+
+export interface DocumentContext {
+    patient: PatientSyncData;
+    custodian: { id?: string; name: string };      // The facility serving the record (HIP)
+}
+
+interface Section {
+    title: string;
+    code: any;
+    entries: string[];                              // fullUrls
+    lines: string[];                                // Narrative
+}
+
+const VITAL_SIGN_NAMES = /blood pressure|\bbp\b|heart rate|pulse|spo2|oxygen saturation|temperature|respiratory rate/i;
+const BODY_MEASUREMENT_NAMES = /height|weight|\bbmi\b|body mass|waist/i;
+
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * The record type a report is best shared as
+ */
+export function detectRecordType(report: ParsedReport): RecordType {
+    const { json, data } = readReport(report);
+    const label = [json.metadata?.documentType, json.eventInfo?.eventTitle, json.type].filter(Boolean).join(' ').toLowerCase();
+
+    if (/discharge/.test(label)) return 'DischargeSummaryRecord';
+    if (/prescription|\brx\b/.test(label)) return 'PrescriptionRecord';
+    if (/consult|\bopd?\b|clinic visit/.test(label)) return 'OPConsultRecord';
+    if (json.eventInfo?.eventType === 'vitals' || /wellness|vitals/.test(label)) return 'WellnessRecord';
+    if ((data.parameters || data.tests || []).length > 0) return 'DiagnosticReportRecord';
+    if ((data.medications || []).length > 0) return 'PrescriptionRecord';
+    return 'OPConsultRecord';
+}
+
+/**
+ * Collects the entries of one document
+ */
+class DocumentDraft {
+    readonly entries: Array<{ fullUrl: string; resource: FhirResource }> = [];
+
+    add(resource: FhirResource, profile: string): string {
+        const id = crypto.randomUUID();
+        const fullUrl = `urn:uuid:${id}`;
+        this.entries.push({
+            fullUrl,
+            resource: { ...resource, id, meta: { ...(resource as any).meta, profile: [profile] } },
+        });
+        return fullUrl;
+    }
+}
+
+function organization(org: { id?: string; name: string }): FhirResource {
+    const resource: any = { resourceType: 'Organization', name: org.name };
+    if (org.id) {
+        resource.identifier = [{ system: 'https://facility.ndhm.gov.in', value: org.id }];
+    }
+    return resource;
+}
+
+function buildSection(section: Section) {
+    const result: any = { title: section.title, code: section.code };
+    if (section.entries.length > 0) {
+        result.entry = section.entries.map((reference) => ({ reference }));
+    }
+    if (section.lines.length > 0) {
+        result.text = {
+            status: 'generated',
+            div: `<div xmlns="http://www.w3.org/1999/xhtml"><ul>${section.lines.map((l) => `<li>${escapeHtml(l)}</li>`).join('')}</ul></div>`,
+        };
+    }
+    return result;
+}
+
+// ============================================================
+// SECTION CONTENT
+// ============================================================
+
+function addConditions(draft: DocumentDraft, conditions: any[], patientUrl: string, encounterUrl: string, date: string): Section['entries'] {
+    const urls: string[] = [];
+    for (const c of conditions) {
+        const condition: any = buildReportCondition(c, patientUrl, date);
+        if (!condition) continue;
+        condition.encounter = { reference: encounterUrl };
+        urls.push(draft.add(condition, PROFILES.Condition));
+    }
+    return urls;
+}
+
+function addMedications(draft: DocumentDraft, medications: any[], patientUrl: string, authorUrl: string, encounterUrl: string, date: string): string[] {
+    const urls: string[] = [];
+    for (const m of medications) {
+        const medicationRequest: any = buildReportMedicationRequest(m, patientUrl, date);
+        if (!medicationRequest) continue;
+        medicationRequest.requester = { reference: authorUrl };
+        medicationRequest.encounter = { reference: encounterUrl };
+        urls.push(draft.add(medicationRequest, PROFILES.MedicationRequest));
+    }
+    return urls;
+}
+
+function addObservations(draft: DocumentDraft, parameters: any[], patientUrl: string, date: string): string[] {
+    const urls: string[] = [];
+    for (const p of parameters) {
+        const observation = buildLabObservation(p, patientUrl, date);
+        if (observation) urls.push(draft.add(observation, PROFILES.Observation));
+    }
+    return urls;
+}
+
+/**
+ * A lab DiagnosticReport over the report's results
+ * @returns null when the report has no results
+ */
+function addDiagnosticReport(
+    draft: DocumentDraft,
+    report: ParsedReport,
+    parameters: any[],
+    patientUrl: string,
+    encounterUrl: string
+): string | null {
+    const { json, data, date, title } = readReport(report);
+    const results = addObservations(draft, parameters, patientUrl, date);
+    if (results.length === 0) return null;
+
+    const diagnosticReport: any = buildDiagnosticReportResource({
+        status: 'final',
+        category: 'Laboratory',
+        display: title,
+        effectiveDateTime: date,
+        issuedDateTime: report.uploaded_at,
+        conclusion: json.eventInfo?.eventDescription || json.summary || data.summary,
+    }, patientUrl);
+    diagnosticReport.result = results.map((reference) => ({ reference }));
+    diagnosticReport.encounter = { reference: encounterUrl };
+
+    return draft.add(diagnosticReport, PROFILES.DiagnosticReportLab);
+}
+
+const textItems = (items: any[] | undefined) =>
+    (items || []).map((i) => (typeof i === 'string' ? i : i?.text || i?.recommendation || i?.instruction)).filter(Boolean) as string[];
+
+// ============================================================
+// RECORD TYPES
+// ============================================================
+
+interface RecordInput {
+    draft: DocumentDraft;
+    report: ParsedReport;
+    patientUrl: string;
+    authorUrl: string;
+    encounterUrl: string;
+}
+
+const RECORD_SECTIONS: Record<RecordType, (input: RecordInput) => Section[]> = {
+    OPConsultRecord: ({ draft, report, patientUrl, authorUrl, encounterUrl }) => {
+        const { data, date } = readReport(report);
+        const conditions = data.conditions || [];
+        const medications = data.medications || [];
+        const parameters = data.parameters || data.tests || [];
+
+        return [
+            {
+                title: 'Chief complaints',
+                code: SECTION_CODES.chiefComplaints,
+                entries: addConditions(draft, conditions, patientUrl, encounterUrl, date),
+                lines: conditions.map(conditionName).filter(Boolean),
+            },
+            {
+                title: 'Medications',
+                code: SECTION_CODES.medications,
+                entries: addMedications(draft, medications, patientUrl, authorUrl, encounterUrl, date),
+                lines: medications.map(medicationName).filter(Boolean),
+            },
+            {
+                title: 'Other observations',
+                code: SECTION_CODES.otherObservations,
+                entries: addObservations(draft, parameters, patientUrl, date),
+                lines: parameters.filter(parameterName).map((p: any) => `${parameterName(p)}: ${p.value ?? ''} ${p.unit || ''}`.trim()),
+            },
+            {
+                title: 'Follow up',
+                code: SECTION_CODES.followUp,
+                entries: [],
+                lines: [...textItems(data.recommendations), ...textItems(data.follow_up)],
+            },
+        ];
+    },
+
+    DiagnosticReportRecord: ({ draft, report, patientUrl, encounterUrl }) => {
+        const { data, title } = readReport(report);
+        const diagnosticReport = addDiagnosticReport(draft, report, data.parameters || data.tests || [], patientUrl, encounterUrl);
+
+        return [{
+            title,
+            code: SECTION_CODES.diagnosticReport,
+            entries: diagnosticReport ? [diagnosticReport] : [],
+            lines: [],
+        }];
+    },
+
+    PrescriptionRecord: ({ draft, report, patientUrl, authorUrl, encounterUrl }) => {
+        const { data, date } = readReport(report);
+        const medications = data.medications || [];
+
+        return [{
+            title: 'Prescription',
+            code: SECTION_CODES.prescription,
+            entries: addMedications(draft, medications, patientUrl, authorUrl, encounterUrl, date),
+            lines: medications.map(medicationName).filter(Boolean),
+        }];
+    },
+
+    DischargeSummaryRecord: ({ draft, report, patientUrl, authorUrl, encounterUrl }) => {
+        const { data, date } = readReport(report);
+        const conditions = data.conditions || [];
+        const medications = data.medications || [];
+        const investigations = addDiagnosticReport(draft, report, data.parameters || data.tests || [], patientUrl, encounterUrl);
+
+        return [
+            {
+                title: 'Chief complaints',
+                code: SECTION_CODES.chiefComplaints,
+                entries: addConditions(draft, conditions, patientUrl, encounterUrl, date),
+                lines: conditions.map(conditionName).filter(Boolean),
+            },
+            {
+                title: 'Investigations',
+                code: SECTION_CODES.diagnosticReport,
+                entries: investigations ? [investigations] : [],
+                lines: [],
+            },
+            {
+                title: 'Medications',
+                code: SECTION_CODES.medicationHistory,
+                entries: addMedications(draft, medications, patientUrl, authorUrl, encounterUrl, date),
+                lines: medications.map(medicationName).filter(Boolean),
+            },
+            {
+                title: 'Care plan',
+                code: SECTION_CODES.carePlan,
+                entries: [],
+                lines: [...textItems(data.recommendations), ...textItems(data.follow_up)],
+            },
+        ];
+    },
+
+    WellnessRecord: ({ draft, report, patientUrl }) => {
+        const { data, date } = readReport(report);
+        const parameters: any[] = data.parameters || data.tests || [];
+        const vitals = parameters.filter((p) => VITAL_SIGN_NAMES.test(parameterName(p) || ''));
+        const body = parameters.filter((p) => BODY_MEASUREMENT_NAMES.test(parameterName(p) || ''));
+        const other = parameters.filter((p) => !vitals.includes(p) && !body.includes(p));
+
+        // Height and weight from the report's patient details
+        const bodyUrls = addObservations(draft, body, patientUrl, date);
+        for (const type of ['height', 'weight'] as const) {
+            const measurement = data.profile?.[type];
+            if (typeof measurement?.value !== 'number' || body.some((p) => new RegExp(type, 'i').test(parameterName(p)))) continue;
+            const observation = buildVitalObservation({ type, value: measurement.value, unit: measurement.unit, timestamp: date }, patientUrl);
+            if (observation) bodyUrls.push(draft.add(observation, PROFILES.Observation));
+        }
+
+        return [
+            { title: 'Vital signs', code: SECTION_CODES.vitalSigns, entries: addObservations(draft, vitals, patientUrl, date), lines: [] },
+            { title: 'Body measurement', code: SECTION_CODES.bodyMeasurement, entries: bodyUrls, lines: [] },
+            { title: 'Other observations', code: SECTION_CODES.wellnessObservations, entries: addObservations(draft, other, patientUrl, date), lines: [] },
+        ];
+    },
+};
+
+// ============================================================
+// DOCUMENT
+// ============================================================
+
+/**
+ * Build a document Bundle of the given record type from a parsed report.
+ * Sections with nothing in them are left out; validate the result before
+ * sharing it.
+ */
+export function buildDocumentBundle(recordType: RecordType, report: ParsedReport, context: DocumentContext): FhirResource {
+    const { json, date, title } = readReport(report);
+    const draft = new DocumentDraft();
+
+    const patientUrl = draft.add(buildPatientResource(context.patient), PROFILES.Patient);
+    const custodianUrl = draft.add(organization(context.custodian), PROFILES.Organization);
+    const authorUrl = json.metadata?.provider
+        ? draft.add(organization({ name: json.metadata.provider }), PROFILES.Organization)
+        : custodianUrl;
+
+    const encounter: any = buildEncounterResource({
+        type: title,
+        status: 'finished',
+        startDate: date,
+        reasonDisplay: json.eventInfo?.eventDescription,
+    }, patientUrl);
+    encounter.serviceProvider = { reference: authorUrl };
+    if (recordType === 'DischargeSummaryRecord') {
+        encounter.class = { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'IMP', display: 'inpatient encounter' };
+    }
+    const encounterUrl = draft.add(encounter, PROFILES.Encounter);
+
+    const sections = RECORD_SECTIONS[recordType]({ draft, report, patientUrl, authorUrl, encounterUrl })
+        .filter((s) => s.entries.length > 0 || s.lines.length > 0)
+        .map(buildSection);
+
+    const now = new Date().toISOString();
+    const compositionId = crypto.randomUUID();
+    const composition: any = {
+        resourceType: 'Composition',
+        id: compositionId,
+        meta: { profile: [profileUrl(recordType)], lastUpdated: now },
+        identifier: { system: NIRAIVA_RECORD_SYSTEM, value: `${report.id}:${recordType}` },
+        status: 'final',
+        type: RECORD_TYPE_CODES[recordType],
+        subject: { reference: patientUrl },
+        encounter: { reference: encounterUrl },
+        date,
+        author: [{ reference: authorUrl }],
+        title,
+        custodian: { reference: custodianUrl },
+    };
+    if (sections.length > 0) composition.section = sections;
+
+    const bundleId = crypto.randomUUID();
+    return {
+        resourceType: 'Bundle',
+        id: bundleId,
+        meta: { lastUpdated: now, profile: [PROFILES.DocumentBundle] },
+        identifier: { system: 'urn:ietf:rfc:3986', value: `urn:uuid:${bundleId}` },
+        type: 'document',
+        timestamp: now,
+        entry: [{ fullUrl: `urn:uuid:${compositionId}`, resource: composition }, ...draft.entries],
+    };
+}
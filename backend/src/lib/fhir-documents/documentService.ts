@@ -0,0 +1,104 @@
+/**
+ * ABDM health record documents for a patient's parsed reports, validated
+ * against the bundled NRCeS profiles before they are shared
+ */
+
+import type { FhirResource } from '../fhirClient';
+import { supabaseAdmin } from '../supabaseClient';
+import type { PatientSyncData } from '../fhir-sync';
+import type { ParsedReport } from '../fhir-sync/reportResources';
+import { buildDocumentBundle, detectRecordType, type DocumentContext } from './buildDocumentBundle';
+import { validateDocumentBundle, type ProfileIssue } from './profileValidator';
+import type { RecordType } from './profiles';
+
+export interface GeneratedDocument {
+    recordType: RecordType;
+    reportId: string;
+    bundle: FhirResource;
+    issues: ProfileIssue[];
+    valid: boolean;                 // No error-level issues
+}
+
+export interface DocumentOptions {
+    recordType?: RecordType;        // Default: detected per report
+    reportId?: string;
+}
+
+/**
+ * The facility the documents are issued by (ABDM HIP)
+ */
+function custodian(): DocumentContext['custodian'] {
+    return {
+        id: process.env.ABDM_HIP_ID || undefined,
+        name: process.env.ABDM_HIP_NAME || 'Niraiva',
+    };
+}
+
+async function loadPatient(userId: string): Promise<PatientSyncData | null> {
+    const [{ data: profile }, { data: mapping }] = await Promise.all([
+        supabaseAdmin.from('user_profiles').select('*').eq('user_id', userId).maybeSingle(),
+        supabaseAdmin.from('fhir_user_map').select('abha_number').eq('supabase_user_id', userId).maybeSingle(),
+    ]);
+
+    if (!profile) return null;
+
+    return {
+        userId,
+        firstName: profile.first_name || (!profile.last_name ? profile.full_name || profile.name : undefined),
+        middleName: profile.middle_name,
+        lastName: profile.last_name,
+        email: profile.email,
+        mobile: profile.mobile,
+        gender: profile.gender,
+        dob: profile.dob,
+        abhaNumber: profile.abha_number || mapping?.abha_number,
+    };
+}
+
+/**
+ * Generate and validate a document per parsed report of the patient
+ * @returns null if the patient has no profile
+ */
+export async function generatePatientDocuments(
+    userId: string,
+    options: DocumentOptions = {}
+): Promise<GeneratedDocument[] | null> {
+    const patient = await loadPatient(userId);
+    if (!patient) return null;
+
+    let query = supabaseAdmin
+        .from('health_reports')
+        .select('id, report_json, uploaded_at')
+        .eq('user_id', userId)
+        .not('report_json', 'is', null)
+        .order('uploaded_at', { ascending: false });
+
+    if (options.reportId) {
+        query = query.eq('id', options.reportId);
+    }
+
+    const { data: reports, error } = await query;
+    if (error) {
+        throw new Error(`Failed to load reports: ${error.message}`);
+    }
+
+    const context: DocumentContext = { patient, custodian: custodian() };
+
+    return ((reports || []) as ParsedReport[]).map((report) => {
+        const recordType = options.recordType || detectRecordType(report);
+        const bundle = buildDocumentBundle(recordType, report, context);
+        const issues = validateDocumentBundle(bundle);
+
+        if (issues.some((i) => i.severity === 'error')) {
+            console.warn(`⚠️ [FhirDocuments] ${recordType} for report ${report.id} is not conformant (${issues.length} issues)`);
+        }
+
+        return {
+            recordType,
+            reportId: report.id,
+            bundle,
+            issues,
+            valid: !issues.some((i) => i.severity === 'error'),
+        };
+    });
+}
@@ -0,0 +1,10 @@
+/**
+ * FHIR Documents - ABDM health record documents (NRCeS profiles) and
+ * profile validation
+ */
+
+export { RECORD_TYPES, PROFILES, profileUrl, type RecordType } from './profiles';
+export { structureDefinitions, type StructureDefinition } from './structureDefinitions';
+export { validateResource, validateDocumentBundle, toOperationOutcome, type ProfileIssue } from './profileValidator';
+export { buildDocumentBundle, detectRecordType, type DocumentContext } from './buildDocumentBundle';
+export { generatePatientDocuments, type GeneratedDocument, type DocumentOptions } from './documentService';
@@ -0,0 +1,286 @@
+/**
+ * Profile validation for FHIR resources and document Bundles against the
+ * bundled StructureDefinitions
+ */
+
+import type { FhirResource } from '../fhirClient';
+import { structureDefinitions, type ElementDefinition, type StructureDefinition } from './structureDefinitions';
+import { PROFILES, RECORD_TYPES, profileUrl } from './profiles';
+
+export interface ProfileIssue {
+    severity: 'error' | 'warning';
+    path: string;                   // Element id, prefixed with the entry for Bundles
+    message: string;
+    profile?: string;
+}
+
+interface PathSegment {
+    name: string;
+    slice?: string;
+}
+
+/**
+ * Looks up the resource a Reference points to; document Bundles resolve
+ * references to their own entries
+ */
+type ReferenceResolver = (reference: string) => FhirResource | undefined;
+
+const toArray = (value: unknown): any[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+
+function parseElementId(id: string): PathSegment[] {
+    return id.split('.').slice(1).map((part) => {
+        const [name, slice] = part.split(':');
+        return { name, slice };
+    });
+}
+
+/**
+ * Values of a child element; "value[x]" matches valueQuantity, valueString...
+ */
+function childValues(node: any, name: string): any[] {
+    if (!node || typeof node !== 'object') return [];
+    if (!name.endsWith('[x]')) return toArray(node[name]);
+
+    const prefix = name.slice(0, -3);
+    return Object.keys(node)
+        .filter((key) => key.startsWith(prefix) && /^[A-Z]/.test(key.slice(prefix.length)))
+        .flatMap((key) => toArray(node[key]));
+}
+
+/**
+ * Whether actual contains everything in pattern (FHIR pattern[x] semantics):
+ * objects match key by key, arrays when each pattern item matches some item
+ */
+function matchesPattern(actual: any, pattern: any): boolean {
+    if (Array.isArray(pattern)) {
+        return Array.isArray(actual) && pattern.every((p) => actual.some((a) => matchesPattern(a, p)));
+    }
+    if (pattern && typeof pattern === 'object') {
+        return !!actual && typeof actual === 'object' &&
+            Object.entries(pattern).every(([key, value]) => matchesPattern(actual[key], value));
+    }
+    return actual === pattern;
+}
+
+function fixedOrPattern(element: ElementDefinition): { kind: 'fixed' | 'pattern'; value: unknown } | null {
+    for (const [key, value] of Object.entries(element)) {
+        if (key.startsWith('fixed')) return { kind: 'fixed', value };
+        if (key.startsWith('pattern')) return { kind: 'pattern', value };
+    }
+    return null;
+}
+
+const typeOfProfile = (url: string) => structureDefinitions.get(url)?.type || url.split('/').pop();
+
+/**
+ * Validates one resource against one StructureDefinition
+ */
+class ProfileCheck {
+    private elements: ElementDefinition[];
+
+    constructor(private sd: StructureDefinition, private resolve?: ReferenceResolver) {
+        this.elements = sd.differential.element;
+    }
+
+    run(resource: any): ProfileIssue[] {
+        if (resource?.resourceType !== this.sd.type) {
+            return [this.issue(this.sd.type, `Expected a ${this.sd.type}, got ${resource?.resourceType || 'nothing'}`)];
+        }
+
+        const issues: ProfileIssue[] = [];
+        for (const element of this.elements) {
+            if (element.id === this.sd.type) continue;
+            issues.push(...this.checkElement(resource, element));
+        }
+        return issues;
+    }
+
+    private issue(path: string, message: string): ProfileIssue {
+        return { severity: 'error', path, message, profile: this.sd.url };
+    }
+
+    /**
+     * Nodes at an element path, keeping only the members of named slices
+     */
+    private select(resource: any, segments: PathSegment[]): any[] {
+        let nodes = [resource];
+        let id = this.sd.type;
+
+        for (const segment of segments) {
+            id = `${id}.${segment.name}`;
+            nodes = nodes.flatMap((node) => childValues(node, segment.name));
+            if (segment.slice) {
+                const sliceId = `${id}:${segment.slice}`;
+                nodes = nodes.filter((node) => this.inSlice(sliceId, node));
+                id = sliceId;
+            }
+        }
+        return nodes;
+    }
+
+    /**
+     * Slice membership: the slice's fixed/pattern child elements all hold
+     */
+    private inSlice(sliceId: string, node: any): boolean {
+        const discriminators = this.elements.filter((e) =>
+            e.id.startsWith(`${sliceId}.`) && !e.id.slice(sliceId.length + 1).includes('.') && fixedOrPattern(e)
+        );
+
+        return discriminators.every((e) => {
+            const rule = fixedOrPattern(e)!;
+            const values = childValues(node, e.id.slice(sliceId.length + 1));
+            return values.some((v) => (rule.kind === 'fixed' ? JSON.stringify(v) === JSON.stringify(rule.value) : matchesPattern(v, rule.value)));
+        });
+    }
+
+    private checkElement(resource: any, element: ElementDefinition): ProfileIssue[] {
+        const issues: ProfileIssue[] = [];
+        const segments = parseElementId(element.id);
+        const last = segments[segments.length - 1];
+        const parents = this.select(resource, segments.slice(0, -1));
+
+        for (const parent of parents) {
+            let values = childValues(parent, last.name);
+            if (last.slice) {
+                values = values.filter((v) => this.inSlice(element.id, v));
+            }
+
+            if (element.min !== undefined && values.length < element.min) {
+                issues.push(this.issue(element.id, element.sliceName
+                    ? `Slice ${element.sliceName} needs at least ${element.min}, found ${values.length}`
+                    : `Missing required ${element.path} (min ${element.min})`));
+            }
+            if (element.max !== undefined && element.max !== '*' && values.length > parseInt(element.max)) {
+                issues.push(this.issue(element.id, `At most ${element.max} allowed, found ${values.length}`));
+            }
+
+            const rule = fixedOrPattern(element);
+            for (const value of values) {
+                if (rule?.kind === 'fixed' && JSON.stringify(value) !== JSON.stringify(rule.value)) {
+                    issues.push(this.issue(element.id, `Must be ${JSON.stringify(rule.value)}`));
+                }
+                if (rule?.kind === 'pattern' && !matchesPattern(value, rule.value)) {
+                    issues.push(this.issue(element.id, `Does not match the required pattern ${JSON.stringify(rule.value)}`));
+                }
+                issues.push(...this.checkReference(element, value));
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Reference targets, when the reference can be resolved (unresolved
+     * references in a document are reported for the whole entry)
+     */
+    private checkReference(element: ElementDefinition, value: any): ProfileIssue[] {
+        const targets = (element.type || []).filter((t) => t.code === 'Reference').flatMap((t) => t.targetProfile || []);
+        if (targets.length === 0 || !this.resolve || typeof value?.reference !== 'string') return [];
+
+        const target = this.resolve(value.reference);
+        if (!target) return [];
+
+        const allowed = targets.map(typeOfProfile);
+        if (!allowed.includes(target.resourceType)) {
+            return [this.issue(element.id, `Reference ${value.reference} is a ${target.resourceType}; expected ${allowed.join(' or ')}`)];
+        }
+        return [];
+    }
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Validate a resource against a profile, or against every profile it
+ * declares in meta.profile that is bundled
+ */
+export function validateResource(
+    resource: FhirResource,
+    profile?: string,
+    resolve?: ReferenceResolver
+): ProfileIssue[] {
+    const urls: string[] = profile ? [profile] : toArray((resource as any).meta?.profile);
+    const issues: ProfileIssue[] = [];
+
+    for (const url of urls) {
+        const sd = structureDefinitions.get(url);
+        if (!sd) {
+            issues.push({ severity: 'warning', path: resource.resourceType, message: `Profile ${url} is not bundled; not checked`, profile: url });
+            continue;
+        }
+        issues.push(...new ProfileCheck(sd, resolve).run(resource));
+    }
+
+    return issues;
+}
+
+/**
+ * Validate a document Bundle: the Bundle itself, a record Composition as
+ * the first entry, every entry against its declared profiles, and every
+ * reference resolving to an entry of the document
+ */
+export function validateDocumentBundle(bundle: any): ProfileIssue[] {
+    const entries: any[] = toArray(bundle?.entry);
+    const byUrl = new Map<string, FhirResource>();
+    for (const entry of entries) {
+        if (entry?.fullUrl && entry.resource) byUrl.set(entry.fullUrl, entry.resource);
+        if (entry?.resource?.id) byUrl.set(`${entry.resource.resourceType}/${entry.resource.id}`, entry.resource);
+    }
+    const resolve: ReferenceResolver = (reference) => byUrl.get(reference);
+
+    const issues = validateResource(bundle, PROFILES.DocumentBundle, resolve);
+
+    const composition = entries[0]?.resource;
+    const recordProfiles = RECORD_TYPES.map(profileUrl);
+    if (composition?.resourceType !== 'Composition') {
+        issues.push({ severity: 'error', path: 'Bundle.entry[0]', message: 'The first entry of a document must be a Composition' });
+    } else if (!toArray(composition.meta?.profile).some((p: string) => recordProfiles.includes(p))) {
+        issues.push({ severity: 'error', path: 'Bundle.entry[0]', message: `The Composition must declare one of ${RECORD_TYPES.join(', ')}` });
+    }
+
+    entries.forEach((entry, index) => {
+        if (!entry?.resource) return;
+        const prefix = `Bundle.entry[${index}]`;
+
+        for (const issue of validateResource(entry.resource, undefined, resolve)) {
+            issues.push({ ...issue, path: `${prefix}.${issue.path}` });
+        }
+
+        for (const reference of collectReferences(entry.resource)) {
+            if (!resolve(reference)) {
+                issues.push({ severity: 'error', path: prefix, message: `Reference ${reference} is not in the document` });
+            }
+        }
+    });
+
+    return issues;
+}
+
+function collectReferences(node: any, found: string[] = []): string[] {
+    if (Array.isArray(node)) {
+        node.forEach((n) => collectReferences(n, found));
+    } else if (node && typeof node === 'object') {
+        if (typeof node.reference === 'string' && !node.reference.startsWith('#')) found.push(node.reference);
+        Object.values(node).forEach((v) => collectReferences(v, found));
+    }
+    return found;
+}
+
+/**
+ * Issues as a FHIR OperationOutcome
+ */
+export function toOperationOutcome(issues: ProfileIssue[]): FhirResource {
+    return {
+        resourceType: 'OperationOutcome',
+        issue: issues.length > 0
+            ? issues.map((i) => ({
+                severity: i.severity,
+                code: i.severity === 'error' ? 'invariant' : 'informational',
+                diagnostics: i.message,
+                expression: [i.path],
+            }))
+            : [{ severity: 'information', code: 'informational', diagnostics: 'No issues found' }],
+    };
+}
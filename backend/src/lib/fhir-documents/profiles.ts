@@ -0,0 +1,63 @@
+/**
+ * NRCeS (ABDM) profiles and codes for health record documents
+ * https://nrces.in/ndhm/fhir/r4/
+ */
+
+export const NRCES_PROFILE_BASE = 'https://nrces.in/ndhm/fhir/r4/StructureDefinition/';
+
+export const RECORD_TYPES = [
+    'OPConsultRecord',
+    'DiagnosticReportRecord',
+    'PrescriptionRecord',
+    'DischargeSummaryRecord',
+    'WellnessRecord',
+] as const;
+
+export type RecordType = typeof RECORD_TYPES[number];
+
+export const profileUrl = (name: string) => `${NRCES_PROFILE_BASE}${name}`;
+
+export const PROFILES = {
+    DocumentBundle: profileUrl('DocumentBundle'),
+    Patient: profileUrl('Patient'),
+    Practitioner: profileUrl('Practitioner'),
+    Organization: profileUrl('Organization'),
+    Encounter: profileUrl('Encounter'),
+    Condition: profileUrl('Condition'),
+    MedicationRequest: profileUrl('MedicationRequest'),
+    Observation: profileUrl('Observation'),
+    DiagnosticReportLab: profileUrl('DiagnosticReportLab'),
+};
+
+const SNOMED = 'http://snomed.info/sct';
+const snomed = (code: string, display: string) => ({ coding: [{ system: SNOMED, code, display }], text: display });
+
+/**
+ * Composition.type for each record
+ */
+export const RECORD_TYPE_CODES: Record<RecordType, any> = {
+    OPConsultRecord: snomed('371530004', 'Clinical consultation report'),
+    DiagnosticReportRecord: snomed('721981007', 'Diagnostic studies report'),
+    PrescriptionRecord: snomed('440545006', 'Prescription record'),
+    DischargeSummaryRecord: snomed('373942005', 'Discharge summary'),
+    WellnessRecord: { text: 'Wellness Record' },
+};
+
+/**
+ * Composition.section codes, matched by the profiles' section slices
+ */
+export const SECTION_CODES = {
+    chiefComplaints: snomed('422843007', 'Chief complaint section'),
+    medicalHistory: snomed('371529009', 'History and physical report'),
+    pastMedicalHistory: snomed('1003642006', 'Past medical history section'),
+    medications: snomed('721912009', 'Medication summary document'),
+    medicationHistory: snomed('1003606003', 'Medication history section'),
+    otherObservations: snomed('404684003', 'Clinical finding'),
+    followUp: snomed('390906007', 'Follow-up encounter'),
+    diagnosticReport: snomed('721981007', 'Diagnostic studies report'),
+    prescription: snomed('440545006', 'Prescription record'),
+    carePlan: snomed('734163000', 'Care plan'),
+    vitalSigns: { text: 'Vital Signs' },
+    bodyMeasurement: { text: 'Body Measurement' },
+    wellnessObservations: { text: 'Other Observations' },
+};
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// Resolves to backend/fhir-profiles from both src/ and dist/
+const DEFAULT_PROFILES_DIR = path.resolve(__dirname, '../../../fhir-profiles');
+
+const elementSchema = z
+    .object({
+        id: z.string().min(1),
+        path: z.string().min(1),
+        sliceName: z.string().optional(),
+        min: z.number().int().nonnegative().optional(),
+        max: z.string().regex(/^(\d+|\*)$/, 'max must be a number or *').optional(),
+        type: z.array(z.object({
+            code: z.string(),
+            targetProfile: z.array(z.string()).optional(),
+        })).optional(),
+        slicing: z.object({
+            discriminator: z.array(z.object({ type: z.string(), path: z.string() })),
+            rules: z.string().optional(),
+        }).optional(),
+    })
+    .passthrough(); // fixed[x] / pattern[x]
+
+export const structureDefinitionSchema = z
+    .object({
+        resourceType: z.literal('StructureDefinition'),
+        url: z.string().url(),
+        name: z.string().min(1),
+        type: z.string().min(1),
+        differential: z.object({ element: z.array(elementSchema).min(1) }),
+    })
+    .passthrough()
+    .superRefine((sd, ctx) => {
+        sd.differential.element.forEach((element, idx) => {
+            if (element.id !== sd.type && !element.id.startsWith(`${sd.type}.`)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['differential', 'element', idx, 'id'], message: `Element ${element.id} is not on ${sd.type}` });
+            }
+        });
+    });
+
+export type StructureDefinition = z.infer<typeof structureDefinitionSchema>;
+export type ElementDefinition = z.infer<typeof elementSchema>;
+
+/**
+ * StructureDefinitions bundled in backend/fhir-profiles, by canonical URL.
+ * These are the NRCeS (ABDM) profiles trimmed to what the profile validator
+ * checks: cardinality, fixed/pattern values, pattern-sliced arrays and
+ * Reference targets.
+ */
+export class StructureDefinitionRegistry {
+    private definitions = new Map<string, StructureDefinition>();
+    private loaded = false;
+
+    constructor(private profilesDir: string) { }
+
+    /**
+     * Load every JSON file in the profiles directory.
+     * Invalid files are logged and skipped; for a duplicate url the last file wins.
+     */
+    load(): void {
+        this.loaded = true;
+        this.definitions.clear();
+
+        if (!fs.existsSync(this.profilesDir)) {
+            console.warn(`⚠️ [StructureDefinitions] Profiles directory not found: ${this.profilesDir}`);
+            return;
+        }
+
+        const files = fs.readdirSync(this.profilesDir).filter(f => f.endsWith('.json')).sort();
+
+        for (const file of files) {
+            try {
+                const raw = JSON.parse(fs.readFileSync(path.join(this.profilesDir, file), 'utf8'));
+                const result = structureDefinitionSchema.safeParse(raw);
+
+                if (!result.success) {
+                    const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+                    console.error(`❌ [StructureDefinitions] Invalid profile ${file}: ${issues}`);
+                    continue;
+                }
+
+                this.definitions.set(result.data.url, result.data);
+            } catch (e: any) {
+                console.error(`❌ [StructureDefinitions] Failed to load ${file}:`, e.message);
+            }
+        }
+
+        console.log(`✅ [StructureDefinitions] Loaded ${this.definitions.size} profiles`);
+    }
+
+    get(url: string): StructureDefinition | null {
+        if (!this.loaded) this.load();
+        return this.definitions.get(url) || null;
+    }
+
+    all(): StructureDefinition[] {
+        if (!this.loaded) this.load();
+        return Array.from(this.definitions.values());
+    }
+}
+
+export const structureDefinitions = new StructureDefinitionRegistry(process.env.FHIR_PROFILES_DIR || DEFAULT_PROFILES_DIR);
@@ -0,0 +1,39 @@
+/**
+ * Export scope for an organization: consent is evaluated per resource type,
+ * so a bulk request covers only the types the consent token allows
+ */
+
+import { evaluateConsent } from '../consentEnforcementService';
+import type { ConsentEvaluationRequest, ConsentEvaluationResult } from '../../types/consentTypes';
+import type { ExportScope } from './patientEverything';
+
+export interface ExportConsent {
+    scope: ExportScope;                 // Empty resourceTypes: nothing may be exported
+    consentId?: string;
+    restrictions?: ConsentEvaluationResult['restrictions'];
+    denied: Array<{ resourceType: string; reason?: string }>;
+}
+
+export async function evaluateExportConsent(
+    request: Omit<ConsentEvaluationRequest, 'resourceType' | 'action'>,
+    resourceTypes: string[]
+): Promise<ExportConsent> {
+    const result: ExportConsent = { scope: { resourceTypes: [] }, denied: [] };
+
+    for (const resourceType of resourceTypes) {
+        const evaluation = await evaluateConsent({ ...request, resourceType, action: 'search' });
+
+        if (!evaluation.allowed) {
+            result.denied.push({ resourceType, reason: evaluation.reason });
+            continue;
+        }
+
+        result.scope.resourceTypes.push(resourceType);
+        // One token, one consent: the provision is the same for every type
+        result.scope.provision = result.scope.provision || evaluation.provision;
+        result.consentId = result.consentId || evaluation.consentId;
+        result.restrictions = result.restrictions || evaluation.restrictions;
+    }
+
+    return result;
+}
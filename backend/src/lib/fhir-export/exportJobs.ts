@@ -0,0 +1,289 @@
+/**
+ * FHIR Bulk Data $export for one patient: the kick-off stores a job and
+ * runs it in the background; the finished job holds one NDJSON file per
+ * resource type until it expires.
+ * https://hl7.org/fhir/uv/bulkdata/export.html
+ */
+
+import type { FhirResource } from '../fhirClient';
+import { supabaseAdmin } from '../supabaseClient';
+import { fetchPatientEverything, type ExportScope } from './patientEverything';
+
+const EXPORT_TTL_HOURS = parseInt(process.env.FHIR_EXPORT_TTL_HOURS || '24');
+
+// Jobs run in the API process; one still running after this was lost to a restart
+const STALE_JOB_MINUTES = 30;
+
+export type ExportStatus = 'accepted' | 'in-progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportRequester {
+    type: 'patient' | 'organization';
+    organizationId?: string;
+    consentId?: string;
+    purposeOfUse?: string;
+}
+
+export interface ExportJob {
+    id: string;
+    user_id: string;
+    fhir_patient_id: string;
+    requester_type: ExportRequester['type'];
+    organization_id: string | null;
+    consent_id: string | null;
+    purpose_of_use: string | null;
+    resource_types: string[];
+    since: string | null;
+    request_url: string;
+    status: ExportStatus;
+    progress: string | null;
+    error: string | null;
+    transaction_time: string | null;
+    created_at: string;
+    completed_at: string | null;
+    expires_at: string | null;
+}
+
+export interface ExportFileSummary {
+    resource_type: string;
+    resource_count: number;
+}
+
+export interface StartExportParams {
+    userId: string;
+    fhirPatientId: string;
+    requester: ExportRequester;
+    scope: ExportScope;
+    since?: string;
+    requestUrl: string;
+}
+
+/**
+ * One NDJSON file per resource type
+ */
+export function toNdjsonFiles(resources: FhirResource[]): Map<string, { count: number; ndjson: string }> {
+    const files = new Map<string, { count: number; ndjson: string }>();
+    for (const resource of resources) {
+        const file = files.get(resource.resourceType) || { count: 0, ndjson: '' };
+        file.count++;
+        file.ndjson += `${JSON.stringify(resource)}\n`;
+        files.set(resource.resourceType, file);
+    }
+    return files;
+}
+
+// ============================================================
+// JOBS
+// ============================================================
+
+/**
+ * Store an export job and start it in the background.
+ * The scope (with the consent provision) is only held in memory for the run.
+ */
+export async function startExportJob(params: StartExportParams): Promise<ExportJob> {
+    await purgeExpiredExports();
+
+    const { data: job, error } = await supabaseAdmin
+        .from('fhir_export_jobs')
+        .insert({
+            user_id: params.userId,
+            fhir_patient_id: params.fhirPatientId,
+            requester_type: params.requester.type,
+            organization_id: params.requester.organizationId || null,
+            consent_id: params.requester.consentId || null,
+            purpose_of_use: params.requester.purposeOfUse || null,
+            resource_types: params.scope.resourceTypes,
+            since: params.since || null,
+            request_url: params.requestUrl,
+            status: 'accepted',
+        })
+        .select('*')
+        .single();
+
+    if (error || !job) {
+        throw new Error(`Failed to create export job: ${error?.message || 'no row returned'}`);
+    }
+
+    setImmediate(() => {
+        runExportJob(job as ExportJob, params.scope).catch((e) => {
+            console.error(`❌ [FhirExport] Job ${job.id} crashed:`, e.message);
+        });
+    });
+
+    return job as ExportJob;
+}
+
+async function updateJob(jobId: string, fields: Partial<ExportJob>) {
+    const { error } = await supabaseAdmin.from('fhir_export_jobs').update(fields).eq('id', jobId);
+    if (error) {
+        console.error(`❌ [FhirExport] Failed to update job ${jobId}:`, error.message);
+    }
+}
+
+async function isCancelled(jobId: string): Promise<boolean> {
+    const { data } = await supabaseAdmin.from('fhir_export_jobs').select('status').eq('id', jobId).maybeSingle();
+    return !data || data.status === 'cancelled';
+}
+
+/**
+ * Read the record and write the files. A record that cannot be read in
+ * full fails the job rather than exporting part of it.
+ */
+async function runExportJob(job: ExportJob, scope: ExportScope): Promise<void> {
+    const transactionTime = new Date().toISOString();
+    await updateJob(job.id, { status: 'in-progress', progress: 'Reading record', transaction_time: transactionTime });
+
+    const result = await fetchPatientEverything(job.fhir_patient_id, scope, { since: job.since || undefined });
+
+    if (await isCancelled(job.id)) {
+        console.log(`🛑 [FhirExport] Job ${job.id} was cancelled`);
+        return;
+    }
+
+    if (!result.complete) {
+        await updateJob(job.id, { status: 'failed', progress: null, error: result.error || 'The record could not be read in full' });
+        return;
+    }
+
+    const files = toNdjsonFiles(result.resources);
+    await updateJob(job.id, { progress: `Writing ${files.size} files` });
+
+    if (files.size > 0) {
+        const { error } = await supabaseAdmin.from('fhir_export_files').insert(
+            Array.from(files.entries()).map(([resourceType, file]) => ({
+                job_id: job.id,
+                resource_type: resourceType,
+                resource_count: file.count,
+                ndjson: file.ndjson,
+            }))
+        );
+
+        if (error) {
+            console.error(`❌ [FhirExport] Failed to store files for job ${job.id}:`, error.message);
+            await updateJob(job.id, { status: 'failed', progress: null, error: 'Failed to store the export files' });
+            return;
+        }
+    }
+
+    const now = new Date();
+    await updateJob(job.id, {
+        status: 'completed',
+        progress: null,
+        completed_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + EXPORT_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+    });
+
+    console.log(`✅ [FhirExport] Job ${job.id}: ${result.resources.length} resources in ${files.size} files (${result.excluded} out of scope)`);
+}
+
+/**
+ * A job and its files; expired and cancelled jobs are gone
+ */
+export async function getExportJob(jobId: string): Promise<{ job: ExportJob; files: ExportFileSummary[] } | null> {
+    const { data: job } = await supabaseAdmin
+        .from('fhir_export_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+    if (!job || job.status === 'cancelled') return null;
+    if (job.expires_at && new Date(job.expires_at) < new Date()) return null;
+
+    const running = job.status === 'accepted' || job.status === 'in-progress';
+    if (running && Date.now() - new Date(job.created_at).getTime() > STALE_JOB_MINUTES * 60 * 1000) {
+        const interrupted = { status: 'failed' as const, progress: null, error: 'The export was interrupted; start a new one' };
+        await updateJob(jobId, interrupted);
+        Object.assign(job, interrupted);
+    }
+
+    const { data: files } = await supabaseAdmin
+        .from('fhir_export_files')
+        .select('resource_type, resource_count')
+        .eq('job_id', jobId)
+        .order('resource_type');
+
+    return { job: job as ExportJob, files: (files || []) as ExportFileSummary[] };
+}
+
+/**
+ * Cancel a running job, or delete a finished one's files
+ */
+export async function cancelExportJob(jobId: string): Promise<void> {
+    await updateJob(jobId, { status: 'cancelled', progress: null });
+    await supabaseAdmin.from('fhir_export_files').delete().eq('job_id', jobId);
+}
+
+export async function getExportFile(jobId: string, resourceType: string): Promise<string | null> {
+    const { data } = await supabaseAdmin
+        .from('fhir_export_files')
+        .select('ndjson')
+        .eq('job_id', jobId)
+        .eq('resource_type', resourceType)
+        .maybeSingle();
+
+    return data?.ndjson ?? null;
+}
+
+/**
+ * Delete jobs whose files have expired, cancelled ones, and failed ones
+ * older than the file lifetime
+ */
+export async function purgeExpiredExports(): Promise<void> {
+    const now = new Date();
+    const ttlAgo = new Date(now.getTime() - EXPORT_TTL_HOURS * 60 * 60 * 1000);
+    const { error } = await supabaseAdmin
+        .from('fhir_export_jobs')
+        .delete()
+        .or(`expires_at.lt.${now.toISOString()},status.eq.cancelled,and(status.eq.failed,created_at.lt.${ttlAgo.toISOString()})`);
+
+    if (error) {
+        console.error('❌ [FhirExport] Failed to purge expired exports:', error.message);
+    }
+}
+
+/**
+ * The completion manifest of a finished job
+ * @param fileBaseUrl - where files are served, e.g. https://host/fhir/$export-file
+ */
+export function buildExportManifest(job: ExportJob, files: ExportFileSummary[], fileBaseUrl: string) {
+    return {
+        transactionTime: job.transaction_time,
+        request: job.request_url,
+        requiresAccessToken: true,
+        output: files.map((file) => ({
+            type: file.resource_type,
+            url: `${fileBaseUrl}/${job.id}/${file.resource_type}`,
+            count: file.resource_count,
+        })),
+        error: [],
+    };
+}
+
+/**
+ * The $export status response for a job: 202 with X-Progress while it runs,
+ * 200 with the manifest when done, 500 with an OperationOutcome if it failed
+ */
+export function exportStatusResponse(job: ExportJob, files: ExportFileSummary[], fileBaseUrl: string) {
+    if (job.status === 'accepted' || job.status === 'in-progress') {
+        return {
+            status: 202,
+            headers: { 'X-Progress': job.progress || 'Queued', 'Retry-After': '10' } as Record<string, string>,
+        };
+    }
+
+    if (job.status === 'failed') {
+        return {
+            status: 500,
+            headers: {} as Record<string, string>,
+            body: {
+                resourceType: 'OperationOutcome',
+                issue: [{ severity: 'error', code: 'exception', diagnostics: job.error || 'Export failed' }],
+            },
+        };
+    }
+
+    return {
+        status: 200,
+        headers: (job.expires_at ? { Expires: new Date(job.expires_at).toUTCString() } : {}) as Record<string, string>,
+        body: buildExportManifest(job, files, fileBaseUrl),
+    };
+}
@@ -0,0 +1,216 @@
+/**
+ * Request handling for $everything and Bulk Data $export, shared by the
+ * patient's own /fhir API and the organization API. The routers differ only
+ * in whose record it is and what the caller may see (SMART scopes or a
+ * consent), which they pass in as an ExportAccess.
+ */
+
+import type { Request, Response } from 'express';
+import type { FhirResource } from '../fhirClient';
+import { fetchPatientEverything, parseExportParams, toEverythingBundle, type ExportScope } from './patientEverything';
+import {
+    startExportJob,
+    getExportJob,
+    cancelExportJob,
+    exportStatusResponse,
+    type ExportJob,
+    type ExportRequester,
+} from './exportJobs';
+
+export const NDJSON_FORMATS = ['application/fhir+ndjson', 'application/ndjson', 'ndjson'];
+
+export type ExportOperation = '$everything' | '$export';
+
+export interface ExportRequestError {
+    status: number;
+    code: string;               // OperationOutcome issue code
+    message: string;
+}
+
+/**
+ * The record a request is for and the caller's view of it
+ */
+export interface ExportTarget {
+    userId: string;             // Patient's user ID
+    fhirPatientId: string;
+    scope: ExportScope;
+    requester: ExportRequester;
+}
+
+export interface ExportSuccess {
+    operation: ExportOperation;
+    resourceTypes: string[];
+    count?: number;             // $everything: resources returned
+    excluded?: number;          // $everything: resources read but out of scope
+    jobId?: string;             // $export: the started job
+}
+
+export interface ExportJobAccess {
+    ownsJob(req: Request, job: ExportJob): boolean;
+    sendError(res: Response, error: ExportRequestError): void;
+}
+
+export interface ExportAccess<T extends ExportTarget> extends ExportJobAccess {
+    /**
+     * Resolve the requested record, narrowed to the requested types the
+     * caller may see, or say why there is nothing to give
+     */
+    resolve(req: Request, types: string[], operation: ExportOperation): Promise<T | ExportRequestError>;
+    // After a successful read or kick-off, e.g. to audit it
+    onSuccess?(req: Request, target: T, success: ExportSuccess): Promise<void>;
+    // $everything response body; the Bundle itself by default
+    everythingBody?(bundle: FhirResource, target: T): unknown;
+}
+
+const isRequestError = (value: ExportTarget | ExportRequestError): value is ExportRequestError =>
+    typeof (value as ExportRequestError).status === 'number' && typeof (value as ExportRequestError).message === 'string';
+
+const routerBaseUrl = (req: Request) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+const serverError = (res: Response, access: ExportJobAccess, operation: string, error: unknown) => {
+    console.error(`❌ [FhirExport] ${operation} error:`, error);
+    access.sendError(res, { status: 500, code: 'exception', message: 'Internal server error' });
+};
+
+/**
+ * GET .../Patient/:id/$everything
+ * Query: _type (comma-separated resource types), _since (instant)
+ */
+export function everythingHandler<T extends ExportTarget>(access: ExportAccess<T>) {
+    return async (req: Request, res: Response) => {
+        try {
+            const params = parseExportParams(req.query);
+            if (params.error) {
+                return access.sendError(res, { status: 400, code: 'not-supported', message: params.error });
+            }
+
+            const target = await access.resolve(req, params.types, '$everything');
+            if (isRequestError(target)) {
+                return access.sendError(res, target);
+            }
+
+            const result = await fetchPatientEverything(target.fhirPatientId, target.scope, { since: params.since });
+            if (!result.complete) {
+                return access.sendError(res, { status: 502, code: 'incomplete', message: 'The record could not be read in full' });
+            }
+
+            await access.onSuccess?.(req, target, {
+                operation: '$everything',
+                resourceTypes: target.scope.resourceTypes,
+                count: result.resources.length,
+                excluded: result.excluded,
+            });
+
+            const bundle = toEverythingBundle(result.resources);
+            if (access.everythingBody) {
+                return res.json(access.everythingBody(bundle, target));
+            }
+            return res.type('application/fhir+json').json(bundle);
+
+        } catch (error) {
+            serverError(res, access, '$everything', error);
+        }
+    };
+}
+
+/**
+ * GET .../Patient/:id/$export
+ * Bulk Data kick-off: requires "Prefer: respond-async"; answers 202 with
+ * the status URL in Content-Location.
+ * Query: _type, _since, _outputFormat (NDJSON only)
+ */
+export function exportKickOffHandler<T extends ExportTarget>(access: ExportAccess<T>) {
+    return async (req: Request, res: Response) => {
+        try {
+            if (!String(req.headers.prefer || '').includes('respond-async')) {
+                return access.sendError(res, { status: 400, code: 'invalid', message: 'The Prefer: respond-async header is required' });
+            }
+
+            const format = req.query._outputFormat as string | undefined;
+            if (format && !NDJSON_FORMATS.includes(format)) {
+                return access.sendError(res, { status: 400, code: 'not-supported', message: `_outputFormat must be one of ${NDJSON_FORMATS.join(', ')}` });
+            }
+
+            const params = parseExportParams(req.query);
+            if (params.error) {
+                return access.sendError(res, { status: 400, code: 'not-supported', message: params.error });
+            }
+
+            const target = await access.resolve(req, params.types, '$export');
+            if (isRequestError(target)) {
+                return access.sendError(res, target);
+            }
+
+            const job = await startExportJob({
+                userId: target.userId,
+                fhirPatientId: target.fhirPatientId,
+                requester: target.requester,
+                scope: target.scope,
+                since: params.since,
+                requestUrl: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+            });
+
+            await access.onSuccess?.(req, target, {
+                operation: '$export',
+                resourceTypes: target.scope.resourceTypes,
+                jobId: job.id,
+            });
+
+            return res.status(202).set('Content-Location', `${routerBaseUrl(req)}/$export-status/${job.id}`).end();
+
+        } catch (error) {
+            serverError(res, access, '$export kick-off', error);
+        }
+    };
+}
+
+/**
+ * An export job the caller started; answers 404 otherwise
+ */
+export async function loadExportJob(access: ExportJobAccess, req: Request, res: Response) {
+    const found = await getExportJob(req.params.jobId);
+    if (!found || !access.ownsJob(req, found.job)) {
+        access.sendError(res, { status: 404, code: 'not-found', message: 'Export not found or expired' });
+        return null;
+    }
+    return found;
+}
+
+/**
+ * GET .../$export-status/:jobId
+ * 202 with X-Progress while running, 200 with the manifest when done
+ */
+export function exportStatusHandler(access: ExportJobAccess) {
+    return async (req: Request, res: Response) => {
+        try {
+            const found = await loadExportJob(access, req, res);
+            if (!found) return;
+
+            const status = exportStatusResponse(found.job, found.files, `${routerBaseUrl(req)}/$export-file`);
+            res.status(status.status).set(status.headers);
+            return status.body ? res.json(status.body) : res.end();
+
+        } catch (error) {
+            serverError(res, access, '$export status', error);
+        }
+    };
+}
+
+/**
+ * DELETE .../$export-status/:jobId
+ * Cancel an export, or delete its files
+ */
+export function exportCancelHandler(access: ExportJobAccess) {
+    return async (req: Request, res: Response) => {
+        try {
+            const found = await loadExportJob(access, req, res);
+            if (!found) return;
+
+            await cancelExportJob(found.job.id);
+            return res.status(202).end();
+
+        } catch (error) {
+            serverError(res, access, '$export cancel', error);
+        }
+    };
+}
@@ -0,0 +1,39 @@
+/**
+ * FHIR Export - a patient's whole record: Patient/$everything and
+ * Bulk Data $export (NDJSON), scoped by consent for organizations
+ */
+
+export {
+    EXPORT_RESOURCE_TYPES,
+    fetchPatientEverything,
+    parseExportParams,
+    toEverythingBundle,
+    type ExportScope,
+    type EverythingResult,
+} from './patientEverything';
+export {
+    startExportJob,
+    getExportJob,
+    cancelExportJob,
+    getExportFile,
+    buildExportManifest,
+    exportStatusResponse,
+    purgeExpiredExports,
+    type ExportJob,
+    type ExportRequester,
+} from './exportJobs';
+export { evaluateExportConsent, type ExportConsent } from './exportConsent';
+export {
+    NDJSON_FORMATS,
+    everythingHandler,
+    exportKickOffHandler,
+    exportStatusHandler,
+    exportCancelHandler,
+    loadExportJob,
+    type ExportAccess,
+    type ExportJobAccess,
+    type ExportOperation,
+    type ExportRequestError,
+    type ExportSuccess,
+    type ExportTarget,
+} from './exportOperations';
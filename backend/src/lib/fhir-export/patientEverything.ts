@@ -0,0 +1,161 @@
+/**
+ * A patient's whole record from the FHIR server (Patient/$everything),
+ * optionally narrowed to what a consent allows
+ */
+
+import { fhirGet, type FhirResource } from '../fhirClient';
+import { isResourcePermitted } from '../consentProvisions';
+import type { ConsentProvision } from '../../types/consentTypes';
+
+/**
+ * Resource types Niraiva keeps for a patient; external callers only ever
+ * get these, and only those their consent allows
+ */
+export const EXPORT_RESOURCE_TYPES = [
+    'Patient',
+    'Encounter',
+    'Condition',
+    'Observation',
+    'DiagnosticReport',
+    'MedicationRequest',
+    'DocumentReference',
+] as const;
+
+const PAGE_SIZE = parseInt(process.env.FHIR_EXPORT_PAGE_SIZE || '200');
+const MAX_PAGES = parseInt(process.env.FHIR_EXPORT_MAX_PAGES || '100');
+
+/**
+ * What a caller may see: resource types, and the consent provision every
+ * resource is checked against (none for the patient themselves)
+ */
+export interface ExportScope {
+    resourceTypes: string[];
+    provision?: ConsentProvision;
+}
+
+export interface EverythingOptions {
+    since?: string;             // Only resources updated at or after this instant (_since)
+}
+
+export interface EverythingResult {
+    resources: FhirResource[];
+    excluded: number;           // Read but outside the scope
+    complete: boolean;          // false when a page failed or MAX_PAGES was reached
+    error?: string;
+}
+
+type EverythingBundle = {
+    entry?: Array<{ resource?: FhirResource }>;
+    link?: Array<{ relation: string; url: string }>;
+};
+
+/**
+ * Parse a _type parameter ("Observation,Condition") against what may be
+ * exported; no _type means all of them
+ */
+export function parseResourceTypes(param: unknown, allowed: readonly string[] = EXPORT_RESOURCE_TYPES): { types: string[]; unknown: string[] } {
+    if (typeof param !== 'string' || !param.trim()) {
+        return { types: [...allowed], unknown: [] };
+    }
+
+    const requested = Array.from(new Set(param.split(',').map((t) => t.trim()).filter(Boolean)));
+    return {
+        types: requested.filter((t) => allowed.includes(t)),
+        unknown: requested.filter((t) => !allowed.includes(t)),
+    };
+}
+
+/**
+ * _type and _since of an $everything or $export request
+ */
+export function parseExportParams(query: Record<string, unknown>): { types: string[]; since?: string; error?: string } {
+    const { types, unknown } = parseResourceTypes(query._type);
+    if (unknown.length > 0) {
+        return { types, error: `Unsupported _type: ${unknown.join(', ')}. Supported: ${EXPORT_RESOURCE_TYPES.join(', ')}` };
+    }
+
+    const since = typeof query._since === 'string' && query._since ? query._since : undefined;
+    if (since && isNaN(new Date(since).getTime())) {
+        return { types, error: '_since must be an instant (e.g. 2024-01-01T00:00:00Z)' };
+    }
+
+    return { types, since };
+}
+
+export function inScope(resource: FhirResource, scope: ExportScope): boolean {
+    if (!scope.resourceTypes.includes(resource.resourceType)) return false;
+    return !scope.provision || isResourcePermitted(scope.provision, resource);
+}
+
+/**
+ * Read Patient/$everything page by page (following next links) and keep
+ * what is in scope. Resources the server pulls in from outside the patient
+ * compartment (Practitioner, Organization...) only pass if their type is
+ * in scope.
+ */
+export async function fetchPatientEverything(
+    fhirPatientId: string,
+    scope: ExportScope,
+    options: EverythingOptions = {}
+): Promise<EverythingResult> {
+    const params: Record<string, string> = {
+        _count: String(PAGE_SIZE),
+        _type: scope.resourceTypes.join(','),
+    };
+    if (options.since) params._since = options.since;
+
+    const resources: FhirResource[] = [];
+    const seen = new Set<string>();
+    let excluded = 0;
+
+    let response = await fhirGet<EverythingBundle>(`Patient/${encodeURIComponent(fhirPatientId)}/$everything`, params);
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+        if (!response.ok || !response.data) {
+            console.error(`❌ [FhirExport] $everything failed for Patient/${fhirPatientId} (${response.status}):`, response.error || JSON.stringify(response.data));
+            return { resources, excluded, complete: false, error: `The FHIR server could not read the record (${response.status})` };
+        }
+
+        for (const entry of response.data.entry || []) {
+            const resource = entry.resource;
+            if (!resource?.resourceType) continue;
+
+            // Pages can overlap when the record changes while it is read
+            const key = `${resource.resourceType}/${resource.id}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            if (inScope(resource, scope)) {
+                resources.push(resource);
+            } else {
+                excluded++;
+            }
+        }
+
+        const next = response.data.link?.find((l) => l.relation === 'next')?.url;
+        if (!next) {
+            return { resources, excluded, complete: true };
+        }
+        response = await fhirGet<EverythingBundle>(next);
+    }
+
+    console.warn(`⚠️ [FhirExport] $everything for Patient/${fhirPatientId} stopped after ${MAX_PAGES} pages`);
+    return { resources, excluded, complete: false, error: `Stopped after ${MAX_PAGES} pages` };
+}
+
+/**
+ * A searchset Bundle of the resources, as $everything returns them
+ */
+export function toEverythingBundle(resources: FhirResource[]): FhirResource {
+    return {
+        resourceType: 'Bundle',
+        type: 'searchset',
+        timestamp: new Date().toISOString(),
+        total: resources.length,
+        entry: resources.map((resource) => ({
+            fullUrl: `${resource.resourceType}/${resource.id}`,
+            resource,
+            search: { mode: 'match' },
+        })),
+    };
+}
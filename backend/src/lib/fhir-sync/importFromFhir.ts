@@ -0,0 +1,688 @@
+/**
+ * Pull-side FHIR sync: Observations and Conditions that partner systems
+ * write to the shared HAPI server are imported into health_parameters,
+ * clinical_events and the timeline. Changes are found by polling
+ * _lastUpdated from a stored cursor. Every resource version read is
+ * recorded in fhir_imported_resources, so reading it again is a no-op.
+ *
+ * Conflicts (the same item on both sides):
+ * - Resources Niraiva wrote itself (niraiva-record identifier) are skipped
+ * - A result for the same test on the same day with the same value is a
+ *   duplicate and only linked; a different value keeps Niraiva's and is
+ *   recorded as a conflict
+ * - A diagnosis Niraiva already has is merged into the canonical event,
+ *   unless the remote side disagrees on its status (resolved, refuted),
+ *   which keeps Niraiva's and is recorded as a conflict
+ * - A newer version of a resource imported earlier updates what it created
+ */
+
+import { fhirGet, type FhirResource } from '../fhirClient';
+import { supabaseAdmin } from '../supabaseClient';
+import { labTerminologyService } from '../../modules/terminology/LabTerminologyService';
+import { referenceRangeService } from '../../modules/terminology/ReferenceRangeService';
+import { eventCanonicalizer } from '../../modules/diagnostic-pathway/EventCanonicalizer';
+import { eventExtractionService, type ExtractedEvent } from '../../modules/diagnostic-pathway/EventExtractionService';
+import { edgeConstructionService } from '../../modules/diagnostic-pathway/EdgeConstructionService';
+import { NIRAIVA_RECORD_SYSTEM, NIRAIVA_USER_SYSTEM } from './syncHistory';
+
+export const IMPORT_RESOURCE_TYPES = ['Observation', 'Condition'] as const;
+export type ImportResourceType = typeof IMPORT_RESOURCE_TYPES[number];
+
+const PAGE_SIZE = parseInt(process.env.FHIR_IMPORT_PAGE_SIZE || '100');
+const MAX_PAGES = parseInt(process.env.FHIR_IMPORT_MAX_PAGES || '20'); // Per resource type per run
+
+// HAPI reuses cached search results for a minute; polling must see fresh ones
+const NO_CACHE = { 'Cache-Control': 'no-cache' };
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const IMPORTABLE_OBSERVATION_STATUS = ['final', 'amended', 'corrected', 'preliminary'];
+const REFUTED_VERIFICATION_STATUS = ['refuted', 'entered-in-error'];
+
+const INTERPRETATION_STATUS: Record<string, string> = {
+    N: 'normal',
+    H: 'high',
+    HH: 'critical',
+    L: 'low',
+    LL: 'critical',
+    A: 'abnormal',
+    AA: 'critical',
+};
+
+export type ImportStatus = 'imported' | 'updated' | 'merged' | 'duplicate' | 'conflict' | 'skipped';
+
+export interface ImportConflict {
+    field: string;
+    local: unknown;
+    remote: unknown;
+    resolution: 'kept_local';
+}
+
+export interface ImportedResource {
+    resourceType: ImportResourceType;
+    fhirId: string;
+    versionId: string | null;
+    userId: string | null;
+    status: ImportStatus;
+    targetTable?: 'health_parameters' | 'clinical_events';
+    targetId?: string;
+    reason?: string;
+    conflict?: ImportConflict;
+    error?: string;             // Import failed; the resource is read again next run
+}
+
+export interface FhirImportResult {
+    pages: number;
+    resources: ImportedResource[];
+    errors: string[];
+}
+
+interface TrackedResource {
+    fhir_id: string;
+    version_id: string | null;
+    status: ImportStatus;
+    target_table: string | null;
+    target_id: string | null;
+}
+
+type SearchBundle = {
+    entry?: Array<{ resource?: FhirResource }>;
+    link?: Array<{ relation: string; url: string }>;
+};
+
+/**
+ * What one import run produced for a patient, for the timeline entry and
+ * the pathway graph
+ */
+interface PatientImport {
+    labEvents: ExtractedEvent[];
+    eventIds: string[];
+    results: number;
+    conditions: number;
+    latest: string | null;
+    sources: Set<string>;
+    references: string[];
+}
+
+const dateOnly = (d: string) => d.split('T')[0];
+const codings = (concept: any): any[] => (Array.isArray(concept?.coding) ? concept.coding : []);
+const conceptName = (concept: any): string | undefined => concept?.text || codings(concept).find((c) => c.display)?.display;
+const statusCode = (concept: any): string | undefined => codings(concept)[0]?.code;
+
+function isNiraivaResource(resource: any): boolean {
+    return (resource.identifier || []).some((i: any) =>
+        i.system === NIRAIVA_RECORD_SYSTEM || i.system === NIRAIVA_USER_SYSTEM
+    );
+}
+
+function subjectPatientId(resource: any): string | null {
+    const match = /Patient\/([^/]+)/.exec(resource.subject?.reference || '');
+    return match ? match[1] : null;
+}
+
+// ============================================================
+// FETCHING
+// ============================================================
+
+/**
+ * Read a search result page by page, following next links.
+ * Stops at MAX_PAGES or the first failed page.
+ */
+async function* searchPages(
+    resourceType: ImportResourceType,
+    params: Record<string, string>
+): AsyncGenerator<{ resources: FhirResource[]; error?: string }> {
+    let response = await fhirGet<SearchBundle>(resourceType, { ...params, _count: String(PAGE_SIZE) }, NO_CACHE);
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+        if (!response.ok || !response.data) {
+            yield { resources: [], error: `${resourceType} search failed (${response.status}): ${response.error || 'no response'}` };
+            return;
+        }
+
+        yield {
+            resources: (response.data.entry || [])
+                .map((e) => e.resource)
+                .filter((r): r is FhirResource => r?.resourceType === resourceType),
+        };
+
+        const next = response.data.link?.find((l) => l.relation === 'next')?.url;
+        if (!next) return;
+        response = await fhirGet<SearchBundle>(next, undefined, NO_CACHE);
+    }
+}
+
+// ============================================================
+// OBSERVATIONS → health_parameters
+// ============================================================
+
+function observationValue(resource: any): { value: number; unit: string } | null {
+    if (typeof resource.valueQuantity?.value === 'number') {
+        return { value: resource.valueQuantity.value, unit: resource.valueQuantity.unit || resource.valueQuantity.code || '' };
+    }
+    if (typeof resource.valueString === 'string') {
+        const value = parseFloat(resource.valueString.replace(/,/g, ''));
+        return isNaN(value) ? null : { value, unit: '' };
+    }
+    return null;
+}
+
+function printedRange(resource: any): string | null {
+    const range = resource.referenceRange?.[0];
+    if (!range) return null;
+    if (range.text) return range.text;
+    if (range.low?.value !== undefined && range.high?.value !== undefined) return `${range.low.value}-${range.high.value}`;
+    if (range.high?.value !== undefined) return `<${range.high.value}`;
+    if (range.low?.value !== undefined) return `>${range.low.value}`;
+    return null;
+}
+
+async function importObservation(
+    userId: string,
+    resource: any,
+    tracked: TrackedResource | undefined,
+    patient: PatientImport
+): Promise<Omit<ImportedResource, 'resourceType' | 'fhirId' | 'versionId' | 'userId'>> {
+    if (!IMPORTABLE_OBSERVATION_STATUS.includes(resource.status)) {
+        return { status: 'skipped', reason: `status ${resource.status}` };
+    }
+
+    const name = conceptName(resource.code);
+    const reading = observationValue(resource);
+    if (!name || !reading) {
+        return { status: 'skipped', reason: 'no name or numeric value' };
+    }
+
+    const measuredAt = new Date(
+        resource.effectiveDateTime || resource.effectivePeriod?.start || resource.effectiveInstant || resource.issued || resource.meta?.lastUpdated
+    ).toISOString();
+    const loinc = codings(resource.code).find((c) => c.system === LOINC_SYSTEM)?.code;
+
+    // The catalog matches by name; a LOINC code on the resource fills the gap
+    let normalized = labTerminologyService.normalize(name, reading.value, reading.unit);
+    if (!normalized.loincCode && loinc) {
+        normalized = { ...normalized, code: loinc, loincCode: loinc };
+    }
+
+    const demographics = await referenceRangeService.getDemographics(userId, measuredAt);
+    const evaluation = referenceRangeService.evaluate(normalized, demographics, {
+        printedRange: printedRange(resource),
+        fallbackStatus: INTERPRETATION_STATUS[statusCode(resource.interpretation?.[0]) || ''],
+    });
+
+    const row = {
+        user_id: userId,
+        name,
+        value: reading.value,
+        unit: reading.unit,
+        measured_at: measuredAt,
+        source: 'fhir_import',
+        report_id: null,
+        ...labTerminologyService.toParameterColumns(normalized),
+        ...referenceRangeService.toParameterColumns(evaluation),
+    };
+
+    // A newer version of a result we imported replaces it
+    if (tracked?.target_table === 'health_parameters' && tracked.target_id && ['imported', 'updated'].includes(tracked.status)) {
+        const { error } = await supabaseAdmin
+            .from('health_parameters')
+            .update(row)
+            .eq('id', tracked.target_id);
+
+        if (error) throw new Error(`Failed to update health parameter: ${error.message}`);
+        patient.results++;
+        return { status: 'updated', targetTable: 'health_parameters', targetId: tracked.target_id };
+    }
+
+    // The same test on the same day already in Niraiva
+    const day = dateOnly(measuredAt);
+    const { data: existing, error: existingError } = await supabaseAdmin
+        .from('health_parameters')
+        .select('id, value, unit, normalized_value, measured_at, source')
+        .eq('user_id', userId)
+        .eq('parameter_code', normalized.code)
+        .gte('measured_at', `${day}T00:00:00.000Z`)
+        .lte('measured_at', `${day}T23:59:59.999Z`)
+        .limit(1)
+        .maybeSingle();
+
+    if (existingError) throw new Error(`Failed to look up health parameters: ${existingError.message}`);
+
+    if (existing) {
+        const sameValue = existing.normalized_value !== null && normalized.value !== null
+            ? Math.abs(Number(existing.normalized_value) - normalized.value) < 1e-6
+            : Math.abs(Number(existing.value) - reading.value) < 1e-6;
+
+        if (sameValue) {
+            return { status: 'duplicate', targetTable: 'health_parameters', targetId: existing.id };
+        }
+
+        return {
+            status: 'conflict',
+            targetTable: 'health_parameters',
+            targetId: existing.id,
+            conflict: {
+                field: 'value',
+                local: { value: existing.value, unit: existing.unit, measured_at: existing.measured_at, source: existing.source },
+                remote: { value: reading.value, unit: reading.unit, measured_at: measuredAt },
+                resolution: 'kept_local',
+            },
+        };
+    }
+
+    const { data: inserted, error } = await supabaseAdmin
+        .from('health_parameters')
+        .insert(row)
+        .select('id')
+        .single();
+
+    if (error) throw new Error(`Failed to insert health parameter: ${error.message}`);
+
+    patient.results++;
+    patient.labEvents.push({
+        event_type: 'lab_result',
+        event_name: name,
+        event_date: day,
+        confidence: 0.95,
+        metadata: {
+            source: 'fhir_import',
+            fhir_id: `Observation/${resource.id}`,
+            value: reading.value,
+            unit: reading.unit,
+            status: evaluation.status,
+            loinc_code: normalized.loincCode,
+            normalized_value: normalized.value,
+            normalized_unit: normalized.unit,
+        },
+    });
+
+    return { status: 'imported', targetTable: 'health_parameters', targetId: inserted.id };
+}
+
+// ============================================================
+// CONDITIONS → clinical_events
+// ============================================================
+
+async function importCondition(
+    userId: string,
+    resource: any,
+    tracked: TrackedResource | undefined,
+    patient: PatientImport
+): Promise<Omit<ImportedResource, 'resourceType' | 'fhirId' | 'versionId' | 'userId'>> {
+    const name = conceptName(resource.code);
+    if (!name) {
+        return { status: 'skipped', reason: 'no condition name' };
+    }
+
+    const diagnosisCode = codings(resource.code)[0]?.code;
+    const clinicalStatus = statusCode(resource.clinicalStatus) || null;
+    const verificationStatus = statusCode(resource.verificationStatus) || null;
+    const refuted = !!verificationStatus && REFUTED_VERIFICATION_STATUS.includes(verificationStatus);
+
+    // A newer version of a condition we imported updates its status
+    if (tracked?.target_table === 'clinical_events' && tracked.target_id && ['imported', 'updated'].includes(tracked.status)) {
+        const { data: event, error: eventError } = await supabaseAdmin
+            .from('clinical_events')
+            .select('metadata')
+            .eq('id', tracked.target_id)
+            .maybeSingle();
+
+        if (eventError) throw new Error(`Failed to load clinical event: ${eventError.message}`);
+        if (event) {
+            const { error } = await supabaseAdmin
+                .from('clinical_events')
+                .update({
+                    metadata: { ...event.metadata, clinical_status: clinicalStatus, verification_status: verificationStatus },
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', tracked.target_id);
+
+            if (error) throw new Error(`Failed to update clinical event: ${error.message}`);
+            patient.conditions++;
+            return { status: 'updated', targetTable: 'clinical_events', targetId: tracked.target_id };
+        }
+    }
+
+    // Does Niraiva already have this diagnosis?
+    const canonical = eventCanonicalizer.canonicalize('diagnosis', name, diagnosisCode);
+    const { data: diagnoses, error: diagnosesError } = await supabaseAdmin
+        .from('clinical_events')
+        .select('id, event_name, canonical_key, metadata')
+        .eq('patient_id', userId)
+        .eq('event_type', 'diagnosis');
+
+    if (diagnosesError) throw new Error(`Failed to load diagnoses: ${diagnosesError.message}`);
+
+    const existing = (diagnoses || []).find((d: any) => {
+        const key = d.canonical_key || eventCanonicalizer.canonicalize('diagnosis', d.event_name, d.metadata?.diagnosis_code).key;
+        return eventCanonicalizer.isSameEntity(key, canonical.key);
+    });
+
+    if (refuted) {
+        if (!existing) return { status: 'skipped', reason: `verification ${verificationStatus}` };
+        return {
+            status: 'conflict',
+            targetTable: 'clinical_events',
+            targetId: existing.id,
+            conflict: {
+                field: 'verificationStatus',
+                local: existing.metadata?.verification_status || 'confirmed',
+                remote: verificationStatus,
+                resolution: 'kept_local',
+            },
+        };
+    }
+
+    const localStatus = existing?.metadata?.clinical_status;
+    if (existing && localStatus && clinicalStatus && localStatus !== clinicalStatus) {
+        return {
+            status: 'conflict',
+            targetTable: 'clinical_events',
+            targetId: existing.id,
+            conflict: { field: 'clinicalStatus', local: localStatus, remote: clinicalStatus, resolution: 'kept_local' },
+        };
+    }
+
+    const onset = resource.onsetDateTime || resource.recordedDate || resource.meta?.lastUpdated;
+    const [eventId] = await eventExtractionService.persistEvents(userId, null, [{
+        event_type: 'diagnosis',
+        event_name: name,
+        event_date: onset ? dateOnly(onset) : undefined,
+        confidence: 0.9,
+        metadata: {
+            source: 'fhir_import',
+            fhir_id: `Condition/${resource.id}`,
+            diagnosis_code: diagnosisCode,
+            clinical_status: clinicalStatus,
+            verification_status: verificationStatus,
+        },
+    }]);
+
+    if (!eventId) throw new Error(`Failed to store diagnosis ${name}`);
+
+    patient.conditions++;
+    patient.eventIds.push(eventId);
+    return { status: existing ? 'merged' : 'imported', targetTable: 'clinical_events', targetId: eventId };
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+/**
+ * Import one page of resources, skipping versions already read
+ */
+async function importResources(
+    resourceType: ImportResourceType,
+    resources: any[],
+    patients: Map<string, PatientImport>,
+    fixedUserId?: string
+): Promise<ImportedResource[]> {
+    if (resources.length === 0) return [];
+
+    // FHIR Patient → Niraiva user
+    const userByPatient = new Map<string, string>();
+    if (!fixedUserId) {
+        const patientIds = Array.from(new Set(resources.map(subjectPatientId).filter((id): id is string => !!id)));
+        if (patientIds.length > 0) {
+            const { data: mappings, error } = await supabaseAdmin
+                .from('fhir_user_map')
+                .select('supabase_user_id, fhir_patient_id')
+                .in('fhir_patient_id', patientIds);
+
+            if (error) throw new Error(`Failed to load FHIR patient mappings: ${error.message}`);
+            (mappings || []).forEach((m: any) => userByPatient.set(m.fhir_patient_id, m.supabase_user_id));
+        }
+    }
+
+    const { data: trackedRows, error: trackedError } = await supabaseAdmin
+        .from('fhir_imported_resources')
+        .select('fhir_id, version_id, status, target_table, target_id')
+        .eq('resource_type', resourceType)
+        .in('fhir_id', resources.map((r) => r.id));
+
+    if (trackedError) throw new Error(`Failed to load imported resources: ${trackedError.message}`);
+    const tracked = new Map<string, TrackedResource>((trackedRows || []).map((t: any) => [t.fhir_id, t]));
+
+    const results: ImportedResource[] = [];
+
+    for (const resource of resources) {
+        const versionId: string | null = resource.meta?.versionId || null;
+        const previous = tracked.get(resource.id);
+        const base = { resourceType, fhirId: resource.id as string, versionId };
+
+        // Already read this version
+        if (previous && previous.version_id === versionId) continue;
+
+        if (isNiraivaResource(resource)) {
+            results.push({ ...base, userId: null, status: 'skipped', reason: 'written by Niraiva' });
+            continue;
+        }
+
+        const fhirPatientId = subjectPatientId(resource);
+        const userId = fixedUserId || (fhirPatientId ? userByPatient.get(fhirPatientId) : undefined);
+        if (!userId) {
+            results.push({ ...base, userId: null, status: 'skipped', reason: 'patient not linked to Niraiva' });
+            continue;
+        }
+
+        const patient = patients.get(userId) || {
+            labEvents: [],
+            eventIds: [],
+            results: 0,
+            conditions: 0,
+            latest: null,
+            sources: new Set<string>(),
+            references: [],
+        };
+        patients.set(userId, patient);
+
+        let outcome: Omit<ImportedResource, 'resourceType' | 'fhirId' | 'versionId' | 'userId'>;
+        try {
+            outcome = resourceType === 'Observation'
+                ? await importObservation(userId, resource, previous, patient)
+                : await importCondition(userId, resource, previous, patient);
+        } catch (error) {
+            console.error(`❌ [FhirImport] ${resourceType}/${resource.id}:`, error);
+            results.push({
+                ...base,
+                userId,
+                status: 'skipped',
+                error: error instanceof Error ? error.message : 'Unknown import error',
+            });
+            continue; // Not tracked, so it is read again
+        }
+
+        if (['imported', 'updated', 'merged'].includes(outcome.status)) {
+            const when = resource.effectiveDateTime || resource.onsetDateTime || resource.recordedDate || resource.meta?.lastUpdated;
+            if (when && (!patient.latest || when > patient.latest)) patient.latest = when;
+            if (resource.meta?.source) patient.sources.add(resource.meta.source);
+            patient.references.push(`${resourceType}/${resource.id}`);
+        }
+
+        const { error } = await supabaseAdmin
+            .from('fhir_imported_resources')
+            .upsert({
+                resource_type: resourceType,
+                fhir_id: resource.id,
+                version_id: versionId,
+                user_id: userId,
+                status: outcome.status,
+                target_table: outcome.targetTable || null,
+                target_id: outcome.targetId || null,
+                conflict: outcome.conflict || null,
+                reason: outcome.reason || null,
+                source: resource.meta?.source || null,
+                last_updated: resource.meta?.lastUpdated || null,
+                imported_at: new Date().toISOString(),
+            }, { onConflict: 'resource_type,fhir_id' });
+
+        if (error) {
+            console.error(`❌ [FhirImport] Failed to record ${resourceType}/${resource.id}:`, error.message);
+        }
+
+        results.push({ ...base, userId, ...outcome });
+    }
+
+    return results;
+}
+
+/**
+ * Lab events, pathway edges and one timeline entry per patient
+ */
+async function finishPatientImports(patients: Map<string, PatientImport>): Promise<void> {
+    for (const [userId, patient] of patients) {
+        if (patient.references.length === 0) continue;
+
+        try {
+            if (patient.labEvents.length > 0) {
+                patient.eventIds.push(...await eventExtractionService.persistEvents(userId, null, patient.labEvents));
+            }
+            if (patient.eventIds.length > 0) {
+                await edgeConstructionService.constructEdges(userId, patient.eventIds);
+            }
+        } catch (error) {
+            console.error(`❌ [FhirImport] Failed to update pathway for ${userId}:`, error);
+        }
+
+        const parts = [
+            patient.results > 0 ? `${patient.results} test result${patient.results === 1 ? '' : 's'}` : null,
+            patient.conditions > 0 ? `${patient.conditions} condition${patient.conditions === 1 ? '' : 's'}` : null,
+        ].filter(Boolean);
+        const from = patient.sources.size > 0 ? Array.from(patient.sources).join(', ') : 'another provider';
+
+        const { error } = await supabaseAdmin.from('timeline_events').insert([{
+            patient_id: userId,
+            title: 'Records received from another provider',
+            description: `${parts.join(' and ')} imported from ${from}`,
+            event_type: 'test',
+            status: 'completed',
+            event_time: new Date(patient.latest || Date.now()).toISOString(),
+            metadata: { source: 'fhir_import', resources: patient.references },
+        }]);
+
+        if (error) {
+            console.error('❌ [FhirImport] Failed to insert timeline event:', error.message);
+        }
+    }
+}
+
+/**
+ * Import everything changed on the FHIR server since the last run.
+ * Each resource type has its own _lastUpdated cursor; it moves to the
+ * newest resource read, or stops at the first one that failed, so a run
+ * cut short resumes where it stopped.
+ */
+export async function importFhirChanges(): Promise<FhirImportResult> {
+    const result: FhirImportResult = { pages: 0, resources: [], errors: [] };
+    const patients = new Map<string, PatientImport>();
+
+    for (const resourceType of IMPORT_RESOURCE_TYPES) {
+        const { data: cursor, error: cursorError } = await supabaseAdmin
+            .from('fhir_import_cursors')
+            .select('last_updated')
+            .eq('resource_type', resourceType)
+            .maybeSingle();
+
+        if (cursorError) throw new Error(`Failed to load import cursor: ${cursorError.message}`);
+
+        // ge, not gt: resources sharing the cursor's timestamp are re-read
+        // and skipped by version
+        const previous = cursor?.last_updated ? new Date(cursor.last_updated).toISOString() : null;
+        const params: Record<string, string> = { _sort: '_lastUpdated' };
+        if (previous) params._lastUpdated = `ge${previous}`;
+
+        let newest = previous;
+        let firstFailure: string | null = null;
+
+        for await (const page of searchPages(resourceType, params)) {
+            if (page.error) {
+                result.errors.push(page.error);
+                break;
+            }
+
+            result.pages++;
+            let imported: ImportedResource[];
+            try {
+                imported = await importResources(resourceType, page.resources, patients);
+            } catch (error) {
+                result.errors.push(error instanceof Error ? error.message : 'Unknown import error');
+                break;
+            }
+            result.resources.push(...imported);
+
+            const failed = new Set(imported.filter((r) => r.error).map((r) => r.fhirId));
+            for (const resource of page.resources as any[]) {
+                const updated = resource.meta?.lastUpdated ? new Date(resource.meta.lastUpdated).toISOString() : null;
+                if (!updated) continue;
+                if (failed.has(resource.id)) {
+                    if (!firstFailure || updated < firstFailure) firstFailure = updated;
+                } else if (!newest || updated > newest) {
+                    newest = updated;
+                }
+            }
+        }
+
+        const next = firstFailure || newest;
+        if (next && next !== previous) {
+            const { error } = await supabaseAdmin
+                .from('fhir_import_cursors')
+                .upsert({ resource_type: resourceType, last_updated: next, updated_at: new Date().toISOString() });
+
+            if (error) {
+                console.error(`❌ [FhirImport] Failed to save ${resourceType} cursor:`, error.message);
+            }
+        }
+    }
+
+    await finishPatientImports(patients);
+    return result;
+}
+
+/**
+ * Import everything the FHIR server has for one patient, regardless of the
+ * cursors. Versions already read are skipped, so this is safe to repeat.
+ * @returns null when the patient has never been synced to FHIR
+ */
+export async function importPatientFromFhir(userId: string): Promise<FhirImportResult | null> {
+    const { data: mapping, error: mappingError } = await supabaseAdmin
+        .from('fhir_user_map')
+        .select('fhir_patient_id')
+        .eq('supabase_user_id', userId)
+        .maybeSingle();
+
+    if (mappingError) throw new Error(`Failed to load FHIR patient mapping: ${mappingError.message}`);
+    if (!mapping?.fhir_patient_id) return null;
+
+    const result: FhirImportResult = { pages: 0, resources: [], errors: [] };
+    const patients = new Map<string, PatientImport>();
+
+    for (const resourceType of IMPORT_RESOURCE_TYPES) {
+        for await (const page of searchPages(resourceType, { patient: `Patient/${mapping.fhir_patient_id}` })) {
+            if (page.error) {
+                result.errors.push(page.error);
+                break;
+            }
+
+            result.pages++;
+            result.resources.push(...await importResources(resourceType, page.resources, patients, userId));
+        }
+    }
+
+    await finishPatientImports(patients);
+    return result;
+}
+
+/**
+ * Imported items that disagree with Niraiva's data, newest first
+ */
+export async function getImportConflicts(userId: string) {
+    const { data, error } = await supabaseAdmin
+        .from('fhir_imported_resources')
+        .select('id, resource_type, fhir_id, version_id, target_table, target_id, conflict, source, last_updated, imported_at')
+        .eq('user_id', userId)
+        .eq('status', 'conflict')
+        .order('imported_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to load import conflicts: ${error.message}`);
+    return data || [];
+}
@@ -5,9 +5,28 @@
  * to FHIR resources following ABDM ABHA v3 standards.
  */
 
-export { syncPatient, getFhirPatientId, type PatientSyncData } from './syncPatient';
-export { syncObservation, syncMultipleObservations, type VitalSign } from './syncObservation';
-export { syncEncounter, type EncounterData } from './syncEncounter';
-export { syncCondition, type ConditionData } from './syncCondition';
-export { syncMedicationRequest, type MedicationData } from './syncMedicationRequest';
-export { syncDiagnosticReport, type DiagnosticReportData } from './syncDiagnosticReport';
+export { syncPatient, buildPatientResource, getFhirPatientId, type PatientSyncData } from './syncPatient';
+export { syncObservation, syncMultipleObservations, buildVitalObservation, type VitalSign } from './syncObservation';
+export { syncEncounter, buildEncounterResource, type EncounterData } from './syncEncounter';
+export { syncCondition, buildConditionResource, type ConditionData } from './syncCondition';
+export { syncMedicationRequest, buildMedicationRequestResource, type MedicationData } from './syncMedicationRequest';
+export {
+    syncDiagnosticReport,
+    buildDiagnosticReportResource,
+    buildResultObservation,
+    type DiagnosticReportData,
+} from './syncDiagnosticReport';
+export {
+    syncPatientHistory,
+    retryHistorySync,
+    NIRAIVA_RECORD_SYSTEM,
+    type HistorySyncResult,
+    type SyncedResource,
+} from './syncHistory';
+export {
+    importFhirChanges,
+    importPatientFromFhir,
+    getImportConflicts,
+    type FhirImportResult,
+    type ImportedResource,
+} from './importFromFhir';
@@ -0,0 +1,123 @@
+/**
+ * FHIR resources for the items of a parsed report (health_reports.report_json):
+ * lab results, diagnoses and prescriptions. Shared by the history sync and
+ * the ABDM document generators.
+ */
+
+import type { FhirResource } from '../fhirClient';
+import { labTerminologyService } from '../../modules/terminology/LabTerminologyService';
+import { buildConditionResource } from './syncCondition';
+import { buildMedicationRequestResource } from './syncMedicationRequest';
+import { buildResultObservation } from './syncDiagnosticReport';
+
+export interface ParsedReport {
+    id: string;
+    report_json: any;
+    uploaded_at: string;
+}
+
+export const conditionName = (c: any) => (typeof c === 'string' ? c : c?.name || c?.condition_name || c?.diagnosis);
+export const medicationName = (m: any) => (typeof m === 'string' ? m : m?.name || m?.medication_name);
+export const parameterName = (p: any) => p?.name || p?.parameter_name || p?.parameter;
+
+function toDateTime(value: unknown, fallback: string): string {
+    if (typeof value === 'string' && !isNaN(new Date(value).getTime())) return value;
+    return fallback;
+}
+
+function interpretation(status: unknown): 'normal' | 'high' | 'low' | undefined {
+    const s = typeof status === 'string' ? status.toLowerCase() : '';
+    if (s.includes('high') || s === 'critical') return 'high';
+    if (s.includes('low')) return 'low';
+    if (s === 'normal') return 'normal';
+    return undefined;
+}
+
+/**
+ * The report's extracted data, clinical date and title
+ */
+export function readReport(report: ParsedReport) {
+    const json = report.report_json || {};
+    const data = json.data || json;
+
+    return {
+        json,
+        data,
+        date: toDateTime(json.metadata?.documentDate || data.metadata?.documentDate, report.uploaded_at),
+        title: (json.eventInfo?.eventTitle || json.metadata?.documentType || 'Health report') as string,
+    };
+}
+
+/**
+ * Lab result Observation, LOINC-coded when the test is in the catalog.
+ * Text results ("Negative", "<0.5") stay as reported.
+ * @returns null for a parameter without a name
+ */
+export function buildLabObservation(param: any, subjectReference: string, date: string): FhirResource | null {
+    const name = parameterName(param);
+    if (!name) return null;
+
+    const normalized = labTerminologyService.normalize(name, param.value, param.unit);
+    const observation: any = buildResultObservation({
+        code: normalized.code,
+        display: normalized.displayName,
+        value: normalized.value ?? normalized.rawValue,
+        unit: normalized.unit || normalized.rawUnit || undefined,
+        interpretation: interpretation(param.status),
+    }, subjectReference, date);
+
+    if (normalized.loincCode) {
+        observation.code.coding[0].system = 'http://loinc.org';
+    }
+    if (normalized.value === null) {
+        delete observation.valueQuantity;
+        observation.valueString = normalized.rawValue;
+    }
+    observation.category = [
+        {
+            coding: [
+                {
+                    system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+                    code: 'laboratory',
+                    display: 'Laboratory',
+                },
+            ],
+        },
+    ];
+
+    return observation;
+}
+
+/**
+ * @returns null for a diagnosis without a name
+ */
+export function buildReportCondition(c: any, subjectReference: string, date: string): FhirResource | null {
+    const name = conditionName(c);
+    if (!name) return null;
+
+    const condition: any = buildConditionResource({
+        code: typeof c === 'object' ? c.code || c.icd10 : undefined,
+        display: name,
+        severity: typeof c === 'object' && ['mild', 'moderate', 'severe'].includes(c.severity) ? c.severity : undefined,
+        notes: typeof c === 'object' ? c.notes : undefined,
+    }, subjectReference);
+    condition.recordedDate = date;
+
+    return condition;
+}
+
+/**
+ * @returns null for a medication without a name
+ */
+export function buildReportMedicationRequest(m: any, subjectReference: string, date: string): FhirResource | null {
+    const name = medicationName(m);
+    if (!name) return null;
+
+    return buildMedicationRequestResource({
+        medicationName: name,
+        dosage: typeof m === 'object' ? m.dosage || m.dose : undefined,
+        frequency: typeof m === 'object' ? m.frequency : undefined,
+        route: typeof m === 'object' ? m.route : undefined,
+        authoredOn: date,
+    }, subjectReference);
+}
@@ -13,6 +13,89 @@ export interface ConditionData {
     notes?: string;
 }
 
+/**
+ * Build a FHIR Condition from a diagnosis
+ * @param subjectReference - e.g. "Patient/123", or a Bundle entry's fullUrl
+ */
+export function buildConditionResource(data: Omit<ConditionData, 'userId'>, subjectReference: string): FhirResource {
+    const condition: any = {
+        resourceType: 'Condition',
+        clinicalStatus: {
+            coding: [
+                {
+                    system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+                    code: data.clinicalStatus || 'active',
+                },
+            ],
+        },
+        verificationStatus: {
+            coding: [
+                {
+                    system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+                    code: data.verificationStatus || 'confirmed',
+                },
+            ],
+        },
+        subject: {
+            reference: subjectReference,
+        },
+    };
+
+    // Add condition code
+    if (data.code || data.display) {
+        condition.code = {
+            text: data.display || data.code,
+        };
+        if (data.code) {
+            condition.code.coding = [
+                {
+                    code: data.code,
+                    display: data.display,
+                },
+            ];
+        }
+    }
+
+    // Add severity
+    if (data.severity) {
+        condition.severity = {
+            coding: [
+                {
+                    system: 'http://snomed.info/sct',
+                    code:
+                        data.severity === 'mild'
+                            ? '255604002'
+                            : data.severity === 'moderate'
+                                ? '6736007'
+                                : '24484000',
+                    display: data.severity.charAt(0).toUpperCase() + data.severity.slice(1),
+                },
+            ],
+        };
+    }
+
+    // Add onset
+    if (data.onsetDateTime) {
+        condition.onsetDateTime = data.onsetDateTime;
+    }
+
+    // Add abatement
+    if (data.abatementDateTime) {
+        condition.abatementDateTime = data.abatementDateTime;
+    }
+
+    // Add notes
+    if (data.notes) {
+        condition.note = [
+            {
+                text: data.notes,
+            },
+        ];
+    }
+
+    return condition;
+}
+
 /**
  * Sync diagnosis/condition to FHIR Condition resource
  */
@@ -27,80 +110,7 @@ export async function syncCondition(data: ConditionData): Promise<FhirResponse<F
             };
         }
 
-        const condition: any = {
-            resourceType: 'Condition',
-            clinicalStatus: {
-                coding: [
-                    {
-                        system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
-                        code: data.clinicalStatus || 'active',
-                    },
-                ],
-            },
-            verificationStatus: {
-                coding: [
-                    {
-                        system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
-                        code: data.verificationStatus || 'confirmed',
-                    },
-                ],
-            },
-            subject: {
-                reference: `Patient/${fhirPatientId}`,
-            },
-        };
-
-        // Add condition code
-        if (data.code || data.display) {
-            condition.code = {
-                text: data.display || data.code,
-            };
-            if (data.code) {
-                condition.code.coding = [
-                    {
-                        code: data.code,
-                        display: data.display,
-                    },
-                ];
-            }
-        }
-
-        // Add severity
-        if (data.severity) {
-            condition.severity = {
-                coding: [
-                    {
-                        system: 'http://snomed.info/sct',
-                        code:
-                            data.severity === 'mild'
-                                ? '255604002'
-                                : data.severity === 'moderate'
-                                    ? '6736007'
-                                    : '24484000',
-                        display: data.severity.charAt(0).toUpperCase() + data.severity.slice(1),
-                    },
-                ],
-            };
-        }
-
-        // Add onset
-        if (data.onsetDateTime) {
-            condition.onsetDateTime = data.onsetDateTime;
-        }
-
-        // Add abatement
-        if (data.abatementDateTime) {
-            condition.abatementDateTime = data.abatementDateTime;
-        }
-
-        // Add notes
-        if (data.notes) {
-            condition.note = [
-                {
-                    text: data.notes,
-                },
-            ];
-        }
+        const condition = buildConditionResource(data, `Patient/${fhirPatientId}`);
 
         const response = await fhirPost<FhirResource>('Condition', condition);
 
@@ -19,6 +19,113 @@ export interface DiagnosticReportData {
     }>;
 }
 
+export type DiagnosticResult = NonNullable<DiagnosticReportData['results']>[number];
+
+/**
+ * Build a FHIR DiagnosticReport (without its result references)
+ * @param subjectReference - e.g. "Patient/123", or a Bundle entry's fullUrl
+ */
+export function buildDiagnosticReportResource(
+    data: Omit<DiagnosticReportData, 'userId' | 'results'>,
+    subjectReference: string
+): FhirResource {
+    const diagnosticReport: any = {
+        resourceType: 'DiagnosticReport',
+        status: data.status || 'final',
+        subject: {
+            reference: subjectReference,
+        },
+        effectiveDateTime: data.effectiveDateTime || new Date().toISOString(),
+        issued: data.issuedDateTime || new Date().toISOString(),
+    };
+
+    // Add category
+    if (data.category) {
+        diagnosticReport.category = [
+            {
+                coding: [
+                    {
+                        system: 'http://terminology.hl7.org/CodeSystem/v2-0074',
+                        code: 'LAB',
+                        display: 'Laboratory',
+                    },
+                ],
+                text: data.category,
+            },
+        ];
+    }
+
+    // Add code
+    if (data.code || data.display) {
+        diagnosticReport.code = {
+            text: data.display || data.code,
+        };
+        if (data.code) {
+            diagnosticReport.code.coding = [
+                {
+                    code: data.code,
+                    display: data.display,
+                },
+            ];
+        }
+    }
+
+    // Add conclusion
+    if (data.conclusion) {
+        diagnosticReport.conclusion = data.conclusion;
+    }
+
+    return diagnosticReport;
+}
+
+/**
+ * Build the Observation for one lab result of a report
+ */
+export function buildResultObservation(
+    result: DiagnosticResult,
+    subjectReference: string,
+    effectiveDateTime: string
+): FhirResource {
+    const observation: any = {
+        resourceType: 'Observation',
+        status: 'final',
+        code: {
+            coding: [
+                {
+                    code: result.code,
+                    display: result.display,
+                },
+            ],
+            text: result.display,
+        },
+        subject: {
+            reference: subjectReference,
+        },
+        effectiveDateTime,
+        valueQuantity: {
+            value: typeof result.value === 'string' ? parseFloat(result.value) : result.value,
+            unit: result.unit,
+        },
+    };
+
+    // Add interpretation
+    if (result.interpretation) {
+        observation.interpretation = [
+            {
+                coding: [
+                    {
+                        system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation',
+                        code: result.interpretation === 'normal' ? 'N' : result.interpretation === 'high' ? 'H' : 'L',
+                        display: result.interpretation.charAt(0).toUpperCase() + result.interpretation.slice(1),
+                    },
+                ],
+            },
+        ];
+    }
+
+    return observation;
+}
+
 /**
  * Sync lab results to FHIR DiagnosticReport resource
  */
@@ -35,93 +142,18 @@ export async function syncDiagnosticReport(
             };
         }
 
-        const diagnosticReport: any = {
-            resourceType: 'DiagnosticReport',
-            status: data.status || 'final',
-            subject: {
-                reference: `Patient/${fhirPatientId}`,
-            },
-            effectiveDateTime: data.effectiveDateTime || new Date().toISOString(),
-            issued: data.issuedDateTime || new Date().toISOString(),
-        };
-
-        // Add category
-        if (data.category) {
-            diagnosticReport.category = [
-                {
-                    coding: [
-                        {
-                            system: 'http://terminology.hl7.org/CodeSystem/v2-0074',
-                            code: 'LAB',
-                            display: 'Laboratory',
-                        },
-                    ],
-                    text: data.category,
-                },
-            ];
-        }
-
-        // Add code
-        if (data.code || data.display) {
-            diagnosticReport.code = {
-                text: data.display || data.code,
-            };
-            if (data.code) {
-                diagnosticReport.code.coding = [
-                    {
-                        code: data.code,
-                        display: data.display,
-                    },
-                ];
-            }
-        }
-
-        // Add conclusion
-        if (data.conclusion) {
-            diagnosticReport.conclusion = data.conclusion;
-        }
+        const diagnosticReport: any = buildDiagnosticReportResource(data, `Patient/${fhirPatientId}`);
 
         // Create Observation resources for results and link them
         if (data.results && data.results.length > 0) {
             const resultReferences: any[] = [];
 
             for (const result of data.results) {
-                const observation: any = {
-                    resourceType: 'Observation',
-                    status: 'final',
-                    code: {
-                        coding: [
-                            {
-                                code: result.code,
-                                display: result.display,
-                            },
-                        ],
-                        text: result.display,
-                    },
-                    subject: {
-                        reference: `Patient/${fhirPatientId}`,
-                    },
-                    effectiveDateTime: data.effectiveDateTime || new Date().toISOString(),
-                    valueQuantity: {
-                        value: typeof result.value === 'string' ? parseFloat(result.value) : result.value,
-                        unit: result.unit,
-                    },
-                };
-
-                // Add interpretation
-                if (result.interpretation) {
-                    observation.interpretation = [
-                        {
-                            coding: [
-                                {
-                                    system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation',
-                                    code: result.interpretation === 'normal' ? 'N' : result.interpretation === 'high' ? 'H' : 'L',
-                                    display: result.interpretation.charAt(0).toUpperCase() + result.interpretation.slice(1),
-                                },
-                            ],
-                        },
-                    ];
-                }
+                const observation = buildResultObservation(
+                    result,
+                    `Patient/${fhirPatientId}`,
+                    data.effectiveDateTime || new Date().toISOString()
+                );
 
                 // Post observation
                 const obsResponse = await fhirPost<FhirResource>('Observation', observation);
@@ -12,6 +12,52 @@ export interface EncounterData {
     notes?: string;
 }
 
+/**
+ * Build a FHIR Encounter from a consultation
+ * @param subjectReference - e.g. "Patient/123", or a Bundle entry's fullUrl
+ */
+export function buildEncounterResource(data: Omit<EncounterData, 'userId'>, subjectReference: string): FhirResource {
+    const encounter: any = {
+        resourceType: 'Encounter',
+        status: data.status || 'finished',
+        class: {
+            system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+            code: 'AMB',
+            display: 'ambulatory',
+        },
+        subject: {
+            reference: subjectReference,
+        },
+    };
+
+    // Add type if provided
+    if (data.type) {
+        encounter.type = [
+            {
+                text: data.type,
+            },
+        ];
+    }
+
+    // Add period
+    if (data.startDate || data.endDate) {
+        encounter.period = {};
+        if (data.startDate) encounter.period.start = data.startDate;
+        if (data.endDate) encounter.period.end = data.endDate;
+    }
+
+    // Add reason for visit
+    if (data.reasonCode || data.reasonDisplay) {
+        encounter.reasonCode = [
+            {
+                text: data.reasonDisplay || data.reasonCode,
+            },
+        ];
+    }
+
+    return encounter;
+}
+
 /**
  * Sync consultation/encounter to FHIR Encounter resource
  */
@@ -26,43 +72,7 @@ export async function syncEncounter(data: EncounterData): Promise<FhirResponse<F
             };
         }
 
-        const encounter: any = {
-            resourceType: 'Encounter',
-            status: data.status || 'finished',
-            class: {
-                system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
-                code: 'AMB',
-                display: 'ambulatory',
-            },
-            subject: {
-                reference: `Patient/${fhirPatientId}`,
-            },
-        };
-
-        // Add type if provided
-        if (data.type) {
-            encounter.type = [
-                {
-                    text: data.type,
-                },
-            ];
-        }
-
-        // Add period
-        if (data.startDate || data.endDate) {
-            encounter.period = {};
-            if (data.startDate) encounter.period.start = data.startDate;
-            if (data.endDate) encounter.period.end = data.endDate;
-        }
-
-        // Add reason for visit
-        if (data.reasonCode || data.reasonDisplay) {
-            encounter.reasonCode = [
-                {
-                    text: data.reasonDisplay || data.reasonCode,
-                },
-            ];
-        }
+        const encounter = buildEncounterResource(data, `Patient/${fhirPatientId}`);
 
         const response = await fhirPost<FhirResource>('Encounter', encounter);
 
@@ -0,0 +1,454 @@
+/**
+ * Full-history sync: the patient profile, vitals and every stored report
+ * as FHIR transaction Bundles. Each resource carries a stable Niraiva
+ * identifier and is a conditional create on it, so re-running a sync
+ * never duplicates anything.
+ */
+
+import crypto from 'crypto';
+import { FHIR_BASE_URL, fhirTransaction, type FhirResource } from '../fhirClient';
+import { supabaseAdmin } from '../supabaseClient';
+import { buildPatientResource, getFhirPatientId } from './syncPatient';
+import { buildVitalObservation } from './syncObservation';
+import { buildEncounterResource } from './syncEncounter';
+import { buildDiagnosticReportResource } from './syncDiagnosticReport';
+import {
+    buildLabObservation,
+    buildReportCondition,
+    buildReportMedicationRequest,
+    conditionName,
+    medicationName,
+    readReport,
+} from './reportResources';
+
+export const NIRAIVA_USER_SYSTEM = 'niraiva-user';
+export const NIRAIVA_RECORD_SYSTEM = 'niraiva-record';
+
+// Resources of one source (a report, the vitals) always travel in the same
+// transaction so their internal references resolve; sources are packed
+// into bundles of up to this many entries
+const MAX_BUNDLE_ENTRIES = parseInt(process.env.FHIR_SYNC_MAX_BUNDLE_ENTRIES || '200');
+
+export interface SyncedResource {
+    resourceType: string;
+    identifier: string;         // niraiva-record (or niraiva-user) value
+    source: string;             // 'profile', 'vitals' or 'report:<id>'
+    status: 'created' | 'updated' | 'unchanged' | 'failed' | 'skipped';
+    id?: string;
+    error?: string;
+}
+
+export interface HistorySyncResult {
+    syncId: string;
+    status: 'completed' | 'partial' | 'failed';
+    bundles: number;
+    resources: SyncedResource[];
+}
+
+interface PlannedEntry {
+    fullUrl: string;
+    resource: FhirResource;
+    request: { method: 'POST' | 'PUT'; url: string; ifNoneExist?: string };
+    identifier: string;
+    source: string;
+}
+
+interface SourceGroup {
+    source: string;
+    entries: PlannedEntry[];
+    skipped: SyncedResource[];
+}
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// ============================================================
+// BUNDLE PLANNING
+// ============================================================
+
+/**
+ * Entry for a resource identified by a Niraiva record key: created only if
+ * no resource with that identifier exists yet
+ */
+function conditionalCreate(resource: FhirResource, identifier: string, source: string): PlannedEntry {
+    const tagged: any = { ...resource };
+    tagged.identifier = [...((resource as any).identifier || []), { system: NIRAIVA_RECORD_SYSTEM, value: identifier }];
+
+    return {
+        fullUrl: `urn:uuid:${crypto.randomUUID()}`,
+        resource: tagged,
+        request: {
+            method: 'POST',
+            url: resource.resourceType,
+            ifNoneExist: `identifier=${encodeURIComponent(`${NIRAIVA_RECORD_SYSTEM}|${identifier}`)}`,
+        },
+        identifier,
+        source,
+    };
+}
+
+function planPatient(userId: string, profile: any, fhirPatientId: string | null): PlannedEntry {
+    const resource: any = buildPatientResource({
+        userId,
+        firstName: profile.first_name,
+        middleName: profile.middle_name,
+        lastName: profile.last_name,
+        email: profile.email,
+        mobile: profile.mobile,
+        gender: profile.gender,
+        dob: profile.dob,
+        abhaNumber: profile.abha_number,
+    });
+
+    // Known patients are updated in place; new ones are created once
+    if (fhirPatientId) {
+        resource.id = fhirPatientId;
+    }
+
+    return {
+        fullUrl: fhirPatientId ? `${FHIR_BASE_URL.replace(/\/$/, '')}/Patient/${fhirPatientId}` : `urn:uuid:${crypto.randomUUID()}`,
+        resource,
+        request: fhirPatientId
+            ? { method: 'PUT', url: `Patient/${fhirPatientId}` }
+            : {
+                method: 'POST',
+                url: 'Patient',
+                ifNoneExist: `identifier=${encodeURIComponent(`${NIRAIVA_USER_SYSTEM}|${userId}`)}`,
+            },
+        identifier: userId,
+        source: 'profile',
+    };
+}
+
+function planVitals(observations: any[], patientRef: string): SourceGroup {
+    const group: SourceGroup = { source: 'vitals', entries: [], skipped: [] };
+
+    for (const obs of observations) {
+        const identifier = `vitals:${obs.id}`;
+        const resource = buildVitalObservation(
+            { type: obs.code, value: obs.value, unit: obs.unit, timestamp: obs.timestamp },
+            patientRef
+        );
+
+        if (!resource) {
+            group.skipped.push({
+                resourceType: 'Observation',
+                identifier,
+                source: group.source,
+                status: 'skipped',
+                error: `Unknown vital sign type: ${obs.code}`,
+            });
+            continue;
+        }
+
+        group.entries.push(conditionalCreate(resource, identifier, group.source));
+    }
+
+    return group;
+}
+
+/**
+ * One report as an Encounter with its lab results (Observations under a
+ * DiagnosticReport), Conditions and MedicationRequests
+ */
+function planReport(report: any, patientRef: string): SourceGroup {
+    const source = `report:${report.id}`;
+    const group: SourceGroup = { source, entries: [], skipped: [] };
+    const { json, data, date, title } = readReport(report);
+    const seen = new Set<string>();
+    const key = (kind: string, name: string) => {
+        const base = `${report.id}:${kind}:${slug(name) || 'item'}`;
+        let candidate = base;
+        for (let i = 2; seen.has(candidate); i++) candidate = `${base}-${i}`;
+        seen.add(candidate);
+        return candidate;
+    };
+
+    // Encounter: the visit or test the report came from
+    const encounter: any = buildEncounterResource({
+        type: title,
+        status: 'finished',
+        startDate: date,
+        reasonDisplay: json.eventInfo?.eventDescription,
+    }, patientRef);
+    if (json.metadata?.provider) {
+        encounter.serviceProvider = { display: json.metadata.provider };
+    }
+    const encounterEntry = conditionalCreate(encounter, `${report.id}:encounter`, source);
+    group.entries.push(encounterEntry);
+    const encounterRef = { reference: encounterEntry.fullUrl };
+
+    // Lab results
+    const resultRefs: Array<{ reference: string }> = [];
+    for (const p of data.parameters || data.tests || []) {
+        const observation: any = buildLabObservation(p, patientRef, date);
+        if (!observation) continue;
+        observation.encounter = encounterRef;
+
+        const entry = conditionalCreate(observation, key('observation', observation.code.coding[0].code), source);
+        group.entries.push(entry);
+        resultRefs.push({ reference: entry.fullUrl });
+    }
+
+    if (resultRefs.length > 0) {
+        const diagnosticReport: any = buildDiagnosticReportResource({
+            status: 'final',
+            category: 'Laboratory',
+            display: title,
+            effectiveDateTime: date,
+            issuedDateTime: report.uploaded_at,
+            conclusion: json.eventInfo?.eventDescription || json.summary || data.summary,
+        }, patientRef);
+        diagnosticReport.result = resultRefs;
+        diagnosticReport.encounter = encounterRef;
+        group.entries.push(conditionalCreate(diagnosticReport, `${report.id}:report`, source));
+    }
+
+    // Diagnoses
+    for (const c of data.conditions || []) {
+        const condition: any = buildReportCondition(c, patientRef, date);
+        if (!condition) continue;
+        condition.encounter = encounterRef;
+        group.entries.push(conditionalCreate(condition, key('condition', conditionName(c)), source));
+    }
+
+    // Prescriptions
+    for (const m of data.medications || []) {
+        const medicationRequest: any = buildReportMedicationRequest(m, patientRef, date);
+        if (!medicationRequest) continue;
+        medicationRequest.encounter = encounterRef;
+        group.entries.push(conditionalCreate(medicationRequest, key('medication', medicationName(m)), source));
+    }
+
+    return group;
+}
+
+/**
+ * Pack source groups into transaction Bundles without splitting a group
+ */
+function packBundles(groups: SourceGroup[]): PlannedEntry[][] {
+    const bundles: PlannedEntry[][] = [];
+    let current: PlannedEntry[] = [];
+
+    for (const group of groups) {
+        if (group.entries.length === 0) continue;
+        if (current.length > 0 && current.length + group.entries.length > MAX_BUNDLE_ENTRIES) {
+            bundles.push(current);
+            current = [];
+        }
+        current.push(...group.entries);
+    }
+    if (current.length > 0) bundles.push(current);
+
+    return bundles;
+}
+
+// ============================================================
+// SUBMISSION
+// ============================================================
+
+function outcomeMessage(data: any, fallback?: string): string {
+    const issues = data?.resourceType === 'OperationOutcome' ? data.issue || [] : [];
+    const text = issues.map((i: any) => i.diagnostics || i.details?.text).filter(Boolean).join('; ');
+    return text || fallback || 'Transaction rejected by FHIR server';
+}
+
+async function submitBundle(entries: PlannedEntry[]): Promise<SyncedResource[]> {
+    const response = await fhirTransaction({
+        resourceType: 'Bundle',
+        type: 'transaction',
+        entry: entries.map((e) => ({ fullUrl: e.fullUrl, resource: e.resource, request: e.request })),
+    });
+
+    // A transaction is all-or-nothing: when it fails, every entry failed
+    if (!response.ok || response.data?.resourceType !== 'Bundle') {
+        const error = outcomeMessage(response.data, response.error);
+        return entries.map((e) => ({
+            resourceType: e.resource.resourceType,
+            identifier: e.identifier,
+            source: e.source,
+            status: 'failed',
+            error,
+        }));
+    }
+
+    return entries.map((e, i) => {
+        const result: any = response.data?.entry?.[i]?.response || {};
+        const code = parseInt(String(result.status || ''));
+        const id = typeof result.location === 'string' ? result.location.split('/')[1] : undefined;
+
+        return {
+            resourceType: e.resource.resourceType,
+            identifier: e.identifier,
+            source: e.source,
+            status: code === 201 ? 'created' : e.request.method === 'PUT' ? 'updated' : 'unchanged',
+            id,
+        };
+    });
+}
+
+/**
+ * Build and submit the patient's full history
+ * @param sources - Only these sources (retry); all when omitted
+ */
+async function runHistorySync(
+    userId: string,
+    sources?: Set<string>
+): Promise<{ bundles: number; resources: SyncedResource[] }> {
+    const include = (source: string) => !sources || sources.has(source);
+    const resources: SyncedResource[] = [];
+    let bundles = 0;
+
+    // 1. Patient first: everything else references it
+    let fhirPatientId = await getFhirPatientId(userId);
+    if (include('profile') || !fhirPatientId) {
+        const { data: profile } = await supabaseAdmin
+            .from('user_profiles')
+            .select('*')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (!profile) {
+            throw new Error('Patient profile not found');
+        }
+
+        const [patientResult] = await submitBundle([planPatient(userId, profile, fhirPatientId)]);
+        bundles++;
+        resources.push(patientResult);
+
+        if (patientResult.status === 'failed' || !patientResult.id) {
+            return { bundles, resources };
+        }
+        if (patientResult.id !== fhirPatientId) {
+            fhirPatientId = patientResult.id;
+            await supabaseAdmin
+                .from('fhir_user_map')
+                .upsert({ supabase_user_id: userId, fhir_patient_id: fhirPatientId }, { onConflict: 'supabase_user_id' });
+        }
+    }
+
+    const patientRef = `Patient/${fhirPatientId}`;
+    const groups: SourceGroup[] = [];
+
+    // 2. Vitals
+    if (include('vitals')) {
+        const { data: observations, error } = await supabaseAdmin
+            .from('observations')
+            .select('*')
+            .eq('user_id', userId)
+            .order('timestamp', { ascending: true });
+
+        if (error) throw new Error(`Failed to load vitals: ${error.message}`);
+        groups.push(planVitals(observations || [], patientRef));
+    }
+
+    // 3. Every stored report
+    const { data: reports, error: reportsError } = await supabaseAdmin
+        .from('health_reports')
+        .select('id, report_json, uploaded_at')
+        .eq('user_id', userId)
+        .order('uploaded_at', { ascending: true });
+
+    if (reportsError) throw new Error(`Failed to load reports: ${reportsError.message}`);
+    for (const report of reports || []) {
+        if (include(`report:${report.id}`)) groups.push(planReport(report, patientRef));
+    }
+
+    groups.forEach((g) => resources.push(...g.skipped));
+
+    for (const entries of packBundles(groups)) {
+        resources.push(...await submitBundle(entries));
+        bundles++;
+    }
+
+    return { bundles, resources };
+}
+
+// ============================================================
+// SYNC LOG
+// ============================================================
+
+async function recordSync(
+    userId: string,
+    syncType: 'full' | 'retry',
+    retryOf: string | null,
+    sources?: Set<string>
+): Promise<HistorySyncResult> {
+    const { data: syncLog, error: logError } = await supabaseAdmin
+        .from('fhir_sync_logs')
+        .insert({
+            user_id: userId,
+            sync_type: syncType,
+            status: 'in_progress',
+            retry_of: retryOf,
+        })
+        .select()
+        .single();
+
+    if (logError || !syncLog) {
+        throw new Error(`Failed to create sync log: ${logError?.message}`);
+    }
+
+    let result: { bundles: number; resources: SyncedResource[] };
+    try {
+        result = await runHistorySync(userId, sources);
+    } catch (error: any) {
+        await supabaseAdmin
+            .from('fhir_sync_logs')
+            .update({ status: 'failed', error_message: error.message, completed_at: new Date().toISOString() })
+            .eq('id', syncLog.id);
+        throw error;
+    }
+
+    const failed = result.resources.filter((r) => r.status === 'failed');
+    const status: HistorySyncResult['status'] = failed.length === 0
+        ? 'completed'
+        : failed.length === result.resources.length ? 'failed' : 'partial';
+    const errors = Array.from(new Set(failed.map((r) => `${r.source}: ${r.error}`)));
+
+    await supabaseAdmin
+        .from('fhir_sync_logs')
+        .update({
+            status,
+            resources_synced: result.resources,
+            error_message: errors.length > 0 ? errors.join('; ') : null,
+            completed_at: new Date().toISOString(),
+        })
+        .eq('id', syncLog.id);
+
+    console.log(`🔄 [FhirSync] ${syncType} sync ${syncLog.id}: ${status}, ${result.resources.length} resources in ${result.bundles} bundle(s)`);
+
+    return { syncId: syncLog.id, status, bundles: result.bundles, resources: result.resources };
+}
+
+/**
+ * Sync the patient's profile, vitals and all stored reports to FHIR
+ */
+export async function syncPatientHistory(userId: string): Promise<HistorySyncResult> {
+    return recordSync(userId, 'full', null);
+}
+
+/**
+ * Re-submit the sources that failed in an earlier sync. Sources that
+ * succeeded are left alone; re-sending them would be harmless anyway.
+ * @returns null when the sync does not exist or has nothing to retry
+ */
+export async function retryHistorySync(userId: string, syncId: string): Promise<HistorySyncResult | null> {
+    const { data: syncLog } = await supabaseAdmin
+        .from('fhir_sync_logs')
+        .select('*')
+        .eq('id', syncId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!syncLog || !['partial', 'failed'].includes(syncLog.status)) {
+        return null;
+    }
+
+    const previous: SyncedResource[] = Array.isArray(syncLog.resources_synced) ? syncLog.resources_synced : [];
+    const failedSources = new Set(previous.filter((r) => r.status === 'failed').map((r) => r.source));
+
+    // Without the patient nothing else was attempted, and a sync that failed
+    // before tracking any resource has no list: both are retried in full
+    const retryAll = failedSources.size === 0 || failedSources.has('profile');
+    return recordSync(userId, 'retry', syncId, retryAll ? undefined : failedSources);
+}
@@ -15,6 +15,68 @@ export interface MedicationData {
     notes?: string;
 }
 
+/**
+ * Build a FHIR MedicationRequest from a prescription
+ * @param subjectReference - e.g. "Patient/123", or a Bundle entry's fullUrl
+ */
+export function buildMedicationRequestResource(data: Omit<MedicationData, 'userId'>, subjectReference: string): FhirResource {
+    const medicationRequest: any = {
+        resourceType: 'MedicationRequest',
+        status: data.status || 'active',
+        intent: data.intent || 'order',
+        medicationCodeableConcept: {
+            text: data.medicationName,
+        },
+        subject: {
+            reference: subjectReference,
+        },
+        authoredOn: data.authoredOn || new Date().toISOString(),
+    };
+
+    // Add dosage instructions
+    if (data.dosage || data.frequency || data.route) {
+        medicationRequest.dosageInstruction = [
+            {
+                text: [data.dosage, data.frequency, data.route].filter(Boolean).join(', '),
+            },
+        ];
+
+        if (data.route) {
+            medicationRequest.dosageInstruction[0].route = {
+                text: data.route,
+            };
+        }
+
+        if (data.frequency) {
+            medicationRequest.dosageInstruction[0].timing = {
+                code: {
+                    text: data.frequency,
+                },
+            };
+        }
+    }
+
+    // Add reason
+    if (data.reasonCode || data.reasonDisplay) {
+        medicationRequest.reasonCode = [
+            {
+                text: data.reasonDisplay || data.reasonCode,
+            },
+        ];
+    }
+
+    // Add notes
+    if (data.notes) {
+        medicationRequest.note = [
+            {
+                text: data.notes,
+            },
+        ];
+    }
+
+    return medicationRequest;
+}
+
 /**
  * Sync medication prescription to FHIR MedicationRequest resource
  */
@@ -31,59 +93,7 @@ export async function syncMedicationRequest(
             };
         }
 
-        const medicationRequest: any = {
-            resourceType: 'MedicationRequest',
-            status: data.status || 'active',
-            intent: data.intent || 'order',
-            medicationCodeableConcept: {
-                text: data.medicationName,
-            },
-            subject: {
-                reference: `Patient/${fhirPatientId}`,
-            },
-            authoredOn: data.authoredOn || new Date().toISOString(),
-        };
-
-        // Add dosage instructions
-        if (data.dosage || data.frequency || data.route) {
-            medicationRequest.dosageInstruction = [
-                {
-                    text: [data.dosage, data.frequency, data.route].filter(Boolean).join(', '),
-                },
-            ];
-
-            if (data.route) {
-                medicationRequest.dosageInstruction[0].route = {
-                    text: data.route,
-                };
-            }
-
-            if (data.frequency) {
-                medicationRequest.dosageInstruction[0].timing = {
-                    code: {
-                        text: data.frequency,
-                    },
-                };
-            }
-        }
-
-        // Add reason
-        if (data.reasonCode || data.reasonDisplay) {
-            medicationRequest.reasonCode = [
-                {
-                    text: data.reasonDisplay || data.reasonCode,
-                },
-            ];
-        }
-
-        // Add notes
-        if (data.notes) {
-            medicationRequest.note = [
-                {
-                    text: data.notes,
-                },
-            ];
-        }
+        const medicationRequest = buildMedicationRequestResource(data, `Patient/${fhirPatientId}`);
 
         const response = await fhirPost<FhirResource>('MedicationRequest', medicationRequest);
 
@@ -47,6 +47,99 @@ const LOINC_CODES: Record<string, { code: string; display: string; unit: string
     },
 };
 
+/**
+ * Build a vital-signs Observation
+ * @param subjectReference - e.g. "Patient/123", or a Bundle entry's fullUrl
+ * @returns null for an unknown vital sign type
+ */
+export function buildVitalObservation(vital: VitalSign, subjectReference: string): FhirResource | null {
+    const loincInfo = LOINC_CODES[vital.type];
+    if (!loincInfo) {
+        return null;
+    }
+
+    // Build FHIR Observation resource
+    const observation: any = {
+        resourceType: 'Observation',
+        status: 'final',
+        category: [
+            {
+                coding: [
+                    {
+                        system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+                        code: 'vital-signs',
+                        display: 'Vital Signs',
+                    },
+                ],
+            },
+        ],
+        code: {
+            coding: [
+                {
+                    system: 'http://loinc.org',
+                    code: loincInfo.code,
+                    display: loincInfo.display,
+                },
+            ],
+            text: loincInfo.display,
+        },
+        subject: {
+            reference: subjectReference,
+        },
+        effectiveDateTime: vital.timestamp || new Date().toISOString(),
+    };
+
+    // Handle blood pressure specially (has components)
+    if (vital.type === 'blood_pressure' && vital.systolic && vital.diastolic) {
+        observation.component = [
+            {
+                code: {
+                    coding: [
+                        {
+                            system: 'http://loinc.org',
+                            code: '8480-6',
+                            display: 'Systolic Blood Pressure',
+                        },
+                    ],
+                },
+                valueQuantity: {
+                    value: vital.systolic,
+                    unit: 'mm[Hg]',
+                    system: 'http://unitsofmeasure.org',
+                    code: 'mm[Hg]',
+                },
+            },
+            {
+                code: {
+                    coding: [
+                        {
+                            system: 'http://loinc.org',
+                            code: '8462-4',
+                            display: 'Diastolic Blood Pressure',
+                        },
+                    ],
+                },
+                valueQuantity: {
+                    value: vital.diastolic,
+                    unit: 'mm[Hg]',
+                    system: 'http://unitsofmeasure.org',
+                    code: 'mm[Hg]',
+                },
+            },
+        ];
+    } else {
+        // Single value observation
+        observation.valueQuantity = {
+            value: typeof vital.value === 'string' ? parseFloat(vital.value) : vital.value,
+            unit: vital.unit || loincInfo.unit,
+            system: 'http://unitsofmeasure.org',
+            code: vital.unit || loincInfo.unit,
+        };
+    }
+
+    return observation;
+}
+
 /**
  * Sync vital signs to FHIR Observation resource
  */
@@ -65,8 +158,8 @@ export async function syncObservation(
             };
         }
 
-        const loincInfo = LOINC_CODES[vital.type];
-        if (!loincInfo) {
+        const observation = buildVitalObservation(vital, `Patient/${fhirPatientId}`);
+        if (!observation) {
             return {
                 status: 400,
                 ok: false,
@@ -74,85 +167,6 @@ export async function syncObservation(
             };
         }
 
-        // Build FHIR Observation resource
-        const observation: any = {
-            resourceType: 'Observation',
-            status: 'final',
-            category: [
-                {
-                    coding: [
-                        {
-                            system: 'http://terminology.hl7.org/CodeSystem/observation-category',
-                            code: 'vital-signs',
-                            display: 'Vital Signs',
-                        },
-                    ],
-                },
-            ],
-            code: {
-                coding: [
-                    {
-                        system: 'http://loinc.org',
-                        code: loincInfo.code,
-                        display: loincInfo.display,
-                    },
-                ],
-                text: loincInfo.display,
-            },
-            subject: {
-                reference: `Patient/${fhirPatientId}`,
-            },
-            effectiveDateTime: vital.timestamp || new Date().toISOString(),
-        };
-
-        // Handle blood pressure specially (has components)
-        if (vital.type === 'blood_pressure' && vital.systolic && vital.diastolic) {
-            observation.component = [
-                {
-                    code: {
-                        coding: [
-                            {
-                                system: 'http://loinc.org',
-                                code: '8480-6',
-                                display: 'Systolic Blood Pressure',
-                            },
-                        ],
-                    },
-                    valueQuantity: {
-                        value: vital.systolic,
-                        unit: 'mm[Hg]',
-                        system: 'http://unitsofmeasure.org',
-                        code: 'mm[Hg]',
-                    },
-                },
-                {
-                    code: {
-                        coding: [
-                            {
-                                system: 'http://loinc.org',
-                                code: '8462-4',
-                                display: 'Diastolic Blood Pressure',
-                            },
-                        ],
-                    },
-                    valueQuantity: {
-                        value: vital.diastolic,
-                        unit: 'mm[Hg]',
-                        system: 'http://unitsofmeasure.org',
-                        code: 'mm[Hg]',
-                    },
-                },
-            ];
-        } else {
-            // Single value observation
-            observation.valueQuantity = {
-                value: typeof vital.value === 'string' ? parseFloat(vital.value) : vital.value,
-                unit: vital.unit || loincInfo.unit,
-                system: 'http://unitsofmeasure.org',
-                code: vital.unit || loincInfo.unit,
-            };
-        }
-
         // Post to FHIR server
         const response = await fhirPost<FhirResource>('Observation', observation);
 
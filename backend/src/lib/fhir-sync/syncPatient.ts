@@ -14,93 +14,102 @@ export interface PatientSyncData {
 }
 
 /**
- * Sync patient profile data from Supabase to FHIR Patient resource
- * Following ABDM ABHA v3 standards
+ * Build a FHIR Patient from the profile, identified by the Niraiva user ID
  */
-export async function syncPatient(data: PatientSyncData): Promise<FhirResponse<FhirResource>> {
-    try {
-        // Build FHIR Patient resource
-        const patientResource: any = {
-            resourceType: 'Patient',
-            identifier: [
-                {
-                    system: 'niraiva-user',
-                    value: data.userId,
-                },
-            ],
-        };
+export function buildPatientResource(data: PatientSyncData): FhirResource {
+    // Build FHIR Patient resource
+    const patientResource: any = {
+        resourceType: 'Patient',
+        identifier: [
+            {
+                system: 'niraiva-user',
+                value: data.userId,
+            },
+        ],
+    };
 
-        // Add ABHA identifier if present
-        if (data.abhaNumber) {
-            patientResource.identifier.push({
-                system: 'https://healthid.ndhm.gov.in',
-                value: data.abhaNumber,
-                type: {
-                    coding: [
-                        {
-                            system: 'http://terminology.hl7.org/CodeSystem/v2-0203',
-                            code: 'MR',
-                            display: 'Medical Record Number',
-                        },
-                    ],
-                    text: 'ABHA Number',
-                },
-            });
-        }
+    // Add ABHA identifier if present
+    if (data.abhaNumber) {
+        patientResource.identifier.push({
+            system: 'https://healthid.ndhm.gov.in',
+            value: data.abhaNumber,
+            type: {
+                coding: [
+                    {
+                        system: 'http://terminology.hl7.org/CodeSystem/v2-0203',
+                        code: 'MR',
+                        display: 'Medical Record Number',
+                    },
+                ],
+                text: 'ABHA Number',
+            },
+        });
+    }
 
-        // Build name
-        const nameParts: string[] = [];
-        if (data.firstName) nameParts.push(data.firstName);
-        if (data.middleName) nameParts.push(data.middleName);
-        if (data.lastName) nameParts.push(data.lastName);
-
-        if (nameParts.length > 0) {
-            patientResource.name = [
-                {
-                    use: 'official',
-                    text: nameParts.join(' '),
-                    family: data.lastName || undefined,
-                    given: [data.firstName, data.middleName].filter(Boolean),
-                },
-            ];
-        } else if (data.email) {
-            patientResource.name = [{ text: data.email }];
-        }
+    // Build name
+    const nameParts: string[] = [];
+    if (data.firstName) nameParts.push(data.firstName);
+    if (data.middleName) nameParts.push(data.middleName);
+    if (data.lastName) nameParts.push(data.lastName);
 
-        // Add telecom
-        const telecom: any[] = [];
-        if (data.mobile) {
-            telecom.push({
-                system: 'phone',
-                value: data.mobile,
-                use: 'mobile',
-            });
-        }
-        if (data.email) {
-            telecom.push({
-                system: 'email',
-                value: data.email,
-            });
-        }
-        if (telecom.length > 0) {
-            patientResource.telecom = telecom;
-        }
+    if (nameParts.length > 0) {
+        patientResource.name = [
+            {
+                use: 'official',
+                text: nameParts.join(' '),
+                family: data.lastName || undefined,
+                given: [data.firstName, data.middleName].filter(Boolean),
+            },
+        ];
+    } else if (data.email) {
+        patientResource.name = [{ text: data.email }];
+    }
 
-        // Add gender
-        if (data.gender) {
-            const genderMap: Record<string, string> = {
-                male: 'male',
-                female: 'female',
-                other: 'other',
-                unknown: 'unknown',
-            };
-            patientResource.gender = genderMap[data.gender.toLowerCase()] || 'unknown';
-        }
+    // Add telecom
+    const telecom: any[] = [];
+    if (data.mobile) {
+        telecom.push({
+            system: 'phone',
+            value: data.mobile,
+            use: 'mobile',
+        });
+    }
+    if (data.email) {
+        telecom.push({
+            system: 'email',
+            value: data.email,
+        });
+    }
+    if (telecom.length > 0) {
+        patientResource.telecom = telecom;
+    }
 
-        // Add birth date
-        if (data.dob) {
-            patientResource.birthDate = data.dob;
-        }
+    // Add gender
+    if (data.gender) {
+        const genderMap: Record<string, string> = {
+            male: 'male',
+            female: 'female',
+            other: 'other',
+            unknown: 'unknown',
+        };
+        patientResource.gender = genderMap[data.gender.toLowerCase()] || 'unknown';
+    }
+
+    // Add birth date
+    if (data.dob) {
+        patientResource.birthDate = data.dob;
+    }
+
+    return patientResource;
+}
+
+/**
+ * Sync patient profile data from Supabase to FHIR Patient resource
+ * Following ABDM ABHA v3 standards
+ */
+export async function syncPatient(data: PatientSyncData): Promise<FhirResponse<FhirResource>> {
+    try {
+        const patientResource: any = buildPatientResource(data);
 
         // Check if patient already exists in FHIR
         const { data: mapping } = await supabaseAdmin
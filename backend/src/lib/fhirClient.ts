@@ -39,7 +39,8 @@ const buildFhirHeaders = (contentType: string = "application/fhir+json") => {
 
 export async function fhirGet<T = unknown>(
     resourcePath: string,
-    queryParams?: Record<string, string | string[]>
+    queryParams?: Record<string, string | string[]>,
+    headers?: Record<string, string>
 ): Promise<FhirResponse<T>> {
     try {
         const url = new URL(resourcePath, `${getFhirBaseUrl()}/`);
@@ -56,7 +57,7 @@ export async function fhirGet<T = unknown>(
 
         const response = await fetch(url.toString(), {
             method: "GET",
-            headers: buildFhirHeaders(),
+            headers: { ...buildFhirHeaders(), ...headers },
         });
 
         const text = await response.text();
@@ -138,6 +139,13 @@ export async function fhirPut<T = unknown>(
     }
 }
 
+/**
+ * Submit a transaction or batch Bundle to the server base
+ */
+export async function fhirTransaction(bundle: FhirResource): Promise<FhirResponse<FhirBundle>> {
+    return fhirPost<FhirBundle>("", bundle);
+}
+
 export async function fhirDelete(resourcePath: string): Promise<FhirResponse<void>> {
     try {
         const url = new URL(resourcePath, `${getFhirBaseUrl()}/`);
@@ -0,0 +1,400 @@
+import { FHIR_BASE_URL, fhirGet, type FhirBundle, type FhirResponse } from "./fhirClient";
+import { filterBundleByPatient } from "./patientAccess";
+import type { OperationOutcome } from "../types/fhir";
+
+/**
+ * Search translation for the patient-facing /fhir proxy: only whitelisted
+ * search parameters reach HAPI, values are checked against their parameter
+ * type, the search is always pinned to the patient, and results (including
+ * _include'd resources) are scoped again before they are returned. Paging
+ * links are rewritten to come back through the proxy.
+ */
+
+type ParamType = "token" | "date" | "string" | "reference" | "quantity";
+type OutcomeIssue = OperationOutcome["issue"][number];
+
+interface SearchDefinition {
+    params: Record<string, ParamType>;
+    includes: string[];             // Allowed _include values
+}
+
+const COMMON_PARAMS: Record<string, ParamType> = {
+    _id: "token",
+    _lastUpdated: "date",
+};
+
+const SEARCH_DEFINITIONS = {
+    Observation: {
+        params: {
+            code: "token",
+            category: "token",
+            status: "token",
+            date: "date",
+            "value-quantity": "quantity",
+            "value-string": "string",
+            encounter: "reference",
+        },
+        includes: ["Observation:encounter", "Observation:performer", "Observation:has-member"],
+    },
+    Condition: {
+        params: {
+            code: "token",
+            category: "token",
+            "clinical-status": "token",
+            "verification-status": "token",
+            severity: "token",
+            "onset-date": "date",
+            "recorded-date": "date",
+            encounter: "reference",
+        },
+        includes: ["Condition:encounter", "Condition:asserter"],
+    },
+    MedicationRequest: {
+        params: {
+            code: "token",
+            status: "token",
+            intent: "token",
+            authoredon: "date",
+            encounter: "reference",
+        },
+        includes: ["MedicationRequest:medication", "MedicationRequest:requester", "MedicationRequest:encounter"],
+    },
+    DiagnosticReport: {
+        params: {
+            code: "token",
+            category: "token",
+            status: "token",
+            date: "date",
+            issued: "date",
+            result: "reference",
+            encounter: "reference",
+        },
+        includes: ["DiagnosticReport:result", "DiagnosticReport:performer", "DiagnosticReport:encounter"],
+    },
+    DocumentReference: {
+        params: {
+            type: "token",
+            category: "token",
+            status: "token",
+            contenttype: "token",
+            date: "date",
+            period: "date",
+            encounter: "reference",
+        },
+        includes: ["DocumentReference:author", "DocumentReference:encounter"],
+    },
+    Encounter: {
+        params: {
+            status: "token",
+            class: "token",
+            type: "token",
+            "reason-code": "token",
+            date: "date",
+        },
+        includes: ["Encounter:service-provider", "Encounter:participant", "Encounter:diagnosis"],
+    },
+} satisfies Record<string, SearchDefinition>;
+
+export type SearchableResourceType = keyof typeof SEARCH_DEFINITIONS;
+
+const MAX_COUNT = 100;
+
+// Parameters that pin a search to a patient; only the caller's own value is accepted
+const PATIENT_PARAMS = ["subject", "patient"];
+
+// HAPI's paging parameters (next/previous links point at the base URL with these)
+const PAGING_PARAMS = ["_getpages", "_getpagesoffset", "_count", "_bundletype"];
+
+const MODIFIERS: Record<ParamType, string[]> = {
+    token: ["not", "text", "missing"],
+    date: ["missing"],
+    string: ["exact", "contains", "missing"],
+    reference: ["missing"],
+    quantity: ["missing"],
+};
+
+const DATE_VALUE = /^(eq|ne|gt|lt|ge|le|sa|eb|ap)?\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+const QUANTITY_VALUE = /^(eq|ne|gt|lt|ge|le|sa|eb|ap)?-?\d+(\.\d+)?(\|[^|]*\|[^|]*)?$/;
+const TOKEN_VALUE = /^([^|,]*\|)?[^|,]+$|^[^|,]+\|$/;
+const REFERENCE_VALUE = /^([A-Z][A-Za-z]+\/)?[A-Za-z0-9\-.]{1,64}$/;
+const PAGE_ID = /^[A-Za-z0-9\-_]{1,128}$/;
+
+export type SearchTranslation =
+    | { ok: true; params: Record<string, string | string[]> }
+    | { ok: false; status: number; outcome: OperationOutcome };
+
+const issue = (code: string, diagnostics: string, expression?: string): OutcomeIssue => ({
+    severity: "error",
+    code,
+    diagnostics,
+    ...(expression ? { expression: [expression] } : {}),
+});
+
+const valuesOf = (value: unknown): string[] =>
+    (Array.isArray(value) ? value : [value]).filter((v): v is string => typeof v === "string");
+
+/**
+ * Check one parameter value against its type; comma-separated values are ORed
+ */
+function checkValue(type: ParamType, modifier: string | undefined, value: string): string | null {
+    if (modifier === "missing") {
+        return value === "true" || value === "false" ? null : ":missing must be true or false";
+    }
+    if (!value) return "Empty value";
+    if (modifier === "text" || type === "string") return null;
+
+    for (const part of value.split(",")) {
+        switch (type) {
+            case "token":
+                if (!TOKEN_VALUE.test(part)) return `"${part}" is not a token ([system|]code)`;
+                break;
+            case "date":
+                if (!DATE_VALUE.test(part)) return `"${part}" is not a date with an optional prefix (e.g. ge2024-01-01)`;
+                break;
+            case "quantity":
+                if (!QUANTITY_VALUE.test(part)) return `"${part}" is not a quantity ([prefix]number[|system|code])`;
+                break;
+            case "reference":
+                if (!REFERENCE_VALUE.test(part)) return `"${part}" is not a reference (Type/id or id)`;
+                break;
+        }
+    }
+    return null;
+}
+
+function checkSort(definition: SearchDefinition, value: string): string | null {
+    const allowed = ["_id", "_lastUpdated", ...Object.keys(definition.params)];
+    for (const field of value.split(",")) {
+        const name = field.startsWith("-") ? field.slice(1) : field;
+        if (!allowed.includes(name)) return `Cannot sort by "${name}". Sortable: ${allowed.join(", ")}`;
+    }
+    return null;
+}
+
+const ownsPatientValue = (value: string, patientId: string) =>
+    value === patientId || value === `Patient/${patientId}`;
+
+/**
+ * Translate an incoming query into HAPI search parameters for the patient,
+ * or an OperationOutcome explaining what is not allowed
+ */
+export function translateSearch(
+    resourceType: SearchableResourceType,
+    query: Record<string, unknown>,
+    patientId: string
+): SearchTranslation {
+    const definition: SearchDefinition = SEARCH_DEFINITIONS[resourceType];
+    const params: Record<string, string | string[]> = {};
+    const issues: OutcomeIssue[] = [];
+
+    // A next/previous page of an earlier search
+    if (query._getpages !== undefined) {
+        for (const [key, raw] of Object.entries(query)) {
+            const value = valuesOf(raw)[0];
+            if (!PAGING_PARAMS.includes(key)) {
+                issues.push(issue("not-supported", `"${key}" cannot be combined with paging parameters`, key));
+            } else if (key === "_getpages" && !PAGE_ID.test(value || "")) {
+                issues.push(issue("value", "Invalid page id", key));
+            } else if ((key === "_getpagesoffset" || key === "_count") && !/^\d{1,6}$/.test(value || "")) {
+                issues.push(issue("value", `${key} must be a number`, key));
+            } else if (key === "_bundletype" && value !== "searchset") {
+                issues.push(issue("value", "_bundletype must be searchset", key));
+            } else {
+                params[key] = value!;
+            }
+        }
+        return issues.length > 0
+            ? { ok: false, status: 400, outcome: { resourceType: "OperationOutcome", issue: issues } }
+            : { ok: true, params };
+    }
+
+    for (const [key, raw] of Object.entries(query)) {
+        const values = valuesOf(raw);
+        if (values.length === 0) {
+            issues.push(issue("structure", `Malformed parameter "${key}"`, key));
+            continue;
+        }
+
+        const [name, modifier] = key.split(":");
+
+        if (PATIENT_PARAMS.includes(name)) {
+            if (modifier || !values.every((v) => ownsPatientValue(v, patientId))) {
+                return {
+                    ok: false,
+                    status: 403,
+                    outcome: { resourceType: "OperationOutcome", issue: [issue("forbidden", "You can only search your own records", key)] },
+                };
+            }
+            continue; // Pinned below anyway
+        }
+
+        switch (name) {
+            case "_count": {
+                const count = Number(values[0]);
+                if (modifier || values.length > 1 || !Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+                    issues.push(issue("value", `_count must be a whole number from 1 to ${MAX_COUNT}`, key));
+                } else {
+                    params._count = String(count);
+                }
+                continue;
+            }
+            case "_sort": {
+                const problem = modifier || values.length > 1 ? "_sort can be given once" : checkSort(definition, values[0]);
+                if (problem) issues.push(issue("not-supported", problem, key));
+                else params._sort = values[0];
+                continue;
+            }
+            case "_include": {
+                const unsupported = values.filter((v) => !definition.includes.includes(v));
+                if (modifier || unsupported.length > 0) {
+                    issues.push(issue("not-supported", `Unsupported _include ${unsupported.join(", ")}. Supported: ${definition.includes.join(", ")}`, key));
+                } else {
+                    params._include = values;
+                }
+                continue;
+            }
+        }
+
+        const type = definition.params[name] || COMMON_PARAMS[name];
+        if (!type) {
+            const supported = [...Object.keys(COMMON_PARAMS), ...Object.keys(definition.params), "_count", "_sort", "_include"];
+            issues.push(issue("not-supported", `Unknown search parameter "${name}" for ${resourceType}. Supported: ${supported.join(", ")}`, key));
+            continue;
+        }
+        if (modifier && !MODIFIERS[type].includes(modifier)) {
+            issues.push(issue("not-supported", `Modifier :${modifier} is not supported on ${name}`, key));
+            continue;
+        }
+
+        const problems = values.map((v) => checkValue(type, modifier, v)).filter(Boolean) as string[];
+        if (problems.length > 0) {
+            problems.forEach((p) => issues.push(issue("value", p, key)));
+            continue;
+        }
+
+        params[key] = values.length === 1 ? values[0] : values;
+    }
+
+    if (issues.length > 0) {
+        return { ok: false, status: 400, outcome: { resourceType: "OperationOutcome", issue: issues } };
+    }
+
+    params.subject = `Patient/${patientId}`;
+    return { ok: true, params };
+}
+
+// ============================================================
+// RESULTS
+// ============================================================
+
+type SearchEntry = NonNullable<FhirBundle["entry"]>[number] & { search?: { mode?: string } };
+type SearchBundle = FhirBundle & { link?: Array<{ relation: string; url: string }> };
+
+const FHIR_BASE = FHIR_BASE_URL.replace(/\/$/, "");
+
+/**
+ * "Observation/1" for a reference in any of its forms (absolute, versioned)
+ */
+function normalizeReference(reference: string): string {
+    return reference
+        .replace(/^https?:\/\/.*?\/([A-Z][A-Za-z]+\/[^/]+)(\/_history\/.*)?$/, "$1")
+        .replace(/\/_history\/.*$/, "");
+}
+
+function collectReferences(node: any, found: Set<string>): Set<string> {
+    if (Array.isArray(node)) {
+        node.forEach((n) => collectReferences(n, found));
+    } else if (node && typeof node === "object") {
+        if (typeof node.reference === "string") found.add(normalizeReference(node.reference));
+        Object.values(node).forEach((v) => collectReferences(v, found));
+    }
+    return found;
+}
+
+/**
+ * Keep the patient's matches and only the included resources they
+ * reference. filterBundleByPatient drops other patients' clinical
+ * resources; an included Practitioner or Organization must also be
+ * referenced by one of the kept matches.
+ */
+export function scopeSearchBundle(bundle: FhirBundle, resourceType: SearchableResourceType, patientId: string): FhirBundle {
+    const original = (bundle.entry || []) as SearchEntry[];
+    const scoped = filterBundleByPatient(bundle, patientId);
+    const entries = (scoped.entry || []) as SearchEntry[];
+
+    const isMatch = (e: SearchEntry) => (e.search?.mode || "match") === "match";
+    const matches = entries.filter((e) => isMatch(e) && e.resource?.resourceType === resourceType);
+
+    const referenced = new Set<string>();
+    matches.forEach((e) => collectReferences(e.resource, referenced));
+
+    const included = entries.filter((e) =>
+        e.search?.mode === "include" && referenced.has(`${e.resource?.resourceType}/${e.resource?.id}`)
+    );
+    const outcomes = entries.filter((e) => e.search?.mode === "outcome");
+
+    // The server's total still holds if no match was dropped
+    const droppedMatches = original.filter(isMatch).length !== matches.length;
+    const result: FhirBundle = { ...scoped, entry: [...matches, ...included, ...outcomes] };
+    if (droppedMatches) {
+        delete result.total;
+    } else {
+        result.total = bundle.total;
+    }
+
+    return result;
+}
+
+/**
+ * Point links and fullUrls at the proxy instead of HAPI. Only whitelisted
+ * and paging parameters survive, so the patient pin never shows up in a link.
+ */
+export function rewriteSearchLinks(
+    bundle: SearchBundle,
+    resourceType: SearchableResourceType,
+    proxyBaseUrl: string
+): SearchBundle {
+    const proxyBase = proxyBaseUrl.replace(/\/$/, "");
+
+    const link = bundle.link?.map((l) => {
+        if (!l.url.startsWith(FHIR_BASE)) return l;
+        const url = new URL(l.url);
+        const kept = new URLSearchParams();
+        url.searchParams.forEach((value, key) => {
+            if (!PATIENT_PARAMS.includes(key.split(":")[0]) && key !== "_pretty") kept.append(key, value);
+        });
+        const query = kept.toString();
+        return { ...l, url: `${proxyBase}/${resourceType}${query ? `?${query}` : ""}` };
+    });
+
+    const entry = bundle.entry?.map((e: any) =>
+        typeof e.fullUrl === "string" && e.fullUrl.startsWith(FHIR_BASE)
+            ? { ...e, fullUrl: `${proxyBase}${e.fullUrl.slice(FHIR_BASE.length)}` }
+            : e
+    );
+
+    return { ...bundle, ...(link ? { link } : {}), ...(entry ? { entry } : {}) };
+}
+
+/**
+ * Run a translated search (or fetch a page of an earlier one) and return
+ * the patient-scoped Bundle with proxy links
+ * @param proxyBaseUrl - the proxy's FHIR base, e.g. https://host/fhir
+ */
+export async function searchPatientResources(
+    resourceType: SearchableResourceType,
+    params: Record<string, string | string[]>,
+    patientId: string,
+    proxyBaseUrl: string
+): Promise<FhirResponse<FhirBundle>> {
+    // Paging links point at the server base, not at the resource type
+    const path = params._getpages !== undefined ? FHIR_BASE : resourceType;
+    const response = await fhirGet<FhirBundle>(path, params);
+
+    if (response.ok && response.data?.resourceType === "Bundle") {
+        const scoped = scopeSearchBundle(response.data, resourceType, patientId);
+        response.data = rewriteSearchLinks(scoped, resourceType, proxyBaseUrl);
+    }
+
+    return response;
+}
@@ -0,0 +1,419 @@
+/**
+ * Organization Auth Service
+ * Client credentials for the external access API: hashed client secrets
+ * with rotation, private_key_jwt client assertions and per-organization
+ * rate limits
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from './supabaseClient';
+
+// ============================================================
+// TYPES & INTERFACES
+// ============================================================
+
+export interface OrganizationPublicKey {
+    id: string;
+    organization_id: string;
+    kid: string;
+    alg: AssertionAlgorithm;
+    public_jwk: crypto.JsonWebKey;
+    created_at: string;
+    expires_at: string | null;
+    revoked_at: string | null;
+    last_used_at: string | null;
+}
+
+export interface OrganizationAuthResult {
+    authenticated: boolean;
+    organization?: any;
+    method?: 'client_secret' | 'private_key_jwt';
+    error?: string;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number;                // Epoch ms when the window resets
+}
+
+export type AssertionAlgorithm = 'RS256' | 'RS384' | 'RS512' | 'PS256' | 'PS384' | 'PS512' | 'ES256' | 'ES384' | 'ES512';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+export const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+const ASSERTION_ALGORITHMS: AssertionAlgorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+const MAX_ASSERTION_LIFETIME_SECONDS = 300;
+const SECRET_ROTATION_GRACE_HOURS = parseInt(process.env.ORG_SECRET_ROTATION_GRACE_HOURS || '24');
+const DEFAULT_RATE_LIMIT_PER_MINUTE = parseInt(process.env.ORG_RATE_LIMIT_PER_MINUTE || '120');
+
+// ============================================================
+// CLIENT SECRETS
+// ============================================================
+
+/**
+ * Hash a client secret for storage (scrypt$<salt>$<hash>)
+ */
+export function hashClientSecret(secret: string): string {
+    const salt = crypto.randomBytes(16);
+    const hash = crypto.scryptSync(secret, salt, 64);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Compare a presented secret with a stored hash in constant time
+ */
+export function matchesSecretHash(secret: string, stored: string): boolean {
+    const [scheme, salt, hash] = stored.split('$');
+
+    if (scheme === 'scrypt' && salt && hash) {
+        const expected = Buffer.from(hash, 'base64');
+        const actual = crypto.scryptSync(secret, Buffer.from(salt, 'base64'), expected.length);
+        return crypto.timingSafeEqual(actual, expected);
+    }
+
+    // Organizations registered before hashing stored the secret itself
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(secret);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Issue a new client secret and make it the organization's current one.
+ * Secrets that were current before stay valid for graceHours (overlap
+ * window for the organization to deploy the new secret).
+ * @returns Plain secret - returned to the caller once, never stored
+ */
+export async function rotateClientSecret(
+    organizationId: string,
+    graceHours: number = SECRET_ROTATION_GRACE_HOURS
+): Promise<{ clientSecret: string; previousValidUntil: string | null }> {
+    const clientSecret = crypto.randomBytes(32).toString('hex');
+    const secretHash = hashClientSecret(clientSecret);
+    const now = new Date();
+    const previousValidUntil = new Date(now.getTime() + graceHours * 60 * 60 * 1000).toISOString();
+
+    const { data: previous, error: previousError } = await supabaseAdmin
+        .from('organization_client_secrets')
+        .update({ expires_at: previousValidUntil })
+        .eq('organization_id', organizationId)
+        .is('expires_at', null)
+        .is('revoked_at', null)
+        .select('id');
+
+    if (previousError) {
+        throw new Error(`Failed to schedule previous secret expiry: ${previousError.message}`);
+    }
+
+    const { data: organization } = await supabaseAdmin
+        .from('organizations')
+        .select('client_secret_hash')
+        .eq('id', organizationId)
+        .single();
+
+    const { count } = await supabaseAdmin
+        .from('organization_client_secrets')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId);
+
+    // The registration secret has not been used yet: carry it into the
+    // overlap window like any other previous secret
+    const carried = !count && organization?.client_secret_hash
+        ? [{
+            organization_id: organizationId,
+            secret_hash: organization.client_secret_hash.startsWith('scrypt$')
+                ? organization.client_secret_hash
+                : hashClientSecret(organization.client_secret_hash),
+            expires_at: previousValidUntil,
+        }]
+        : [];
+
+    const { error } = await supabaseAdmin
+        .from('organization_client_secrets')
+        .insert([
+            ...carried,
+            { organization_id: organizationId, secret_hash: secretHash },
+        ]);
+
+    if (error) {
+        throw new Error(`Failed to store client secret: ${error.message}`);
+    }
+
+    // Keep the organization row pointing at the current secret
+    await supabaseAdmin
+        .from('organizations')
+        .update({ client_secret_hash: secretHash })
+        .eq('id', organizationId);
+
+    return {
+        clientSecret,
+        previousValidUntil: (previous && previous.length > 0) || carried.length > 0 ? previousValidUntil : null,
+    };
+}
+
+/**
+ * End the overlap window early: revoke every secret except the current one
+ * @returns Number of secrets revoked
+ */
+export async function revokePreviousClientSecrets(organizationId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+        .from('organization_client_secrets')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('organization_id', organizationId)
+        .not('expires_at', 'is', null)
+        .is('revoked_at', null)
+        .select('id');
+
+    if (error) {
+        throw new Error(`Failed to revoke previous secrets: ${error.message}`);
+    }
+
+    return data?.length || 0;
+}
+
+/**
+ * Verify a client secret against the organization's valid secrets
+ */
+export async function verifyClientSecret(organization: any, clientSecret: string): Promise<boolean> {
+    const now = new Date().toISOString();
+
+    const { data: secrets, error } = await supabaseAdmin
+        .from('organization_client_secrets')
+        .select('id, secret_hash, expires_at')
+        .eq('organization_id', organization.id)
+        .is('revoked_at', null);
+
+    if (error) {
+        console.error('Error fetching organization secrets:', error);
+        return false;
+    }
+
+    if (secrets && secrets.length > 0) {
+        const match = secrets.find((s) => (!s.expires_at || s.expires_at > now) && matchesSecretHash(clientSecret, s.secret_hash));
+        if (!match) return false;
+
+        await supabaseAdmin
+            .from('organization_client_secrets')
+            .update({ last_used_at: now })
+            .eq('id', match.id);
+        return true;
+    }
+
+    // No secret history yet: verify the column written at registration,
+    // then move the organization onto the secrets table
+    if (!organization.client_secret_hash || !matchesSecretHash(clientSecret, organization.client_secret_hash)) {
+        return false;
+    }
+
+    const secretHash = organization.client_secret_hash.startsWith('scrypt$')
+        ? organization.client_secret_hash
+        : hashClientSecret(clientSecret);
+
+    await supabaseAdmin
+        .from('organization_client_secrets')
+        .insert({ organization_id: organization.id, secret_hash: secretHash, last_used_at: now });
+    await supabaseAdmin
+        .from('organizations')
+        .update({ client_secret_hash: secretHash })
+        .eq('id', organization.id);
+
+    return true;
+}
+
+// ============================================================
+// PUBLIC KEYS (private_key_jwt)
+// ============================================================
+
+/**
+ * Register a public key an organization signs client assertions with
+ */
+export async function registerPublicKey(
+    organizationId: string,
+    jwk: crypto.JsonWebKey,
+    expiresAt?: string
+): Promise<OrganizationPublicKey> {
+    if (jwk.d || jwk.p || jwk.q || jwk.k) {
+        throw new Error('Only public keys may be registered');
+    }
+
+    let keyObject: crypto.KeyObject;
+    try {
+        keyObject = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    } catch (error: any) {
+        throw new Error(`Invalid JWK: ${error.message}`);
+    }
+
+    const alg = (jwk.alg as AssertionAlgorithm) || (keyObject.asymmetricKeyType === 'ec' ? 'ES256' : 'RS256');
+    if (!ASSERTION_ALGORITHMS.includes(alg)) {
+        throw new Error(`Unsupported algorithm ${alg}. Use one of: ${ASSERTION_ALGORITHMS.join(', ')}`);
+    }
+
+    const publicJwk = keyObject.export({ format: 'jwk' });
+    const kid = (jwk.kid as string) || crypto.createHash('sha256').update(JSON.stringify(publicJwk)).digest('base64url');
+
+    const { data, error } = await supabaseAdmin
+        .from('organization_keys')
+        .insert({
+            organization_id: organizationId,
+            kid,
+            alg,
+            public_jwk: { ...publicJwk, kid, alg, use: 'sig' },
+            expires_at: expiresAt || null,
+        })
+        .select()
+        .single();
+
+    if (error || !data) {
+        throw new Error(`Failed to register key: ${error?.message}`);
+    }
+
+    return data as OrganizationPublicKey;
+}
+
+/**
+ * Keys registered for an organization, newest first
+ */
+export async function getPublicKeys(organizationId: string): Promise<OrganizationPublicKey[]> {
+    const { data, error } = await supabaseAdmin
+        .from('organization_keys')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching organization keys:', error);
+        return [];
+    }
+
+    return (data || []) as OrganizationPublicKey[];
+}
+
+/**
+ * Stop accepting assertions signed with a key
+ */
+export async function revokePublicKey(organizationId: string, kid: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+        .from('organization_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('organization_id', organizationId)
+        .eq('kid', kid)
+        .is('revoked_at', null)
+        .select('id');
+
+    return !error && !!data && data.length > 0;
+}
+
+/**
+ * Authenticate an organization by a signed JWT client assertion (RFC 7523).
+ * iss and sub must be the client ID, aud this API, and the assertion
+ * short-lived and never seen before.
+ */
+export async function verifyClientAssertion(assertion: string, audience: string): Promise<OrganizationAuthResult> {
+    const decoded = jwt.decode(assertion, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+        return { authenticated: false, error: 'Malformed client assertion' };
+    }
+
+    const { header, payload } = decoded;
+    if (!payload.iss || payload.iss !== payload.sub) {
+        return { authenticated: false, error: 'Client assertion iss and sub must be the client ID' };
+    }
+    if (!payload.jti) {
+        return { authenticated: false, error: 'Client assertion must have a jti' };
+    }
+    if (!payload.exp) {
+        return { authenticated: false, error: 'Client assertion must have an exp' };
+    }
+    const issuedAt = payload.iat || Math.floor(Date.now() / 1000);
+    if (payload.exp - issuedAt > MAX_ASSERTION_LIFETIME_SECONDS) {
+        return { authenticated: false, error: `Client assertion lifetime exceeds ${MAX_ASSERTION_LIFETIME_SECONDS} seconds` };
+    }
+
+    const { data: organization, error: orgError } = await supabaseAdmin
+        .from('organizations')
+        .select('*')
+        .eq('client_id', payload.iss)
+        .eq('active', true)
+        .single();
+
+    if (orgError || !organization) {
+        return { authenticated: false, error: 'Invalid client credentials' };
+    }
+
+    const now = new Date().toISOString();
+    const keys = (await getPublicKeys(organization.id))
+        .filter((k) => !k.revoked_at && (!k.expires_at || k.expires_at > now))
+        .filter((k) => !header.kid || k.kid === header.kid);
+
+    const key = keys.find((k) => {
+        try {
+            jwt.verify(assertion, crypto.createPublicKey({ key: k.public_jwk, format: 'jwk' }), {
+                algorithms: [k.alg],
+                audience,
+                issuer: organization.client_id,
+                subject: organization.client_id,
+            });
+            return true;
+        } catch {
+            return false;
+        }
+    });
+
+    if (!key) {
+        return { authenticated: false, error: 'Client assertion signature, audience or expiry is invalid' };
+    }
+
+    // Record the jti; the primary key rejects a replay
+    const { error: replayError } = await supabaseAdmin
+        .from('organization_assertion_jtis')
+        .insert({
+            organization_id: organization.id,
+            jti: payload.jti,
+            expires_at: new Date(payload.exp * 1000).toISOString(),
+        });
+
+    if (replayError) {
+        return { authenticated: false, error: 'Client assertion has already been used' };
+    }
+
+    await supabaseAdmin
+        .from('organization_keys')
+        .update({ last_used_at: now })
+        .eq('id', key.id);
+
+    return { authenticated: true, organization, method: 'private_key_jwt' };
+}
+
+// ============================================================
+// RATE LIMITING
+// ============================================================
+
+// Fixed one-minute windows per organization (per server instance)
+const rateWindows = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * Count a request against the organization's per-minute budget
+ */
+export function checkRateLimit(organization: any): RateLimitResult {
+    const limit = organization.rate_limit_per_minute || DEFAULT_RATE_LIMIT_PER_MINUTE;
+    const now = Date.now();
+
+    let window = rateWindows.get(organization.id);
+    if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + 60 * 1000 };
+        rateWindows.set(organization.id, window);
+    }
+
+    window.count++;
+
+    return {
+        allowed: window.count <= limit,
+        limit,
+        remaining: Math.max(limit - window.count, 0),
+        resetAt: window.resetAt,
+    };
+}
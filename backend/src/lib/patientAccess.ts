@@ -3,10 +3,11 @@ import type { FhirResource, FhirBundle } from "./fhirClient";
 
 /**
  * Extract patient ID from the authenticated user
- * This assumes user.id from Supabase is stored as patientId
+ * This assumes user.id from Supabase is stored as patientId; a SMART
+ * token carries the patient in its launch context
  */
 export function getPatientIdFromRequest(req: Request): string | null {
-    return (req.user as any)?.id || null;
+    return req.smart?.patientId || (req.user as any)?.id || null;
 }
 
 /**
@@ -0,0 +1,88 @@
+/**
+ * Patient Notifier
+ * Pluggable delivery of access notifications to patients (emergency
+ * access, consent requests) and to clinicians about their requests.
+ * Selected by PATIENT_NOTIFIER.
+ */
+
+import axios from 'axios';
+
+// ============================================================
+// TYPES & INTERFACES
+// ============================================================
+
+export interface PatientNotification {
+    recipientId: string;            // Supabase user ID (patient, or clinician for request updates)
+    type: string;                   // e.g. 'emergency_access_granted'
+    title: string;
+    message: string;
+    data?: Record<string, any>;     // Ids the client needs to act on the notification
+}
+
+/**
+ * Delivery channel. Implementations throw on failure so the caller can
+ * record the attempt as failed.
+ */
+export interface PatientNotifier {
+    readonly channel: string;
+    notify(notification: PatientNotification): Promise<void>;
+}
+
+// ============================================================
+// IMPLEMENTATIONS
+// ============================================================
+
+/**
+ * Writes notifications to the server log (local development)
+ */
+export class LogPatientNotifier implements PatientNotifier {
+    readonly channel = 'log';
+
+    async notify(notification: PatientNotification): Promise<void> {
+        console.log(`🔔 [PatientNotifier] → user ${notification.recipientId}: ${notification.title} - ${notification.message}`);
+    }
+}
+
+/**
+ * POSTs each notification as JSON to a webhook (SMS/push/email gateway)
+ */
+export class WebhookPatientNotifier implements PatientNotifier {
+    readonly channel = 'webhook';
+
+    constructor(private url: string) { }
+
+    async notify(notification: PatientNotification): Promise<void> {
+        await axios.post(this.url, notification, { timeout: 10000 });
+    }
+}
+
+// ============================================================
+// FACTORY
+// ============================================================
+
+let notifier: PatientNotifier | null = null;
+
+/**
+ * Notifier selected by PATIENT_NOTIFIER (default: log)
+ */
+export function getPatientNotifier(): PatientNotifier {
+    if (notifier) return notifier;
+
+    const name = process.env.PATIENT_NOTIFIER || 'log';
+    if (name === 'webhook') {
+        const url = process.env.PATIENT_NOTIFIER_WEBHOOK_URL;
+        if (!url) throw new Error('PATIENT_NOTIFIER_WEBHOOK_URL is required for the webhook notifier');
+        notifier = new WebhookPatientNotifier(url);
+    } else {
+        if (name !== 'log') console.warn(`⚠️ [PatientNotifier] Unknown notifier "${name}", falling back to log`);
+        notifier = new LogPatientNotifier();
+    }
+    return notifier;
+}
+
+/**
+ * Replace the delivery channel (e.g. a different notifier in tests)
+ */
+export function setPatientNotifier(replacement: PatientNotifier): void {
+    notifier = replacement;
+}
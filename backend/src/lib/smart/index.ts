@@ -0,0 +1,40 @@
+/**
+ * SMART on FHIR - authorization server for third-party apps on the /fhir
+ * API: app registration, standalone and EHR launch, tokens and scopes
+ */
+
+export {
+    SMART_RESOURCE_TYPES,
+    CONTEXT_SCOPES,
+    parseResourceScope,
+    scopesAllow,
+    splitScope,
+    type SmartInteraction,
+} from './smartScopes';
+export {
+    validateSmartAppInput,
+    registerSmartApp,
+    listSmartApps,
+    deactivateSmartApp,
+    listLaunchableApps,
+    authenticateSmartClient,
+    type SmartApp,
+    type SmartAppInput,
+} from './smartApps';
+export {
+    createEhrLaunch,
+    startAuthorization,
+    getAuthorizationForReview,
+    decideAuthorization,
+    type AuthorizeParams,
+} from './smartAuthorize';
+export {
+    exchangeAuthorizationCode,
+    refreshAccessToken,
+    introspectSmartToken,
+    revokeSmartToken,
+    resolveAccessToken,
+    listAuthorizedApps,
+    revokeAppAccess,
+    type SmartAccess,
+} from './smartTokens';
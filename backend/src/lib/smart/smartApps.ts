@@ -0,0 +1,199 @@
+/**
+ * SMART app registration: partner organizations register the apps that
+ * may be authorized on the /fhir API. Confidential apps get a client
+ * secret (stored hashed); public apps rely on PKCE alone.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../supabaseClient';
+import { hashClientSecret, matchesSecretHash } from '../organizationAuthService';
+import { isSupportedScope } from './smartScopes';
+
+export interface SmartApp {
+    id: string;
+    client_id: string;
+    organization_id: string;
+    name: string;
+    client_secret_hash: string | null;
+    redirect_uris: string[];
+    launch_url: string | null;
+    scopes: string[];
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface SmartAppInput {
+    name: string;
+    redirectUris: string[];
+    launchUrl?: string;
+    scopes: string[];
+    confidential: boolean;
+}
+
+// What callers see of an app (never the secret hash)
+const PUBLIC_COLUMNS = 'client_id, organization_id, name, redirect_uris, launch_url, scopes, is_active, created_at, updated_at';
+
+/**
+ * Redirect and launch URLs must be https, except on localhost during development
+ */
+function isAllowedAppUrl(value: unknown): boolean {
+    if (typeof value !== 'string') return false;
+    try {
+        const url = new URL(value);
+        if (url.hash) return false;
+        return url.protocol === 'https:' || (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check a registration; returns what is wrong, or null
+ */
+export function validateSmartAppInput(input: any): string | null {
+    if (!input || typeof input.name !== 'string' || !input.name.trim()) {
+        return 'name is required';
+    }
+    if (!Array.isArray(input.redirectUris) || input.redirectUris.length === 0) {
+        return 'redirectUris must be a non-empty array';
+    }
+    const badRedirect = input.redirectUris.find((uri: unknown) => !isAllowedAppUrl(uri));
+    if (badRedirect !== undefined) {
+        return `Invalid redirect URI: ${badRedirect}. Use https (http only on localhost) without a fragment`;
+    }
+    if (input.launchUrl !== undefined && !isAllowedAppUrl(input.launchUrl)) {
+        return 'launchUrl must be an https URL';
+    }
+    if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+        return 'scopes must be a non-empty array';
+    }
+    const unsupported = input.scopes.filter((scope: unknown) => typeof scope !== 'string' || !isSupportedScope(scope));
+    if (unsupported.length > 0) {
+        return `Unsupported scopes: ${unsupported.join(', ')}`;
+    }
+    if (typeof input.confidential !== 'boolean') {
+        return 'confidential must be true or false';
+    }
+    return null;
+}
+
+/**
+ * Register an app for an organization
+ * @returns The app and, for confidential apps, its secret - shown once, never stored
+ */
+export async function registerSmartApp(
+    organizationId: string,
+    input: SmartAppInput
+): Promise<{ app: Omit<SmartApp, 'id' | 'client_secret_hash'>; clientSecret?: string }> {
+    const clientId = `smart-${crypto.randomBytes(12).toString('hex')}`;
+    const clientSecret = input.confidential ? crypto.randomBytes(32).toString('hex') : undefined;
+
+    const { data: app, error } = await supabaseAdmin
+        .from('smart_apps')
+        .insert({
+            client_id: clientId,
+            organization_id: organizationId,
+            name: input.name.trim(),
+            client_secret_hash: clientSecret ? hashClientSecret(clientSecret) : null,
+            redirect_uris: input.redirectUris,
+            launch_url: input.launchUrl || null,
+            scopes: Array.from(new Set(input.scopes)),
+        })
+        .select(PUBLIC_COLUMNS)
+        .single();
+
+    if (error || !app) {
+        throw new Error(`Failed to register SMART app: ${error?.message || 'no row returned'}`);
+    }
+
+    console.log(`✅ [SMART] Registered app ${clientId} for organization ${organizationId}`);
+    return { app: app as any, clientSecret };
+}
+
+export async function listSmartApps(organizationId: string) {
+    const { data, error } = await supabaseAdmin
+        .from('smart_apps')
+        .select(PUBLIC_COLUMNS)
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to list SMART apps: ${error.message}`);
+    }
+    return data || [];
+}
+
+/**
+ * Deactivate an app and revoke every token issued to it
+ * @returns false if the organization has no such app
+ */
+export async function deactivateSmartApp(organizationId: string, clientId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+        .from('smart_apps')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('organization_id', organizationId)
+        .eq('client_id', clientId)
+        .select('client_id')
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to deactivate SMART app: ${error.message}`);
+    }
+    if (!data) return false;
+
+    await supabaseAdmin
+        .from('smart_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('client_id', clientId)
+        .is('revoked_at', null);
+
+    return true;
+}
+
+export async function getActiveSmartApp(clientId: string): Promise<SmartApp | null> {
+    if (!clientId) return null;
+
+    const { data } = await supabaseAdmin
+        .from('smart_apps')
+        .select('*')
+        .eq('client_id', clientId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+    return (data as SmartApp) || null;
+}
+
+/**
+ * Apps doctors can launch from a patient's record
+ */
+export async function listLaunchableApps() {
+    const { data, error } = await supabaseAdmin
+        .from('smart_apps')
+        .select('client_id, name, launch_url, scopes')
+        .eq('is_active', true)
+        .not('launch_url', 'is', null)
+        .order('name');
+
+    if (error) {
+        throw new Error(`Failed to list SMART apps: ${error.message}`);
+    }
+    return data || [];
+}
+
+/**
+ * Authenticate an app at the token, introspection and revocation endpoints.
+ * Confidential apps must present their secret; public apps must not have one.
+ */
+export async function authenticateSmartClient(
+    clientId: string | undefined,
+    clientSecret: string | undefined
+): Promise<SmartApp | null> {
+    const app = await getActiveSmartApp(clientId || '');
+    if (!app) return null;
+
+    if (app.client_secret_hash) {
+        return clientSecret && matchesSecretHash(clientSecret, app.client_secret_hash) ? app : null;
+    }
+    return clientSecret ? null : app;
+}
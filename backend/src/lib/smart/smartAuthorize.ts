@@ -0,0 +1,384 @@
+/**
+ * SMART authorization: EHR launch contexts, authorization requests and
+ * codes. An app's request is checked and parked here; the signed-in user
+ * approves or denies it on the Niraiva consent screen, and an approval
+ * yields a one-time code bound to the patient in context.
+ *
+ * Standalone launch: a patient authorizes an app on their own record.
+ * EHR launch: a doctor opens an app from the record of a patient who has
+ * given them active consent.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../supabaseClient';
+import { appendAuditEntry } from '../auditLog';
+import { consentService } from '../../modules/consent/consent.service';
+import { getActiveSmartApp, type SmartApp } from './smartApps';
+import { grantableScopes, parseResourceScope, splitScope } from './smartScopes';
+
+const LAUNCH_TTL_SECONDS = 300;
+const AUTHORIZATION_TTL_MINUTES = 10;
+const CODE_TTL_SECONDS = 60;
+
+export type LaunchType = 'standalone' | 'ehr';
+
+export interface SmartAuthorization {
+    id: string;
+    client_id: string;
+    redirect_uri: string;
+    requested_scope: string;
+    state: string | null;
+    launch_id: string | null;
+    code_challenge: string | null;
+    code_challenge_method: 'S256' | null;
+    status: 'pending' | 'approved' | 'denied' | 'exchanged';
+    user_id: string | null;
+    patient_id: string | null;
+    granted_scope: string | null;
+    code_hash: string | null;
+    code_expires_at: string | null;
+    created_at: string;
+    expires_at: string;
+}
+
+/**
+ * Query parameters of GET /authorize
+ */
+export interface AuthorizeParams {
+    response_type?: string;
+    client_id?: string;
+    redirect_uri?: string;
+    scope?: string;
+    state?: string;
+    aud?: string;
+    launch?: string;
+    code_challenge?: string;
+    code_challenge_method?: string;
+}
+
+/**
+ * Errors after the redirect URI is verified go back to the app (redirect);
+ * before that they must be shown to the user instead
+ */
+export type AuthorizeResult =
+    | { ok: true; requestId: string }
+    | { ok: false; error: string; description: string; redirect?: string };
+
+export const hashToken = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+export const randomToken = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * The app's redirect URI with OAuth parameters added
+ */
+export function buildRedirect(redirectUri: string, params: Record<string, string | null | undefined>): string {
+    const url = new URL(redirectUri);
+    Object.entries(params).forEach(([key, value]) => {
+        if (value) url.searchParams.set(key, value);
+    });
+    return url.toString();
+}
+
+const hasResourceScope = (scopes: string[]) => scopes.some((scope) => parseResourceScope(scope) !== null);
+
+// ============================================================
+// EHR LAUNCH
+// ============================================================
+
+/**
+ * Whether a doctor may open a patient's record: the patient has granted
+ * the doctor an active consent
+ * @param doctorUserId - Supabase user ID of the doctor
+ * @param patientUserId - Supabase user ID of the patient
+ */
+export async function hasClinicianAccess(doctorUserId: string, patientUserId: string): Promise<boolean> {
+    const { data: accounts } = await supabaseAdmin
+        .from('user_accounts')
+        .select('id, auth_user_id, role, linked_patient_id')
+        .in('auth_user_id', [doctorUserId, patientUserId]);
+
+    const doctor = accounts?.find((a) => a.auth_user_id === doctorUserId && a.role === 'doctor');
+    const patient = accounts?.find((a) => a.auth_user_id === patientUserId && a.role === 'patient');
+    if (!doctor || !patient?.linked_patient_id) return false;
+
+    return consentService.hasConsent(doctor.id, patient.linked_patient_id);
+}
+
+/**
+ * A doctor launches an app from a patient's record
+ * @returns The app's launch URL with iss and launch, or an error
+ */
+export async function createEhrLaunch(
+    doctorUserId: string,
+    clientId: string,
+    patientUserId: string,
+    fhirBaseUrl: string
+): Promise<{ launchUrl?: string; error?: string; status?: number }> {
+    const app = await getActiveSmartApp(clientId);
+    if (!app?.launch_url) {
+        return { error: 'Unknown app, or the app does not support EHR launch', status: 404 };
+    }
+
+    if (!(await hasClinicianAccess(doctorUserId, patientUserId))) {
+        return { error: 'No active consent from this patient', status: 403 };
+    }
+
+    const launchId = randomToken();
+    const { error } = await supabaseAdmin.from('smart_launches').insert({
+        id: launchId,
+        client_id: clientId,
+        user_id: doctorUserId,
+        patient_id: patientUserId,
+        expires_at: new Date(Date.now() + LAUNCH_TTL_SECONDS * 1000).toISOString(),
+    });
+
+    if (error) {
+        throw new Error(`Failed to create launch: ${error.message}`);
+    }
+
+    return { launchUrl: buildRedirect(app.launch_url, { iss: fhirBaseUrl, launch: launchId }) };
+}
+
+async function getOpenLaunch(launchId: string, clientId: string) {
+    const { data } = await supabaseAdmin
+        .from('smart_launches')
+        .select('*')
+        .eq('id', launchId)
+        .eq('client_id', clientId)
+        .is('used_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+    return data;
+}
+
+// ============================================================
+// AUTHORIZATION REQUESTS
+// ============================================================
+
+/**
+ * Check an app's authorization request and park it for the user's decision
+ * @param fhirBaseUrl - the only accepted aud
+ */
+export async function startAuthorization(params: AuthorizeParams, fhirBaseUrl: string): Promise<AuthorizeResult> {
+    const app = await getActiveSmartApp(params.client_id || '');
+    if (!app) {
+        return { ok: false, error: 'invalid_request', description: 'Unknown client_id' };
+    }
+
+    const redirectUri = params.redirect_uri || (app.redirect_uris.length === 1 ? app.redirect_uris[0] : undefined);
+    if (!redirectUri || !app.redirect_uris.includes(redirectUri)) {
+        return { ok: false, error: 'invalid_request', description: 'redirect_uri is not registered for this app' };
+    }
+
+    const fail = (error: string, description: string): AuthorizeResult => ({
+        ok: false,
+        error,
+        description,
+        redirect: buildRedirect(redirectUri, { error, error_description: description, state: params.state }),
+    });
+
+    if (params.response_type !== 'code') {
+        return fail('unsupported_response_type', 'response_type must be code');
+    }
+    if (params.aud?.replace(/\/$/, '') !== fhirBaseUrl) {
+        return fail('invalid_request', `aud must be ${fhirBaseUrl}`);
+    }
+    if (params.code_challenge_method && params.code_challenge_method !== 'S256') {
+        return fail('invalid_request', 'code_challenge_method must be S256');
+    }
+    if (!params.code_challenge && !app.client_secret_hash) {
+        return fail('invalid_request', 'Public apps must use PKCE (code_challenge)');
+    }
+
+    const requested = splitScope(params.scope);
+    const scopes = grantableScopes(requested, app.scopes);
+    if (!hasResourceScope(scopes)) {
+        return fail('invalid_scope', 'No requested resource scope is available to this app');
+    }
+
+    if (params.launch) {
+        if (!scopes.includes('launch')) {
+            return fail('invalid_scope', 'An EHR launch needs the launch scope');
+        }
+        if (!(await getOpenLaunch(params.launch, app.client_id))) {
+            return fail('invalid_request', 'Unknown or expired launch');
+        }
+    } else if (requested.includes('launch')) {
+        return fail('invalid_request', 'The launch scope needs a launch parameter');
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('smart_authorizations')
+        .insert({
+            client_id: app.client_id,
+            redirect_uri: redirectUri,
+            requested_scope: scopes.join(' '),
+            state: params.state || null,
+            launch_id: params.launch || null,
+            code_challenge: params.code_challenge || null,
+            code_challenge_method: params.code_challenge ? 'S256' : null,
+            expires_at: new Date(Date.now() + AUTHORIZATION_TTL_MINUTES * 60 * 1000).toISOString(),
+        })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        console.error('❌ [SMART] Failed to store authorization request:', error?.message);
+        return fail('server_error', 'Failed to start the authorization');
+    }
+
+    return { ok: true, requestId: data.id };
+}
+
+interface AuthorizationContext {
+    authorization: SmartAuthorization;
+    app: SmartApp;
+    launchType: LaunchType;
+    patientId: string;
+}
+
+/**
+ * The pending request as the signed-in user may decide it: the doctor who
+ * made the EHR launch, or a patient for their own record
+ */
+async function loadForDecision(
+    requestId: string,
+    userId: string
+): Promise<{ context?: AuthorizationContext; error?: string; status?: number }> {
+    const { data: authorization } = await supabaseAdmin
+        .from('smart_authorizations')
+        .select('*')
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+    if (!authorization) {
+        return { error: 'Authorization request not found or expired', status: 404 };
+    }
+
+    const app = await getActiveSmartApp(authorization.client_id);
+    if (!app) {
+        return { error: 'The app is no longer registered', status: 404 };
+    }
+
+    if (authorization.launch_id) {
+        const launch = await getOpenLaunch(authorization.launch_id, app.client_id);
+        if (!launch || launch.user_id !== userId) {
+            return { error: 'This launch belongs to another user or has expired', status: 403 };
+        }
+        return { context: { authorization, app, launchType: 'ehr', patientId: launch.patient_id } };
+    }
+
+    const { data: account } = await supabaseAdmin
+        .from('user_accounts')
+        .select('role')
+        .eq('auth_user_id', userId)
+        .maybeSingle();
+
+    // Users without an access-layer account are patients on the /fhir API
+    if (account && account.role !== 'patient') {
+        return { error: 'Doctors authorize apps by launching them from a patient\'s record', status: 403 };
+    }
+
+    return { context: { authorization, app, launchType: 'standalone', patientId: userId } };
+}
+
+/**
+ * What the consent screen shows for a pending request
+ */
+export async function getAuthorizationForReview(requestId: string, userId: string) {
+    const { context, error, status } = await loadForDecision(requestId, userId);
+    if (!context) return { error, status };
+
+    const [{ data: organization }, { data: profile }] = await Promise.all([
+        supabaseAdmin.from('organizations').select('name').eq('id', context.app.organization_id).maybeSingle(),
+        supabaseAdmin.from('user_profiles').select('full_name').eq('user_id', context.patientId).maybeSingle(),
+    ]);
+
+    return {
+        request: {
+            id: context.authorization.id,
+            app: { clientId: context.app.client_id, name: context.app.name, organization: organization?.name || null },
+            scopes: splitScope(context.authorization.requested_scope),
+            launchType: context.launchType,
+            patient: { id: context.patientId, name: profile?.full_name || null },
+            expiresAt: context.authorization.expires_at,
+        },
+    };
+}
+
+/**
+ * Record the user's decision
+ * @param scopes - approve only these of the requested scopes (default: all)
+ * @returns Where to send the browser: the app's redirect URI with a code or an error
+ */
+export async function decideAuthorization(
+    requestId: string,
+    userId: string,
+    decision: { approve: boolean; scopes?: string[] },
+    meta: { ipAddress?: string; userAgent?: string } = {}
+): Promise<{ redirectUrl?: string; error?: string; status?: number }> {
+    const { context, error, status } = await loadForDecision(requestId, userId);
+    if (!context) return { error, status };
+
+    const { authorization, app, launchType, patientId } = context;
+    const requested = splitScope(authorization.requested_scope);
+    const granted = decision.scopes ? requested.filter((scope) => decision.scopes!.includes(scope)) : requested;
+
+    if (decision.approve && !hasResourceScope(granted)) {
+        return { error: 'Approve at least one data scope, or deny the request', status: 400 };
+    }
+
+    if (launchType === 'ehr' && !(await hasClinicianAccess(userId, patientId))) {
+        return { error: 'No active consent from this patient', status: 403 };
+    }
+
+    const code = decision.approve ? randomToken() : null;
+    const { data: decided } = await supabaseAdmin
+        .from('smart_authorizations')
+        .update(decision.approve
+            ? {
+                status: 'approved',
+                user_id: userId,
+                patient_id: patientId,
+                granted_scope: granted.join(' '),
+                code_hash: hashToken(code!),
+                code_expires_at: new Date(Date.now() + CODE_TTL_SECONDS * 1000).toISOString(),
+            }
+            : { status: 'denied', user_id: userId })
+        .eq('id', authorization.id)
+        .eq('status', 'pending')
+        .select('id')
+        .maybeSingle();
+
+    // Decided in another tab
+    if (!decided) {
+        return { error: 'Authorization request not found or expired', status: 404 };
+    }
+
+    if (authorization.launch_id) {
+        await supabaseAdmin
+            .from('smart_launches')
+            .update({ used_at: new Date().toISOString() })
+            .eq('id', authorization.launch_id);
+    }
+
+    appendAuditEntry({
+        source: 'consent',
+        action: 'smart_authorize',
+        actorId: userId,
+        patientId,
+        outcome: decision.approve ? 'success' : 'denied',
+        outcomeReason: decision.approve ? undefined : 'User denied the app',
+        ipAddress: meta.ipAddress,
+        userAgent: meta.userAgent,
+        metadata: { clientId: app.client_id, app: app.name, launchType, scope: granted.join(' ') },
+    }).catch((e) => console.error('❌ [SMART] Failed to audit authorization:', e.message));
+
+    return {
+        redirectUrl: buildRedirect(authorization.redirect_uri, decision.approve
+            ? { code, state: authorization.state }
+            : { error: 'access_denied', error_description: 'The user denied the request', state: authorization.state }),
+    };
+}
@@ -0,0 +1,122 @@
+/**
+ * SMART App Launch scopes: context scopes (launch, launch/patient,
+ * offline_access) and resource scopes in both the v1 form
+ * (patient/Observation.read) and the v2 form (patient/Observation.rs)
+ * https://hl7.org/fhir/smart-app-launch/scopes-and-launch-context.html
+ */
+
+export type SmartInteraction = 'create' | 'read' | 'update' | 'delete' | 'search';
+
+export interface ResourceScope {
+    context: 'patient' | 'user';
+    resourceType: string;           // A type or *
+    interactions: SmartInteraction[];
+}
+
+/**
+ * Resource types the /fhir API serves to apps
+ */
+export const SMART_RESOURCE_TYPES = [
+    'Patient',
+    'Observation',
+    'Condition',
+    'MedicationRequest',
+    'DiagnosticReport',
+    'DocumentReference',
+    'Encounter',
+    'Binary',
+] as const;
+
+export const CONTEXT_SCOPES = ['launch', 'launch/patient', 'offline_access'] as const;
+
+// v2 letters in their required order
+const V2_INTERACTIONS: Array<[string, SmartInteraction]> = [
+    ['c', 'create'],
+    ['r', 'read'],
+    ['u', 'update'],
+    ['d', 'delete'],
+    ['s', 'search'],
+];
+
+const RESOURCE_SCOPE = /^(patient|user)\/([A-Za-z]+|\*)\.([a-z*]+)$/;
+
+/**
+ * Parse a resource scope; null for anything else (including v2 scopes
+ * narrowed with a query, which are not supported)
+ */
+export function parseResourceScope(scope: string): ResourceScope | null {
+    const match = RESOURCE_SCOPE.exec(scope);
+    if (!match) return null;
+
+    const [, context, resourceType, permissions] = match;
+    if (resourceType !== '*' && !(SMART_RESOURCE_TYPES as readonly string[]).includes(resourceType)) {
+        return null;
+    }
+
+    let interactions: SmartInteraction[];
+    if (permissions === 'read') {
+        interactions = ['read', 'search'];
+    } else if (permissions === 'write') {
+        interactions = ['create', 'update', 'delete'];
+    } else if (permissions === '*') {
+        interactions = V2_INTERACTIONS.map(([, interaction]) => interaction);
+    } else {
+        // v2: a non-empty subsequence of "cruds"
+        let position = 0;
+        interactions = [];
+        for (const letter of permissions) {
+            const index = V2_INTERACTIONS.findIndex(([l], i) => l === letter && i >= position);
+            if (index === -1) return null;
+            interactions.push(V2_INTERACTIONS[index][1]);
+            position = index + 1;
+        }
+    }
+
+    return { context: context as ResourceScope['context'], resourceType, interactions };
+}
+
+export function isSupportedScope(scope: string): boolean {
+    return (CONTEXT_SCOPES as readonly string[]).includes(scope) || parseResourceScope(scope) !== null;
+}
+
+/**
+ * Whether a registered (or granted) scope includes a requested one,
+ * e.g. patient/*.read includes patient/Observation.rs
+ */
+export function scopeCovers(granted: string, requested: string): boolean {
+    if (granted === requested) return true;
+
+    const g = parseResourceScope(granted);
+    const r = parseResourceScope(requested);
+    if (!g || !r || g.context !== r.context) return false;
+    if (g.resourceType !== '*' && g.resourceType !== r.resourceType) return false;
+
+    return r.interactions.every((interaction) => g.interactions.includes(interaction));
+}
+
+/**
+ * The requested scopes an app may be granted: supported ones that its
+ * registration covers. Unsupported or unregistered scopes are dropped, as
+ * SMART allows the server to grant less than was asked for.
+ */
+export function grantableScopes(requested: string[], registered: string[]): string[] {
+    return Array.from(new Set(requested)).filter((scope) =>
+        isSupportedScope(scope) && registered.some((r) => scopeCovers(r, scope))
+    );
+}
+
+/**
+ * Whether granted scopes allow an interaction on a resource type
+ */
+export function scopesAllow(scopes: string[], resourceType: string, interaction: SmartInteraction): boolean {
+    return scopes.some((scope) => {
+        const parsed = parseResourceScope(scope);
+        return !!parsed
+            && (parsed.resourceType === '*' || parsed.resourceType === resourceType)
+            && parsed.interactions.includes(interaction);
+    });
+}
+
+export function splitScope(scope: string | undefined | null): string[] {
+    return (scope || '').split(/\s+/).filter(Boolean);
+}
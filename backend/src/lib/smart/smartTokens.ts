@@ -0,0 +1,380 @@
+/**
+ * SMART tokens: opaque bearer tokens, stored only as hashes. An access
+ * token reaches one patient's record within its scopes; a refresh token
+ * (offline_access) rotates on every use.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../supabaseClient';
+import type { SmartApp } from './smartApps';
+import { hasClinicianAccess, hashToken, randomToken, type LaunchType, type SmartAuthorization } from './smartAuthorize';
+import { splitScope } from './smartScopes';
+
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.SMART_ACCESS_TOKEN_TTL_SECONDS || '3600');
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.SMART_REFRESH_TOKEN_TTL_DAYS || '90');
+
+export interface SmartTokenRecord {
+    id: string;
+    client_id: string;
+    authorization_id: string | null;
+    user_id: string;
+    patient_id: string;
+    scope: string;
+    launch_type: LaunchType;
+    access_token_hash: string;
+    access_expires_at: string;
+    refresh_token_hash: string | null;
+    refresh_expires_at: string | null;
+    created_at: string;
+    last_used_at: string | null;
+    revoked_at: string | null;
+}
+
+/**
+ * Token endpoint success response
+ */
+export interface SmartTokenResponse {
+    access_token: string;
+    token_type: 'Bearer';
+    expires_in: number;
+    scope: string;
+    patient: string;
+    refresh_token?: string;
+    need_patient_banner: boolean;
+}
+
+/**
+ * What a valid access token grants on /fhir
+ */
+export interface SmartAccess {
+    tokenId: string;
+    clientId: string;
+    userId: string;
+    patientId: string;
+    scopes: string[];
+    launchType: LaunchType;
+}
+
+export type TokenResult =
+    | { ok: true; response: SmartTokenResponse }
+    | { ok: false; error: string; description: string };
+
+const invalidGrant = (description: string): TokenResult => ({ ok: false, error: 'invalid_grant', description });
+
+async function issueTokens(
+    fields: Pick<SmartTokenRecord, 'client_id' | 'authorization_id' | 'user_id' | 'patient_id' | 'scope' | 'launch_type'>,
+    refreshExpiresAt?: string
+): Promise<SmartTokenResponse> {
+    const accessToken = randomToken();
+    const offline = splitScope(fields.scope).includes('offline_access');
+    const refreshToken = offline ? randomToken() : undefined;
+
+    const { error } = await supabaseAdmin.from('smart_tokens').insert({
+        ...fields,
+        access_token_hash: hashToken(accessToken),
+        access_expires_at: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000).toISOString(),
+        refresh_token_hash: refreshToken ? hashToken(refreshToken) : null,
+        refresh_expires_at: refreshToken
+            ? refreshExpiresAt || new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+            : null,
+    });
+
+    if (error) {
+        throw new Error(`Failed to store SMART token: ${error.message}`);
+    }
+
+    return {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: ACCESS_TOKEN_TTL_SECONDS,
+        scope: fields.scope,
+        patient: fields.patient_id,
+        ...(refreshToken ? { refresh_token: refreshToken } : {}),
+        need_patient_banner: fields.launch_type === 'ehr',
+    };
+}
+
+/**
+ * PKCE S256: base64url(sha256(verifier)) must equal the challenge
+ */
+function matchesCodeChallenge(verifier: string | undefined, challenge: string): boolean {
+    if (!verifier || !/^[A-Za-z0-9\-._~]{43,128}$/.test(verifier)) return false;
+    const computed = Buffer.from(crypto.createHash('sha256').update(verifier).digest('base64url'));
+    const expected = Buffer.from(challenge);
+    return computed.length === expected.length && crypto.timingSafeEqual(computed, expected);
+}
+
+// ============================================================
+// GRANTS
+// ============================================================
+
+/**
+ * authorization_code grant. A code can be exchanged once; presenting it
+ * again revokes what it was exchanged for.
+ */
+export async function exchangeAuthorizationCode(
+    app: SmartApp,
+    params: { code?: string; redirect_uri?: string; code_verifier?: string }
+): Promise<TokenResult> {
+    if (!params.code) {
+        return { ok: false, error: 'invalid_request', description: 'code is required' };
+    }
+
+    const { data } = await supabaseAdmin
+        .from('smart_authorizations')
+        .select('*')
+        .eq('code_hash', hashToken(params.code))
+        .eq('client_id', app.client_id)
+        .maybeSingle();
+
+    const authorization = data as SmartAuthorization | null;
+    if (!authorization) {
+        return invalidGrant('Unknown authorization code');
+    }
+
+    if (authorization.status === 'exchanged') {
+        console.warn(`⚠️ [SMART] Authorization code replayed by ${app.client_id}; revoking its tokens`);
+        await supabaseAdmin
+            .from('smart_tokens')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('authorization_id', authorization.id)
+            .is('revoked_at', null);
+        return invalidGrant('Authorization code already used');
+    }
+
+    if (authorization.status !== 'approved' || !authorization.code_expires_at || new Date(authorization.code_expires_at) < new Date()) {
+        return invalidGrant('Authorization code expired');
+    }
+    if (params.redirect_uri !== authorization.redirect_uri) {
+        return invalidGrant('redirect_uri does not match the authorization request');
+    }
+    if (authorization.code_challenge && !matchesCodeChallenge(params.code_verifier, authorization.code_challenge)) {
+        return invalidGrant('code_verifier does not match the code_challenge');
+    }
+
+    const { data: claimed } = await supabaseAdmin
+        .from('smart_authorizations')
+        .update({ status: 'exchanged' })
+        .eq('id', authorization.id)
+        .eq('status', 'approved')
+        .select('id')
+        .maybeSingle();
+
+    if (!claimed) {
+        return invalidGrant('Authorization code already used');
+    }
+
+    const response = await issueTokens({
+        client_id: app.client_id,
+        authorization_id: authorization.id,
+        user_id: authorization.user_id!,
+        patient_id: authorization.patient_id!,
+        scope: authorization.granted_scope || '',
+        launch_type: authorization.launch_id ? 'ehr' : 'standalone',
+    });
+
+    console.log(`✅ [SMART] Issued token to ${app.client_id} (${response.scope})`);
+    return { ok: true, response };
+}
+
+/**
+ * refresh_token grant: the old tokens are revoked and new ones issued
+ * with the same (or a narrower) scope. A doctor's app stops refreshing
+ * once the patient's consent is gone.
+ */
+export async function refreshAccessToken(
+    app: SmartApp,
+    params: { refresh_token?: string; scope?: string }
+): Promise<TokenResult> {
+    if (!params.refresh_token) {
+        return { ok: false, error: 'invalid_request', description: 'refresh_token is required' };
+    }
+
+    const { data } = await supabaseAdmin
+        .from('smart_tokens')
+        .select('*')
+        .eq('refresh_token_hash', hashToken(params.refresh_token))
+        .eq('client_id', app.client_id)
+        .is('revoked_at', null)
+        .gt('refresh_expires_at', new Date().toISOString())
+        .maybeSingle();
+
+    const token = data as SmartTokenRecord | null;
+    if (!token) {
+        return invalidGrant('Unknown, expired or revoked refresh token');
+    }
+
+    const current = splitScope(token.scope);
+    const requested = params.scope ? splitScope(params.scope) : current;
+    if (requested.some((scope) => !current.includes(scope))) {
+        return { ok: false, error: 'invalid_scope', description: 'A refresh cannot add scopes' };
+    }
+
+    if (token.launch_type === 'ehr' && !(await hasClinicianAccess(token.user_id, token.patient_id))) {
+        await revokeToken(token.id);
+        return invalidGrant('The patient\'s consent is no longer active');
+    }
+
+    const { data: rotated } = await supabaseAdmin
+        .from('smart_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', token.id)
+        .is('revoked_at', null)
+        .select('id')
+        .maybeSingle();
+
+    if (!rotated) {
+        return invalidGrant('Refresh token already used');
+    }
+
+    const response = await issueTokens({
+        client_id: app.client_id,
+        authorization_id: token.authorization_id,
+        user_id: token.user_id,
+        patient_id: token.patient_id,
+        scope: requested.join(' '),
+        launch_type: token.launch_type,
+    }, token.refresh_expires_at || undefined);
+
+    return { ok: true, response };
+}
+
+// ============================================================
+// TOKEN CHECKS
+// ============================================================
+
+async function revokeToken(tokenId: string) {
+    await supabaseAdmin.from('smart_tokens').update({ revoked_at: new Date().toISOString() }).eq('id', tokenId);
+}
+
+/**
+ * The app's token record for an access or refresh token, if it is live
+ */
+async function findLiveToken(app: SmartApp, token: string): Promise<{ record: SmartTokenRecord; kind: 'access' | 'refresh' } | null> {
+    const hash = hashToken(token);
+    const { data } = await supabaseAdmin
+        .from('smart_tokens')
+        .select('*')
+        .eq('client_id', app.client_id)
+        .or(`access_token_hash.eq.${hash},refresh_token_hash.eq.${hash}`)
+        .is('revoked_at', null)
+        .maybeSingle();
+
+    const record = data as SmartTokenRecord | null;
+    if (!record) return null;
+
+    const kind = record.access_token_hash === hash ? 'access' : 'refresh';
+    const expiresAt = kind === 'access' ? record.access_expires_at : record.refresh_expires_at;
+    return expiresAt && new Date(expiresAt) > new Date() ? { record, kind } : null;
+}
+
+/**
+ * Token introspection (RFC 7662) for the app's own tokens.
+ * Inactive tokens reveal nothing else.
+ */
+export async function introspectSmartToken(app: SmartApp, token: string, issuer: string) {
+    const found = await findLiveToken(app, token);
+    if (!found) return { active: false };
+
+    const { record, kind } = found;
+    return {
+        active: true,
+        scope: record.scope,
+        client_id: record.client_id,
+        token_type: kind === 'access' ? 'Bearer' : 'refresh_token',
+        iss: issuer,
+        sub: record.user_id,
+        patient: record.patient_id,
+        iat: Math.floor(new Date(record.created_at).getTime() / 1000),
+        exp: Math.floor(new Date(kind === 'access' ? record.access_expires_at : record.refresh_expires_at!).getTime() / 1000),
+    };
+}
+
+/**
+ * Token revocation (RFC 7009): revoking either token ends the grant
+ */
+export async function revokeSmartToken(app: SmartApp, token: string): Promise<void> {
+    const found = await findLiveToken(app, token);
+    if (found) {
+        await revokeToken(found.record.id);
+    }
+}
+
+/**
+ * Resolve a bearer token presented to /fhir. EHR-launch tokens are
+ * revoked once the patient's consent to the doctor ends.
+ */
+export async function resolveAccessToken(token: string): Promise<SmartAccess | null> {
+    const { data } = await supabaseAdmin
+        .from('smart_tokens')
+        .select('id, client_id, user_id, patient_id, scope, launch_type, access_expires_at, smart_apps!inner(is_active)')
+        .eq('access_token_hash', hashToken(token))
+        .is('revoked_at', null)
+        .gt('access_expires_at', new Date().toISOString())
+        .eq('smart_apps.is_active', true)
+        .maybeSingle();
+
+    if (!data) return null;
+
+    // A doctor's access lasts only as long as the patient's consent
+    if (data.launch_type === 'ehr' && !(await hasClinicianAccess(data.user_id, data.patient_id))) {
+        await revokeToken(data.id);
+        return null;
+    }
+
+    supabaseAdmin
+        .from('smart_tokens')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', data.id)
+        .then(({ error }) => error && console.error('❌ [SMART] Failed to record token use:', error.message));
+
+    return {
+        tokenId: data.id,
+        clientId: data.client_id,
+        userId: data.user_id,
+        patientId: data.patient_id,
+        scopes: splitScope(data.scope),
+        launchType: data.launch_type,
+    };
+}
+
+// ============================================================
+// PATIENT VIEW
+// ============================================================
+
+/**
+ * Apps holding live tokens to the patient's record
+ */
+export async function listAuthorizedApps(patientId: string) {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+        .from('smart_tokens')
+        .select('client_id, user_id, scope, launch_type, created_at, last_used_at, access_expires_at, refresh_expires_at, smart_apps(name)')
+        .eq('patient_id', patientId)
+        .is('revoked_at', null)
+        .or(`access_expires_at.gt.${now},refresh_expires_at.gt.${now}`)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to list authorized apps: ${error.message}`);
+    }
+    return data || [];
+}
+
+/**
+ * Patient withdraws an app: every token it holds to their record is revoked
+ */
+export async function revokeAppAccess(patientId: string, clientId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+        .from('smart_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('patient_id', patientId)
+        .eq('client_id', clientId)
+        .is('revoked_at', null)
+        .select('id');
+
+    if (error) {
+        throw new Error(`Failed to revoke app access: ${error.message}`);
+    }
+    return data?.length || 0;
+}
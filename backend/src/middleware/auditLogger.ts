@@ -1,8 +1,9 @@
 import crypto from "crypto";
-import { supabaseAdmin } from "../lib/supabaseClient";
+import { appendAuditEntry } from "../lib/auditLog";
 
 /**
  * Log ABHA API audit trail for compliance
+ * Written to the shared hash-chained audit log
  * Hashes sensitive payloads before storing
  */
 export async function logABHAAudit(params: {
@@ -21,12 +22,19 @@ export async function logABHAAudit(params: {
                 .digest("hex")
             : null;
 
-        await supabaseAdmin.from("audit_logs").insert({
-            user_id: params.userId || null,
-            endpoint: params.endpoint,
-            request_payload_hash: payloadHash,
-            response_code: params.responseCode,
-            error_message: params.errorMessage,
+        const failed = params.errorMessage || (params.responseCode !== undefined && params.responseCode >= 400);
+
+        await appendAuditEntry({
+            source: "abha",
+            action: "abha_api",
+            actorId: params.userId,
+            outcome: failed ? "error" : "success",
+            outcomeReason: params.errorMessage,
+            metadata: {
+                endpoint: params.endpoint,
+                requestPayloadHash: payloadHash,
+                responseCode: params.responseCode ?? null,
+            },
         });
     } catch (error) {
         console.error("Error logging ABHA audit:", error);
@@ -1,5 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { consentService } from '../modules/consent/consent.service';
+import { appendAuditEntry } from '../lib/auditLog';
+
+/**
+ * Record a clinician's consent-checked access in the patient's audit trail.
+ * Never blocks the request.
+ */
+function logClinicianAccess(req: Request, patientId: string, outcome: 'success' | 'denied', requiredScopes?: string[]) {
+    appendAuditEntry({
+        source: 'consent',
+        action: req.method === 'GET' ? 'read' : 'update',
+        actorId: req.user?.id,
+        patientId,
+        resourceType: requiredScopes?.length ? requiredScopes.join(',') : req.baseUrl.split('/').pop(),
+        purposeOfUse: 'TREATMENT',
+        outcome,
+        outcomeReason: outcome === 'denied' ? 'No active consent' : undefined,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+        metadata: { path: req.originalUrl, scopes: requiredScopes || [] },
+    }).catch((error) => console.error('Failed to log clinician access:', error));
+}
 
 /**
  * Middleware to enforce consent-based access to patient data
@@ -26,6 +47,11 @@ export const enforceConsent = (requiredScopes?: string[]) => {
                 return next();
             }
 
+            // Supabase-authenticated patients are keyed by their auth user id
+            if (patientId && userId === patientId) {
+                return next();
+            }
+
             // Check consent for doctors/clinical staff
             if (!patientId) {
                 return res.status(400).json({ error: 'Patient ID required' });
@@ -33,6 +59,8 @@ export const enforceConsent = (requiredScopes?: string[]) => {
 
             const hasConsent = await consentService.hasConsent(userId, patientId, requiredScopes);
 
+            logClinicianAccess(req, patientId, hasConsent ? 'success' : 'denied', requiredScopes);
+
             if (!hasConsent) {
                 return res.status(403).json({
                     error: 'Access denied. Consent required.',
@@ -0,0 +1,757 @@
+import { z } from "zod";
+import type { Request, Response, NextFunction } from "express";
+import type {
+    Patient,
+    Observation,
+    Condition,
+    MedicationRequest,
+    DiagnosticReport,
+    DocumentReference,
+    Encounter,
+    OperationOutcome,
+} from "../types/fhir";
+
+/**
+ * Zod schemas for FHIR R4 resources written through /fhir, typed against
+ * types/fhir.ts. They check what HAPI would otherwise reject (or silently
+ * accept): required elements, cardinality, primitive formats, required code
+ * system bindings and Reference targets, and return OperationOutcome issues
+ * with FHIRPath locations.
+ */
+
+type OutcomeIssue = OperationOutcome["issue"][number];
+
+// ============================================================
+// PRIMITIVES
+// ============================================================
+
+const YEAR = "([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)";
+const MONTH_DAY = "(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1]))?)?";
+const TIME = "([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\\.[0-9]{1,9})?";
+const ZONE = "(Z|(\\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00))";
+
+const fhirId = z.string().regex(/^[A-Za-z0-9\-.]{1,64}$/, "Must be 1-64 letters, digits, '-' or '.'");
+const fhirCode = z.string().regex(/^[^\s]+( [^\s]+)*$/, "Codes cannot be empty or have leading, trailing or repeated whitespace");
+const fhirUri = z.string().regex(/^\S+$/, "Must be a URI without whitespace");
+const fhirString = z.string().min(1, "Strings cannot be empty");
+const fhirDate = z.string().regex(new RegExp(`^${YEAR}${MONTH_DAY}$`), "Must be a date (YYYY, YYYY-MM or YYYY-MM-DD)");
+const fhirDateTime = z.string().regex(
+    new RegExp(`^${YEAR}(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1])(T${TIME}${ZONE})?)?)?$`),
+    "Must be a dateTime (YYYY, YYYY-MM, YYYY-MM-DD or YYYY-MM-DDThh:mm:ss with a timezone)"
+);
+const fhirInstant = z.string().regex(
+    new RegExp(`^${YEAR}-(0[1-9]|1[0-2])-(0[1-9]|[1-2][0-9]|3[0-1])T${TIME}${ZONE}$`),
+    "Must be an instant (YYYY-MM-DDThh:mm:ss with a timezone)"
+);
+const fhirBase64 = z.string().regex(/^(\s*([0-9a-zA-Z+/=]){4}\s*)+$/, "Must be base64 encoded");
+const positiveInt = z.number().int().positive();
+const unsignedInt = z.number().int().nonnegative();
+
+/**
+ * An invariant failure with its OperationOutcome issue code
+ */
+function invariant(ctx: z.RefinementCtx, path: (string | number)[], message: string, code = "invariant") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message, params: { fhirCode: code } });
+}
+
+// ============================================================
+// DATA TYPES
+// ============================================================
+
+const period = z.object({ start: fhirDateTime.optional(), end: fhirDateTime.optional() }).passthrough()
+    .superRefine((p, ctx) => {
+        // per-1: start <= end
+        if (p.start && p.end && new Date(p.start).getTime() > new Date(p.end).getTime()) {
+            invariant(ctx, ["end"], "Period end must not be before its start");
+        }
+    });
+
+const coding = z.object({
+    system: fhirUri.optional(),
+    version: fhirString.optional(),
+    code: fhirCode.optional(),
+    display: fhirString.optional(),
+    userSelected: z.boolean().optional(),
+}).passthrough();
+
+const codeableConcept = z.object({
+    coding: z.array(coding).optional(),
+    text: fhirString.optional(),
+}).passthrough().refine((c) => (c.coding?.length || 0) > 0 || !!c.text, {
+    message: "A CodeableConcept needs at least one coding or text",
+    params: { fhirCode: "required" },
+});
+
+const quantity = z.object({
+    value: z.number().optional(),
+    comparator: z.enum(["<", "<=", ">=", ">"]).optional(),
+    unit: fhirString.optional(),
+    system: fhirUri.optional(),
+    code: fhirCode.optional(),
+}).passthrough().superRefine((q, ctx) => {
+    // qty-3: a coded unit needs its system
+    if (q.code && !q.system) invariant(ctx, ["system"], "Quantity.system is required when a unit code is given");
+});
+
+const range = z.object({ low: quantity.optional(), high: quantity.optional() }).passthrough();
+const ratio = z.object({ numerator: quantity.optional(), denominator: quantity.optional() }).passthrough();
+
+const RELATIVE_REFERENCE = /^([A-Z][A-Za-z]+)\/[A-Za-z0-9\-.]{1,64}(\/_history\/[A-Za-z0-9\-.]{1,64})?$/;
+
+const reference = z.object({
+    reference: fhirString.optional(),
+    type: fhirUri.optional(),
+    identifier: z.object({ system: fhirUri.optional(), value: fhirString.optional() }).passthrough().optional(),
+    display: fhirString.optional(),
+}).passthrough().superRefine((r, ctx) => {
+    // ref-1: a reference, an identifier or a display
+    if (!r.reference && !r.identifier && !r.display) {
+        invariant(ctx, [], "A Reference needs a reference, identifier or display", "required");
+    }
+    if (r.reference && !(
+        RELATIVE_REFERENCE.test(r.reference) ||
+        r.reference.startsWith("#") ||
+        r.reference.startsWith("urn:uuid:") ||
+        /^https?:\/\/\S+\/[A-Z][A-Za-z]+\/[A-Za-z0-9\-.]{1,64}$/.test(r.reference)
+    )) {
+        invariant(ctx, ["reference"], `"${r.reference}" is not a valid reference (expected Type/id, an absolute URL, urn:uuid or #contained)`, "value");
+    }
+});
+
+/**
+ * A Reference that may only point at the given resource types. The type is
+ * read from a Type/id reference or Reference.type; urn:uuid and contained
+ * references cannot be checked here.
+ */
+function referenceTo(...types: string[]) {
+    return reference.superRefine((r, ctx) => {
+        const target = (r.reference?.match(RELATIVE_REFERENCE) || r.reference?.match(/\/([A-Z][A-Za-z]+)\/[^/]+$/))?.[1] || r.type;
+        if (target && !types.includes(target)) {
+            invariant(ctx, ["reference"], `Must reference ${types.join(" | ")}, not ${target}`, "value");
+        }
+    });
+}
+
+const identifier = z.object({
+    use: z.enum(["usual", "official", "temp", "secondary", "old"]).optional(),
+    type: codeableConcept.optional(),
+    system: fhirUri.optional(),
+    value: fhirString.optional(),
+    period: period.optional(),
+    assigner: reference.optional(),
+}).passthrough();
+
+const humanName = z.object({
+    use: z.enum(["usual", "official", "temp", "nickname", "anonymous", "old", "maiden"]).optional(),
+    text: fhirString.optional(),
+    family: fhirString.optional(),
+    given: z.array(fhirString).optional(),
+    prefix: z.array(fhirString).optional(),
+    suffix: z.array(fhirString).optional(),
+    period: period.optional(),
+}).passthrough();
+
+const contactPoint = z.object({
+    system: z.enum(["phone", "fax", "email", "pager", "url", "sms", "other"]).optional(),
+    value: fhirString.optional(),
+    use: z.enum(["home", "work", "temp", "old", "mobile"]).optional(),
+    rank: positiveInt.optional(),
+    period: period.optional(),
+}).passthrough().superRefine((c, ctx) => {
+    // cpt-2: a value needs its system
+    if (c.value && !c.system) invariant(ctx, ["system"], "ContactPoint.system is required when a value is given");
+});
+
+const address = z.object({
+    use: z.enum(["home", "work", "temp", "old", "billing"]).optional(),
+    type: z.enum(["postal", "physical", "both"]).optional(),
+    text: fhirString.optional(),
+    line: z.array(fhirString).optional(),
+    city: fhirString.optional(),
+    district: fhirString.optional(),
+    state: fhirString.optional(),
+    postalCode: fhirString.optional(),
+    country: fhirString.optional(),
+    period: period.optional(),
+}).passthrough();
+
+const attachment = z.object({
+    contentType: fhirCode.optional(),
+    language: fhirCode.optional(),
+    data: fhirBase64.optional(),
+    url: fhirUri.optional(),
+    size: unsignedInt.optional(),
+    hash: fhirBase64.optional(),
+    title: fhirString.optional(),
+    creation: fhirDateTime.optional(),
+    height: positiveInt.optional(),
+    width: positiveInt.optional(),
+    frames: positiveInt.optional(),
+    duration: z.number().nonnegative().optional(),
+}).passthrough().superRefine((a, ctx) => {
+    // att-1: inline data needs its content type
+    if (a.data && !a.contentType) invariant(ctx, ["contentType"], "Attachment.contentType is required when data is given");
+});
+
+const annotation = z.object({ text: fhirString, time: fhirDateTime.optional() }).passthrough();
+
+const meta = z.object({
+    versionId: fhirId.optional(),
+    lastUpdated: fhirInstant.optional(),
+    source: fhirUri.optional(),
+    profile: z.array(fhirUri).optional(),
+}).passthrough();
+
+// ============================================================
+// CODE SYSTEM BINDINGS
+// ============================================================
+
+const CODE_SYSTEMS = {
+    observationCategory: "http://terminology.hl7.org/CodeSystem/observation-category",
+    conditionClinical: "http://terminology.hl7.org/CodeSystem/condition-clinical",
+    conditionVerification: "http://terminology.hl7.org/CodeSystem/condition-ver-status",
+    conditionCategory: "http://terminology.hl7.org/CodeSystem/condition-category",
+    actCode: "http://terminology.hl7.org/CodeSystem/v3-ActCode",
+};
+
+/**
+ * A CodeableConcept bound to a value set from one code system.
+ * Required bindings need a coding from the system with one of the codes;
+ * extensible bindings only check codings that use the system.
+ */
+function boundConcept(system: string, codes: readonly string[], strength: "required" | "extensible") {
+    return codeableConcept.superRefine((c, ctx) => {
+        const fromSystem = (c.coding || []).map((cd, index) => ({ cd, index })).filter(({ cd }) => cd.system === system);
+
+        if (strength === "required" && fromSystem.length === 0) {
+            invariant(ctx, ["coding"], `Needs a coding from ${system} (${codes.join(" | ")})`, "code-invalid");
+        }
+        for (const { cd, index } of fromSystem) {
+            if (!cd.code || !codes.includes(cd.code)) {
+                invariant(ctx, ["coding", index, "code"], `"${cd.code ?? ""}" is not in ${system} (${codes.join(" | ")})`, "code-invalid");
+            }
+        }
+    });
+}
+
+// ============================================================
+// RESOURCES
+// ============================================================
+
+/**
+ * Elements every resource may carry, plus the resource's own
+ */
+function resource<T extends string, S extends z.ZodRawShape>(type: T, shape: S) {
+    return z.object({
+        resourceType: z.literal(type),
+        id: fhirId.optional(),
+        meta: meta.optional(),
+        language: fhirCode.optional(),
+        ...shape,
+    }).passthrough();
+}
+
+/**
+ * At most one of the choice element's types (value[x], onset[x]...)
+ */
+function singleChoice(ctx: z.RefinementCtx, data: Record<string, unknown>, prefix: string, required = false) {
+    const present = Object.keys(data).filter((k) => k.startsWith(prefix) && /^[A-Z]/.test(k.slice(prefix.length)) && data[k] !== undefined);
+    if (present.length > 1) {
+        invariant(ctx, [present[1]], `Only one ${prefix}[x] is allowed, found ${present.join(", ")}`, "structure");
+    }
+    if (required && present.length === 0) {
+        invariant(ctx, [`${prefix}[x]`], `Missing required ${prefix}[x]`, "required");
+    }
+}
+
+const PRACTITIONER_TYPES = ["Practitioner", "PractitionerRole", "Organization", "Patient", "RelatedPerson"];
+
+export const patientSchema: z.ZodType<Patient, z.ZodTypeDef, unknown> = resource("Patient", {
+    identifier: z.array(identifier).optional(),
+    active: z.boolean().optional(),
+    name: z.array(humanName).optional(),
+    telecom: z.array(contactPoint).optional(),
+    gender: z.enum(["male", "female", "other", "unknown"]).optional(),
+    birthDate: fhirDate.optional(),
+    address: z.array(address).optional(),
+    maritalStatus: codeableConcept.optional(),
+    contact: z.array(z.object({
+        relationship: z.array(codeableConcept).optional(),
+        name: humanName.optional(),
+        telecom: z.array(contactPoint).optional(),
+        address: address.optional(),
+        gender: z.enum(["male", "female", "other", "unknown"]).optional(),
+        organization: referenceTo("Organization").optional(),
+        period: period.optional(),
+    }).passthrough()).optional(),
+}).superRefine((p, ctx) => {
+    singleChoice(ctx, p, "deceased");
+    singleChoice(ctx, p, "multipleBirth");
+    // pat-1: a contact needs details or an organization
+    p.contact?.forEach((c, index) => {
+        if (!c.name && !c.telecom?.length && !c.address && !c.organization) {
+            invariant(ctx, ["contact", index], "A contact needs a name, telecom, address or organization");
+        }
+    });
+});
+
+const referenceRange = z.object({
+    low: quantity.optional(),
+    high: quantity.optional(),
+    type: codeableConcept.optional(),
+    appliesTo: z.array(codeableConcept).optional(),
+    age: range.optional(),
+    text: fhirString.optional(),
+}).passthrough().superRefine((r, ctx) => {
+    // obs-3: low, high or text
+    if (!r.low && !r.high && !r.text) invariant(ctx, [], "A referenceRange needs low, high or text");
+});
+
+const observationValue = {
+    valueQuantity: quantity.optional(),
+    valueCodeableConcept: codeableConcept.optional(),
+    valueString: fhirString.optional(),
+    valueBoolean: z.boolean().optional(),
+    valueInteger: z.number().int().optional(),
+    valueRange: range.optional(),
+    valueRatio: ratio.optional(),
+    valueTime: z.string().regex(new RegExp(`^${TIME}$`), "Must be a time (hh:mm:ss)").optional(),
+    valueDateTime: fhirDateTime.optional(),
+    valuePeriod: period.optional(),
+    dataAbsentReason: codeableConcept.optional(),
+    interpretation: z.array(codeableConcept).optional(),
+};
+
+export const observationSchema: z.ZodType<Observation, z.ZodTypeDef, unknown> = resource("Observation", {
+    identifier: z.array(identifier).optional(),
+    basedOn: z.array(reference).optional(),
+    status: z.enum(["registered", "preliminary", "final", "amended", "corrected", "cancelled", "entered-in-error", "unknown"]),
+    category: z.array(boundConcept(
+        CODE_SYSTEMS.observationCategory,
+        ["social-history", "vital-signs", "imaging", "laboratory", "procedure", "survey", "exam", "therapy", "activity"],
+        "extensible"
+    )).optional(),
+    code: codeableConcept,
+    subject: referenceTo("Patient", "Group", "Device", "Location").optional(),
+    focus: z.array(reference).optional(),
+    encounter: referenceTo("Encounter").optional(),
+    effectiveDateTime: fhirDateTime.optional(),
+    effectivePeriod: period.optional(),
+    issued: fhirInstant.optional(),
+    performer: z.array(referenceTo(...PRACTITIONER_TYPES, "CareTeam")).optional(),
+    ...observationValue,
+    valueSampledData: z.object({
+        origin: quantity,
+        period: z.number(),
+        factor: z.number().optional(),
+        lowerLimit: z.number().optional(),
+        upperLimit: z.number().optional(),
+        dimensions: positiveInt,
+        data: z.string().optional(),
+    }).passthrough().optional(),
+    note: z.array(annotation).optional(),
+    bodySite: codeableConcept.optional(),
+    method: codeableConcept.optional(),
+    specimen: referenceTo("Specimen").optional(),
+    device: referenceTo("Device", "DeviceMetric").optional(),
+    referenceRange: z.array(referenceRange).optional(),
+    hasMember: z.array(referenceTo("Observation", "QuestionnaireResponse", "MolecularSequence")).optional(),
+    derivedFrom: z.array(reference).optional(),
+    component: z.array(z.object({
+        code: codeableConcept,
+        ...observationValue,
+        valueSampledData: z.unknown().optional(),
+        referenceRange: z.array(referenceRange).optional(),
+    }).passthrough().superRefine((c, ctx) => singleChoice(ctx, c, "value"))).optional(),
+}).superRefine((o, ctx) => {
+    singleChoice(ctx, o, "effective");
+    singleChoice(ctx, o, "value");
+    // obs-6: dataAbsentReason only without a value
+    if (o.dataAbsentReason && Object.keys(o).some((k) => /^value[A-Z]/.test(k))) {
+        invariant(ctx, ["dataAbsentReason"], "dataAbsentReason is only allowed when there is no value");
+    }
+    // obs-7: a component with the Observation's own code belongs in value[x]
+    const ownCodes = new Set((o.code.coding || []).map((c) => `${c.system}|${c.code}`));
+    o.component?.forEach((c, index) => {
+        if ((c.code.coding || []).some((cd) => ownCodes.has(`${cd.system}|${cd.code}`))) {
+            invariant(ctx, ["component", index, "code"], "A component cannot repeat the Observation's code; use value[x]");
+        }
+    });
+});
+
+const CLINICAL_STATUS = ["active", "recurrence", "relapse", "inactive", "remission", "resolved"] as const;
+
+export const conditionSchema: z.ZodType<Condition, z.ZodTypeDef, unknown> = resource("Condition", {
+    identifier: z.array(identifier).optional(),
+    clinicalStatus: boundConcept(CODE_SYSTEMS.conditionClinical, CLINICAL_STATUS, "required").optional(),
+    verificationStatus: boundConcept(
+        CODE_SYSTEMS.conditionVerification,
+        ["unconfirmed", "provisional", "differential", "confirmed", "refuted", "entered-in-error"],
+        "required"
+    ).optional(),
+    category: z.array(boundConcept(CODE_SYSTEMS.conditionCategory, ["problem-list-item", "encounter-diagnosis"], "extensible")).optional(),
+    severity: codeableConcept.optional(),
+    code: codeableConcept,
+    bodySite: z.array(codeableConcept).optional(),
+    subject: referenceTo("Patient", "Group"),
+    encounter: referenceTo("Encounter").optional(),
+    onsetDateTime: fhirDateTime.optional(),
+    onsetAge: quantity.optional(),
+    onsetPeriod: period.optional(),
+    onsetRange: range.optional(),
+    onsetString: fhirString.optional(),
+    abatementDateTime: fhirDateTime.optional(),
+    abatementAge: quantity.optional(),
+    abatementPeriod: period.optional(),
+    abatementRange: range.optional(),
+    abatementString: fhirString.optional(),
+    recordedDate: fhirDateTime.optional(),
+    recorder: referenceTo("Practitioner", "PractitionerRole", "Patient", "RelatedPerson").optional(),
+    asserter: referenceTo("Practitioner", "PractitionerRole", "Patient", "RelatedPerson").optional(),
+    stage: z.array(z.object({
+        summary: codeableConcept.optional(),
+        assessment: z.array(referenceTo("ClinicalImpression", "DiagnosticReport", "Observation")).optional(),
+        type: codeableConcept.optional(),
+    }).passthrough()).optional(),
+    evidence: z.array(z.object({
+        code: z.array(codeableConcept).optional(),
+        detail: z.array(reference).optional(),
+    }).passthrough()).optional(),
+    note: z.array(annotation).optional(),
+}).superRefine((c, ctx) => {
+    singleChoice(ctx, c, "onset");
+    singleChoice(ctx, c, "abatement");
+
+    const code = (concept: typeof c.clinicalStatus, system: string) =>
+        concept?.coding?.find((cd) => cd.system === system)?.code;
+    const clinical = code(c.clinicalStatus, CODE_SYSTEMS.conditionClinical);
+    const verification = code(c.verificationStatus, CODE_SYSTEMS.conditionVerification);
+    const problemListItem = c.category?.some((cat) => cat.coding?.some((cd) => cd.system === CODE_SYSTEMS.conditionCategory && cd.code === "problem-list-item"));
+
+    // con-3: problem list items need a clinical status
+    if (!c.clinicalStatus && verification !== "entered-in-error" && problemListItem) {
+        invariant(ctx, ["clinicalStatus"], "clinicalStatus is required for problem-list-item Conditions", "required");
+    }
+    // con-4: abated conditions are inactive, resolved or in remission
+    if (Object.keys(c).some((k) => /^abatement[A-Z]/.test(k)) && clinical && !["inactive", "resolved", "remission"].includes(clinical)) {
+        invariant(ctx, ["clinicalStatus"], "A Condition with an abatement must be inactive, resolved or remission");
+    }
+    // con-5: no clinical status on entered-in-error
+    if (verification === "entered-in-error" && c.clinicalStatus) {
+        invariant(ctx, ["clinicalStatus"], "clinicalStatus must be absent when verificationStatus is entered-in-error");
+    }
+});
+
+const simpleQuantity = quantity.refine((q) => !q.comparator, { message: "A SimpleQuantity cannot have a comparator" });
+
+const dosage = z.object({
+    sequence: z.number().int().optional(),
+    text: fhirString.optional(),
+    additionalInstruction: z.array(codeableConcept).optional(),
+    patientInstruction: fhirString.optional(),
+    timing: z.object({
+        event: z.array(fhirDateTime).optional(),
+        repeat: z.object({
+            count: positiveInt.optional(),
+            countMax: positiveInt.optional(),
+            duration: z.number().nonnegative().optional(),
+            durationMax: z.number().nonnegative().optional(),
+            durationUnit: z.enum(["s", "min", "h", "d", "wk", "mo", "a"]).optional(),
+            frequency: positiveInt.optional(),
+            frequencyMax: positiveInt.optional(),
+            period: z.number().nonnegative().optional(),
+            periodMax: z.number().nonnegative().optional(),
+            periodUnit: z.enum(["s", "min", "h", "d", "wk", "mo", "a"]).optional(),
+            dayOfWeek: z.array(z.enum(["mon", "tue", "wed", "thu", "fri", "sat", "sun"])).optional(),
+            timeOfDay: z.array(z.string().regex(new RegExp(`^${TIME}$`), "Must be a time (hh:mm:ss)")).optional(),
+            when: z.array(fhirCode).optional(),
+            offset: unsignedInt.optional(),
+        }).passthrough().superRefine((r, ctx) => {
+            // tim-1, tim-2: durations and periods carry their units
+            if (r.duration !== undefined && !r.durationUnit) invariant(ctx, ["durationUnit"], "durationUnit is required with duration");
+            if (r.period !== undefined && !r.periodUnit) invariant(ctx, ["periodUnit"], "periodUnit is required with period");
+        }).optional(),
+        code: codeableConcept.optional(),
+    }).passthrough().optional(),
+    asNeededBoolean: z.boolean().optional(),
+    asNeededCodeableConcept: codeableConcept.optional(),
+    site: codeableConcept.optional(),
+    route: codeableConcept.optional(),
+    method: codeableConcept.optional(),
+    doseAndRate: z.array(z.object({
+        type: codeableConcept.optional(),
+        doseRange: range.optional(),
+        doseQuantity: simpleQuantity.optional(),
+        rateRatio: ratio.optional(),
+        rateRange: range.optional(),
+        rateQuantity: simpleQuantity.optional(),
+    }).passthrough().superRefine((d, ctx) => {
+        singleChoice(ctx, d, "dose");
+        singleChoice(ctx, d, "rate");
+    })).optional(),
+}).passthrough().superRefine((d, ctx) => singleChoice(ctx, d, "asNeeded"));
+
+export const medicationRequestSchema: z.ZodType<MedicationRequest, z.ZodTypeDef, unknown> = resource("MedicationRequest", {
+    identifier: z.array(identifier).optional(),
+    status: z.enum(["active", "on-hold", "cancelled", "completed", "entered-in-error", "stopped", "draft", "unknown"]),
+    statusReason: codeableConcept.optional(),
+    intent: z.enum(["proposal", "plan", "order", "original-order", "reflex-order", "filler-order", "instance-order", "option"]),
+    category: z.array(codeableConcept).optional(),
+    priority: z.enum(["routine", "urgent", "asap", "stat"]).optional(),
+    doNotPerform: z.boolean().optional(),
+    medicationCodeableConcept: codeableConcept.optional(),
+    medicationReference: referenceTo("Medication").optional(),
+    subject: referenceTo("Patient", "Group"),
+    encounter: referenceTo("Encounter").optional(),
+    supportingInformation: z.array(reference).optional(),
+    authoredOn: fhirDateTime.optional(),
+    requester: referenceTo(...PRACTITIONER_TYPES, "Device").optional(),
+    performer: reference.optional(),
+    performerType: codeableConcept.optional(),
+    recorder: referenceTo("Practitioner", "PractitionerRole").optional(),
+    reasonCode: z.array(codeableConcept).optional(),
+    reasonReference: z.array(referenceTo("Condition", "Observation")).optional(),
+    instantiatesCanonical: z.array(fhirUri).optional(),
+    instantiatesUri: z.array(fhirUri).optional(),
+    basedOn: z.array(reference).optional(),
+    groupIdentifier: identifier.optional(),
+    courseOfTherapyType: codeableConcept.optional(),
+    note: z.array(annotation).optional(),
+    dosageInstruction: z.array(dosage).optional(),
+    dispenseRequest: z.object({
+        initialFill: z.object({ quantity: simpleQuantity.optional(), duration: quantity.optional() }).passthrough().optional(),
+        dispenseInterval: quantity.optional(),
+        validityPeriod: period.optional(),
+        numberOfRepeatsAllowed: unsignedInt.optional(),
+        quantity: simpleQuantity.optional(),
+        expectedSupplyDuration: quantity.optional(),
+        performer: referenceTo("Organization").optional(),
+    }).passthrough().optional(),
+    substitution: z.object({
+        allowedBoolean: z.boolean().optional(),
+        allowedCodeableConcept: codeableConcept.optional(),
+        reason: codeableConcept.optional(),
+    }).passthrough().optional(),
+    priorPrescription: referenceTo("MedicationRequest").optional(),
+}).superRefine((m, ctx) => {
+    // medication[x] is 1..1
+    singleChoice(ctx, m, "medication", true);
+});
+
+export const diagnosticReportSchema: z.ZodType<DiagnosticReport, z.ZodTypeDef, unknown> = resource("DiagnosticReport", {
+    identifier: z.array(identifier).optional(),
+    basedOn: z.array(reference).optional(),
+    status: z.enum(["registered", "partial", "preliminary", "final", "amended", "corrected", "appended", "cancelled", "entered-in-error", "unknown"]),
+    category: z.array(codeableConcept).optional(),
+    code: codeableConcept,
+    subject: referenceTo("Patient", "Group", "Device", "Location").optional(),
+    encounter: referenceTo("Encounter").optional(),
+    effectiveDateTime: fhirDateTime.optional(),
+    effectivePeriod: period.optional(),
+    issued: fhirInstant.optional(),
+    performer: z.array(referenceTo("Practitioner", "PractitionerRole", "Organization", "CareTeam")).optional(),
+    resultsInterpreter: z.array(referenceTo("Practitioner", "PractitionerRole", "Organization", "CareTeam")).optional(),
+    specimen: z.array(referenceTo("Specimen")).optional(),
+    result: z.array(referenceTo("Observation")).optional(),
+    imagingStudy: z.array(referenceTo("ImagingStudy")).optional(),
+    media: z.array(z.object({ comment: fhirString.optional(), link: referenceTo("Media") }).passthrough()).optional(),
+    conclusion: fhirString.optional(),
+    conclusionCode: z.array(codeableConcept).optional(),
+    presentedForm: z.array(attachment).optional(),
+}).superRefine((d, ctx) => singleChoice(ctx, d, "effective"));
+
+export const documentReferenceSchema: z.ZodType<DocumentReference, z.ZodTypeDef, unknown> = resource("DocumentReference", {
+    masterIdentifier: identifier.optional(),
+    identifier: z.array(identifier).optional(),
+    status: z.enum(["current", "superseded", "entered-in-error"]),
+    docStatus: z.enum(["preliminary", "final", "amended", "entered-in-error"]).optional(),
+    type: codeableConcept.optional(),
+    category: z.array(codeableConcept).optional(),
+    subject: referenceTo("Patient", "Practitioner", "Group", "Device").optional(),
+    date: fhirInstant.optional(),
+    author: z.array(referenceTo(...PRACTITIONER_TYPES, "Device")).optional(),
+    authenticator: referenceTo("Practitioner", "PractitionerRole", "Organization").optional(),
+    custodian: referenceTo("Organization").optional(),
+    relatesTo: z.array(z.object({
+        code: z.enum(["replaces", "transforms", "signs", "appends"]),
+        target: referenceTo("DocumentReference"),
+    }).passthrough()).optional(),
+    description: fhirString.optional(),
+    securityLabel: z.array(codeableConcept).optional(),
+    content: z.array(z.object({
+        attachment,
+        format: coding.optional(),
+    }).passthrough()).min(1, "At least one content is required"),
+    context: z.object({
+        encounter: z.array(referenceTo("Encounter", "EpisodeOfCare")).optional(),
+        event: z.array(codeableConcept).optional(),
+        period: period.optional(),
+        facilityType: codeableConcept.optional(),
+        practiceSetting: codeableConcept.optional(),
+        sourcePatientInfo: referenceTo("Patient").optional(),
+        related: z.array(reference).optional(),
+    }).passthrough().optional(),
+});
+
+const ENCOUNTER_STATUS = ["planned", "arrived", "triaged", "in-progress", "onleave", "finished", "cancelled", "entered-in-error", "unknown"] as const;
+
+export const encounterSchema: z.ZodType<Encounter, z.ZodTypeDef, unknown> = resource("Encounter", {
+    identifier: z.array(identifier).optional(),
+    status: z.enum(ENCOUNTER_STATUS),
+    statusHistory: z.array(z.object({ status: z.enum(ENCOUNTER_STATUS), period }).passthrough()).optional(),
+    class: coding,
+    classHistory: z.array(z.object({ class: coding, period }).passthrough()).optional(),
+    type: z.array(codeableConcept).optional(),
+    serviceType: codeableConcept.optional(),
+    priority: codeableConcept.optional(),
+    subject: referenceTo("Patient", "Group").optional(),
+    episodeOfCare: z.array(referenceTo("EpisodeOfCare")).optional(),
+    basedOn: z.array(referenceTo("ServiceRequest")).optional(),
+    participant: z.array(z.object({
+        type: z.array(codeableConcept).optional(),
+        period: period.optional(),
+        individual: referenceTo("Practitioner", "PractitionerRole", "RelatedPerson").optional(),
+    }).passthrough()).optional(),
+    appointment: z.array(referenceTo("Appointment")).optional(),
+    period: period.optional(),
+    length: quantity.optional(),
+    reasonCode: z.array(codeableConcept).optional(),
+    reasonReference: z.array(referenceTo("Condition", "Procedure", "Observation", "ImmunizationRecommendation")).optional(),
+    diagnosis: z.array(z.object({
+        condition: referenceTo("Condition", "Procedure"),
+        use: codeableConcept.optional(),
+        rank: positiveInt.optional(),
+    }).passthrough()).optional(),
+    account: z.array(referenceTo("Account")).optional(),
+    hospitalization: z.object({
+        origin: referenceTo("Location", "Organization").optional(),
+        destination: referenceTo("Location", "Organization").optional(),
+    }).passthrough().optional(),
+    location: z.array(z.object({
+        location: referenceTo("Location"),
+        status: z.enum(["planned", "active", "reserved", "completed"]).optional(),
+        physicalType: codeableConcept.optional(),
+        period: period.optional(),
+    }).passthrough()).optional(),
+    serviceProvider: referenceTo("Organization").optional(),
+    partOf: referenceTo("Encounter").optional(),
+}).superRefine((e, ctx) => {
+    // class is extensibly bound to v3 ActEncounterCode
+    const ENCOUNTER_CLASSES = ["AMB", "EMER", "FLD", "HH", "IMP", "ACUTE", "NONAC", "OBSENC", "PRENC", "SS", "VR"];
+    if (!e.class.code) {
+        invariant(ctx, ["class", "code"], "Encounter.class needs a code", "required");
+    } else if (e.class.system === CODE_SYSTEMS.actCode && !ENCOUNTER_CLASSES.includes(e.class.code)) {
+        invariant(ctx, ["class", "code"], `"${e.class.code}" is not an encounter class (${ENCOUNTER_CLASSES.join(" | ")})`, "code-invalid");
+    }
+});
+
+export const FHIR_RESOURCE_SCHEMAS = {
+    Patient: patientSchema,
+    Observation: observationSchema,
+    Condition: conditionSchema,
+    MedicationRequest: medicationRequestSchema,
+    DiagnosticReport: diagnosticReportSchema,
+    DocumentReference: documentReferenceSchema,
+    Encounter: encounterSchema,
+};
+
+export type ValidatedResourceType = keyof typeof FHIR_RESOURCE_SCHEMAS;
+
+// ============================================================
+// OPERATION OUTCOME
+// ============================================================
+
+/**
+ * FHIRPath location of a zod issue, e.g. Observation.code.coding[0].system
+ */
+function toFhirPath(resourceType: string, path: (string | number)[]): string {
+    return path.reduce<string>((acc, part) => (typeof part === "number" ? `${acc}[${part}]` : `${acc}.${part}`), resourceType);
+}
+
+function toOutcomeIssue(resourceType: string, issue: z.ZodIssue): OutcomeIssue {
+    let code = "invalid";
+    let diagnostics = issue.message;
+
+    switch (issue.code) {
+        case z.ZodIssueCode.invalid_type:
+            if (issue.received === "undefined") {
+                code = "required";
+                diagnostics = "Missing required element";
+            } else {
+                code = "structure";
+                diagnostics = `Expected ${issue.expected === "object" ? "an object" : issue.expected}, got ${issue.received}`;
+            }
+            break;
+        case z.ZodIssueCode.invalid_enum_value:
+            code = "code-invalid";
+            diagnostics = `"${issue.received}" is not one of ${issue.options.join(" | ")}`;
+            break;
+        case z.ZodIssueCode.invalid_literal:
+            code = "value";
+            break;
+        case z.ZodIssueCode.invalid_string:
+            code = "value";
+            break;
+        case z.ZodIssueCode.too_small:
+            code = issue.type === "array" ? "required" : "value";
+            break;
+        case z.ZodIssueCode.too_big:
+            code = issue.type === "array" ? "structure" : "value";
+            break;
+        case z.ZodIssueCode.custom:
+            code = issue.params?.fhirCode || "invariant";
+            break;
+    }
+
+    return {
+        severity: "error",
+        code,
+        diagnostics,
+        expression: [toFhirPath(resourceType, issue.path)],
+    };
+}
+
+/**
+ * The body is a JSON object of the expected resource type
+ */
+function checkEnvelope(resourceType: ValidatedResourceType, body: unknown): OutcomeIssue | null {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        return { severity: "error", code: "structure", diagnostics: "The body must be a FHIR resource (a JSON object)" };
+    }
+    if ((body as any).resourceType !== resourceType) {
+        return { severity: "error", code: "invalid", diagnostics: `Resource type must be ${resourceType}`, expression: ["resourceType"] };
+    }
+    return null;
+}
+
+/**
+ * Validate a resource body; an empty issue list means it may be written
+ */
+export function validateFhirResource(resourceType: ValidatedResourceType, body: unknown): OutcomeIssue[] {
+    const envelope = checkEnvelope(resourceType, body);
+    if (envelope) return [envelope];
+
+    const result = FHIR_RESOURCE_SCHEMAS[resourceType].safeParse(body);
+    return result.success ? [] : result.error.issues.map((issue) => toOutcomeIssue(resourceType, issue));
+}
+
+/**
+ * Validation middleware factory
+ * Rejects bodies that are not a valid resource of the given type with an
+ * OperationOutcome: 400 when the body is not that resource type at all,
+ * 422 when the resource breaks a rule
+ */
+export const validateFhirBody = (resourceType: ValidatedResourceType) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const envelope = checkEnvelope(resourceType, req.body);
+        if (envelope) {
+            return res.status(400).json({ resourceType: "OperationOutcome", issue: [envelope] } satisfies OperationOutcome);
+        }
+
+        const issue = validateFhirResource(resourceType, req.body);
+        if (issue.length > 0) {
+            return res.status(422).json({ resourceType: "OperationOutcome", issue } satisfies OperationOutcome);
+        }
+        next();
+    };
+};
@@ -0,0 +1,102 @@
+import type { NextFunction, Request, Response } from "express";
+import { verifyToken } from "./verifyToken";
+import { appendAuditEntry } from "../lib/auditLog";
+import { resolveAccessToken, scopesAllow, type SmartAccess, type SmartInteraction } from "../lib/smart";
+
+declare global {
+    namespace Express {
+        interface Request {
+            smart?: SmartAccess;
+        }
+    }
+}
+
+const forbidden = (diagnostics: string) => ({
+    resourceType: "OperationOutcome",
+    issue: [{ severity: "error", code: "forbidden", diagnostics }],
+});
+
+/**
+ * Authenticate /fhir requests: Niraiva's own apps send a Supabase session
+ * (a JWT), third-party SMART apps an opaque access token
+ */
+export const verifyFhirToken = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const token = (req.headers.authorization || "").replace("Bearer ", "");
+
+    if (!token || token.split(".").length === 3) {
+        return verifyToken(req, res, next);
+    }
+
+    try {
+        const access = await resolveAccessToken(token);
+        if (!access) {
+            res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+            return res.status(401).json({ error: "Invalid or expired token." });
+        }
+
+        req.smart = access;
+        return next();
+    } catch (error) {
+        console.error("❌ [SMART] Token check failed:", error);
+        return res.status(401).json({ error: "Authentication failed." });
+    }
+};
+
+/**
+ * Require a SMART scope for the interaction. Supabase sessions pass
+ * through; SMART requests are checked and recorded in the audit trail.
+ * @param resourceType - a type, or read from the request (e.g. a path param)
+ */
+export const requireSmartScope = (
+    resourceType: string | ((req: Request) => string),
+    interaction: SmartInteraction
+) => (req: Request, res: Response, next: NextFunction) => {
+    const smart = req.smart;
+    if (!smart) return next();
+
+    const type = typeof resourceType === "function" ? resourceType(req) : resourceType;
+    const allowed = scopesAllow(smart.scopes, type, interaction);
+
+    appendAuditEntry({
+        source: "consent",
+        action: interaction,
+        actorId: smart.userId,
+        patientId: smart.patientId,
+        resourceType: type,
+        resourceId: req.params.id,
+        purposeOfUse: smart.launchType === "ehr" ? "TREATMENT" : undefined,
+        outcome: allowed ? "success" : "denied",
+        outcomeReason: allowed ? undefined : "Outside the app's scopes",
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+        metadata: { path: req.originalUrl, clientId: smart.clientId, launchType: smart.launchType },
+    }).catch((error) => console.error("Failed to log SMART access:", error));
+
+    if (!allowed) {
+        res.setHeader("WWW-Authenticate", `Bearer error="insufficient_scope", scope="patient/${type}.${interaction === "read" || interaction === "search" ? "read" : "write"}"`);
+        return res.status(403).json(forbidden(`The app's scopes do not allow ${interaction} on ${type}`));
+    }
+
+    return next();
+};
+
+/**
+ * Endpoints only Niraiva's own apps may call
+ */
+export const rejectSmartToken = (req: Request, res: Response, next: NextFunction) => {
+    if (req.smart) {
+        return res.status(403).json(forbidden("This endpoint is not available to SMART apps"));
+    }
+    return next();
+};
+
+/**
+ * Of the given resource types, those the SMART app may read
+ * (all of them for Supabase sessions)
+ */
+export const smartReadableTypes = (req: Request, types: string[]): string[] =>
+    req.smart ? types.filter((type) => scopesAllow(req.smart!.scopes, type, "read")) : types;
@@ -1,152 +1,111 @@
-
 import { MultiLLMService } from '../../services/MultiLLMService';
 import { supabase } from '../../lib/supabase';
-
-// Enum for valid follow-up types
-export type FollowUpType =
-    | "parameter_explanation"
-    | "normal_range_meaning"
-    | "severity_clarification"
-    | "trend_comparison"
-    | "next_steps_general"
-    | "data_source_question";
-
-// Helper to classify user question deterministically
-function classifyQuestion(question: string): FollowUpType | "blocked" {
-    const q = question.toLowerCase();
-
-    // Block diagnostic and medical advice questions
-    if (q.includes("do i have") || q.includes("am i sick") || q.includes("diagnose")) return "blocked";
-    if (q.includes("should i take") || q.includes("is this treatment good")) return "blocked";
-
-    // Allowable categories
-    if (q.includes("what does") || q.includes("mean") || q.includes("explain")) return "parameter_explanation";
-    if (q.includes("normal") || q.includes("range") || q.includes("limit")) return "normal_range_meaning";
-    if (q.includes("high") || q.includes("low") || q.includes("severe") || q.includes("danger") || q.includes("critical")) return "severity_clarification";
-    if (q.includes("previous") || q.includes("before") || q.includes("compare") || q.includes("trend")) return "trend_comparison";
-    if (q.includes("what should i do") || q.includes("next step")) return "next_steps_general";
-    if (q.includes("source") || q.includes("where") || q.includes("file") || q.includes("report")) return "data_source_question";
-
-    return "parameter_explanation";
+import { evidenceIndexService, EvidenceChunk, PatientEvidenceIndex, ScoredEvidence } from './EvidenceIndex';
+
+// Evidence items shown to the model per question
+const MAX_EVIDENCE = 10;
+
+const DISCLAIMER = "This information is educational only. Please discuss any concerns with your doctor.";
+const NO_EVIDENCE_RESPONSE = "I couldn't find anything about that in your reports. I can only answer questions using the results and events recorded in your health records.";
+
+/**
+ * A piece of evidence the answer cited, so the UI can link back to the report
+ */
+export interface ChatCitation {
+    label: string; // "S1", as written in the answer
+    reportId: string | null;
+    sourceType: EvidenceChunk['sourceType'];
+    sourceId: string;
+    date: string | null;
+    title: string;
+    value: string | null;
+    unit: string | null;
+    status: string | null;
 }
 
-// Helper to detect user intent for response routing
-function detectUserIntent(question: string): "EXPLANATION" | "NORMALITY_CHECK" | "NEXT_STEPS" | "GENERAL" {
-    const q = question.toLowerCase();
-
-    if (q.includes("normal") || q.includes("range") || q.includes("supposed to be") || q.includes("should be")) {
-        return "NORMALITY_CHECK";
-    }
-    if (q.includes("should i") || q.includes("do next") || q.includes("next step") || q.includes("what about") || q.includes("follow")) {
-        return "NEXT_STEPS";
-    }
-    if (q.includes("what does") || q.includes("mean") || q.includes("explain") || q.includes("why") || q.includes("how")) {
-        return "EXPLANATION";
-    }
-    return "GENERAL";
+interface GroundedPrompt {
+    systemPrompt: string;
+    evidence: ScoredEvidence[];
+    provider: string;
 }
 
-// Helper to extract only relevant data from full report
-function extractRelevantContext(reportData: any, userQuestion: string): any {
-    const q = userQuestion.toLowerCase();
-
-    // Find key findings (abnormal values)
-    const keyFindings = (reportData.parameters || reportData.tests || [])
-        .filter((p: any) => p.status === 'high' || p.status === 'low' || p.status === 'abnormal' || p.flag === 'abnormal')
-        .slice(0, 20)
-        .map((p: any) => ({
-            name: p.name || p.parameter_name,
-            value: p.value,
-            unit: p.unit,
-            status: p.status || p.flag
-        }));
-
-    // Find normal findings
-    const normalFindings = (reportData.parameters || reportData.tests || [])
-        .filter((p: any) => p.status === 'normal' || p.flag === 'normal' || !p.status)
-        .slice(0, 20)
-        .map((p: any) => ({
-            name: p.name || p.parameter_name,
-            value: p.value,
-            unit: p.unit
-        }));
-
-    return {
-        age: reportData.profile?.age,
-        gender: reportData.profile?.gender,
-        keyFindings,
-        normalFindings,
-        conditions: reportData.conditions || [],
-        medications: reportData.medications || []
-    };
+// Label each evidence item so the model can cite it as [S1], [S2], ...
+function formatEvidence(evidence: ScoredEvidence[]): string {
+    return evidence
+        .map((e, i) => `[S${i + 1}] ${e.date || 'Undated'} | ${e.sourceType}${e.reportId ? ` | report ${e.reportId}` : ''} | ${e.text}`)
+        .join('\n');
 }
 
-// NEW: Build structured patient context (Step 1)
-function buildPatientContext(reportData: any, patient_profile?: any): any {
-    const abnormalParams = (reportData.parameters || reportData.tests || [])
-        .filter((p: any) => p.status === 'high' || p.status === 'low' || p.status === 'abnormal' || p.flag === 'abnormal')
-        .map((p: any) => ({
-            name: p.name || p.parameter_name,
-            value: p.value,
-            unit: p.unit,
-            status: p.status || p.flag,
-            normal_range: p.normal_range || p.reference_range
-        }));
-
-    const normalParams = (reportData.parameters || reportData.tests || [])
-        .filter((p: any) => p.status === 'normal' || p.flag === 'normal' || !p.status)
-        .map((p: any) => ({
-            name: p.name || p.parameter_name,
-            value: p.value,
-            unit: p.unit
-        }));
+// Citations in order of first mention; labels that match no evidence are dropped
+function extractCitations(text: string, evidence: ScoredEvidence[]): ChatCitation[] {
+    const seen = new Set<number>();
+    const citations: ChatCitation[] = [];
+
+    for (const match of text.matchAll(/\[S(\d+)\]/g)) {
+        const index = parseInt(match[1]) - 1;
+        if (seen.has(index) || !evidence[index]) continue;
+        seen.add(index);
+
+        const e = evidence[index];
+        citations.push({
+            label: `S${index + 1}`,
+            reportId: e.reportId,
+            sourceType: e.sourceType,
+            sourceId: e.sourceId,
+            date: e.date,
+            title: e.title,
+            value: e.value,
+            unit: e.unit,
+            status: e.status
+        });
+    }
 
-    return {
-        patient: {
-            age: reportData.profile?.age || patient_profile?.age,
-            gender: reportData.profile?.gender || patient_profile?.gender,
-            known_conditions: (reportData.conditions || []).map((c: any) =>
-                typeof c === 'string' ? c : c.name || c.condition_name
-            )
-        },
-        abnormal_parameters: abnormalParams,
-        normal_parameters: normalParams,
-        all_parameters: reportData.parameters || reportData.tests || [],
-        medications: reportData.medications || [],
-        report_date: reportData.metadata?.documentDate || reportData.metadata?.report_date || new Date().toISOString().split('T')[0]
-    };
+    return citations;
 }
 
-// NEW: Lightweight intent detection (Step 2)
-function enhancedDetectIntent(question: string): {
-    type: "cause_explanation" | "normality_check" | "next_steps" | "parameter_explanation" | "trend" | "safety" | "general";
-    targetParameter?: string;
-} {
-    const q = question.toLowerCase();
-
-    // Extract parameter name if mentioned
-    const parameterMatch = q.match(/\b(creatinine|bp|blood pressure|glucose|sugar|hemoglobin|hba1c|kidney|liver|heart|cholesterol|triglyceride|potassium|sodium|albumin|platelet|wbc|rbc)\b/i);
-    const targetParameter = parameterMatch ? parameterMatch[1] : undefined;
+// Context sent by the frontend for the report the chat was opened from
+function providedChunks(reportId: string | null, parameters: any[] = [], medications: any[] = [], conditions: any[] = []): EvidenceChunk[] {
+    const chunks: EvidenceChunk[] = parameters
+        .filter(p => p && (p.name || p.parameter_name))
+        .map((p, i) => {
+            const name = p.name || p.parameter_name;
+            return {
+                id: `provided:${i}`,
+                sourceType: 'parameter' as const,
+                sourceId: `${reportId || 'current'}:${i}`,
+                reportId,
+                date: null,
+                title: name,
+                text: [`${name} ${p.value ?? ''} ${p.unit || ''}`.trim(), p.status ? `status ${p.status}` : null].filter(Boolean).join(', '),
+                loincCode: null,
+                value: p.value != null ? String(p.value) : null,
+                unit: p.unit || null,
+                status: p.status || null
+            };
+        });
 
-    if (q.includes("why") || q.includes("cause") || q.includes("reason") || q.includes("happen")) {
-        return { type: "cause_explanation", targetParameter };
-    }
-    if (q.includes("normal") || q.includes("range") || q.includes("should be") || q.includes("ok")) {
-        return { type: "normality_check", targetParameter };
-    }
-    if (q.includes("next") || q.includes("should i") || q.includes("do") || q.includes("care")) {
-        return { type: "next_steps", targetParameter };
-    }
-    if (q.includes("dangerous") || q.includes("urgent") || q.includes("severe") || q.includes("emergency")) {
-        return { type: "safety", targetParameter };
-    }
-    if (q.includes("trend") || q.includes("before") || q.includes("compare") || q.includes("change")) {
-        return { type: "trend", targetParameter };
-    }
-    if (q.includes("what is") || q.includes("mean") || q.includes("explain")) {
-        return { type: "parameter_explanation", targetParameter };
+    const medicationNames = medications.map((m: any) => typeof m === 'string' ? m : [m?.name, m?.dosage].filter(Boolean).join(' ')).filter(Boolean);
+    const conditionNames = conditions.map((c: any) => typeof c === 'string' ? c : c?.name || c?.condition_name).filter(Boolean);
+    if (medicationNames.length || conditionNames.length) {
+        chunks.push({
+            id: 'provided:summary',
+            sourceType: 'report',
+            sourceId: reportId || 'current',
+            reportId,
+            date: null,
+            title: 'Current report',
+            text: [
+                conditionNames.length ? `conditions: ${conditionNames.join(', ')}` : null,
+                medicationNames.length ? `medications: ${medicationNames.join(', ')}` : null
+            ].filter(Boolean).join('. '),
+            loincCode: null,
+            value: null,
+            unit: null,
+            status: null
+        });
     }
-    return { type: "general", targetParameter };
+
+    return chunks;
 }
 
 // NEW: Sanitize LLM response to remove markdown (Step 4)
@@ -163,12 +122,7 @@ function sanitizeResponse(text: string): string {
 }
 
 // NEW: Generate contextual follow-up questions (Step 6)
-function generateFollowUpQuestions(
-    parameter?: string,
-    patientAge?: number,
-    patientConditions?: string[],
-    intent?: string
-): string[] {
+function generateFollowUpQuestions(parameter?: string): string[] {
     const questions: string[] = [];
 
     if (parameter && parameter.toLowerCase().includes("creatinine")) {
@@ -237,189 +191,84 @@ export class ChatService {
         }
     }
 
-    private async buildMedicalContext(timelineEventId: string, patientId: string) {
-        console.log(`🔍 [ChatContext] Building context for Event: ${timelineEventId}, Patient: ${patientId}`);
-
-        // 1. Fetch timeline event with metadata (where structured data often lives)
-        const { data: event, error: eventErr } = await supabase
+    /**
+     * Report the chat was opened from; its evidence is ranked first
+     */
+    private async getFocusReportId(timelineEventId: string): Promise<string | null> {
+        const { data: event, error } = await supabase
             .from('timeline_events')
-            .select('id, source_report_id, event_type, title, metadata')
+            .select('source_report_id')
             .eq('id', timelineEventId)
-            .single();
-
-        if (eventErr || !event) {
-            console.error(`[Error] [ChatContext] Timeline event not found:`, eventErr?.message);
-            throw new Error(`Invalid timeline event: ${eventErr?.message || 'Not found'}`);
-        }
+            .maybeSingle();
 
-        console.log(`[Success] [ChatContext] Event found: "${event.title}", Source Report: ${event.source_report_id}`);
-
-        // 2. Try to get context from metadata first (faster, more reliable if Link is broken)
-        let reportData = event.metadata?.report_json?.data || event.metadata?.report_json;
-
-        // 3. If not in metadata, fetch from health_reports table
-        if (!reportData && event.source_report_id) {
-            console.log(`📡 [ChatContext] Context not in metadata, fetching from health_reports...`);
-            const { data: report, error: reportErr } = await supabase
-                .from('health_reports')
-                .select('report_json, raw_text, uploaded_at')
-                .eq('id', event.source_report_id)
-                .single();
-
-            if (reportErr || !report) {
-                console.error(`❌ [ChatContext] Health report not found in DB:`, reportErr?.message);
-            } else {
-                reportData = report.report_json?.data || report.report_json || {};
-                console.log(`✅ [ChatContext] Report loaded from DB.`);
-            }
+        if (error) {
+            console.warn(`⚠️ [ChatContext] Could not load timeline event ${timelineEventId}: ${error.message}`);
         }
+        return event?.source_report_id || null;
+    }
 
-        if (!reportData) {
-            console.warn(`⚠️ [ChatContext] No structured data found in metadata or DB`);
-            return { event, context: null, history: [] };
+    /**
+     * Retrieve evidence for the question from the patient's indexed records and
+     * build a prompt that only allows claims backed by a cited [S#] item
+     */
+    private async prepareGroundedPrompt(
+        patientId: string,
+        timelineEventId: string,
+        userQuestion: string,
+        provided: { parameters?: any[]; medications?: any[]; conditions?: any[] } = {}
+    ): Promise<GroundedPrompt> {
+        const focusReportId = await this.getFocusReportId(timelineEventId);
+        let index: PatientEvidenceIndex = await evidenceIndexService.getIndex(patientId);
+
+        // The frontend's copy of the current report stands in until its rows are indexed
+        const hasFocusChunks = !!focusReportId && index.chunks.some(c => c.reportId === focusReportId);
+        if (!hasFocusChunks) {
+            const extra = providedChunks(focusReportId, provided.parameters, provided.medications, provided.conditions);
+            if (extra.length > 0) index = new PatientEvidenceIndex([...index.chunks, ...extra]);
         }
 
-        console.log(`[Success] [ChatContext] Structured data bound. Parameters: ${reportData.parameters?.length || reportData.tests?.length || 0}`);
-
-        // Point 9 from user request: Confirm binding
-        console.log("Chat context:", {
-            timeline_event_id: timelineEventId,
-            report_id: event.source_report_id,
-            parsedData: reportData.parameters?.length || reportData.tests?.length
-        });
-
-        const context = {
-            profile: reportData.profile ?? {},
-            conditions: reportData.conditions ?? [],
-            parameters: reportData.parameters ?? reportData.tests ?? [],
-            medications: reportData.medications ?? []
-        };
+        const evidence = index.search(userQuestion, { limit: MAX_EVIDENCE, focusReportId });
 
-        // 4. Fetch historical reports for trend analysis
-        const { data: history, error: historyErr } = await supabase
-            .from('health_reports')
-            .select('report_json, uploaded_at')
-            .eq('user_id', patientId)
-            .neq('id', event.source_report_id)
-            .order('uploaded_at', { ascending: false })
-            .limit(5);
-
-        if (historyErr) {
-            console.warn(`[Warn] [ChatService] Could not fetch report history:`, historyErr.message);
+        // Questions like "what does this report mean?" name nothing to search for
+        if (evidence.length < 3 && focusReportId) {
+            const included = new Set(evidence.map(e => e.id));
+            evidence.push(...index.forReport(focusReportId, MAX_EVIDENCE - evidence.length).filter(e => !included.has(e.id)));
         }
 
-        return { event, context, history: history || [] };
-    }
+        console.log(`📚 [ChatContext] Retrieved ${evidence.length} evidence item(s) for patient ${patientId}${focusReportId ? `, focus report ${focusReportId}` : ''}`);
 
-    private detectParameterIntent(message: string, parameters: any[]) {
-        const lower = message.toLowerCase();
-        return parameters.find(p => {
-            const name = (p.name || p.parameter_name || "").toLowerCase();
-            return name && (lower.includes(name) || lower.includes(name.split(' ')[0]));
+        // Values of one test from several dates make this a trend question
+        const datesPerTest = new Map<string, Set<string>>();
+        evidence.forEach(e => {
+            if (e.sourceType !== 'parameter' || !e.date) return;
+            const key = e.loincCode || e.title.toLowerCase();
+            datesPerTest.set(key, (datesPerTest.get(key) || new Set()).add(e.date));
         });
-    }
-
-    private getTrendInfo(matchedParam: any, history: any[]) {
-        if (!matchedParam || history.length === 0) return null;
+        const isTrend = Array.from(datesPerTest.values()).some(dates => dates.size > 1);
 
-        const paramName = (matchedParam.name || matchedParam.parameter_name).toLowerCase();
-        const values = history.map(h => {
-            const data = h.report_json?.data || h.report_json || {};
-            const params = data.parameters || data.tests || [];
-            const p = params.find((x: any) => (x.name || x.parameter_name || "").toLowerCase() === paramName);
-            return p ? { value: p.value, date: h.uploaded_at } : null;
-        }).filter(Boolean);
+        const systemPrompt = `You are Niraiva, a calm and friendly medical assistant.
 
-        if (values.length === 0) return null;
-
-        // Add current value
-        values.unshift({ value: matchedParam.value, date: 'Current' });
+    RULES (MUST FOLLOW EVERY TIME):
+    1. Answer ONLY from the EVIDENCE below. It comes from the patient's own reports, lab values and clinical events.
+    2. After every statement that uses the evidence, cite it with its label, e.g. "Your haemoglobin was 10.2 g/dL [S2]".
+    3. If the evidence does not answer the question, say: "I don't have enough information about that in your reports."
+    4. NEVER state a value is normal if its status is high, low, warning, critical or abnormal.
+    5. When values from several dates are given, compare them and mention the dates.
+    6. Do NOT diagnose, and do NOT recommend starting, stopping or changing any treatment. For those questions, explain what the reports show and suggest discussing it with their doctor.
+    7. Do NOT use markdown, bullet points, headings, or special symbols other than the [S#] citations.
+    8. Write ONLY plain text in short paragraphs - keep tone warm, supportive, and non-alarming.
+    9. End with ONE focused follow-up question.
+
+    EVIDENCE:
+    ${formatEvidence(evidence)}
+    `;
 
-        return values;
+        return { systemPrompt, evidence, provider: isTrend ? "Qwen" : "Mistral" };
     }
 
-    /**
-     * FIX 1: Build comprehensive patient medical context
-     * Fetches all recent health events, diagnoses, medications
-     * Returns formatted context string for LLM injection
-     */
-    private async buildPatientContext(patientId: string): Promise<string> {
-        try {
-            console.log(`📋 [PatientContext] Building context for patient: ${patientId}`);
-
-            // Fetch last 10 health timeline events
-            const { data: events, error: eventsErr } = await supabase
-                .from('timeline_events')
-                .select(`
-                    id,
-                    event_type,
-                    title,
-                    description,
-                    clinical_event_date,
-                    upload_date,
-                    metadata
-                `)
-                .eq('patient_id', patientId)
-                .order('clinical_event_date', { ascending: false, nullsFirst: false })
-                .limit(10);
-
-            if (eventsErr) {
-                console.warn(`⚠️ [PatientContext] Could not fetch timeline events:`, eventsErr.message);
-            }
-
-            // Build formatted summary
-            let contextStr = `PATIENT MEDICAL HISTORY:
-=====================================\n`;
-
-            if (events && events.length > 0) {
-                contextStr += `Recent Events (last 10):\n`;
-                events.forEach((e: any) => {
-                    const dateStr = e.clinical_event_date || e.upload_date?.split('T')[0] || 'Unknown';
-                    const summary = e.metadata?.report_json?.summary || e.description || e.title;
-                    contextStr += `- ${dateStr} [${e.event_type}]: ${e.title}\n`;
-                    if (summary) contextStr += `  Summary: ${summary.substring(0, 100)}\n`;
-                });
-            } else {
-                contextStr += `No timeline events found.\n`;
-            }
-
-            // Fetch chronic conditions
-            const { data: conditions, error: condErr } = await supabase
-                .from('chronic_conditions')
-                .select('name, status, diagnosed_date')
-                .eq('patient_id', patientId)
-                .order('diagnosed_date', { ascending: false });
-
-            if (!condErr && conditions && conditions.length > 0) {
-                contextStr += `\nKnown Conditions:\n`;
-                conditions.forEach((c: any) => {
-                    contextStr += `- ${c.name} (${c.status || 'active'})\n`;
-                });
-            }
-
-            // Fetch active medications
-            const { data: medications, error: medErr } = await supabase
-                .from('medications')
-                .select('name, dosage, frequency')
-                .eq('patient_id', patientId)
-                .eq('status', 'active');
-
-            if (!medErr && medications && medications.length > 0) {
-                contextStr += `\nCurrent Medications:\n`;
-                medications.forEach((m: any) => {
-                    contextStr += `- ${m.name} ${m.dosage ? `(${m.dosage})` : ''} ${m.frequency ? `- ${m.frequency}` : ''}\n`;
-                });
-            }
-
-            contextStr += `=====================================\n`;
-            console.log(`✅ [PatientContext] Context built: ${contextStr.length} chars`);
-            return contextStr;
-        } catch (err: any) {
-            console.error(`❌ [PatientContext] Error building context:`, err.message);
-            return `PATIENT MEDICAL HISTORY:
-(Unable to fetch - will use event-specific data only)
-`;
-        }
+    private async saveMessage(sessionId: string, message: { role: 'user' | 'assistant'; content: string; llm_used?: string; metadata?: any }) {
+        const { error } = await supabase.from('chat_messages').insert({ session_id: sessionId, ...message });
+        if (error) throw error;
     }
 
     async processUserMessage(
@@ -437,13 +286,7 @@ export class ChatService {
             }
 
             if (currentSessionId) {
-                const followUpType = classifyQuestion(userQuestion);
-                await supabase.from('chat_messages').insert({
-                    session_id: currentSessionId,
-                    role: 'user',
-                    content: userQuestion,
-                    followup_type: followUpType
-                });
+                await this.saveMessage(currentSessionId, { role: 'user', content: userQuestion });
             } else {
                 persistenceEnabled = false;
             }
@@ -452,92 +295,28 @@ export class ChatService {
             persistenceEnabled = false;
         }
 
-        const followUpType = classifyQuestion(userQuestion);
-
-        if (followUpType === "blocked") {
-            const refused = "I cannot answer questions about diagnosis or medical treatment. I can only explain the medical terms and values found in your report.";
-            if (persistenceEnabled && currentSessionId) {
-                await supabase.from('chat_messages').insert({
-                    session_id: currentSessionId,
-                    role: 'assistant',
-                    content: refused,
-                    llm_used: 'system_block'
-                });
-            }
-            return { response: refused, sessionId: currentSessionId };
-        }
-
-        const { event, context, history } = await this.buildMedicalContext(timelineEventId, patientId);
-
-        if (!context) {
-            const noDataContext = "I could not find structured data for this report yet. I can only answer general questions about medical terms.";
-            return { response: noDataContext, sessionId: currentSessionId };
-        }
-
-        // Detect user intent and route response style
-        const userIntent = detectUserIntent(userQuestion);
-
-        // Extract only relevant context
-        const relevantContext = extractRelevantContext(context, userQuestion);
-
-        const matchedParam = this.detectParameterIntent(userQuestion, context.parameters);
-        const trendHistory = matchedParam ? this.getTrendInfo(matchedParam, history) : null;
-
-        // Build intent-specific system prompt
-        let systemPrompt = `You are a medical explanation assistant for patients.
-
-    CRITICAL FORMATTING RULES:
-    - Do NOT use markdown formatting like headings, lists, or code blocks.
-    - Write in plain text only.
-    - Use short paragraphs (max 2 sentences each) and simple sentences.
-    - Use line breaks only where needed.
-
-    CONTENT RULES:
-    - Answer ONLY what the user asked and focus on relevance to their question.
-    - Reference the most important abnormal parameter by name when present; include numeric values only if necessary to explain a concept or when the user explicitly asks for them.
-    - Do NOT repeat the full report unless explicitly requested.
-    - Be calm, supportive, and non-alarming.
-    - Do NOT provide medical diagnosis.
-    - Keep response concise (aim for 3-6 short paragraphs).
-    - End with one gentle follow-up question to keep the conversation helpful.
-
-    Patient Context:
-    Age: ${relevantContext.age || 'Unknown'}, Gender: ${relevantContext.gender || 'Unknown'}
-    Conditions: ${relevantContext.conditions?.join(', ') || 'None listed'}
-    Key Findings: ${relevantContext.keyFindings?.map((f: any) => `${f.name} (${f.value} ${f.unit})`).join(', ') || 'None'}
-    `;
-
-        // Add intent-specific guidance
-        if (userIntent === "NORMALITY_CHECK") {
-            systemPrompt += `\nUser Intent: They are asking if results are normal.
-Action: Clearly separate what is normal and what needs attention. Do not explain conditions again. Do not repeat background information.`;
-        } else if (userIntent === "NEXT_STEPS") {
-            systemPrompt += `\nUser Intent: They are asking what to do next.
-Action: Explain general next steps. Do not give medical advice. Do not repeat test explanations.`;
-        } else if (userIntent === "EXPLANATION") {
-            systemPrompt += `\nUser Intent: They are asking what something means.
-Action: Explain what these results mean in simple terms. Focus only on the most relevant findings. Do not repeat numbers unless necessary.`;
-        }
+        const { systemPrompt, evidence, provider } = await this.prepareGroundedPrompt(patientId, timelineEventId, userQuestion);
 
-        if (trendHistory) {
-            systemPrompt += `\n\nHistorical Trend for ${matchedParam.name || matchedParam.parameter_name}:
-${JSON.stringify(trendHistory, null, 2)}`;
+        if (evidence.length === 0) {
+            return { response: NO_EVIDENCE_RESPONSE, sessionId: currentSessionId, citations: [], suggestedFollowUps: generateFollowUpQuestions(), disclaimer: DISCLAIMER };
         }
 
-        const provider = trendHistory ? "Qwen" : "Mistral";
-        const responseText = await this.llmService.runLLM(provider, {
+        const responseText = sanitizeResponse(await this.llmService.runLLM(provider, {
             systemPrompt,
             userPrompt: userQuestion,
             temperature: 0.3
-        });
+        }));
+
+        const citations = extractCitations(responseText, evidence);
+        const suggestedFollowUps = generateFollowUpQuestions(citations.find(c => c.sourceType === 'parameter')?.title);
 
         if (persistenceEnabled && currentSessionId) {
             try {
-                await supabase.from('chat_messages').insert({
-                    session_id: currentSessionId,
+                await this.saveMessage(currentSessionId, {
                     role: 'assistant',
                     content: responseText,
-                    llm_used: provider
+                    llm_used: provider,
+                    metadata: { citations, suggestedFollowUps, disclaimer: DISCLAIMER }
                 });
             } catch (saveErr: any) {
                 console.warn(`⚠️ [ChatService] Failed to save response:`, saveErr.message);
@@ -547,12 +326,9 @@ ${JSON.stringify(trendHistory, null, 2)}`;
         return {
             response: responseText,
             sessionId: currentSessionId,
-            followUpType,
-            suggestedFollowUps: [
-                "What does this report mean?",
-                "Are these results normal?",
-                "What should I focus on next?"
-            ]
+            citations,
+            suggestedFollowUps,
+            disclaimer: DISCLAIMER
         };
     }
 
@@ -561,7 +337,7 @@ ${JSON.stringify(trendHistory, null, 2)}`;
         timelineEventId: string,
         userQuestion: string,
         sessionId?: string,
-        // CRITICAL FIX: Accept FULL context from frontend
+        // Frontend's copy of the current report, used until its rows are indexed
         providedParameters?: any[],
         providedMedications?: any[],
         providedConditions?: any[],
@@ -576,14 +352,7 @@ ${JSON.stringify(trendHistory, null, 2)}`;
             }
 
             if (currentSessionId) {
-                const followUpType = classifyQuestion(userQuestion);
-                const { error: msgError } = await supabase.from('chat_messages').insert({
-                    session_id: currentSessionId,
-                    role: 'user',
-                    content: userQuestion,
-                    followup_type: followUpType
-                });
-                if (msgError) throw msgError;
+                await this.saveMessage(currentSessionId, { role: 'user', content: userQuestion });
             } else {
                 persistenceEnabled = false;
             }
@@ -592,136 +361,18 @@ ${JSON.stringify(trendHistory, null, 2)}`;
             persistenceEnabled = false;
         }
 
-        const followUpType = classifyQuestion(userQuestion);
-
-        if (followUpType === "blocked") {
-            const refused = "I cannot answer questions about diagnosis or medical treatment. I can only explain the medical terms and values found in your report.";
-            yield { token: refused, sessionId: currentSessionId, done: true };
-            return;
-        }
-
-        // CRITICAL FIX: Use provided context as PRIMARY source of truth
-        let context: any = null;
-        let history: any[] = [];
-        let event: any = null;
-
-        if (providedParameters || providedMedications || providedConditions) {
-            // Frontend sent context - use it directly
-            console.log(`[Success] [ChatStream] Using context from frontend: Params(${providedParameters?.length || 0}), Meds(${providedMedications?.length || 0}), Conds(${providedConditions?.length || 0})`);
-            context = {
-                parameters: providedParameters || [],
-                medications: providedMedications || [],
-                conditions: providedConditions || []
-            };
-        } else {
-            // Fallback only if frontend didn't send parameters
-            console.log(`[Warn] [ChatStream] No parameters from frontend, attempting to fetch...`);
-            const result = await this.buildMedicalContext(timelineEventId, patientId);
-            event = result.event;
-            context = result.context;
-            history = result.history || [];
-        }
+        const { systemPrompt, evidence, provider } = await this.prepareGroundedPrompt(patientId, timelineEventId, userQuestion, {
+            parameters: providedParameters,
+            medications: providedMedications,
+            conditions: providedConditions
+        });
 
-        // GUARDRAIL: If still no parameters, respond safely
-        if (!context || !context.parameters || context.parameters.length === 0) {
-            const failsafeMsg = "I cannot access the detailed report information right now. Please try again in a moment.";
-            console.warn(`[Warn] [ChatStream] No parameters available - using fail-safe response`);
-            yield { token: failsafeMsg, sessionId: currentSessionId, done: true };
+        if (evidence.length === 0) {
+            yield { token: NO_EVIDENCE_RESPONSE, sessionId: currentSessionId, done: true, citations: [], suggestedFollowUps: generateFollowUpQuestions(), disclaimer: DISCLAIMER };
             return;
         }
 
-        // Detect user intent and route response style
-        const userIntent = detectUserIntent(userQuestion);
-        const enhancedIntent = enhancedDetectIntent(userQuestion);
-
-        // Extract only relevant context
-        const relevantContext = extractRelevantContext(context, userQuestion);
-        const patientContext = buildPatientContext(context);
-
-        const matchedParam = this.detectParameterIntent(userQuestion, context.parameters);
-        const trendHistory = matchedParam && history.length > 0 ? this.getTrendInfo(matchedParam, history) : null;
-
-        // CRITICAL: Build parameter status awareness
-        const warningParameters = (context.parameters || []).filter((p: any) =>
-            p.status === 'warning' || p.status === 'critical' || p.flag === 'abnormal'
-        );
-        const hasWarnings = warningParameters.length > 0;
-
-        console.log(`📊 [ChatStream] Parameter analysis: ${context.parameters.length} total | ${warningParameters.length} warnings`);
-
-        // FIX 1: FETCH COMPREHENSIVE PATIENT CONTEXT FROM MEDICAL HISTORY
-        const patientContextSummary = await this.buildPatientContext(patientId);
-        console.log(`[Success] [ChatStream] Patient context ready: ${patientContextSummary.length} chars`);
-
-        // STEP 3: MEDICAL-GRADE SYSTEM PROMPT (with safety enforcement + conversational tone)
-        let systemPrompt = `You are Niraiva, a calm and friendly medical assistant.
-
-    RULES (MUST FOLLOW EVERY TIME):
-    1. ONLY reference the health parameters provided below.
-    2. NEVER state a value is "normal" if status = "warning" or "critical".
-    3. If ANY warning values exist, acknowledge them clearly and explain their significance.
-    4. Do NOT guess, generalize, or give prescriptive medical advice.
-    5. If data is missing, say: "I don't have enough information about that."
-    6. Do NOT use markdown, bullet points, headings, or special symbols.
-    7. When mentioning numeric values, be concise and include numbers only if necessary to explain the meaning or if the user requests them.
-    8. Write ONLY plain text - keep tone warm, supportive, and non-alarming.
-
-    RESPONSE STRUCTURE (MANDATORY - ALWAYS FOLLOW):
-    1. What this means (in simple language)
-    2. Is this normal? (yes/no/maybe + brief explanation referencing the parameter by name)
-    3. What to do next (1-2 gentle, non-prescriptive, actionable suggestions tailored to the parameter type, e.g., monitoring cadence, lifestyle steps, discuss with clinician)
-    4. Ask ONE focused follow-up question to help the user continue the conversation
-
-    Be warm, conversational, and personalize when patient's history is relevant.
-
-    PATIENT PROFILE:
-    Age: ${patientContext.patient.age || 'Unknown'}
-    Gender: ${patientContext.patient.gender || 'Unknown'}
-
-    CURRENT REPORT DATA:
-    MEDICATIONS: ${context.medications?.length > 0
-                ? context.medications.map((m: any) => `${m.name} (${m.dosage || 'dose unknown'})`).join(', ')
-                : 'None listed in this report'}
-    CONDITIONS: ${context.conditions?.length > 0
-                ? context.conditions.map((c: any) => typeof c === 'string' ? c : (c.name || c.condition_name)).join(', ')
-                : 'None listed in this report'}
-
-    ATTENTION: VALUES NEEDING ATTENTION (${warningParameters.length}):
-    ${warningParameters.length > 0 ?
-                warningParameters.map((p: any) => `${p.name || p.parameter_name}: Status is ${p.status} (Value: ${p.value} ${p.unit || ''})`).join('\n')
-                : 'No abnormal values'
-            }
-
-    FULL PARAMETER LIST:
-    ${context.parameters?.map((p: any) => `${p.name || p.parameter_name}: ${p.value} ${p.unit || ''} (${p.status})`).join('\n')}
-
-    ${patientContextSummary}
-    `;
-
-        // IF MULTIPLE WARNINGS AND USER ASKS GENERAL "WHAT DOES THIS MEAN", ASK THEM TO CHOOSE
-        if (warningParameters.length > 1 && enhancedIntent.type === "parameter_explanation" && !enhancedIntent.targetParameter) {
-            systemPrompt += "\nIMPORTANT: The patient has multiple results that need attention. Instead of explaining all of them, ask them which one they'd like to understand first. Be friendly about it.";
-        } else {
-            // Add intent-specific guidance for single parameter or specific intent
-            if (enhancedIntent.type === "normality_check") {
-                systemPrompt += "\nTask: Answer whether the results are normal. Be clear and direct in 1-2 sentences.";
-            } else if (enhancedIntent.type === "next_steps") {
-                systemPrompt += "\nTask: Suggest 1-2 gentle, lifestyle-focused next steps. Do not prescribe.";
-            } else if (enhancedIntent.type === "cause_explanation") {
-                systemPrompt += "\nTask: Explain why this value is abnormal in plain language. Connect to daily life.";
-            } else if (enhancedIntent.type === "safety") {
-                systemPrompt += "\nTask: Reassure if safe, or suggest they talk to their doctor if needed.";
-            } else if (enhancedIntent.type === "parameter_explanation") {
-                systemPrompt += "\nTask: Explain what this value measures and what it means for this patient's health.";
-            }
-        }
-
-        if (trendHistory) {
-            systemPrompt += "\n\nTrend Information for " + (matchedParam.name || matchedParam.parameter_name) + ":\n" + JSON.stringify(trendHistory, null, 2);
-        }
-
-        const provider = trendHistory ? "Qwen" : "Mistral";
-        console.log("[ChatStream] Selecting provider: " + provider + " | Intent: " + enhancedIntent.type);
+        console.log("[ChatStream] Selecting provider: " + provider + " | Evidence: " + evidence.length);
 
         let stream;
         try {
@@ -779,34 +430,20 @@ ${JSON.stringify(trendHistory, null, 2)}`;
 
         console.log(`[Success] [ChatStream] Stream finished. Tokens captured: ${fullContent.length} `);
 
-        // STEP 4: Final sanitization on complete response
+        // Final sanitization on complete response
         const sanitizedContent = sanitizeResponse(fullContent);
-
-        // STEP 6: Generate dynamic follow-up questions based on intent and parameter
-        const suggestedFollowUps = generateFollowUpQuestions(
-            enhancedIntent.targetParameter,
-            patientContext.patient.age,
-            patientContext.patient.known_conditions,
-            enhancedIntent.type
-        );
-
-        // STEP 8: Update response interface with new fields
-        const responseMetadata = {
-            sessionId: currentSessionId,
-            currentTopic: enhancedIntent.targetParameter || enhancedIntent.type,
-            suggestedFollowUps,
-            disclaimer: "This information is educational only. Please discuss any concerns with your doctor."
-        };
+        const citations = extractCitations(sanitizedContent, evidence);
+        const suggestedFollowUps = generateFollowUpQuestions(citations.find(c => c.sourceType === 'parameter')?.title);
+        const currentTopic = citations[0]?.title;
 
         // Final store
         if (sanitizedContent && persistenceEnabled && currentSessionId) {
             try {
-                await supabase.from('chat_messages').insert({
-                    session_id: currentSessionId,
+                await this.saveMessage(currentSessionId, {
                     role: 'assistant',
                     content: sanitizedContent,
                     llm_used: provider,
-                    metadata: responseMetadata
+                    metadata: { citations, currentTopic, suggestedFollowUps, disclaimer: DISCLAIMER }
                 });
             } catch (saveErr: any) {
                 console.warn(`[Warn] [ChatStream] Failed to save assistant response: `, saveErr.message);
@@ -818,9 +455,10 @@ ${JSON.stringify(trendHistory, null, 2)}`;
             token: "", // Empty token to signal end
             sessionId: currentSessionId,
             done: true,
+            citations,
             suggestedFollowUps,
-            currentTopic: enhancedIntent.targetParameter || enhancedIntent.type,
-            disclaimer: "This information is educational only. Please discuss any concerns with your doctor."
+            currentTopic,
+            disclaimer: DISCLAIMER
         };
     }
 }
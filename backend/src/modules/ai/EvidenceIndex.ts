@@ -0,0 +1,315 @@
+import { supabase } from '../../lib/supabase';
+import { labTerminologyService } from '../terminology/LabTerminologyService';
+
+// Rebuilt after this long, or sooner when invalidate() is called after an upload
+const INDEX_TTL_MS = parseInt(process.env.CHAT_INDEX_TTL_MS || '300000'); // 5 minutes
+const MAX_REPORTS = 50;
+const MAX_PARAMETERS = 1000;
+const MAX_EVENTS = 500;
+
+// BM25 tuning
+const K1 = 1.2;
+const B = 0.75;
+// Weight for chunks of the report the chat was opened from
+const FOCUS_REPORT_BOOST = 1.5;
+// Weight for parameters of the lab test named in the question
+const SAME_TEST_BOOST = 2.0;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from', 'has', 'have',
+    'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to',
+    'was', 'were', 'what', 'when', 'which', 'why', 'will', 'with', 'you', 'your', 'should', 'about', 'tell'
+]);
+
+export type EvidenceSourceType = 'report' | 'parameter' | 'event';
+
+/**
+ * A retrievable piece of a patient's record
+ */
+export interface EvidenceChunk {
+    id: string;
+    sourceType: EvidenceSourceType;
+    sourceId: string;
+    reportId: string | null;
+    date: string | null;
+    title: string;
+    text: string;
+    loincCode: string | null;
+    value: string | null;
+    unit: string | null;
+    status: string | null;
+}
+
+export interface ScoredEvidence extends EvidenceChunk {
+    score: number;
+}
+
+const tokenize = (text: string): string[] =>
+    text
+        .toLowerCase()
+        .split(/[^a-z0-9.]+/)
+        .map(t => t.replace(/^\.+|\.+$/g, ''))
+        .filter(t => t.length > 0 && !STOP_WORDS.has(t))
+        .map(t => (t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+
+const dateOnly = (value?: string | null) => (value ? String(value).split('T')[0] : null);
+
+const formatRange = (min: any, max: any) =>
+    min != null && max != null ? `${min}-${max}` : max != null ? `< ${max}` : min != null ? `> ${min}` : null;
+
+const conditionName = (c: any) => (typeof c === 'string' ? c : c?.name || c?.condition_name || c?.diagnosis);
+const medicationLabel = (m: any) =>
+    typeof m === 'string' ? m : [m?.name || m?.medication_name, m?.dosage || m?.dose, m?.frequency].filter(Boolean).join(' ');
+
+/**
+ * In-memory BM25 index over one patient's chunks
+ */
+export class PatientEvidenceIndex {
+    private docs: { chunk: EvidenceChunk; tf: Map<string, number>; length: number }[];
+    private df = new Map<string, number>();
+    private avgLength: number;
+    readonly builtAt = Date.now();
+
+    constructor(readonly chunks: EvidenceChunk[]) {
+        this.docs = chunks.map(chunk => {
+            const tokens = tokenize(`${chunk.title} ${chunk.text}`);
+            const tf = new Map<string, number>();
+            tokens.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+            tf.forEach((_, t) => this.df.set(t, (this.df.get(t) || 0) + 1));
+            return { chunk, tf, length: tokens.length };
+        });
+        this.avgLength = this.docs.reduce((sum, d) => sum + d.length, 0) / Math.max(this.docs.length, 1);
+    }
+
+    /**
+     * Chunks ranked for a question. Lab tests named in it are expanded to their
+     * synonyms so "Hb" finds "Haemoglobin"; ties go to the more recent chunk.
+     */
+    search(question: string, options: { limit?: number; focusReportId?: string | null } = {}): ScoredEvidence[] {
+        const limit = options.limit ?? 8;
+        const tests = labTerminologyService.mentionedIn(question);
+        const loincCodes = new Set(tests.map(t => t.loinc));
+        const terms = Array.from(new Set([
+            ...tokenize(question),
+            ...tests.flatMap(t => tokenize([t.display, ...t.synonyms].join(' ')))
+        ]));
+        if (terms.length === 0 || this.docs.length === 0) return [];
+
+        const n = this.docs.length;
+        const scored = this.docs.map(({ chunk, tf, length }) => {
+            let score = 0;
+            for (const term of terms) {
+                const freq = tf.get(term);
+                if (!freq) continue;
+                const df = this.df.get(term) || 0;
+                const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+                score += idf * (freq * (K1 + 1)) / (freq + K1 * (1 - B + B * length / this.avgLength));
+            }
+            if (score > 0 && chunk.loincCode && loincCodes.has(chunk.loincCode)) score *= SAME_TEST_BOOST;
+            if (score > 0 && options.focusReportId && chunk.reportId === options.focusReportId) score *= FOCUS_REPORT_BOOST;
+            return { ...chunk, score };
+        });
+
+        return scored
+            .filter(s => s.score > 0)
+            .sort((a, b) => b.score - a.score || (b.date || '').localeCompare(a.date || ''))
+            .slice(0, limit);
+    }
+
+    /**
+     * All chunks of one report, for questions about "this report" that name nothing specific
+     */
+    forReport(reportId: string, limit: number = 8): ScoredEvidence[] {
+        return this.chunks
+            .filter(c => c.reportId === reportId)
+            .sort((a, b) => (a.sourceType === 'report' ? -1 : 0) - (b.sourceType === 'report' ? -1 : 0)
+                || (a.status === 'normal' ? 1 : 0) - (b.status === 'normal' ? 1 : 0))
+            .slice(0, limit)
+            .map(c => ({ ...c, score: 0 }));
+    }
+}
+
+/**
+ * Builds and caches per-patient evidence indexes from parsed reports,
+ * health_parameters and clinical_events
+ */
+export class EvidenceIndexService {
+    private cache = new Map<string, PatientEvidenceIndex>();
+
+    async getIndex(patientId: string): Promise<PatientEvidenceIndex> {
+        const cached = this.cache.get(patientId);
+        if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached;
+
+        const index = new PatientEvidenceIndex(await this.loadChunks(patientId));
+        this.cache.set(patientId, index);
+        console.log(`📚 [EvidenceIndex] Indexed ${index.chunks.length} chunks for patient ${patientId}`);
+        return index;
+    }
+
+    invalidate(patientId: string) {
+        this.cache.delete(patientId);
+    }
+
+    private async loadChunks(patientId: string): Promise<EvidenceChunk[]> {
+        const [healthReports, parsedReports, parameters, events] = await Promise.all([
+            supabase
+                .from('health_reports')
+                .select('id, report_json, uploaded_at')
+                .eq('user_id', patientId)
+                .order('uploaded_at', { ascending: false })
+                .limit(MAX_REPORTS),
+            supabase
+                .from('parsed_reports')
+                .select('id, report_id, parsed_json, created_at')
+                .eq('patient_id', patientId)
+                .order('created_at', { ascending: false })
+                .limit(MAX_REPORTS),
+            supabase
+                .from('health_parameters')
+                .select('*')
+                .eq('user_id', patientId)
+                .order('measured_at', { ascending: false })
+                .limit(MAX_PARAMETERS),
+            supabase
+                .from('clinical_events')
+                .select('id, event_type, event_name, event_date, source_report_id, metadata')
+                .eq('patient_id', patientId)
+                .order('event_date', { ascending: false })
+                .limit(MAX_EVENTS)
+        ]);
+
+        for (const [name, result] of Object.entries({ healthReports, parsedReports, parameters, events })) {
+            if (result.error) console.warn(`⚠️ [EvidenceIndex] Could not load ${name}: ${result.error.message}`);
+        }
+
+        const chunks: EvidenceChunk[] = [];
+        const parameterRows = parameters.data || [];
+        const reportsWithRows = new Set(parameterRows.map((p: any) => p.report_id).filter(Boolean));
+
+        parameterRows.forEach((p: any) => chunks.push(this.parameterChunk(p)));
+
+        const reports = [
+            ...(healthReports.data || []).map((r: any) => ({ id: r.id, json: r.report_json, uploadedAt: r.uploaded_at })),
+            ...(parsedReports.data || []).map((r: any) => ({ id: r.report_id, json: r.parsed_json, uploadedAt: r.created_at }))
+        ];
+        reports.forEach(r => chunks.push(...this.reportChunks(r.id, r.json, r.uploadedAt, reportsWithRows.has(r.id))));
+
+        // Events extracted by the worker point at parsed_reports.id rather than the report itself
+        const parsedToReport = new Map<string, string>((parsedReports.data || []).map((r: any) => [r.id, r.report_id]));
+        (events.data || []).forEach((e: any) => chunks.push(this.eventChunk(e, parsedToReport.get(e.source_report_id) || e.source_report_id)));
+
+        return chunks;
+    }
+
+    private parameterChunk(p: any): EvidenceChunk {
+        const name = p.name || p.parameter_name || 'Unknown';
+        const range = formatRange(p.normal_range_min, p.normal_range_max);
+        const text = [
+            `${name} ${p.value} ${p.unit || ''}`.trim(),
+            p.status ? `status ${p.status}` : null,
+            range ? `normal range ${range}` : null,
+            p.loinc_code ? `LOINC ${p.loinc_code}` : null
+        ].filter(Boolean).join(', ');
+
+        return {
+            id: `parameter:${p.id}`,
+            sourceType: 'parameter',
+            sourceId: p.id,
+            reportId: p.report_id || null,
+            date: dateOnly(p.measured_at),
+            title: name,
+            text,
+            loincCode: p.loinc_code || null,
+            value: p.value != null ? String(p.value) : null,
+            unit: p.unit || null,
+            status: p.status || null
+        };
+    }
+
+    /**
+     * A summary chunk per report, plus its parameters when they were never
+     * written to health_parameters (older uploads, worker-parsed reports)
+     */
+    private reportChunks(reportId: string, json: any, uploadedAt: string, hasParameterRows: boolean): EvidenceChunk[] {
+        if (!reportId || !json) return [];
+
+        const data = json.data || json;
+        const date = dateOnly(json.metadata?.documentDate || data.metadata?.documentDate || uploadedAt);
+        const title = json.eventInfo?.eventTitle || json.metadata?.documentType || 'Health report';
+        const conditions = (data.conditions || []).map(conditionName).filter(Boolean);
+        const medications = (data.medications || []).map(medicationLabel).filter(Boolean);
+
+        const summary = [
+            json.eventInfo?.eventDescription || json.summary || data.summary,
+            json.metadata?.provider ? `provider ${json.metadata.provider}` : null,
+            conditions.length ? `conditions: ${conditions.join(', ')}` : null,
+            medications.length ? `medications: ${medications.join(', ')}` : null
+        ].filter(Boolean).join('. ');
+
+        const chunks: EvidenceChunk[] = [{
+            id: `report:${reportId}`,
+            sourceType: 'report',
+            sourceId: reportId,
+            reportId,
+            date,
+            title,
+            text: summary || title,
+            loincCode: null,
+            value: null,
+            unit: null,
+            status: null
+        }];
+
+        if (!hasParameterRows) {
+            (data.parameters || data.tests || []).forEach((p: any, i: number) => {
+                const name = p.name || p.parameter_name || p.parameter;
+                if (!name) return;
+                const range = p.referenceRange || p.reference_range || p.normal_range;
+                chunks.push({
+                    id: `report:${reportId}:${i}`,
+                    sourceType: 'parameter',
+                    sourceId: `${reportId}:${i}`,
+                    reportId,
+                    date,
+                    title: name,
+                    text: [`${name} ${p.value ?? ''} ${p.unit || ''}`.trim(), p.status ? `status ${p.status}` : null, range ? `normal range ${range}` : null]
+                        .filter(Boolean).join(', '),
+                    loincCode: labTerminologyService.lookup(name)?.loinc || null,
+                    value: p.value != null ? String(p.value) : null,
+                    unit: p.unit || null,
+                    status: p.status || null
+                });
+            });
+        }
+
+        return chunks;
+    }
+
+    private eventChunk(e: any, reportId: string | null): EvidenceChunk {
+        const meta = e.metadata || {};
+        const details = [
+            meta.value != null ? `${meta.value} ${meta.unit || ''}`.trim() : null,
+            meta.dose || meta.dosage,
+            meta.frequency,
+            meta.status,
+            meta.severity,
+            meta.finding
+        ].filter(Boolean).join(', ');
+
+        return {
+            id: `event:${e.id}`,
+            sourceType: 'event',
+            sourceId: e.id,
+            reportId: reportId || null,
+            date: dateOnly(e.event_date),
+            title: e.event_name,
+            text: `${e.event_type.replace(/_/g, ' ')}: ${e.event_name}${details ? ` (${details})` : ''}`,
+            loincCode: meta.loinc_code || null,
+            value: meta.value != null ? String(meta.value) : null,
+            unit: meta.unit || null,
+            status: meta.status || null
+        };
+    }
+}
+
+export const evidenceIndexService = new EvidenceIndexService();
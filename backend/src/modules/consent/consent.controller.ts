@@ -1,5 +1,11 @@
 import { Request, Response } from 'express';
-import { consentService } from './consent.service';
+import { consentService, CONSENT_REQUEST_STATUSES, type ConsentRequestStatus } from './consent.service';
+import { consentRepository } from './consent.repository';
+import { getPatientEmergencyGrants, reviewEmergencyGrant, revokeEmergencyGrant } from '../../lib/emergencyAccessService';
+import { getTemplatesForOrganization, grantConsentFromTemplate, renewConsent } from '../../lib/consentTemplateService';
+import { getPatientConsents as getOrganizationConsents, grantConsent as grantOrganizationConsent, validateConsentRequest } from '../../lib/consentService';
+import { supabaseAdmin } from '../../lib/supabaseClient';
+import type { ConsentGrantRequest } from '../../types/consentTypes';
 
 export const consentController = {
     /**
@@ -71,19 +77,368 @@ export const consentController = {
      */
     async requestAccess(req: Request, res: Response) {
         try {
-            const requesterId = req.user?.id;
-            const { patient_id, scopes, purpose } = req.body;
+            const account = await consentRepository.findUserAccount(req.user?.id);
+            const { patient_id, scopes, purpose, duration_hours, organization_id } = req.body;
+
+            if (!account) {
+                return res.status(403).json({ error: 'No clinician account found' });
+            }
+            // Approval also issues the organization a consent token, so only
+            // the doctor's own organization can be named
+            if (organization_id && organization_id !== account.linked_org_id) {
+                return res.status(403).json({ error: 'You can only request access for your own organization' });
+            }
 
             const request = await consentService.createAccessRequest({
                 patient_id,
-                requester_id: requesterId,
+                requester_id: account.id,
+                organization_id: account.linked_org_id || undefined,
                 scopes,
-                purpose
+                purpose,
+                duration_hours
             });
 
             res.json({ request });
         } catch (error: any) {
             console.error('Error requesting access:', error);
+            res.status(error.status || 500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Requests made by the signed-in doctor
+     * GET /api/consent/request/mine
+     */
+    async getMyRequests(req: Request, res: Response) {
+        try {
+            const account = await consentRepository.findUserAccount(req.user?.id);
+
+            if (!account) {
+                return res.status(403).json({ error: 'No clinician account found' });
+            }
+
+            const requests = await consentService.getRequesterRequests(account.id);
+
+            res.json({ requests });
+        } catch (error: any) {
+            console.error('Error fetching access requests:', error);
+            res.status(error.status || 500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Access requests waiting on (or answered by) the signed-in patient
+     * GET /api/consent/patient/requests?status=requested
+     */
+    async getPatientRequests(req: Request, res: Response) {
+        try {
+            const account = await consentRepository.findUserAccount(req.user?.id);
+            const status = req.query.status as ConsentRequestStatus | undefined;
+
+            if (!account?.linked_patient_id) {
+                return res.status(403).json({ error: 'Not authorized as patient' });
+            }
+            if (status !== undefined && !CONSENT_REQUEST_STATUSES.includes(status)) {
+                return res.status(400).json({ error: `status must be one of ${CONSENT_REQUEST_STATUSES.join(', ')}` });
+            }
+
+            const requests = await consentService.getPatientRequests(account.linked_patient_id, status);
+
+            res.json({ requests });
+        } catch (error: any) {
+            console.error('Error fetching access requests:', error);
+            res.status(error.status || 500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Approve a request, optionally with fewer scopes or a shorter duration
+     * POST /api/consent/approve/:requestId
+     */
+    async approveRequest(req: Request, res: Response) {
+        try {
+            const account = await consentRepository.findUserAccount(req.user?.id);
+            const { scopes, duration_hours, note } = req.body || {};
+
+            if (!account?.linked_patient_id) {
+                return res.status(403).json({ error: 'Not authorized as patient' });
+            }
+
+            const request = await consentService.respondToRequest(req.params.requestId, account.linked_patient_id, {
+                decision: 'approve',
+                scopes,
+                duration_hours,
+                note
+            });
+
+            res.json({ request });
+        } catch (error: any) {
+            console.error('Error approving access request:', error);
+            res.status(error.status || 500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Deny a request
+     * POST /api/consent/reject/:requestId
+     */
+    async rejectRequest(req: Request, res: Response) {
+        try {
+            const account = await consentRepository.findUserAccount(req.user?.id);
+
+            if (!account?.linked_patient_id) {
+                return res.status(403).json({ error: 'Not authorized as patient' });
+            }
+
+            const request = await consentService.respondToRequest(req.params.requestId, account.linked_patient_id, {
+                decision: 'deny',
+                note: req.body?.note
+            });
+
+            res.json({ request });
+        } catch (error: any) {
+            console.error('Error rejecting access request:', error);
+            res.status(error.status || 500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Break-the-glass accesses to the signed-in patient's records
+     * GET /api/consent/emergency-access
+     */
+    async getEmergencyAccess(req: Request, res: Response) {
+        try {
+            const grants = await getPatientEmergencyGrants(req.user.id);
+
+            res.json({ grants, total: grants.length });
+        } catch (error: any) {
+            console.error('Error fetching emergency accesses:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Acknowledge or dispute an emergency access; disputing an active
+     * access also ends it
+     * POST /api/consent/emergency-access/:grantId/review
+     */
+    async reviewEmergencyAccess(req: Request, res: Response) {
+        try {
+            const { decision, comment } = req.body || {};
+
+            if (decision !== 'acknowledged' && decision !== 'disputed') {
+                return res.status(400).json({ error: "decision must be 'acknowledged' or 'disputed'" });
+            }
+            if (decision === 'disputed' && !comment) {
+                return res.status(400).json({ error: 'Please describe why you dispute this access' });
+            }
+
+            const result = await reviewEmergencyGrant(req.params.grantId, req.user.id, decision, comment);
+
+            if (!result.success) {
+                return res.status(400).json({ error: result.error });
+            }
+
+            res.json({ grant: result.grant });
+        } catch (error: any) {
+            console.error('Error reviewing emergency access:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * End an emergency access before it expires
+     * POST /api/consent/emergency-access/:grantId/revoke
+     */
+    async revokeEmergencyAccess(req: Request, res: Response) {
+        try {
+            const { grantId } = req.params;
+            const grants = await getPatientEmergencyGrants(req.user.id);
+
+            if (!grants.some((grant) => grant.id === grantId)) {
+                return res.status(404).json({ error: 'Emergency access not found' });
+            }
+
+            const result = await revokeEmergencyGrant(grantId, req.user.id, req.body?.reason);
+
+            if (!result.success) {
+                return res.status(400).json({ error: result.error });
+            }
+
+            res.json({ message: 'Emergency access revoked', grantId });
+        } catch (error: any) {
+            console.error('Error revoking emergency access:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Templates the patient can grant to an organization in one tap
+     * GET /api/consent/templates?organizationId=...
+     */
+    async getConsentTemplates(req: Request, res: Response) {
+        try {
+            const organizationId = req.query.organizationId;
+
+            if (typeof organizationId !== 'string' || !organizationId) {
+                return res.status(400).json({ error: 'organizationId is required' });
+            }
+
+            const { organization, templates } = await getTemplatesForOrganization(organizationId);
+
+            if (!organization) {
+                return res.status(404).json({ error: 'Organization not found' });
+            }
+
+            res.json({ organization, templates });
+        } catch (error: any) {
+            console.error('Error fetching consent templates:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Grant an organization consent on the terms of a template
+     * POST /api/consent/grant-template
+     */
+    async grantFromTemplate(req: Request, res: Response) {
+        try {
+            const { templateId, organizationId } = req.body || {};
+
+            if (!templateId || !organizationId) {
+                return res.status(400).json({ error: 'templateId and organizationId are required' });
+            }
+
+            const result = await grantConsentFromTemplate(req.user.id, templateId, organizationId);
+
+            if (!result.success) {
+                return res.status(400).json({ error: result.error });
+            }
+
+            res.status(201).json({
+                consentId: result.consentId,
+                token: result.token,
+                tokenId: result.tokenId,
+                validUntil: result.validUntil
+            });
+        } catch (error: any) {
+            console.error('Error granting consent from template:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Grant an organization consent on the patient's own terms, optionally
+     * limited to a clinical date range and withholding sensitive categories
+     * or individual records
+     * POST /api/consent/grant-organization
+     *
+     * Body:
+     * {
+     *   organizationId: string,
+     *   purposeOfUse: 'TREATMENT' | 'EMERGENCY' | 'INSURANCE' | 'RESEARCH',
+     *   allowedResources: string[],
+     *   validFrom?: string (ISO),
+     *   validUntil: string (ISO),
+     *   notes?: string,
+     *   dataPeriod?: { start?: string, end?: string },
+     *   excludedCategories?: ('mental_health' | 'hiv' | 'reproductive_health' | 'substance_use')[],
+     *   excludedRecords?: string[] ("DocumentReference/123")
+     * }
+     */
+    async grantOrganizationConsent(req: Request, res: Response) {
+        try {
+            const body = req.body || {};
+
+            const { data: patientMap } = await supabaseAdmin
+                .from('fhir_user_map')
+                .select('abha_number')
+                .eq('supabase_user_id', req.user.id)
+                .maybeSingle();
+
+            if (!patientMap?.abha_number) {
+                return res.status(400).json({ error: 'Please link your ABHA before granting consent' });
+            }
+
+            const { data: org } = await supabaseAdmin
+                .from('organizations')
+                .select('name')
+                .eq('id', body.organizationId)
+                .maybeSingle();
+
+            if (!org) {
+                return res.status(404).json({ error: 'Organization not found' });
+            }
+
+            const grantRequest: ConsentGrantRequest = {
+                patientId: req.user.id,
+                patientAbha: patientMap.abha_number,
+                organizationId: body.organizationId,
+                organizationName: org.name,
+                purposeOfUse: body.purposeOfUse,
+                allowedResources: body.allowedResources,
+                validFrom: body.validFrom || new Date().toISOString(),
+                validUntil: body.validUntil,
+                notes: body.notes,
+                dataPeriod: body.dataPeriod,
+                excludedCategories: body.excludedCategories,
+                excludedRecords: body.excludedRecords,
+            };
+
+            const validation = validateConsentRequest(grantRequest);
+            if (!validation.valid) {
+                return res.status(400).json({ error: validation.errors.join('; '), errors: validation.errors });
+            }
+
+            const result = await grantOrganizationConsent(grantRequest);
+
+            res.status(201).json({
+                consentId: result.consent.id,
+                token: result.token,
+                tokenId: result.tokenId,
+                validUntil: grantRequest.validUntil
+            });
+        } catch (error: any) {
+            console.error('Error granting organization consent:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Consents the signed-in patient has given organizations
+     * GET /api/consent/organization-consents
+     */
+    async getOrganizationConsents(req: Request, res: Response) {
+        try {
+            const consents = await getOrganizationConsents(req.user.id);
+
+            res.json({ consents });
+        } catch (error: any) {
+            console.error('Error fetching organization consents:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
+    /**
+     * Renew a template consent before it ends
+     * POST /api/consent/renew/:tokenId
+     */
+    async renewOrganizationConsent(req: Request, res: Response) {
+        try {
+            const result = await renewConsent(req.params.tokenId, req.user.id);
+
+            if (!result.success) {
+                return res.status(400).json({ error: result.error });
+            }
+
+            res.status(201).json({
+                consentId: result.consentId,
+                token: result.token,
+                tokenId: result.tokenId,
+                validUntil: result.validUntil
+            });
+        } catch (error: any) {
+            console.error('Error renewing consent:', error);
             res.status(500).json({ error: error.message });
         }
     }
@@ -66,6 +66,21 @@ export const consentRepository = {
         return data || [];
     },
 
+    /**
+     * Find all active consents granted by a patient
+     */
+    async findActiveByPatientId(patientId: string) {
+        const { data, error } = await supabase
+            .from('consents')
+            .select('*')
+            .eq('patient_id', patientId)
+            .eq('status', 'active')
+            .gt('expires_at', new Date().toISOString());
+
+        if (error) throw error;
+        return data || [];
+    },
+
     /**
      * Revoke consent
      */
@@ -79,5 +94,132 @@ export const consentRepository = {
             .eq('id', consentId);
 
         if (error) throw error;
+    },
+
+    /**
+     * Find the access-layer account behind a Supabase auth user
+     */
+    async findUserAccount(authUserId: string) {
+        const { data, error } = await supabase
+            .from('user_accounts')
+            .select('id, auth_user_id, role, linked_patient_id, linked_org_id')
+            .eq('auth_user_id', authUserId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Find the Supabase auth user of a patient record (if activated)
+     */
+    async findPatientAuthUserId(patientId: string): Promise<string | null> {
+        const { data, error } = await supabase
+            .from('user_accounts')
+            .select('auth_user_id')
+            .eq('linked_patient_id', patientId)
+            .eq('role', 'patient')
+            .maybeSingle();
+
+        if (error) throw error;
+        return data?.auth_user_id || null;
+    },
+
+    /**
+     * Create access request
+     */
+    async createRequest(data: {
+        patient_id: string;
+        requester_id: string;
+        organization_id?: string | null;
+        purpose: string;
+        requested_scopes: string[];
+        requested_duration_hours: number;
+        expires_at: string;
+    }) {
+        const { data: request, error } = await supabase
+            .from('consent_requests')
+            .insert([{ ...data, status: 'requested' }])
+            .select()
+            .single();
+
+        if (error) throw error;
+        return request;
+    },
+
+    /**
+     * Find access request by ID
+     */
+    async findRequestById(id: string) {
+        const { data, error } = await supabase
+            .from('consent_requests')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error && error.code !== 'PGRST116') throw error;
+        return data;
+    },
+
+    /**
+     * Find access requests for a patient, with the requesting clinician and organization
+     */
+    async findRequestsByPatientId(patientId: string, status?: string) {
+        let query = supabase
+            .from('consent_requests')
+            .select('*, user_accounts!consent_requests_requester_id_fkey(id, role, auth_user_id), organizations(name)')
+            .eq('patient_id', patientId)
+            .order('created_at', { ascending: false });
+
+        if (status) query = query.eq('status', status);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data || [];
+    },
+
+    /**
+     * Find access requests made by a clinician
+     */
+    async findRequestsByRequesterId(requesterId: string) {
+        const { data, error } = await supabase
+            .from('consent_requests')
+            .select('*, patient_master(id, full_name, mrn)')
+            .eq('requester_id', requesterId)
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+    },
+
+    /**
+     * Move a request to its next state, only if it is still in the expected one
+     */
+    async transitionRequest(id: string, fromStatus: string, updates: Record<string, any>) {
+        const { data, error } = await supabase
+            .from('consent_requests')
+            .update(updates)
+            .eq('id', id)
+            .eq('status', fromStatus)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Expire unanswered requests past their deadline
+     */
+    async expireRequests() {
+        const { data, error } = await supabase
+            .from('consent_requests')
+            .update({ status: 'expired' })
+            .eq('status', 'requested')
+            .lte('expires_at', new Date().toISOString())
+            .select();
+
+        if (error) throw error;
+        return data || [];
     }
 };
@@ -21,6 +21,88 @@ router.post(
     consentController.revokeConsent
 );
 
+// Patient's incoming access requests (before /patient/:patientId)
+router.get(
+    '/patient/requests',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.getPatientRequests
+);
+
+// Patient approves (optionally narrowed) or denies a request
+router.post(
+    '/approve/:requestId',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.approveRequest
+);
+
+router.post(
+    '/reject/:requestId',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.rejectRequest
+);
+
+// Break-the-glass accesses: patient review, dispute and early revocation
+router.get(
+    '/emergency-access',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.getEmergencyAccess
+);
+
+router.post(
+    '/emergency-access/:grantId/review',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.reviewEmergencyAccess
+);
+
+router.post(
+    '/emergency-access/:grantId/revoke',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.revokeEmergencyAccess
+);
+
+// Organization consents: one-tap grants from templates and renewals
+router.get(
+    '/templates',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.getConsentTemplates
+);
+
+router.post(
+    '/grant-template',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.grantFromTemplate
+);
+
+// Organization consent on the patient's own terms (date range, exclusions)
+router.post(
+    '/grant-organization',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.grantOrganizationConsent
+);
+
+router.get(
+    '/organization-consents',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.getOrganizationConsents
+);
+
+router.post(
+    '/renew/:tokenId',
+    authenticateUser,
+    requireRole(['patient']),
+    consentController.renewOrganizationConsent
+);
+
 // Get patient's consents
 router.get(
     '/patient/:patientId',
@@ -36,4 +118,12 @@ router.post(
     consentController.requestAccess
 );
 
+// Doctor's own requests and their outcome
+router.get(
+    '/request/mine',
+    authenticateUser,
+    requireRole(['doctor', 'clinical_staff']),
+    consentController.getMyRequests
+);
+
 export default router;
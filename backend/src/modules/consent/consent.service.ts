@@ -1,4 +1,57 @@
 import { consentRepository } from './consent.repository';
+import { supabase } from '../../lib/supabase';
+import { grantConsent as grantOrganizationConsent } from '../../lib/consentService';
+import { getPatientNotifier, type PatientNotification } from '../../lib/patientNotifier';
+
+export const CONSENT_REQUEST_STATUSES = ['requested', 'approved', 'partially_approved', 'denied', 'expired'] as const;
+export type ConsentRequestStatus = typeof CONSENT_REQUEST_STATUSES[number];
+
+const REQUEST_TTL_HOURS = parseInt(process.env.CONSENT_REQUEST_TTL_HOURS || '72');
+const MAX_REQUEST_DURATION_HOURS = 24 * 365;
+
+// Clinician scopes -> FHIR resource types of the organization consent token
+const SCOPE_RESOURCES: Record<string, string[]> = {
+    READ_REPORTS: ['Observation', 'DiagnosticReport', 'DocumentReference'],
+    READ_TIMELINE: ['Encounter', 'Condition', 'Procedure'],
+    medical_records: ['Observation', 'DiagnosticReport', 'DocumentReference', 'MedicationRequest'],
+};
+
+/**
+ * An error in what the caller asked for, with the HTTP status to answer with
+ */
+const requestError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+/**
+ * Deliver a request update; failures are logged, never thrown
+ */
+async function notify(notification: PatientNotification | null) {
+    if (!notification) return;
+    try {
+        await getPatientNotifier().notify(notification);
+    } catch (error: any) {
+        console.error(`❌ [ConsentRequests] Notification ${notification.type} failed:`, error.message);
+    }
+}
+
+async function getDisplayName(authUserId: string | null | undefined, fallback: string) {
+    if (!authUserId) return fallback;
+    const { data } = await supabase
+        .from('user_profiles')
+        .select('full_name')
+        .eq('user_id', authUserId)
+        .maybeSingle();
+    return data?.full_name || fallback;
+}
+
+async function getOrganizationName(organizationId: string | null | undefined): Promise<string | null> {
+    if (!organizationId) return null;
+    const { data } = await supabase
+        .from('organizations')
+        .select('name')
+        .eq('id', organizationId)
+        .maybeSingle();
+    return data?.name || null;
+}
 
 export const consentService = {
     /**
@@ -10,9 +63,14 @@ export const consentService = {
         scopes: string[];
         purpose: string;
         expires_in_days?: number;
+        expires_in_hours?: number;
     }) {
         const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + (data.expires_in_days || 30));
+        if (data.expires_in_hours) {
+            expiresAt.setTime(expiresAt.getTime() + data.expires_in_hours * 60 * 60 * 1000);
+        } else {
+            expiresAt.setDate(expiresAt.getDate() + (data.expires_in_days || 30));
+        }
 
         const consent = await consentRepository.create({
             patient_id: data.patient_id,
@@ -72,21 +130,270 @@ export const consentService = {
     },
 
     /**
-     * Create access request (for doctor to request consent)
+     * Create access request (for doctor to request consent).
+     * The request stays open for CONSENT_REQUEST_TTL_HOURS, then expires.
      */
     async createAccessRequest(data: {
         patient_id: string;
-        requester_id?: string;
+        requester_id: string;
+        organization_id?: string;
         scopes: string[];
         purpose: string;
+        duration_hours?: number;
+    }) {
+        const durationHours = data.duration_hours || 24;
+
+        if (!data.patient_id || !data.purpose) {
+            throw requestError('patient_id and purpose are required', 400);
+        }
+        if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+            throw requestError('At least one scope is required', 400);
+        }
+        if (!Number.isInteger(durationHours) || durationHours < 1 || durationHours > MAX_REQUEST_DURATION_HOURS) {
+            throw requestError(`duration_hours must be between 1 and ${MAX_REQUEST_DURATION_HOURS}`, 400);
+        }
+
+        const request = await consentRepository.createRequest({
+            patient_id: data.patient_id,
+            requester_id: data.requester_id,
+            organization_id: data.organization_id || null,
+            purpose: data.purpose,
+            requested_scopes: Array.from(new Set(data.scopes)),
+            requested_duration_hours: durationHours,
+            expires_at: new Date(Date.now() + REQUEST_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+        });
+
+        const patientUserId = await consentRepository.findPatientAuthUserId(data.patient_id);
+        const requesterAccount = await supabase
+            .from('user_accounts')
+            .select('auth_user_id')
+            .eq('id', data.requester_id)
+            .maybeSingle();
+        const doctorName = await getDisplayName(requesterAccount.data?.auth_user_id, 'A doctor');
+        const organizationName = await getOrganizationName(request.organization_id);
+
+        await notify(patientUserId ? {
+            recipientId: patientUserId,
+            type: 'consent_requested',
+            title: 'New request to access your records',
+            message: `${doctorName}${organizationName ? ` (${organizationName})` : ''} asked to access your ${request.requested_scopes.join(', ')} for ${durationHours} hours: ${data.purpose}.`
+                + (organizationName ? ` Approving also shares these records with ${organizationName}.` : '')
+                + ' Review it in your consent manager.',
+            data: { requestId: request.id, expiresAt: request.expires_at, organizationName },
+        } : null);
+
+        return request;
+    },
+
+    /**
+     * Access requests for a patient (expired ones are marked on read)
+     */
+    async getPatientRequests(patientId: string, status?: ConsentRequestStatus) {
+        await this.expireStaleRequests();
+        const requests = await consentRepository.findRequestsByPatientId(patientId, status);
+
+        return Promise.all(requests.map(async (request: any) => ({
+            ...request,
+            requester_name: await getDisplayName(request.user_accounts?.auth_user_id, 'Doctor'),
+            organization_name: request.organizations?.name || null,
+        })));
+    },
+
+    /**
+     * Access requests a clinician has made, with their outcome
+     */
+    async getRequesterRequests(requesterId: string) {
+        await this.expireStaleRequests();
+        return consentRepository.findRequestsByRequesterId(requesterId);
+    },
+
+    /**
+     * Patient's answer to an open request. Approving may narrow the scopes
+     * and shorten the duration (partially approved); the result is granted
+     * as a consent straight away, plus an organization consent token when
+     * the request was made for a registered organization.
+     */
+    async respondToRequest(requestId: string, patientId: string, response: {
+        decision: 'approve' | 'deny';
+        scopes?: string[];
+        duration_hours?: number;
+        note?: string;
     }) {
-        // TODO: Store access requests in a separate table
-        // For now, just return the request data
-        return {
-            id: 'temp-request-id',
-            ...data,
-            status: 'pending',
-            created_at: new Date().toISOString()
+        const request = await consentRepository.findRequestById(requestId);
+
+        if (!request) {
+            throw requestError('Request not found', 404);
+        }
+        if (request.patient_id !== patientId) {
+            throw requestError('Not authorized to respond to this request', 403);
+        }
+        if (request.status === 'requested' && new Date(request.expires_at) <= new Date()) {
+            await consentRepository.transitionRequest(requestId, 'requested', { status: 'expired' });
+            throw requestError('Request has expired', 409);
+        }
+        if (request.status !== 'requested') {
+            throw requestError(`Request is already ${request.status}`, 409);
+        }
+
+        const respondedAt = new Date().toISOString();
+
+        if (response.decision === 'deny') {
+            const denied = await consentRepository.transitionRequest(requestId, 'requested', {
+                status: 'denied',
+                response_note: response.note || null,
+                responded_at: respondedAt,
+            });
+            if (!denied) {
+                throw requestError('Request was answered or expired in the meantime', 409);
+            }
+
+            await this.notifyRequester(denied);
+            return denied;
+        }
+
+        const scopes = response.scopes ? Array.from(new Set(response.scopes)) : request.requested_scopes;
+        const durationHours = response.duration_hours ?? request.requested_duration_hours;
+
+        if (scopes.length === 0 || scopes.some((scope: string) => !request.requested_scopes.includes(scope))) {
+            throw requestError('Approved scopes must be a non-empty subset of the requested scopes', 400);
+        }
+        if (!Number.isInteger(durationHours) || durationHours < 1 || durationHours > request.requested_duration_hours) {
+            throw requestError(`Approved duration must be between 1 and ${request.requested_duration_hours} hours`, 400);
+        }
+
+        const status: ConsentRequestStatus = scopes.length < request.requested_scopes.length
+            || durationHours < request.requested_duration_hours
+            ? 'partially_approved'
+            : 'approved';
+
+        // Claim the request before granting anything, so a concurrent
+        // answer or expiry can't leave grants behind for a request it closed
+        const claimed = await consentRepository.transitionRequest(requestId, 'requested', {
+            status,
+            approved_scopes: scopes,
+            approved_duration_hours: durationHours,
+            response_note: response.note || null,
+            responded_at: respondedAt,
+        });
+        if (!claimed) {
+            throw requestError('Request was answered or expired in the meantime', 409);
+        }
+
+        let consent: any;
+        try {
+            consent = await this.grantConsent({
+                patient_id: patientId,
+                granted_to: request.requester_id,
+                scopes,
+                purpose: request.purpose,
+                expires_in_hours: durationHours,
+            });
+        } catch (error) {
+            // Reopen the request so the patient can answer again
+            await consentRepository.transitionRequest(requestId, status, {
+                status: 'requested',
+                approved_scopes: null,
+                approved_duration_hours: null,
+                response_note: null,
+                responded_at: null,
+            });
+            throw error;
+        }
+
+        let consentFhirId: string | null = null;
+        if (request.organization_id) {
+            consentFhirId = await this.issueOrganizationConsent(request, scopes, durationHours);
+        }
+
+        const updated = await consentRepository.transitionRequest(requestId, status, {
+            consent_id: consent.id,
+            consent_fhir_id: consentFhirId,
+        }) || { ...claimed, consent_id: consent.id, consent_fhir_id: consentFhirId };
+
+        await this.notifyRequester(updated);
+        return updated;
+    },
+
+    /**
+     * FHIR Consent + signed token for the requesting organization.
+     * Requires the patient to have linked ABHA; otherwise only the
+     * clinician consent is granted.
+     */
+    async issueOrganizationConsent(request: any, scopes: string[], durationHours: number): Promise<string | null> {
+        const patientUserId = await consentRepository.findPatientAuthUserId(request.patient_id);
+        if (!patientUserId) return null;
+
+        const { data: patientMap } = await supabase
+            .from('fhir_user_map')
+            .select('abha_number')
+            .eq('supabase_user_id', patientUserId)
+            .maybeSingle();
+        if (!patientMap?.abha_number) {
+            console.log(`ℹ️ [ConsentRequests] No ABHA linked for request ${request.id}; skipping organization consent`);
+            return null;
+        }
+
+        const organizationName = await getOrganizationName(request.organization_id);
+
+        const allowedResources = Array.from(new Set(scopes.flatMap((scope) => SCOPE_RESOURCES[scope] || [])));
+        if (allowedResources.length === 0) return null;
+
+        const validFrom = new Date();
+        try {
+            const { consent } = await grantOrganizationConsent({
+                patientId: patientUserId,
+                patientAbha: patientMap.abha_number,
+                organizationId: request.organization_id,
+                organizationName: organizationName || '',
+                purposeOfUse: 'TREATMENT',
+                allowedResources,
+                validFrom: validFrom.toISOString(),
+                validUntil: new Date(validFrom.getTime() + durationHours * 60 * 60 * 1000).toISOString(),
+                notes: `Approved access request ${request.id}: ${request.purpose}`,
+            });
+            return consent.id || null;
+        } catch (error: any) {
+            console.error(`❌ [ConsentRequests] Organization consent for request ${request.id} failed:`, error.message);
+            return null;
+        }
+    },
+
+    /**
+     * Tell the clinician how their request ended
+     */
+    async notifyRequester(request: any) {
+        const { data: account } = await supabase
+            .from('user_accounts')
+            .select('auth_user_id')
+            .eq('id', request.requester_id)
+            .maybeSingle();
+        if (!account?.auth_user_id) return;
+
+        const outcomes: Record<string, string> = {
+            approved: `approved for ${request.approved_duration_hours} hours`,
+            partially_approved: `approved with changes: ${request.approved_scopes?.join(', ')} for ${request.approved_duration_hours} hours`,
+            denied: 'declined',
+            expired: 'expired without an answer',
         };
+
+        await notify({
+            recipientId: account.auth_user_id,
+            type: `consent_request_${request.status}`,
+            title: 'Access request update',
+            message: `Your request to access patient records (${request.purpose}) was ${outcomes[request.status] || request.status}.`
+                + (request.response_note ? ` Note: ${request.response_note}` : ''),
+            data: { requestId: request.id, status: request.status },
+        });
+    },
+
+    /**
+     * Expire unanswered requests and tell their requesters
+     */
+    async expireStaleRequests() {
+        const expired = await consentRepository.expireRequests();
+        for (const request of expired) {
+            await this.notifyRequester(request);
+        }
+        return expired.length;
     }
 };
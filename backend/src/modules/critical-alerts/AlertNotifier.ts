@@ -0,0 +1,72 @@
+import axios from 'axios';
+
+export type RecipientRole = 'patient' | 'doctor' | 'escalation';
+
+export interface AlertRecipient {
+    id: string; // User id, or an address for escalation contacts
+    role: RecipientRole;
+}
+
+export interface AlertNotification {
+    alertId: string;
+    patientId: string;
+    recipient: AlertRecipient;
+    escalationLevel: number; // 0 for the first notification
+    title: string;
+    message: string;
+}
+
+/**
+ * Delivery channel for critical-value alerts. Implementations should throw on
+ * failure so the attempt is recorded as failed.
+ */
+export interface AlertNotifier {
+    readonly channel: string;
+    notify(notification: AlertNotification): Promise<void>;
+}
+
+/**
+ * Writes notifications to the server log. Used for local development and tests.
+ */
+export class LogNotifier implements AlertNotifier {
+    readonly channel = 'log';
+
+    async notify(notification: AlertNotification): Promise<void> {
+        const level = notification.escalationLevel > 0 ? ` [escalation ${notification.escalationLevel}]` : '';
+        console.log(`🚨 [CriticalAlerts]${level} → ${notification.recipient.role} ${notification.recipient.id}: ${notification.message}`);
+    }
+}
+
+/**
+ * POSTs each notification as JSON to a webhook (SMS/push/paging gateway)
+ */
+export class WebhookNotifier implements AlertNotifier {
+    readonly channel = 'webhook';
+
+    constructor(private url: string) { }
+
+    async notify(notification: AlertNotification): Promise<void> {
+        await axios.post(this.url, notification, { timeout: 10000 });
+    }
+}
+
+const NOTIFIERS: Record<string, () => AlertNotifier> = {
+    log: () => new LogNotifier(),
+    webhook: () => {
+        const url = process.env.CRITICAL_ALERT_WEBHOOK_URL;
+        if (!url) throw new Error('CRITICAL_ALERT_WEBHOOK_URL is required for the webhook notifier');
+        return new WebhookNotifier(url);
+    }
+};
+
+/**
+ * Notifier selected by CRITICAL_ALERT_NOTIFIER (default: log)
+ */
+export function createNotifier(name: string = process.env.CRITICAL_ALERT_NOTIFIER || 'log'): AlertNotifier {
+    const factory = NOTIFIERS[name];
+    if (!factory) {
+        console.warn(`⚠️ [CriticalAlerts] Unknown notifier "${name}", falling back to log`);
+        return new LogNotifier();
+    }
+    return factory();
+}
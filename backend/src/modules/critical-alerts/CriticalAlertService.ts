@@ -0,0 +1,265 @@
+import { supabase } from '../../lib/supabase';
+import { consentRepository } from '../consent/consent.repository';
+import { AlertNotifier, AlertRecipient, createNotifier } from './AlertNotifier';
+import { criticalValueRules, CriticalFinding } from './CriticalValueRules';
+
+const ESCALATION_AFTER_MINUTES = parseInt(process.env.CRITICAL_ALERT_ESCALATION_MINUTES || '30');
+const MAX_ESCALATION_LEVEL = parseInt(process.env.CRITICAL_ALERT_MAX_ESCALATIONS || '3');
+
+export type CriticalAlertStatus = 'active' | 'acknowledged';
+
+export interface CriticalValueAlert {
+    id: string;
+    patient_id: string;
+    alert_key: string;
+    rule_id: string;
+    loinc_code: string;
+    parameter_name: string;
+    direction: 'low' | 'high';
+    value: number;
+    unit: string;
+    critical_limit: number;
+    raw_value: string;
+    raw_unit: string | null;
+    message: string;
+    report_id: string | null;
+    measured_at: string | null;
+    status: CriticalAlertStatus;
+    source: string;
+    escalation_level: number;
+    next_escalation_at: string | null;
+    acknowledged_by: string | null;
+    acknowledged_at: string | null;
+    acknowledgement_note: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const nextEscalationAt = (from: Date = new Date()) =>
+    new Date(from.getTime() + ESCALATION_AFTER_MINUTES * 60 * 1000).toISOString();
+
+// Escalation contacts (on-call clinician, care coordinator) from CRITICAL_ALERT_ESCALATION_CONTACTS
+const escalationContacts = (): AlertRecipient[] =>
+    (process.env.CRITICAL_ALERT_ESCALATION_CONTACTS || '')
+        .split(',')
+        .map(c => c.trim())
+        .filter(Boolean)
+        .map(id => ({ id, role: 'escalation' as const }));
+
+export class CriticalAlertService {
+    constructor(private notifier: AlertNotifier = createNotifier()) { }
+
+    /**
+     * Replace the delivery channel (e.g. a different notifier in tests)
+     */
+    setNotifier(notifier: AlertNotifier) {
+        this.notifier = notifier;
+    }
+
+    /**
+     * Run the critical-value rules over freshly parsed parameters, persist an
+     * alert per finding and notify the patient and consented doctors.
+     * A value already alerted for the same report is not raised again.
+     */
+    async checkParameters(
+        patientId: string,
+        parameters: any[],
+        context: { reportId?: string | null; measuredAt?: string | null; source?: string } = {}
+    ): Promise<CriticalValueAlert[]> {
+        const findings = criticalValueRules.evaluateAll(parameters);
+        if (findings.length === 0) return [];
+
+        const now = new Date();
+        const scope = context.reportId || context.measuredAt || now.toISOString().split('T')[0];
+
+        const { data, error } = await supabase
+            .from('critical_value_alerts')
+            .upsert(
+                findings.map((f: CriticalFinding) => ({
+                    patient_id: patientId,
+                    alert_key: `${f.ruleId}:${scope}`,
+                    rule_id: f.ruleId,
+                    loinc_code: f.loincCode,
+                    parameter_name: f.parameterName,
+                    direction: f.direction,
+                    value: f.value,
+                    unit: f.unit,
+                    critical_limit: f.limit,
+                    raw_value: f.rawValue,
+                    raw_unit: f.rawUnit,
+                    message: criticalValueRules.describe(f),
+                    report_id: context.reportId || null,
+                    measured_at: context.measuredAt || null,
+                    status: 'active',
+                    source: context.source || 'extraction',
+                    escalation_level: 0,
+                    next_escalation_at: nextEscalationAt(now)
+                })),
+                { onConflict: 'patient_id,alert_key', ignoreDuplicates: true }
+            )
+            .select('*');
+
+        if (error) throw error;
+
+        const raised = (data || []) as CriticalValueAlert[];
+        if (raised.length === 0) return [];
+
+        console.log(`🚨 [CriticalAlerts] Raised ${raised.length} critical value alert(s) for patient ${patientId}`);
+
+        const recipients = await this.getRecipients(patientId);
+        for (const alert of raised) {
+            await this.notifyAll(alert, recipients, 0);
+        }
+
+        return raised;
+    }
+
+    /**
+     * The patient and every doctor holding an active consent
+     */
+    async getRecipients(patientId: string): Promise<AlertRecipient[]> {
+        const recipients: AlertRecipient[] = [{ id: patientId, role: 'patient' }];
+
+        try {
+            const consents = await consentRepository.findActiveByPatientId(patientId);
+            const doctors = new Set<string>(consents.map((c: any) => c.granted_to));
+            doctors.forEach(id => recipients.push({ id, role: 'doctor' }));
+        } catch (e: any) {
+            console.warn(`⚠️ [CriticalAlerts] Could not load consented doctors for ${patientId}: ${e.message}`);
+        }
+
+        return recipients;
+    }
+
+    private async notifyAll(alert: CriticalValueAlert, recipients: AlertRecipient[], escalationLevel: number) {
+        const title = escalationLevel > 0
+            ? `Unacknowledged critical result (reminder ${escalationLevel})`
+            : 'Critical lab result';
+
+        const attempts = await Promise.all(recipients.map(async recipient => {
+            try {
+                await this.notifier.notify({
+                    alertId: alert.id,
+                    patientId: alert.patient_id,
+                    recipient,
+                    escalationLevel,
+                    title,
+                    message: alert.message
+                });
+                return { recipient, status: 'sent', error: null as string | null };
+            } catch (e: any) {
+                console.error(`❌ [CriticalAlerts] ${this.notifier.channel} delivery to ${recipient.role} ${recipient.id} failed:`, e.message);
+                return { recipient, status: 'failed', error: e.message as string };
+            }
+        }));
+
+        const { error } = await supabase
+            .from('critical_alert_notifications')
+            .insert(attempts.map(a => ({
+                alert_id: alert.id,
+                recipient_id: a.recipient.id,
+                recipient_role: a.recipient.role,
+                channel: this.notifier.channel,
+                escalation_level: escalationLevel,
+                status: a.status,
+                error: a.error
+            })));
+
+        if (error) {
+            console.warn(`⚠️ [CriticalAlerts] Failed to record notifications for alert ${alert.id}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Re-notify alerts nobody has acknowledged within the escalation window.
+     * Each escalation also reaches the configured escalation contacts; after the
+     * last level the alert stays active but is no longer re-sent.
+     */
+    async escalateOverdue(): Promise<number> {
+        const now = new Date();
+        const { data, error } = await supabase
+            .from('critical_value_alerts')
+            .select('*')
+            .eq('status', 'active')
+            .lte('next_escalation_at', now.toISOString());
+
+        if (error) throw error;
+
+        let escalated = 0;
+        for (const alert of (data || []) as CriticalValueAlert[]) {
+            const level = alert.escalation_level + 1;
+
+            // Claim the alert so a concurrent run or an acknowledgement in between wins
+            const { data: claimed, error: claimError } = await supabase
+                .from('critical_value_alerts')
+                .update({
+                    escalation_level: level,
+                    next_escalation_at: level >= MAX_ESCALATION_LEVEL ? null : nextEscalationAt(now),
+                    updated_at: now.toISOString()
+                })
+                .eq('id', alert.id)
+                .eq('status', 'active')
+                .eq('escalation_level', alert.escalation_level)
+                .select('*')
+                .maybeSingle();
+
+            if (claimError) {
+                console.error(`❌ [CriticalAlerts] Failed to escalate alert ${alert.id}:`, claimError.message);
+                continue;
+            }
+            if (!claimed) continue;
+
+            const recipients = [...await this.getRecipients(alert.patient_id), ...escalationContacts()];
+            await this.notifyAll(claimed as CriticalValueAlert, recipients, level);
+            escalated++;
+        }
+
+        if (escalated > 0) {
+            console.log(`⏫ [CriticalAlerts] Escalated ${escalated} unacknowledged alert(s)`);
+        }
+        return escalated;
+    }
+
+    /**
+     * Alerts for a patient, newest first
+     */
+    async listAlerts(patientId: string, status?: CriticalAlertStatus): Promise<CriticalValueAlert[]> {
+        let query = supabase
+            .from('critical_value_alerts')
+            .select('*')
+            .eq('patient_id', patientId)
+            .order('created_at', { ascending: false });
+
+        if (status) query = query.eq('status', status);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data || []) as CriticalValueAlert[];
+    }
+
+    /**
+     * Record that the patient or a clinician has seen the alert; stops escalation
+     */
+    async acknowledge(patientId: string, alertId: string, userId: string, note?: string): Promise<CriticalValueAlert | null> {
+        const now = new Date().toISOString();
+        const { data, error } = await supabase
+            .from('critical_value_alerts')
+            .update({
+                status: 'acknowledged',
+                acknowledged_by: userId,
+                acknowledged_at: now,
+                acknowledgement_note: note || null,
+                next_escalation_at: null,
+                updated_at: now
+            })
+            .eq('id', alertId)
+            .eq('patient_id', patientId)
+            .select('*')
+            .maybeSingle();
+
+        if (error) throw error;
+        return data as CriticalValueAlert | null;
+    }
+}
+
+export const criticalAlertService = new CriticalAlertService();
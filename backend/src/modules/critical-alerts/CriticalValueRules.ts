@@ -0,0 +1,77 @@
+import { labTerminologyService } from '../terminology/LabTerminologyService';
+import { referenceRangeCatalog } from '../terminology/ReferenceRangeCatalog';
+
+/**
+ * A reported value beyond a critical limit
+ */
+export interface CriticalFinding {
+    ruleId: string; // "<loinc>:low" or "<loinc>:high"
+    loincCode: string;
+    parameterName: string;
+    displayName: string;
+    direction: 'low' | 'high';
+    value: number; // Canonical unit
+    unit: string;
+    limit: number; // Canonical unit
+    reportedLimit: number | null; // Same limit in the reported unit
+    rawValue: string;
+    rawUnit: string | null;
+}
+
+/**
+ * Critical-value rules: the critical limits in the reference range catalog,
+ * applied to the normalized value of each coded parameter
+ */
+export class CriticalValueRules {
+    evaluate(name: string, value: unknown, unit?: string | null): CriticalFinding | null {
+        const normalized = labTerminologyService.normalize(name, value, unit);
+        if (!normalized.loincCode || normalized.value === null || !normalized.unit) return null;
+
+        const critical = referenceRangeCatalog.get(normalized.loincCode)?.critical;
+        if (!critical) return null;
+
+        const direction = critical.low !== undefined && normalized.value < critical.low ? 'low'
+            : critical.high !== undefined && normalized.value > critical.high ? 'high'
+                : null;
+        if (!direction) return null;
+
+        const limit = (direction === 'low' ? critical.low : critical.high) as number;
+        const test = labTerminologyService.lookup(name);
+
+        return {
+            ruleId: `${normalized.loincCode}:${direction}`,
+            loincCode: normalized.loincCode,
+            parameterName: name,
+            displayName: normalized.displayName,
+            direction,
+            value: normalized.value,
+            unit: normalized.unit,
+            limit,
+            reportedLimit: test ? labTerminologyService.fromCanonical(test, limit, unit) : null,
+            rawValue: normalized.rawValue,
+            rawUnit: normalized.rawUnit
+        };
+    }
+
+    /**
+     * Critical findings in a list of extracted parameters
+     */
+    evaluateAll(parameters: any[]): CriticalFinding[] {
+        return (parameters || [])
+            .map(p => {
+                const name = p?.name || p?.parameter || p?.parameter_name;
+                return name ? this.evaluate(name, p.value, p.unit) : null;
+            })
+            .filter((f): f is CriticalFinding => f !== null);
+    }
+
+    describe(finding: CriticalFinding): string {
+        // A value reported without a unit was taken to be in the canonical unit
+        const unit = finding.rawUnit || finding.unit;
+        const reported = `${finding.rawValue} ${unit}`;
+        const limit = finding.reportedLimit !== null ? `${finding.reportedLimit} ${unit}` : `${finding.limit} ${finding.unit}`;
+        return `${finding.displayName} ${reported} is critically ${finding.direction} (limit ${finding.direction === 'low' ? '<' : '>'} ${limit})`;
+    }
+}
+
+export const criticalValueRules = new CriticalValueRules();
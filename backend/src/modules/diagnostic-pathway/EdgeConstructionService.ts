@@ -1,131 +1,434 @@
 import { supabase } from '../../lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
+import { conditionPathwayRegistry } from './condition-pathways/ConditionPathwayRegistry';
 
 export type RelationType = 'leads_to' | 'confirms' | 'rules_out' | 'followed_by' | 'caused_by' | 'treated_by' | 'monitors';
 
-interface EdgeRule {
+/**
+ * How strongly a rule requires both events to belong to the same condition:
+ * - required: only link events that share a condition pathway
+ * - preferred: penalize unrelated or unclassified pairs
+ * - ignored: link on type and time alone (generic follow-ups)
+ */
+export type SemanticMode = 'required' | 'preferred' | 'ignored';
+
+export interface EdgeRule {
     fromType: string;
     toType: string;
     relationType: RelationType;
     priority: number; // Higher priority edges rendered first
+    maxDays: number; // Temporal window; pairs further apart are never linked
+    semantic: SemanticMode;
+}
+
+export interface EdgeConstructionOptions {
+    rules?: Array<Partial<EdgeRule> & Pick<EdgeRule, 'fromType' | 'toType'>>; // Per-rule overrides
+    minEvidenceScore?: number;
+    newEventIds?: string[]; // Only evaluate pairs involving these events
+}
+
+export interface EdgeEvidence {
+    rule: string;
+    days_apart: number;
+    temporal: number;
+    semantic: number;
+    event_confidence: number;
+    shared_conditions: string[];
+}
+
+export interface ProposedEdge {
+    from_event_id: string;
+    to_event_id: string;
+    from_event_name: string;
+    to_event_name: string;
+    relation_type: RelationType;
+    confidence: number;
+    evidence_score: number;
+    evidence: EdgeEvidence;
+}
+
+interface GraphEvent {
+    id: string;
+    event_type: string;
+    event_name: string;
+    event_date: string | null;
+    confidence: number | null;
+    metadata: any;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Default minimum evidence score for an edge to be created
+const DEFAULT_MIN_EVIDENCE_SCORE = 0.3;
+
+// Semantic multipliers for 'preferred' rules
+const UNCLASSIFIED_SEMANTIC_SCORE = 0.7;
+const UNRELATED_SEMANTIC_SCORE = 0.3;
+
+const EVENT_COLUMNS = 'id, event_type, event_name, event_date, confidence, metadata';
+
+// Page size for full-history reads and chunk sizes for id filters / bulk writes
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+const INSERT_BATCH_SIZE = 500;
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+};
+
+/**
+ * Read every row of a query page by page (PostgREST caps responses at 1000 rows)
+ */
+async function fetchAllRows<T>(page: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await page(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as T[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
 }
 
 export class EdgeConstructionService {
     // Causal rules engine
     private edgeRules: EdgeRule[] = [
         // Symptom leads to Investigation
-        { fromType: 'symptom', toType: 'investigation', relationType: 'leads_to', priority: 10 },
+        { fromType: 'symptom', toType: 'investigation', relationType: 'leads_to', priority: 10, maxDays: 30, semantic: 'preferred' },
 
         // Investigation confirms Diagnosis
-        { fromType: 'investigation', toType: 'diagnosis', relationType: 'confirms', priority: 9 },
+        { fromType: 'investigation', toType: 'diagnosis', relationType: 'confirms', priority: 9, maxDays: 90, semantic: 'required' },
 
         // Lab result leads to Diagnosis
-        { fromType: 'lab_result', toType: 'diagnosis', relationType: 'confirms', priority: 8 },
+        { fromType: 'lab_result', toType: 'diagnosis', relationType: 'confirms', priority: 8, maxDays: 90, semantic: 'required' },
 
         // Diagnosis leads to Treatment
-        { fromType: 'diagnosis', toType: 'treatment', relationType: 'leads_to', priority: 7 },
+        { fromType: 'diagnosis', toType: 'treatment', relationType: 'leads_to', priority: 7, maxDays: 180, semantic: 'preferred' },
 
         // Diagnosis treated by Medication
-        { fromType: 'diagnosis', toType: 'medication', relationType: 'treated_by', priority: 7 },
+        { fromType: 'diagnosis', toType: 'medication', relationType: 'treated_by', priority: 7, maxDays: 180, semantic: 'required' },
 
         // Diagnosis followed by Follow-up
-        { fromType: 'diagnosis', toType: 'follow_up', relationType: 'followed_by', priority: 6 },
+        { fromType: 'diagnosis', toType: 'follow_up', relationType: 'followed_by', priority: 6, maxDays: 180, semantic: 'ignored' },
 
         // Medication monitored by Follow-up
-        { fromType: 'medication', toType: 'follow_up', relationType: 'monitors', priority: 5 },
+        { fromType: 'medication', toType: 'follow_up', relationType: 'monitors', priority: 5, maxDays: 120, semantic: 'ignored' },
 
         // Treatment followed by Follow-up
-        { fromType: 'treatment', toType: 'follow_up', relationType: 'followed_by', priority: 5 }
+        { fromType: 'treatment', toType: 'follow_up', relationType: 'followed_by', priority: 5, maxDays: 120, semantic: 'ignored' }
     ];
 
+    getRules(): EdgeRule[] {
+        return this.edgeRules.map(rule => ({ ...rule }));
+    }
+
+    private resolveRules(overrides: EdgeConstructionOptions['rules'] = []): EdgeRule[] {
+        return this.edgeRules.map(rule => {
+            const override = overrides.find(o => o.fromType === rule.fromType && o.toType === rule.toType);
+            return override ? { ...rule, ...override } : rule;
+        });
+    }
+
     /**
-     * Construct edges based on event types and temporal proximity
-     * Rules: Symptom → Investigation → Diagnosis → Treatment/Medication → Follow-up
+     * Condition pathways an event belongs to, used for semantic matching.
+     * Diagnoses resolve by name and code; everything else by pathway step criteria.
      */
-    async constructEdges(patientId: string, newEventIds?: string[]): Promise<string[]> {
-        console.log(`🔗 [EdgeConstruction] Building edges for patient ${patientId}`);
+    private relatedConditions(event: GraphEvent): Set<string> {
+        const related = new Set(conditionPathwayRegistry.findRelated(event.event_name).map(p => p.id));
 
-        const createdEdgeIds: string[] = [];
+        if (event.event_type === 'diagnosis') {
+            const code = event.metadata?.diagnosis_code;
+            const resolved = conditionPathwayRegistry.resolve(event.event_name, typeof code === 'string' ? [code] : []);
+            if (resolved) related.add(resolved.id);
+        }
+
+        return related;
+    }
+
+    /**
+     * Score a candidate pair against a rule. Returns null if the pair must not be linked.
+     */
+    private scorePair(
+        rule: EdgeRule,
+        fromEvent: GraphEvent,
+        toEvent: GraphEvent,
+        conditions: Map<string, Set<string>>
+    ): { confidence: number; evidence_score: number; evidence: EdgeEvidence } | null {
+        // Only create edges forward in time
+        if (!fromEvent.event_date || !toEvent.event_date) return null;
+        const daysDiff = (new Date(toEvent.event_date).getTime() - new Date(fromEvent.event_date).getTime()) / DAY_MS;
+        if (daysDiff < 0 || daysDiff > rule.maxDays) return null;
+
+        // Confidence decreases with temporal distance, down to 0.6 at the edge of the window
+        const temporal = 1 - 0.4 * (daysDiff / rule.maxDays);
+
+        const fromConditions = conditions.get(fromEvent.id) || new Set<string>();
+        const toConditions = conditions.get(toEvent.id) || new Set<string>();
+        const shared = [...fromConditions].filter(c => toConditions.has(c));
+        const classified = fromConditions.size > 0 && toConditions.size > 0;
+
+        let semantic = 1;
+        if (rule.semantic === 'required') {
+            if (shared.length === 0) return null;
+        } else if (rule.semantic === 'preferred' && shared.length === 0) {
+            semantic = classified ? UNRELATED_SEMANTIC_SCORE : UNCLASSIFIED_SEMANTIC_SCORE;
+        }
+
+        const eventConfidence = ((fromEvent.confidence ?? 1) + (toEvent.confidence ?? 1)) / 2;
+        const confidence = rule.priority / 10 * temporal;
+
+        return {
+            confidence: round(confidence),
+            evidence_score: round(confidence * semantic * eventConfidence),
+            evidence: {
+                rule: `${rule.fromType}->${rule.toType}`,
+                days_apart: Math.round(daysDiff),
+                temporal: round(temporal),
+                semantic: round(semantic),
+                event_confidence: round(eventConfidence),
+                shared_conditions: shared
+            }
+        };
+    }
+
+    /**
+     * Load the events to evaluate. With newEventIds, only the new events plus the
+     * counterpart events that could pair with them (by type and within the widest
+     * rule window) are fetched, instead of the patient's full history.
+     */
+    private async loadEvents(
+        patientId: string,
+        rules: EdgeRule[],
+        newEventIds?: string[]
+    ): Promise<{ events: GraphEvent[]; newIds: Set<string> | null }> {
+        if (!newEventIds) {
+            const events = await fetchAllRows<GraphEvent>((from, to) => supabase
+                .from('clinical_events')
+                .select(EVENT_COLUMNS)
+                .eq('patient_id', patientId)
+                .order('event_date', { ascending: true })
+                .range(from, to));
+            return { events, newIds: null };
+        }
 
-        // Fetch all events for this patient
-        const { data: allEvents, error: eventsError } = await supabase
+        const newEvents: GraphEvent[] = [];
+        for (const ids of chunk(newEventIds, ID_CHUNK_SIZE)) {
+            const { data, error } = await supabase
+                .from('clinical_events')
+                .select(EVENT_COLUMNS)
+                .eq('patient_id', patientId)
+                .in('id', ids);
+            if (error) throw error;
+            newEvents.push(...((data || []) as GraphEvent[]));
+        }
+
+        const newIds = new Set(newEvents.map(e => e.id));
+        const dated = newEvents.filter(e => e.event_date).map(e => new Date(e.event_date as string).getTime());
+        if (dated.length === 0) return { events: newEvents, newIds };
+
+        // Counterpart types and the widest window among rules touching the new events
+        const newTypes = new Set(newEvents.map(e => e.event_type));
+        const counterpartTypes = new Set<string>();
+        let window = 0;
+        for (const rule of rules) {
+            if (newTypes.has(rule.fromType)) counterpartTypes.add(rule.toType);
+            if (newTypes.has(rule.toType)) counterpartTypes.add(rule.fromType);
+            if (newTypes.has(rule.fromType) || newTypes.has(rule.toType)) window = Math.max(window, rule.maxDays);
+        }
+        if (counterpartTypes.size === 0) return { events: newEvents, newIds };
+
+        const toDate = (ms: number) => new Date(ms).toISOString().split('T')[0];
+        const lowerBound = toDate(Math.min(...dated) - window * DAY_MS);
+        const upperBound = toDate(Math.max(...dated) + window * DAY_MS);
+
+        const counterparts = await fetchAllRows<GraphEvent>((from, to) => supabase
             .from('clinical_events')
-            .select('id, event_type, event_name, event_date, confidence')
+            .select(EVENT_COLUMNS)
             .eq('patient_id', patientId)
-            .order('event_date', { ascending: true });
+            .in('event_type', [...counterpartTypes])
+            .gte('event_date', lowerBound)
+            .lte('event_date', upperBound)
+            .order('event_date', { ascending: true })
+            .range(from, to));
+
+        const events = [...newEvents, ...counterparts.filter(e => !newIds.has(e.id))];
+        return { events, newIds };
+    }
 
-        if (eventsError) {
+    /**
+     * Compute the edges the rules engine would create for a patient, without writing anything.
+     * Used directly as a dry run for tuning rules against real patients.
+     * With newEventIds, only pairs involving at least one new event are evaluated.
+     */
+    async proposeEdges(patientId: string, options: EdgeConstructionOptions = {}): Promise<ProposedEdge[]> {
+        const rules = this.resolveRules(options.rules);
+        const minScore = options.minEvidenceScore ?? DEFAULT_MIN_EVIDENCE_SCORE;
+
+        let loaded: { events: GraphEvent[]; newIds: Set<string> | null };
+        try {
+            loaded = await this.loadEvents(patientId, rules, options.newEventIds);
+        } catch (eventsError) {
             console.error(`❌ [EdgeConstruction] Failed to fetch events:`, eventsError);
             return [];
         }
 
-        if (!allEvents || allEvents.length === 0) {
+        const { events, newIds } = loaded;
+        if (events.length === 0) {
             console.log(`⚠️ [EdgeConstruction] No events found for patient`);
             return [];
         }
 
-        console.log(`📦 [EdgeConstruction] Found ${allEvents.length} events to link`);
+        console.log(newIds
+            ? `📦 [EdgeConstruction] Evaluating ${newIds.size} new events against ${events.length - newIds.size} candidates`
+            : `📦 [EdgeConstruction] Found ${events.length} events to link`);
 
-        // For each rule, find matching event pairs
-        for (const rule of this.edgeRules) {
-            const fromEvents = allEvents.filter(e => e.event_type === rule.fromType);
-            const toEvents = allEvents.filter(e => e.event_type === rule.toType);
+        const conditions = new Map(events.map(e => [e.id, this.relatedConditions(e)]));
+        const proposed: ProposedEdge[] = [];
 
-            console.log(`  Applying rule: ${rule.fromType} → ${rule.toType} (${rule.relationType})`);
-            console.log(`    From: ${fromEvents.length} events, To: ${toEvents.length} events`);
+        // For each rule, find matching event pairs
+        for (const rule of rules) {
+            const fromEvents = events.filter(e => e.event_type === rule.fromType);
+            const toEvents = events.filter(e => e.event_type === rule.toType);
+            let ruleCount = 0;
 
-            // Match events by temporal proximity
             for (const fromEvent of fromEvents) {
                 for (const toEvent of toEvents) {
-                    // Only create edges forward in time
-                    if (!fromEvent.event_date || !toEvent.event_date) continue;
-                    if (new Date(fromEvent.event_date) > new Date(toEvent.event_date)) continue;
-
-                    // Calculate temporal proximity (prefer same report date or close dates)
-                    const daysDiff = Math.abs(
-                        (new Date(toEvent.event_date).getTime() - new Date(fromEvent.event_date).getTime()) /
-                        (1000 * 60 * 60 * 24)
-                    );
-
-                    // Only create edge if within 365 days (reasonable clinical window)
-                    if (daysDiff > 365) continue;
-
-                    // Confidence decreases with temporal distance
-                    const confidenceDecay = Math.max(0.5, 1 - daysDiff / 365);
-                    const edgeConfidence = rule.priority / 10 * confidenceDecay;
-
-                    try {
-                        const { data, error } = await supabase
-                            .from('clinical_event_edges')
-                            .insert({
-                                id: uuidv4(),
-                                patient_id: patientId,
-                                from_event_id: fromEvent.id,
-                                to_event_id: toEvent.id,
-                                relation_type: rule.relationType,
-                                confidence: edgeConfidence
-                            })
-                            .select('id');
-
-                        if (error) {
-                            if (error.code !== '23505') { // Ignore UNIQUE constraint violations
-                                console.warn(`⚠️ [EdgeConstruction] Error creating edge: ${error.message}`);
-                            }
-                        } else if (data && data.length > 0) {
-                            createdEdgeIds.push(data[0].id);
-                            console.log(`    ✓ ${fromEvent.event_name} → ${toEvent.event_name}`);
-                        }
-                    } catch (e) {
-                        console.error(`❌ [EdgeConstruction] Failed to create edge:`, e);
-                    }
+                    // Incremental mode: pairs between two existing events were evaluated before
+                    if (newIds && !newIds.has(fromEvent.id) && !newIds.has(toEvent.id)) continue;
+
+                    const scored = this.scorePair(rule, fromEvent, toEvent, conditions);
+                    if (!scored || scored.evidence_score < minScore) continue;
+
+                    proposed.push({
+                        from_event_id: fromEvent.id,
+                        to_event_id: toEvent.id,
+                        from_event_name: fromEvent.event_name,
+                        to_event_name: toEvent.event_name,
+                        relation_type: rule.relationType,
+                        ...scored
+                    });
+                    ruleCount++;
+                }
+            }
+
+            console.log(`  Rule ${rule.fromType} → ${rule.toType} (${rule.relationType}, ≤${rule.maxDays}d): ${ruleCount} edges`);
+        }
+
+        return proposed;
+    }
+
+    /**
+     * Construct edges based on event types, temporal windows and semantic relatedness
+     * Rules: Symptom → Investigation → Diagnosis → Treatment/Medication → Follow-up
+     *
+     * Pass newEventIds to link only the events a report just created. Writes are
+     * idempotent: edges that already exist are left untouched, so re-processing a
+     * report never duplicates them. Returns the ids of newly created edges.
+     */
+    async constructEdges(patientId: string, newEventIds?: string[], options: EdgeConstructionOptions = {}): Promise<string[]> {
+        if (newEventIds && newEventIds.length === 0) {
+            console.log(`ℹ️ [EdgeConstruction] No new events for patient ${patientId}, skipping`);
+            return [];
+        }
+
+        console.log(`🔗 [EdgeConstruction] Building edges for patient ${patientId}${newEventIds ? ` (incremental, ${newEventIds.length} new events)` : ''}`);
+
+        const createdEdgeIds: string[] = [];
+        const proposed = await this.proposeEdges(patientId, { ...options, newEventIds });
+
+        for (const batch of chunk(proposed, INSERT_BATCH_SIZE)) {
+            try {
+                const { data, error } = await supabase
+                    .from('clinical_event_edges')
+                    .upsert(batch.map(edge => ({
+                        id: uuidv4(),
+                        patient_id: patientId,
+                        from_event_id: edge.from_event_id,
+                        to_event_id: edge.to_event_id,
+                        relation_type: edge.relation_type,
+                        confidence: edge.confidence,
+                        evidence_score: edge.evidence_score,
+                        evidence: edge.evidence
+                    })), { onConflict: 'from_event_id,to_event_id,relation_type', ignoreDuplicates: true })
+                    .select('id');
+
+                if (error) {
+                    console.warn(`⚠️ [EdgeConstruction] Error creating edges: ${error.message}`);
+                } else if (data) {
+                    createdEdgeIds.push(...data.map((row: any) => row.id));
                 }
+            } catch (e) {
+                console.error(`❌ [EdgeConstruction] Failed to create edges:`, e);
             }
         }
 
-        console.log(`✅ [EdgeConstruction] Created ${createdEdgeIds.length} edges`);
+        console.log(`✅ [EdgeConstruction] Created ${createdEdgeIds.length} edges (${proposed.length - createdEdgeIds.length} already existed)`);
         return createdEdgeIds;
     }
 
+    /**
+     * Remove edges whose endpoints no longer exist or belong to another patient.
+     * Runs for one patient, or across all patients when patientId is omitted.
+     */
+    async reconcileEdges(patientId?: string): Promise<number> {
+        console.log(`🧹 [EdgeConstruction] Reconciling edges${patientId ? ` for patient ${patientId}` : ''}`);
+
+        let edges: Array<{ id: string; patient_id: string; from_event_id: string; to_event_id: string }>;
+        try {
+            edges = await fetchAllRows((from, to) => {
+                let query = supabase
+                    .from('clinical_event_edges')
+                    .select('id, patient_id, from_event_id, to_event_id')
+                    .order('id', { ascending: true });
+                if (patientId) query = query.eq('patient_id', patientId);
+                return query.range(from, to);
+            });
+        } catch (fetchError) {
+            console.error(`❌ [EdgeConstruction] Failed to fetch edges:`, fetchError);
+            return 0;
+        }
+
+        if (edges.length === 0) return 0;
+
+        // Look up which endpoints still exist, and whose they are
+        const endpointIds = [...new Set(edges.flatMap(e => [e.from_event_id, e.to_event_id]))];
+        const eventOwners = new Map<string, string>();
+        for (const ids of chunk(endpointIds, ID_CHUNK_SIZE)) {
+            const { data, error } = await supabase
+                .from('clinical_events')
+                .select('id, patient_id')
+                .in('id', ids);
+            if (error) {
+                console.error(`❌ [EdgeConstruction] Failed to fetch edge endpoints:`, error);
+                return 0;
+            }
+            (data || []).forEach((e: any) => eventOwners.set(e.id, e.patient_id));
+        }
+
+        const orphanIds = edges
+            .filter(e => eventOwners.get(e.from_event_id) !== e.patient_id || eventOwners.get(e.to_event_id) !== e.patient_id)
+            .map(e => e.id);
+
+        let removed = 0;
+        for (const ids of chunk(orphanIds, ID_CHUNK_SIZE)) {
+            const { error } = await supabase
+                .from('clinical_event_edges')
+                .delete()
+                .in('id', ids);
+            if (error) {
+                console.error(`❌ [EdgeConstruction] Failed to delete orphaned edges:`, error);
+                continue;
+            }
+            removed += ids.length;
+        }
+
+        console.log(`✅ [EdgeConstruction] Removed ${removed} orphaned edges out of ${edges.length}`);
+        return removed;
+    }
+
     /**
      * Remove edges when a report is deleted (cleanup)
      */
@@ -0,0 +1,118 @@
+import { conditionPathwayRegistry } from './condition-pathways/ConditionPathwayRegistry';
+
+// Event types whose repeated mentions across reports describe one ongoing entity
+export const MERGEABLE_EVENT_TYPES = ['diagnosis', 'medication'];
+
+// Minimum bigram similarity for two canonical keys to be treated as the same entity
+const FUZZY_MATCH_THRESHOLD = 0.88;
+
+// Qualifiers that don't change which condition is meant ("k/c/o uncontrolled T2DM")
+const DIAGNOSIS_QUALIFIERS = [
+    'known case of', 'k/c/o', 'kco', 'h/o', 'history of', 'suspected', 'probable', 'likely',
+    'uncontrolled', 'controlled', 'well controlled', 'poorly controlled', 'newly diagnosed', 'new onset'
+];
+
+// Dosage forms and schedules that follow or precede a drug name ("Tab. Metformin 500mg SR BD")
+const MEDICATION_NOISE = [
+    'tab', 'tabs', 'tablet', 'tablets', 'cap', 'caps', 'capsule', 'capsules', 'syp', 'syrup', 'susp', 'suspension',
+    'inj', 'injection', 'drops', 'cream', 'ointment', 'gel', 'inhaler', 'puff', 'puffs', 'sachet',
+    'sr', 'xr', 'er', 'xl', 'cr', 'mr', 'dr', 'od', 'bd', 'bid', 'tds', 'tid', 'qid', 'hs', 'sos', 'prn', 'stat',
+    'once', 'twice', 'daily', 'weekly', 'morning', 'night', 'after', 'before', 'food', 'meals', 'oral'
+];
+
+const STRENGTH_PATTERN = /\b\d+(\.\d+)?\s*(mg|mcg|µg|g|gm|ml|iu|units?|%)(\s*\/\s*\d*\s*(ml|g|dose))?\b/gi;
+
+export interface CanonicalEvent {
+    key: string; // Normalized identity used for matching
+    displayName: string; // Preferred name to show for the merged event
+}
+
+const collapse = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const bigrams = (s: string): string[] => {
+    const compact = s.replace(/\s+/g, '');
+    const grams: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+    return grams;
+};
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (0..1)
+ */
+export function similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const aGrams = bigrams(a);
+    const bGrams = bigrams(b);
+    if (aGrams.length === 0 || bGrams.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    aGrams.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+
+    let overlap = 0;
+    for (const g of bGrams) {
+        const n = counts.get(g) || 0;
+        if (n > 0) {
+            overlap++;
+            counts.set(g, n - 1);
+        }
+    }
+    return (2 * overlap) / (aGrams.length + bGrams.length);
+}
+
+export class EventCanonicalizer {
+    /**
+     * Reduce an event name to a canonical identity.
+     * Diagnoses that are a known pathway condition (by code, name or synonym such as
+     * "T2DM") collapse onto that condition; medications are reduced to the drug name.
+     */
+    canonicalize(eventType: string, name: string, code?: string): CanonicalEvent {
+        if (eventType === 'diagnosis') return this.canonicalizeDiagnosis(name, code);
+        if (eventType === 'medication') return this.canonicalizeMedication(name);
+        return { key: collapse(name), displayName: name };
+    }
+
+    private canonicalizeDiagnosis(name: string, code?: string): CanonicalEvent {
+        let cleaned = name.toLowerCase().replace(/\([^)]*\)/g, ' ');
+        for (const qualifier of DIAGNOSIS_QUALIFIERS) {
+            cleaned = cleaned.split(qualifier).join(' ');
+        }
+        cleaned = collapse(cleaned);
+
+        const pathway = (code && conditionPathwayRegistry.findByCode(code)) ||
+            conditionPathwayRegistry.findExact(cleaned) ||
+            conditionPathwayRegistry.findExact(name);
+
+        if (pathway) {
+            return { key: `pathway:${pathway.id}`, displayName: pathway.condition };
+        }
+
+        return { key: cleaned || collapse(name), displayName: name.trim() };
+    }
+
+    private canonicalizeMedication(name: string): CanonicalEvent {
+        const tokens = collapse(name.replace(STRENGTH_PATTERN, ' '))
+            .split(' ')
+            .filter(t => t && !MEDICATION_NOISE.includes(t) && !/^\d+$/.test(t));
+
+        const key = tokens.join(' ') || collapse(name);
+        const displayName = key.replace(/\b[a-z]/g, c => c.toUpperCase());
+        return { key, displayName };
+    }
+
+    /**
+     * Whether two canonical keys refer to the same entity
+     */
+    isSameEntity(a: string, b: string): boolean {
+        if (a === b) return true;
+        // Pathway-resolved keys are exact identities; never fuzzy-match them
+        if (a.startsWith('pathway:') || b.startsWith('pathway:')) return false;
+
+        // Short or numeric tokens carry the meaning ("hepatitis b" vs "hepatitis c", "type 1" vs "type 2")
+        const discriminators = (s: string) => s.split(' ').filter(t => t.length <= 2 || /\d/.test(t)).sort().join(' ');
+        if (discriminators(a) !== discriminators(b)) return false;
+
+        return similarity(a, b) >= FUZZY_MATCH_THRESHOLD;
+    }
+}
+
+export const eventCanonicalizer = new EventCanonicalizer();
@@ -1,5 +1,7 @@
 import { supabase } from '../../lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
+import { eventCanonicalizer, MERGEABLE_EVENT_TYPES } from './EventCanonicalizer';
+import { labTerminologyService } from '../terminology/LabTerminologyService';
 
 export interface ExtractedEvent {
     event_type: 'symptom' | 'diagnosis' | 'investigation' | 'lab_result' | 'treatment' | 'medication' | 'follow_up';
@@ -7,8 +9,109 @@ export interface ExtractedEvent {
     event_date?: string;
     confidence?: number;
     metadata?: any;
+    medication_list?: MedicationListSource; // Medications only: the list they came from
 }
 
+/**
+ * The medication list a report carried. Only a prescription lists
+ * everything the patient should take; a discharge note or lab report may
+ * mention a single drug.
+ */
+export interface MedicationListSource {
+    full_list: boolean;
+    prescriber: string | null;
+}
+
+/**
+ * A diagnosis/medication event that repeated mentions across reports are merged into
+ */
+interface CanonicalEventRow {
+    id: string;
+    event_type: string;
+    event_name: string;
+    event_date: string | null;
+    canonical_key: string | null;
+    first_seen_date: string | null;
+    last_seen_date: string | null;
+    source_report_ids: string[] | null;
+    mention_count: number | null;
+    metadata: any;
+}
+
+const CANONICAL_EVENT_COLUMNS = 'id, event_type, event_name, event_date, canonical_key, first_seen_date, last_seen_date, source_report_ids, mention_count, metadata';
+
+const toTime = (d?: string | null) => {
+    const t = d ? new Date(d).getTime() : NaN;
+    return isNaN(t) ? null : t;
+};
+
+const earliestDate = (...dates: Array<string | null | undefined>) =>
+    dates.filter(d => toTime(d) !== null).sort((a, b) => toTime(a)! - toTime(b)!)[0] || null;
+
+const latestDate = (...dates: Array<string | null | undefined>) =>
+    dates.filter(d => toTime(d) !== null).sort((a, b) => toTime(b)! - toTime(a)!)[0] || null;
+
+/**
+ * What one report said about a medication. Kept per report on the canonical
+ * event so dose changes and discontinuations can be reconstructed later.
+ */
+export interface MedicationMention {
+    date: string | null;
+    report_id: string | null;
+    name: string;
+    dose: string | null;
+    frequency: string | null;
+    route: string | null;
+    status: string | null;
+    full_list?: boolean | null;     // Unknown for mentions recorded before lists were classified
+    prescriber?: string | null;
+}
+
+const medicationMention = (
+    date: string | null | undefined,
+    reportId: string | null,
+    name: string,
+    metadata: any = {},
+    list?: MedicationListSource
+): MedicationMention => ({
+    date: date || null,
+    report_id: reportId,
+    name,
+    dose: metadata.dose || null,
+    frequency: metadata.frequency || null,
+    route: metadata.route || null,
+    status: metadata.status || null,
+    full_list: list?.full_list ?? null,
+    prescriber: list?.prescriber ?? null
+});
+
+// Rows merged before mentions were recorded stand in as a single mention
+const withMentions = (row: CanonicalEventRow) => {
+    if (row.event_type !== 'medication' || Array.isArray(row.metadata?.mentions)) return row.metadata || {};
+    const alias = row.metadata?.aliases?.[0] || row.event_name;
+    return {
+        ...row.metadata,
+        mentions: [medicationMention(row.event_date, row.source_report_ids?.[0] || null, alias, row.metadata)]
+    };
+};
+
+// Merge metadata from a newer mention without letting missing fields erase known ones
+const mergeMetadata = (existing: any = {}, incoming: any = {}, alias?: string) => {
+    const defined = Object.fromEntries(Object.entries(incoming).filter(([, v]) => v !== undefined && v !== null && v !== ''));
+    const aliases = new Set<string>([...(existing.aliases || []), ...(incoming.aliases || [])]);
+    if (alias) aliases.add(alias);
+
+    const mentions: MedicationMention[] = [...(existing.mentions || []), ...(incoming.mentions || [])]
+        .filter((m, idx, all) => all.findIndex(o => o.report_id === m.report_id && o.name === m.name) === idx);
+
+    return {
+        ...existing,
+        ...defined,
+        aliases: Array.from(aliases),
+        ...(mentions.length > 0 ? { mentions } : {})
+    };
+};
+
 export class EventExtractionService {
     /**
      * Extract clinical events from parsed report JSON
@@ -63,6 +166,8 @@ export class EventExtractionService {
                 const paramName = param.name || param.parameter_name;
                 if (!paramName) continue;
 
+                const normalized = labTerminologyService.normalize(paramName, param.value, param.unit);
+
                 // Lab result event
                 events.push({
                     event_type: 'lab_result',
@@ -73,7 +178,10 @@ export class EventExtractionService {
                         value: param.value,
                         unit: param.unit,
                         status: param.status,
-                        normal_range: param.normal_range || param.reference_range
+                        normal_range: param.normal_range || param.reference_range,
+                        loinc_code: normalized.loincCode,
+                        normalized_value: normalized.value,
+                        normalized_unit: normalized.unit
                     }
                 });
 
@@ -96,6 +204,13 @@ export class EventExtractionService {
         // 3. Extract Medications
         // 3. Extract Medications
         if (data.medications && Array.isArray(data.medications)) {
+            const documentLabel = [parsedJson.metadata?.documentType, parsedJson.eventInfo?.eventTitle, parsedJson.type]
+                .filter(Boolean).join(' ').toLowerCase();
+            const medicationList: MedicationListSource = {
+                full_list: /prescription|\brx\b/.test(documentLabel),
+                prescriber: parsedJson.metadata?.provider || parsedJson.doctor_name || data.doctor_name || null
+            };
+
             for (const med of data.medications) {
                 const medName = typeof med === 'string' ? med : med.name || med.medication_name;
                 if (medName) {
@@ -107,8 +222,10 @@ export class EventExtractionService {
                         metadata: {
                             dose: med.dose,
                             frequency: med.frequency,
-                            route: med.route
-                        }
+                            route: med.route,
+                            status: med.status
+                        },
+                        medication_list: medicationList
                     });
                 }
             }
@@ -158,19 +275,132 @@ export class EventExtractionService {
         return events;
     }
 
+    private async loadCanonicalEvents(patientId: string): Promise<CanonicalEventRow[]> {
+        const { data, error } = await supabase
+            .from('clinical_events')
+            .select(CANONICAL_EVENT_COLUMNS)
+            .eq('patient_id', patientId)
+            .in('event_type', MERGEABLE_EVENT_TYPES)
+            .order('event_date', { ascending: true });
+
+        if (error) {
+            console.warn(`⚠️ [EventExtraction] Failed to load canonical events: ${error.message}`);
+            return [];
+        }
+
+        // Rows written before canonicalization have no key yet
+        return ((data || []) as CanonicalEventRow[]).map(row => ({
+            ...row,
+            canonical_key: row.canonical_key ||
+                eventCanonicalizer.canonicalize(row.event_type, row.event_name, row.metadata?.diagnosis_code).key
+        }));
+    }
+
+    /**
+     * Merge a diagnosis/medication mention into the patient's canonical event for it,
+     * or create that canonical event. Returns null when this report was already merged.
+     */
+    private async mergeOrCreateEvent(
+        patientId: string,
+        reportId: string | null,
+        event: ExtractedEvent,
+        canonicalEvents: CanonicalEventRow[]
+    ): Promise<string | null> {
+        const canonical = eventCanonicalizer.canonicalize(event.event_type, event.event_name, event.metadata?.diagnosis_code);
+        const incoming = event.event_type === 'medication'
+            ? { ...event.metadata, mentions: [medicationMention(event.event_date, reportId, event.event_name, event.metadata, event.medication_list)] }
+            : event.metadata;
+        const existing = canonicalEvents.find(e =>
+            e.event_type === event.event_type && eventCanonicalizer.isSameEntity(e.canonical_key as string, canonical.key)
+        );
+
+        if (!existing) {
+            const row: CanonicalEventRow = {
+                id: uuidv4(),
+                event_type: event.event_type,
+                event_name: canonical.displayName,
+                event_date: event.event_date || null,
+                canonical_key: canonical.key,
+                first_seen_date: event.event_date || null,
+                last_seen_date: event.event_date || null,
+                source_report_ids: reportId ? [reportId] : [],
+                mention_count: 1,
+                metadata: mergeMetadata({}, incoming, event.event_name)
+            };
+
+            const { error } = await supabase
+                .from('clinical_events')
+                .insert({
+                    ...row,
+                    patient_id: patientId,
+                    source_report_id: reportId,
+                    confidence: event.confidence || 1.0
+                });
+
+            if (error) {
+                console.warn(`⚠️ [EventExtraction] Duplicate or error on event ${event.event_name}: ${error.message}`);
+                return null;
+            }
+
+            canonicalEvents.push(row);
+            console.log(`  → Created event: ${row.event_name} (${event.event_type})`);
+            return row.id;
+        }
+
+        const sourceReportIds = existing.source_report_ids || [];
+        if (reportId && sourceReportIds.includes(reportId)) {
+            return null; // Re-processing the same report: nothing to merge
+        }
+
+        const firstSeen = earliestDate(existing.first_seen_date, existing.event_date, event.event_date);
+        const update = {
+            event_date: firstSeen,
+            canonical_key: existing.canonical_key,
+            first_seen_date: firstSeen,
+            last_seen_date: latestDate(existing.last_seen_date, existing.event_date, event.event_date),
+            source_report_ids: reportId ? [...sourceReportIds, reportId] : sourceReportIds,
+            mention_count: (existing.mention_count || 1) + 1,
+            metadata: mergeMetadata(withMentions(existing), incoming, event.event_name),
+            updated_at: new Date().toISOString()
+        };
+
+        const { error } = await supabase
+            .from('clinical_events')
+            .update(update)
+            .eq('id', existing.id);
+
+        if (error) {
+            console.warn(`⚠️ [EventExtraction] Failed to merge ${event.event_name} into ${existing.event_name}: ${error.message}`);
+            return null;
+        }
+
+        Object.assign(existing, update);
+        console.log(`  → Merged "${event.event_name}" into ${existing.event_name} (${update.mention_count} mentions)`);
+        return existing.id;
+    }
+
     /**
      * Persist extracted events to database
-     * Links each event back to the source report
+     * Links each event back to the source report. Diagnoses and medications are
+     * merged into one canonical event per condition/drug instead of one per report.
+     * reportId is null for events that did not come from a report (FHIR imports).
      */
     async persistEvents(
         patientId: string,
-        reportId: string,
+        reportId: string | null,
         events: ExtractedEvent[]
     ): Promise<string[]> {
         const createdEventIds: string[] = [];
+        const canonicalEvents = await this.loadCanonicalEvents(patientId);
 
         for (const event of events) {
             try {
+                if (MERGEABLE_EVENT_TYPES.includes(event.event_type)) {
+                    const eventId = await this.mergeOrCreateEvent(patientId, reportId, event, canonicalEvents);
+                    if (eventId) createdEventIds.push(eventId);
+                    continue;
+                }
+
                 // UNIQUE constraint prevents duplicates (patient, type, name, date)
                 const { data, error } = await supabase
                     .from('clinical_events')
@@ -202,6 +432,77 @@ export class EventExtractionService {
         return createdEventIds;
     }
 
+    /**
+     * Collapse diagnosis/medication events created before merging existed.
+     * The earliest event of each group survives and absorbs the others' dates,
+     * source reports and aliases; duplicates and their edges are deleted, so
+     * callers should rebuild edges for the patient afterwards.
+     */
+    async mergeDuplicateEvents(patientId: string): Promise<number> {
+        const canonicalEvents = await this.loadCanonicalEvents(patientId);
+        const groups: CanonicalEventRow[][] = [];
+
+        for (const event of canonicalEvents) {
+            const group = groups.find(g =>
+                g[0].event_type === event.event_type &&
+                eventCanonicalizer.isSameEntity(g[0].canonical_key as string, event.canonical_key as string)
+            );
+            if (group) group.push(event);
+            else groups.push([event]);
+        }
+
+        let removed = 0;
+
+        for (const [survivor, ...duplicates] of groups) {
+            if (duplicates.length === 0) continue;
+
+            const all = [survivor, ...duplicates];
+            const duplicateIds = duplicates.map(d => d.id);
+            const canonical = eventCanonicalizer.canonicalize(survivor.event_type, survivor.event_name, survivor.metadata?.diagnosis_code);
+            const firstSeen = earliestDate(...all.flatMap(e => [e.first_seen_date, e.event_date]));
+
+            const { error: edgeError } = await supabase
+                .from('clinical_event_edges')
+                .delete()
+                .or(`from_event_id.in.(${duplicateIds.join(',')}),to_event_id.in.(${duplicateIds.join(',')})`);
+
+            const { error: deleteError } = edgeError ? { error: edgeError } : await supabase
+                .from('clinical_events')
+                .delete()
+                .in('id', duplicateIds);
+
+            if (deleteError) {
+                console.warn(`⚠️ [EventExtraction] Failed to remove duplicates of ${survivor.event_name}: ${deleteError.message}`);
+                continue;
+            }
+
+            const { error: updateError } = await supabase
+                .from('clinical_events')
+                .update({
+                    event_name: canonical.displayName,
+                    event_date: firstSeen,
+                    canonical_key: survivor.canonical_key,
+                    first_seen_date: firstSeen,
+                    last_seen_date: latestDate(...all.flatMap(e => [e.last_seen_date, e.event_date])),
+                    source_report_ids: Array.from(new Set(all.flatMap(e => e.source_report_ids || []))),
+                    mention_count: all.reduce((sum, e) => sum + (e.mention_count || 1), 0),
+                    metadata: all.reduce((meta, e) => mergeMetadata(meta, withMentions(e), e.event_name), {}),
+                    updated_at: new Date().toISOString()
+                })
+                .eq('id', survivor.id);
+
+            if (updateError) {
+                console.warn(`⚠️ [EventExtraction] Failed to update merged event ${survivor.event_name}: ${updateError.message}`);
+            }
+
+            removed += duplicateIds.length;
+            console.log(`  → Merged ${duplicateIds.length} duplicates into ${canonical.displayName}`);
+        }
+
+        console.log(`✅ [EventExtraction] Removed ${removed} duplicate events for patient ${patientId}`);
+        return removed;
+    }
+
     /**
      * Full pipeline: extract + persist
      */
@@ -1,8 +1,6 @@
 
-import { ConditionPathway, PathwayStep } from './condition-pathways/hyperlipidemia';
-import { HyperlipidemiaPathway } from './condition-pathways/hyperlipidemia';
-import { Type2DiabetesPathway } from './condition-pathways/type2diabetes';
-import { HypertensionPathway } from './condition-pathways/hypertension';
+import { ConditionPathway, PathwayStep } from './condition-pathways/schema';
+import { conditionPathwayRegistry } from './condition-pathways/ConditionPathwayRegistry';
 
 import { supabase } from '../../lib/supabase';
 
@@ -11,12 +9,23 @@ const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
 
 export class PathwayProjectionService {
 
-    private getTemplate(condition: string): ConditionPathway | null {
-        const normCond = normalize(condition);
-        if (normCond.includes('hyperlipidemia') || normCond.includes('cholesterol')) return HyperlipidemiaPathway;
-        if (normCond.includes('diabetes')) return Type2DiabetesPathway;
-        if (normCond.includes('hypertension') || normCond.includes('bloodpressure')) return HypertensionPathway;
-        return null;
+    private async getTemplate(patientId: string, condition: string): Promise<ConditionPathway | null> {
+        const template = conditionPathwayRegistry.resolve(condition);
+        if (template) return template;
+
+        // Fall back to the codes recorded on the patient's matching diagnosis events
+        const { data: diagnoses } = await supabase
+            .from('clinical_events')
+            .select('metadata')
+            .eq('patient_id', patientId)
+            .eq('event_type', 'diagnosis')
+            .ilike('event_name', condition);
+
+        const codes = (diagnoses || [])
+            .map((d: any) => d.metadata?.diagnosis_code)
+            .filter((c: any): c is string => typeof c === 'string' && c.length > 0);
+
+        return codes.length > 0 ? conditionPathwayRegistry.resolve(condition, codes) : null;
     }
 
     /**
@@ -24,7 +33,7 @@ export class PathwayProjectionService {
      */
     async projectPathway(patientId: string, conditionName: string) {
         // 1. Get the template
-        const template = this.getTemplate(conditionName);
+        const template = await this.getTemplate(patientId, conditionName);
         if (!template) {
             console.warn(`⚠️ [PathwayProjection] No template found for condition: ${conditionName}`);
             return null; // Or return a generic/default graph
@@ -184,6 +193,8 @@ export class PathwayProjectionService {
         }
 
         return {
+            pathwayId: template.id,
+            version: template.version,
             condition: template.condition,
             steps: projectedSteps,
             edges: template.edges
@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { conditionPathwaySchema, ConditionPathway } from './schema';
+
+// Resolves to backend/pathways from both src/ and dist/
+const DEFAULT_DEFINITIONS_DIR = path.resolve(__dirname, '../../../../pathways');
+
+const DEFINITION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Terms this short ("htn", "ckd", "copd") only match as whole words
+const SHORT_TERM_LENGTH = 4;
+
+// Helper to normalize strings for comparison
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+const normalizeCode = (s: string) => s.toUpperCase().replace(/[^A-Z0-9]/g, '');
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const matchesTerm = (text: string, term: string): boolean => {
+    const normTerm = normalize(term);
+    if (!normTerm) return false;
+    return normTerm.length <= SHORT_TERM_LENGTH
+        ? new RegExp(`\\b${escapeRegExp(term.toLowerCase())}\\b`).test(text.toLowerCase())
+        : normalize(text).includes(normTerm);
+};
+
+export interface PathwaySummary {
+    id: string;
+    version: number;
+    condition: string;
+    synonyms: string[];
+    codes: { icd10: string[]; snomed: string[] };
+}
+
+export class ConditionPathwayRegistry {
+    private pathways = new Map<string, ConditionPathway>();
+    private loaded = false;
+
+    constructor(private definitionsDirs: string[]) { }
+
+    /**
+     * Load and validate all pathway definition files.
+     * Invalid files are logged and skipped; for duplicate ids the highest version wins.
+     */
+    load(): void {
+        this.pathways.clear();
+
+        for (const dir of this.definitionsDirs) {
+            if (!fs.existsSync(dir)) {
+                console.warn(`⚠️ [PathwayRegistry] Definitions directory not found: ${dir}`);
+                continue;
+            }
+
+            const files = fs.readdirSync(dir)
+                .filter(f => DEFINITION_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+                .sort();
+
+            for (const file of files) {
+                const filePath = path.join(dir, file);
+                try {
+                    const raw = fs.readFileSync(filePath, 'utf8');
+                    const parsed = path.extname(file).toLowerCase() === '.json' ? JSON.parse(raw) : YAML.parse(raw);
+                    const result = conditionPathwaySchema.safeParse(parsed);
+
+                    if (!result.success) {
+                        const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+                        console.error(`❌ [PathwayRegistry] Invalid definition ${file}: ${issues}`);
+                        continue;
+                    }
+
+                    const pathway = result.data;
+                    const existing = this.pathways.get(pathway.id);
+                    if (!existing || existing.version < pathway.version) {
+                        this.pathways.set(pathway.id, pathway);
+                    }
+                } catch (e: any) {
+                    console.error(`❌ [PathwayRegistry] Failed to load ${file}:`, e.message);
+                }
+            }
+        }
+
+        this.loaded = true;
+        console.log(`✅ [PathwayRegistry] Loaded ${this.pathways.size} condition pathways`);
+    }
+
+    private ensureLoaded() {
+        if (!this.loaded) this.load();
+    }
+
+    list(): PathwaySummary[] {
+        this.ensureLoaded();
+        return Array.from(this.pathways.values()).map(p => ({
+            id: p.id,
+            version: p.version,
+            condition: p.condition,
+            synonyms: p.synonyms,
+            codes: p.codes
+        }));
+    }
+
+    get(id: string): ConditionPathway | null {
+        this.ensureLoaded();
+        return this.pathways.get(id) || null;
+    }
+
+    /**
+     * Match an ICD-10 or SNOMED CT code.
+     * ICD-10 codes match by prefix, so "E11.65" resolves to a pathway coded "E11".
+     */
+    findByCode(code: string): ConditionPathway | null {
+        this.ensureLoaded();
+        const normCode = normalizeCode(code);
+        if (!normCode) return null;
+
+        const isSnomed = /^\d+$/.test(normCode);
+        const isIcd10 = /^[A-Z]\d{2}/.test(normCode);
+        if (!isSnomed && !isIcd10) return null;
+
+        let best: { pathway: ConditionPathway; length: number } | null = null;
+
+        for (const pathway of this.pathways.values()) {
+            if (isSnomed && pathway.codes.snomed.includes(normCode)) return pathway;
+            if (!isIcd10) continue;
+
+            // Most specific prefix wins ("E11.2" over "E11")
+            for (const icd of pathway.codes.icd10.map(normalizeCode)) {
+                if (normCode.startsWith(icd) && (!best || icd.length > best.length)) {
+                    best = { pathway, length: icd.length };
+                }
+            }
+        }
+        return best?.pathway || null;
+    }
+
+    /**
+     * Match a free-text condition name against pathway names and synonyms.
+     * Exact matches win; otherwise the pathway with the longest matching term is chosen.
+     */
+    findByName(condition: string): ConditionPathway | null {
+        this.ensureLoaded();
+        const normCond = normalize(condition);
+        if (!normCond) return null;
+
+        let best: { pathway: ConditionPathway; length: number } | null = null;
+
+        for (const pathway of this.pathways.values()) {
+            for (const term of [pathway.condition, ...pathway.synonyms]) {
+                const normTerm = normalize(term);
+                if (!normTerm) continue;
+                if (normTerm === normCond) return pathway;
+
+                if (matchesTerm(condition, term) && (!best || normTerm.length > best.length)) {
+                    best = { pathway, length: normTerm.length };
+                }
+            }
+        }
+
+        return best?.pathway || null;
+    }
+
+    /**
+     * Match a condition name only when it equals the pathway name or one of its synonyms
+     */
+    findExact(condition: string): ConditionPathway | null {
+        this.ensureLoaded();
+        const normCond = normalize(condition);
+        if (!normCond) return null;
+
+        for (const pathway of this.pathways.values()) {
+            if ([pathway.condition, ...pathway.synonyms].some(term => normalize(term) === normCond)) return pathway;
+        }
+        return null;
+    }
+
+    /**
+     * Find every pathway an event name is evidence for: the condition itself,
+     * or any step criteria ("metformin" is evidence for Type 2 Diabetes)
+     */
+    findRelated(eventName: string): ConditionPathway[] {
+        this.ensureLoaded();
+        if (!normalize(eventName)) return [];
+
+        return Array.from(this.pathways.values()).filter(pathway =>
+            [pathway.condition, ...pathway.synonyms].some(term => matchesTerm(eventName, term)) ||
+            pathway.steps.some(step => step.criteria?.some(keyword => matchesTerm(eventName, keyword)))
+        );
+    }
+
+    /**
+     * Resolve a pathway from a condition name (which may itself be a code) and any known codes
+     */
+    resolve(condition: string, codes: string[] = []): ConditionPathway | null {
+        for (const code of [condition, ...codes]) {
+            const byCode = this.findByCode(code);
+            if (byCode) return byCode;
+        }
+        return this.findByName(condition);
+    }
+}
+
+const extraDirs = (process.env.CONDITION_PATHWAYS_DIR || '')
+    .split(path.delimiter)
+    .filter(Boolean);
+
+export const conditionPathwayRegistry = new ConditionPathwayRegistry([DEFAULT_DEFINITIONS_DIR, ...extraDirs]);
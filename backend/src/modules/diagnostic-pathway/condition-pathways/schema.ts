@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas for condition pathway definition files
+ */
+
+export const pathwayStepSchema = z.object({
+    id: z.string().min(1),
+    label: z.string().min(1),
+    type: z.enum(['investigation', 'decision', 'treatment', 'follow_up', 'milestone']),
+    next: z.union([z.string(), z.array(z.string())]).optional(), // Single next step or array for branching
+    status: z.enum(['pending', 'completed', 'current', 'warning']).optional(),
+    description: z.string().optional(),
+    criteria: z.array(z.string().min(1)).optional() // Keywords to match against clinical events
+});
+
+export const conditionPathwaySchema = z
+    .object({
+        id: z.string().regex(/^[a-z0-9_]+$/, 'Pathway id must be lowercase snake_case'),
+        version: z.number().int().positive(),
+        condition: z.string().min(1),
+        source: z.string().optional(), // Guideline the pathway is derived from
+        synonyms: z.array(z.string().min(1)).default([]),
+        codes: z
+            .object({
+                icd10: z.array(z.string().regex(/^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/, 'Invalid ICD-10 code')).default([]),
+                snomed: z.array(z.string().regex(/^\d{6,18}$/, 'Invalid SNOMED CT concept id')).default([])
+            })
+            .default({}),
+        steps: z.array(pathwayStepSchema).min(1),
+        edges: z.array(z.tuple([z.string(), z.string()])) // [sourceId, targetId]
+    })
+    .superRefine((pathway, ctx) => {
+        const stepIds = new Set<string>();
+        pathway.steps.forEach((step, idx) => {
+            if (stepIds.has(step.id)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', idx, 'id'], message: `Duplicate step id "${step.id}"` });
+            }
+            stepIds.add(step.id);
+        });
+
+        pathway.edges.forEach(([source, target], idx) => {
+            if (!stepIds.has(source)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', idx, 0], message: `Unknown step "${source}"` });
+            }
+            if (!stepIds.has(target)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', idx, 1], message: `Unknown step "${target}"` });
+            }
+        });
+    });
+
+export type PathwayStep = z.infer<typeof pathwayStepSchema>;
+export type ConditionPathway = z.infer<typeof conditionPathwaySchema>;
@@ -0,0 +1,183 @@
+import { eventCanonicalizer } from '../diagnostic-pathway/EventCanonicalizer';
+import { interactionDataset, InteractionDatasetData, Severity, SEVERITIES } from './InteractionDataset';
+
+export type AlertType = 'drug_drug' | 'drug_allergy';
+
+export interface InteractionFinding {
+    alertKey: string; // Stable identity so re-checks don't raise the same alert twice
+    type: AlertType;
+    ruleId: string;
+    severity: Severity;
+    medication: string;
+    counterpart: string; // The other medication, or the allergy
+    effect: string;
+    management: string | null;
+}
+
+/**
+ * A medication name resolved against the dataset
+ */
+interface ResolvedDrug {
+    name: string;
+    key: string;
+    generics: string[];
+    classes: string[];
+}
+
+const collapse = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const containsWord = (text: string, word: string) => new RegExp(`\\b${escapeRegExp(word)}\\b`).test(text);
+
+export const severityRank = (severity: Severity) => SEVERITIES.indexOf(severity);
+
+export class InteractionChecker {
+    /**
+     * Map a free-text medication ("Tab. Ecosprin 75mg OD") to the generic
+     * names and classes it contains; combination products resolve to several.
+     */
+    resolveDrug(name: string, dataset: InteractionDatasetData): ResolvedDrug {
+        const key = eventCanonicalizer.canonicalize('medication', name).key;
+
+        // Longest synonyms first so "co trimoxazole" wins over shorter overlaps
+        let expanded = ` ${key} `;
+        for (const [synonym, generic] of Object.entries(dataset.synonyms).sort(([a], [b]) => b.length - a.length)) {
+            const term = collapse(synonym);
+            if (term && containsWord(expanded, term)) {
+                expanded = expanded.replace(new RegExp(`\\b${escapeRegExp(term)}\\b`, 'g'), ` ${collapse(generic)} `);
+            }
+        }
+
+        const generics = this.knownDrugs(dataset).filter(drug => containsWord(expanded, drug));
+        const classes = Object.entries(dataset.classes)
+            .filter(([, cls]) => cls.drugs.some(drug => generics.includes(collapse(drug))))
+            .map(([id]) => id);
+
+        return { name, key, generics, classes };
+    }
+
+    private knownDrugs(dataset: InteractionDatasetData): string[] {
+        const refs = [
+            ...Object.values(dataset.classes).flatMap(cls => cls.drugs),
+            ...dataset.interactions.flatMap(rule => rule.between),
+            ...dataset.allergies.flatMap(rule => rule.matches),
+            ...Object.values(dataset.synonyms).flatMap(generic => collapse(generic).split(' '))
+        ];
+        return Array.from(new Set(refs.filter(ref => !ref.startsWith('class:')).map(collapse)));
+    }
+
+    private matchesRef(drug: ResolvedDrug, ref: string): boolean {
+        return ref.startsWith('class:')
+            ? drug.classes.includes(ref.slice('class:'.length))
+            : drug.generics.includes(collapse(ref));
+    }
+
+    /**
+     * Drug–drug interactions among a medication list. With `focus`, only pairs
+     * involving at least one of those medications are reported.
+     */
+    checkInteractions(medications: string[], focus?: string[]): InteractionFinding[] {
+        const dataset = interactionDataset.get();
+        if (!dataset) return [];
+
+        const drugs = this.uniqueDrugs(medications, dataset);
+        const focusKeys = focus ? new Set(this.uniqueDrugs(focus, dataset).map(d => d.key)) : null;
+        const findings: InteractionFinding[] = [];
+
+        for (let i = 0; i < drugs.length; i++) {
+            for (let j = i + 1; j < drugs.length; j++) {
+                const [a, b] = [drugs[i], drugs[j]];
+                if (focusKeys && !focusKeys.has(a.key) && !focusKeys.has(b.key)) continue;
+
+                for (const rule of dataset.interactions) {
+                    const [x, y] = rule.between;
+                    const matched = (this.matchesRef(a, x) && this.matchesRef(b, y)) || (this.matchesRef(a, y) && this.matchesRef(b, x));
+                    if (!matched) continue;
+
+                    findings.push({
+                        alertKey: `drug_drug:${rule.id}:${[a.key, b.key].sort().join('|')}`,
+                        type: 'drug_drug',
+                        ruleId: rule.id,
+                        severity: rule.severity,
+                        medication: a.name,
+                        counterpart: b.name,
+                        effect: rule.effect,
+                        management: rule.management || null
+                    });
+                }
+            }
+        }
+
+        return findings;
+    }
+
+    /**
+     * Medications that conflict with recorded allergies. An allergy to an allergen
+     * class contraindicates its members and flags cross-reactive classes at the
+     * dataset's severity; an allergy naming an unclassified drug matches that drug only.
+     */
+    checkAllergies(medications: string[], allergies: string[]): InteractionFinding[] {
+        const dataset = interactionDataset.get();
+        if (!dataset) return [];
+
+        const drugs = this.uniqueDrugs(medications, dataset);
+        const findings: InteractionFinding[] = [];
+
+        for (const allergy of allergies.filter(a => collapse(a))) {
+            const allergyText = collapse(allergy);
+            const allergen = this.resolveDrug(allergy, dataset);
+            const rules = dataset.allergies.filter(rule =>
+                rule.synonyms.some(s => containsWord(allergyText, collapse(s))) ||
+                rule.matches.some(ref => this.matchesRef(allergen, ref))
+            );
+
+            for (const drug of drugs) {
+                const candidates: Array<{ ruleId: string; severity: Severity; effect: string }> = [];
+
+                for (const rule of rules) {
+                    if (rule.matches.some(ref => this.matchesRef(drug, ref))) {
+                        candidates.push({ ruleId: rule.id, severity: 'contraindicated', effect: `${drug.name} belongs to ${rule.allergen}, to which the patient is allergic.` });
+                    }
+                    for (const cross of rule.crossReactive) {
+                        if (this.matchesRef(drug, cross.target)) {
+                            candidates.push({ ruleId: rule.id, severity: cross.severity, effect: `Possible cross-reactivity with ${rule.allergen} allergy. ${cross.note || ''}`.trim() });
+                        }
+                    }
+                }
+
+                if (rules.length === 0 && (allergen.key === drug.key || allergen.generics.some(g => drug.generics.includes(g)))) {
+                    candidates.push({ ruleId: 'direct', severity: 'contraindicated', effect: `Patient is allergic to ${allergy}.` });
+                }
+
+                // Report only the most severe reason per medication and allergy
+                const match = candidates.sort((a, b) => severityRank(a.severity) - severityRank(b.severity))[0];
+                if (!match) continue;
+
+                findings.push({
+                    alertKey: `drug_allergy:${match.ruleId}:${drug.key}|${allergyText}`,
+                    type: 'drug_allergy',
+                    ruleId: match.ruleId,
+                    severity: match.severity,
+                    medication: drug.name,
+                    counterpart: allergy,
+                    effect: match.effect,
+                    management: match.severity === 'contraindicated' ? 'Do not administer; choose an alternative agent.' : 'Use with caution and monitor for hypersensitivity reactions.'
+                });
+            }
+        }
+
+        return findings;
+    }
+
+    // One entry per canonical drug
+    private uniqueDrugs(medications: string[], dataset: InteractionDatasetData): ResolvedDrug[] {
+        const drugs = new Map<string, ResolvedDrug>();
+        for (const name of medications) {
+            if (!name || !collapse(name)) continue;
+            const drug = this.resolveDrug(name, dataset);
+            if (!drugs.has(drug.key)) drugs.set(drug.key, drug);
+        }
+        return Array.from(drugs.values());
+    }
+}
+
+export const interactionChecker = new InteractionChecker();
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// Resolves to backend/interactions/dataset.json from both src/ and dist/
+const DEFAULT_DATASET_PATH = path.resolve(__dirname, '../../../interactions/dataset.json');
+
+export const SEVERITIES = ['contraindicated', 'major', 'moderate', 'minor'] as const;
+
+const severitySchema = z.enum(SEVERITIES);
+
+// A drug name ("warfarin") or a class reference ("class:nsaid")
+const drugRefSchema = z.string().min(1);
+
+export const interactionDatasetSchema = z
+    .object({
+        version: z.number().int().positive(),
+        source: z.string().optional(),
+        synonyms: z.record(z.string().min(1)).default({}), // Brand or alternate name -> generic name(s)
+        classes: z.record(
+            z.object({
+                label: z.string().min(1),
+                drugs: z.array(z.string().min(1)).min(1)
+            })
+        ),
+        interactions: z.array(
+            z.object({
+                id: z.string().regex(/^[a-z0-9_]+$/, 'Interaction id must be lowercase snake_case'),
+                between: z.tuple([drugRefSchema, drugRefSchema]),
+                severity: severitySchema,
+                effect: z.string().min(1),
+                management: z.string().optional()
+            })
+        ),
+        allergies: z.array(
+            z.object({
+                id: z.string().regex(/^[a-z0-9_]+$/, 'Allergy id must be lowercase snake_case'),
+                allergen: z.string().min(1),
+                synonyms: z.array(z.string().min(1)).default([]),
+                matches: z.array(drugRefSchema).min(1), // Drugs the allergy contraindicates outright
+                crossReactive: z
+                    .array(
+                        z.object({
+                            target: drugRefSchema,
+                            severity: severitySchema,
+                            note: z.string().optional()
+                        })
+                    )
+                    .default([])
+            })
+        )
+    })
+    .superRefine((dataset, ctx) => {
+        const checkRef = (ref: string, refPath: (string | number)[]) => {
+            if (ref.startsWith('class:') && !dataset.classes[ref.slice('class:'.length)]) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: refPath, message: `Unknown class "${ref}"` });
+            }
+        };
+
+        const ids = new Set<string>();
+        dataset.interactions.forEach((rule, idx) => {
+            if (ids.has(rule.id)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['interactions', idx, 'id'], message: `Duplicate interaction id "${rule.id}"` });
+            }
+            ids.add(rule.id);
+            rule.between.forEach((ref, side) => checkRef(ref, ['interactions', idx, 'between', side]));
+        });
+
+        dataset.allergies.forEach((allergy, idx) => {
+            allergy.matches.forEach((ref, i) => checkRef(ref, ['allergies', idx, 'matches', i]));
+            allergy.crossReactive.forEach((cross, i) => checkRef(cross.target, ['allergies', idx, 'crossReactive', i, 'target']));
+        });
+    });
+
+export type Severity = z.infer<typeof severitySchema>;
+export type InteractionDatasetData = z.infer<typeof interactionDatasetSchema>;
+export type InteractionRule = InteractionDatasetData['interactions'][number];
+export type AllergyRule = InteractionDatasetData['allergies'][number];
+
+/**
+ * Bundled offline drug–drug interaction and allergy-class dataset.
+ * Loaded lazily and validated once; an invalid dataset disables checking
+ * rather than raising alerts from half-parsed rules.
+ */
+export class InteractionDataset {
+    private data: InteractionDatasetData | null = null;
+    private loaded = false;
+
+    constructor(private datasetPath: string) { }
+
+    load(): void {
+        this.loaded = true;
+        this.data = null;
+
+        try {
+            const raw = JSON.parse(fs.readFileSync(this.datasetPath, 'utf8'));
+            const result = interactionDatasetSchema.safeParse(raw);
+
+            if (!result.success) {
+                const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+                console.error(`❌ [InteractionDataset] Invalid dataset ${this.datasetPath}: ${issues}`);
+                return;
+            }
+
+            this.data = result.data;
+            console.log(`✅ [InteractionDataset] Loaded v${this.data.version}: ${this.data.interactions.length} interactions, ${this.data.allergies.length} allergy classes`);
+        } catch (e: any) {
+            console.error(`❌ [InteractionDataset] Failed to load ${this.datasetPath}:`, e.message);
+        }
+    }
+
+    get(): InteractionDatasetData | null {
+        if (!this.loaded) this.load();
+        return this.data;
+    }
+}
+
+export const interactionDataset = new InteractionDataset(process.env.INTERACTION_DATASET_PATH || DEFAULT_DATASET_PATH);
@@ -0,0 +1,210 @@
+import { supabase } from '../../lib/supabase';
+import { medicationCoursesService } from '../timeline/medication-courses.service';
+import { interactionChecker, InteractionFinding, severityRank } from './InteractionChecker';
+
+export type AlertStatus = 'active' | 'acknowledged' | 'resolved';
+
+export interface MedicationAlert {
+    id: string;
+    patient_id: string;
+    alert_key: string;
+    alert_type: InteractionFinding['type'];
+    rule_id: string;
+    severity: InteractionFinding['severity'];
+    medication: string;
+    counterpart: string;
+    effect: string;
+    management: string | null;
+    status: AlertStatus;
+    source: string;
+    acknowledged_by: string | null;
+    acknowledged_at: string | null;
+    acknowledgement_note: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+// Profile medications are strings (voice, manual entry) or parsed report objects
+const medicationName = (med: any): string | null =>
+    typeof med === 'string' ? med : med?.name || med?.medication_name || med?.medication || null;
+
+export class MedicationAlertService {
+    /**
+     * Current medications and allergies for a patient: active medication courses
+     * plus the profile's medication list, and the profile's allergies
+     */
+    private async loadPatientContext(patientId: string) {
+        const [{ data: profile, error }, courses] = await Promise.all([
+            supabase
+                .from('user_profiles')
+                .select('allergies, medications')
+                .eq('user_id', patientId)
+                .maybeSingle(),
+            medicationCoursesService.getMedicationCourses(patientId).catch((e: any) => {
+                console.warn(`⚠️ [MedicationAlerts] Could not load medication courses: ${e.message}`);
+                return [];
+            })
+        ]);
+
+        if (error) {
+            console.warn(`⚠️ [MedicationAlerts] Could not load profile for ${patientId}: ${error.message}`);
+        }
+
+        const medications = [
+            ...courses.filter(c => c.status === 'active').map(c => c.name),
+            ...(Array.isArray(profile?.medications) ? profile!.medications.map(medicationName) : [])
+        ].filter((m): m is string => !!m);
+
+        const allergies = (Array.isArray(profile?.allergies) ? profile!.allergies : [])
+            .map((a: any) => (typeof a === 'string' ? a : a?.name || a?.allergen))
+            .filter(Boolean) as string[];
+
+        return { medications, allergies };
+    }
+
+    /**
+     * Check a patient's medications against each other and their allergies and
+     * raise alerts for new findings. Pass `newMedications` to check only pairs
+     * involving newly started drugs; without it, a full re-check also resolves
+     * active alerts whose medications are no longer current.
+     * Acknowledged alerts are never re-raised for the same drugs.
+     */
+    async checkPatient(patientId: string, newMedications?: string[], source: string = 'extraction'): Promise<MedicationAlert[]> {
+        const context = await this.loadPatientContext(patientId);
+        const medications = [...context.medications, ...(newMedications || [])];
+
+        const findings = [
+            ...interactionChecker.checkInteractions(medications, newMedications),
+            ...interactionChecker.checkAllergies(newMedications || medications, context.allergies)
+        ];
+
+        if (!newMedications) {
+            await this.resolveStaleAlerts(patientId, findings.map(f => f.alertKey));
+        }
+
+        if (findings.length === 0) return [];
+
+        const now = new Date().toISOString();
+
+        // A drug that was stopped and restarted brings its resolved alerts back
+        const { error: reopenError } = await supabase
+            .from('medication_alerts')
+            .update({ status: 'active', updated_at: now })
+            .eq('patient_id', patientId)
+            .eq('status', 'resolved')
+            .in('alert_key', findings.map(f => f.alertKey));
+
+        if (reopenError) {
+            console.warn(`⚠️ [MedicationAlerts] Failed to reopen resolved alerts: ${reopenError.message}`);
+        }
+
+        const { data, error } = await supabase
+            .from('medication_alerts')
+            .upsert(
+                findings.map(f => ({
+                    patient_id: patientId,
+                    alert_key: f.alertKey,
+                    alert_type: f.type,
+                    rule_id: f.ruleId,
+                    severity: f.severity,
+                    medication: f.medication,
+                    counterpart: f.counterpart,
+                    effect: f.effect,
+                    management: f.management,
+                    status: 'active',
+                    source,
+                    updated_at: now
+                })),
+                { onConflict: 'patient_id,alert_key', ignoreDuplicates: true }
+            )
+            .select('*');
+
+        if (error) throw error;
+
+        const raised = ((data || []) as MedicationAlert[])
+            .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+        if (raised.length > 0) {
+            console.log(`⚠️ [MedicationAlerts] Raised ${raised.length} alert(s) for patient ${patientId}`);
+        }
+        return raised;
+    }
+
+    /**
+     * Check medications created by report extraction
+     */
+    async checkNewEvents(patientId: string, eventIds: string[]): Promise<MedicationAlert[]> {
+        if (eventIds.length === 0) return [];
+
+        const { data, error } = await supabase
+            .from('clinical_events')
+            .select('event_name')
+            .in('id', eventIds)
+            .eq('event_type', 'medication');
+
+        if (error) throw error;
+        if (!data || data.length === 0) return [];
+
+        return this.checkPatient(patientId, data.map(e => e.event_name), 'extraction');
+    }
+
+    private async resolveStaleAlerts(patientId: string, currentKeys: string[]) {
+        let query = supabase
+            .from('medication_alerts')
+            .update({ status: 'resolved', updated_at: new Date().toISOString() })
+            .eq('patient_id', patientId)
+            .eq('status', 'active');
+
+        if (currentKeys.length > 0) {
+            query = query.not('alert_key', 'in', `(${currentKeys.map(k => `"${k}"`).join(',')})`);
+        }
+
+        const { error } = await query;
+        if (error) {
+            console.warn(`⚠️ [MedicationAlerts] Failed to resolve stale alerts: ${error.message}`);
+        }
+    }
+
+    /**
+     * Alerts for a patient, most severe first
+     */
+    async listAlerts(patientId: string, status?: AlertStatus): Promise<MedicationAlert[]> {
+        let query = supabase
+            .from('medication_alerts')
+            .select('*')
+            .eq('patient_id', patientId)
+            .order('created_at', { ascending: false });
+
+        if (status) query = query.eq('status', status);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return ((data || []) as MedicationAlert[])
+            .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+    }
+
+    /**
+     * Record that a patient or clinician has seen an alert
+     */
+    async acknowledge(patientId: string, alertId: string, userId: string, note?: string): Promise<MedicationAlert | null> {
+        const now = new Date().toISOString();
+        const { data, error } = await supabase
+            .from('medication_alerts')
+            .update({
+                status: 'acknowledged',
+                acknowledged_by: userId,
+                acknowledged_at: now,
+                acknowledgement_note: note || null,
+                updated_at: now
+            })
+            .eq('id', alertId)
+            .eq('patient_id', patientId)
+            .select('*')
+            .maybeSingle();
+
+        if (error) throw error;
+        return data as MedicationAlert | null;
+    }
+}
+
+export const medicationAlertService = new MedicationAlertService();
@@ -0,0 +1,186 @@
+import { labTestCatalog, LabTestDefinition } from './LabTestCatalog';
+
+// Synonyms this short ("k", "na", "hr") are ambiguous inside longer names and only match exactly
+const EXACT_ONLY_LENGTH = 2;
+
+const URINE_PATTERN = /\b(urine|urinary)\b/;
+
+/**
+ * A lab parameter as reported, together with its LOINC coding and its value
+ * in the test's canonical UCUM unit (null when the unit can't be converted)
+ */
+export interface NormalizedParameter {
+    code: string; // LOINC code, or a slug of the raw name when unmapped
+    loincCode: string | null;
+    displayName: string;
+    rawName: string;
+    rawValue: string;
+    rawUnit: string | null;
+    value: number | null;
+    unit: string | null;
+}
+
+const collapse = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Existing parameter_code convention for names without a LOINC mapping
+export const slugifyParameterName = (name: string) => name.toLowerCase().replace(/\s+/g, '_');
+
+/**
+ * Parse a reported value ("7.2", "<0.5", "1,50,000") to a number
+ */
+export const parseNumericValue = (value: unknown): number | null => {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const parsed = parseFloat(value.replace(/[<>≤≥=,\s]/g, ''));
+    return isNaN(parsed) ? null : parsed;
+};
+
+export class LabTerminologyService {
+    /**
+     * Find the catalog test for a free-text parameter name.
+     * Exact synonym matches win, then the longest synonym contained in the name;
+     * urine tests only match names that mention urine, and vice versa.
+     */
+    lookup(name: string): LabTestDefinition | null {
+        const catalog = labTestCatalog.get();
+        if (!catalog || !name) return null;
+
+        const withoutParens = collapse(name.replace(/\([^)]*\)/g, ' '));
+        const candidates = [collapse(name), withoutParens].filter(Boolean);
+        const isUrine = URINE_PATTERN.test(collapse(name));
+        const tests = catalog.tests.filter(t => (t.specimen === 'urine') === isUrine);
+
+        for (const candidate of candidates) {
+            const exact = tests.find(t => t.synonyms.some(s => collapse(s) === candidate));
+            if (exact) return exact;
+        }
+
+        let best: { test: LabTestDefinition; length: number } | null = null;
+        for (const test of tests) {
+            for (const synonym of test.synonyms.map(collapse)) {
+                if (synonym.length <= EXACT_ONLY_LENGTH) continue;
+                const pattern = new RegExp(`\\b${escapeRegExp(synonym)}\\b`);
+                if (candidates.some(c => pattern.test(c)) && (!best || synonym.length > best.length)) {
+                    best = { test, length: synonym.length };
+                }
+            }
+        }
+
+        return best?.test || null;
+    }
+
+    /**
+     * Catalog tests named anywhere in a sentence ("how has my Hb changed?").
+     * Unlike lookup(), short abbreviations count when they stand as a word.
+     */
+    mentionedIn(text: string): LabTestDefinition[] {
+        const catalog = labTestCatalog.get();
+        if (!catalog || !text) return [];
+
+        const sentence = ` ${collapse(text)} `;
+        const isUrine = URINE_PATTERN.test(sentence);
+        return catalog.tests
+            .filter(t => (t.specimen === 'urine') === isUrine)
+            .filter(t => t.synonyms.some(s => collapse(s).length > 1 && sentence.includes(` ${collapse(s)} `)));
+    }
+
+    /**
+     * Map a free-text unit ("mg/dl", "µIU/mL", "lakhs/cumm") to its UCUM code
+     */
+    toUcum(unit?: string | null): string | null {
+        const catalog = labTestCatalog.get();
+        if (!catalog || !unit || !unit.trim()) return null;
+
+        const key = unit.trim().toLowerCase().replace(/\s*\/\s*/g, '/');
+        if (catalog.units[key]) return catalog.units[key];
+
+        // Already a UCUM code used by the catalog
+        const known = new Set([
+            ...Object.values(catalog.units),
+            ...catalog.tests.flatMap(t => [t.unit, ...Object.keys(t.conversions)])
+        ]);
+        return known.has(unit.trim()) ? unit.trim() : null;
+    }
+
+    /**
+     * Convert a value to the test's canonical unit. A missing unit is taken to be
+     * the canonical one; an unknown or unconvertible unit returns null.
+     */
+    convert(test: LabTestDefinition, value: number, unit?: string | null): number | null {
+        const ucum = unit && unit.trim() ? this.toUcum(unit) : test.unit;
+        if (!ucum) return null;
+        if (ucum === test.unit) return value;
+
+        const conversion = test.conversions[ucum];
+        if (!conversion) return null;
+
+        return Number((value * conversion.factor + conversion.offset).toPrecision(4));
+    }
+
+    /**
+     * Convert a canonical-unit value back to a reported unit (inverse of convert)
+     */
+    fromCanonical(test: LabTestDefinition, value: number, unit?: string | null): number | null {
+        const ucum = unit && unit.trim() ? this.toUcum(unit) : test.unit;
+        if (!ucum) return null;
+        if (ucum === test.unit) return value;
+
+        const conversion = test.conversions[ucum];
+        if (!conversion) return null;
+
+        return Number(((value - conversion.offset) / conversion.factor).toPrecision(4));
+    }
+
+    /**
+     * Code and normalize one reported parameter
+     */
+    normalize(name: string, value: unknown, unit?: string | null): NormalizedParameter {
+        const rawValue = value === null || value === undefined ? '' : String(value);
+        const numeric = parseNumericValue(value);
+        const test = this.lookup(name);
+
+        if (!test) {
+            return {
+                code: slugifyParameterName(name),
+                loincCode: null,
+                displayName: name,
+                rawName: name,
+                rawValue,
+                rawUnit: unit || null,
+                value: numeric,
+                unit: this.toUcum(unit) || unit || null
+            };
+        }
+
+        const converted = numeric === null ? null : this.convert(test, numeric, unit);
+
+        return {
+            code: test.loinc,
+            loincCode: test.loinc,
+            displayName: test.display,
+            rawName: name,
+            rawValue,
+            rawUnit: unit || null,
+            value: converted,
+            unit: converted === null ? null : test.unit
+        };
+    }
+
+    /**
+     * health_parameters columns for a normalized parameter
+     */
+    toParameterColumns(param: NormalizedParameter) {
+        return {
+            parameter_code: param.code,
+            loinc_code: param.loincCode,
+            raw_name: param.rawName,
+            raw_value: param.rawValue,
+            raw_unit: param.rawUnit,
+            normalized_value: param.value,
+            normalized_unit: param.unit
+        };
+    }
+}
+
+export const labTerminologyService = new LabTerminologyService();
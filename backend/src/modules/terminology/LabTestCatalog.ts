@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// Resolves to backend/terminology/lab-tests.json from both src/ and dist/
+const DEFAULT_CATALOG_PATH = path.resolve(__dirname, '../../../terminology/lab-tests.json');
+
+const conversionSchema = z.object({
+    factor: z.number().positive(), // canonical = raw * factor + offset
+    offset: z.number().default(0)
+});
+
+export const labTestCatalogSchema = z
+    .object({
+        version: z.number().int().positive(),
+        source: z.string().optional(),
+        units: z.record(z.string().min(1)), // Free-text unit (lowercase) -> UCUM code
+        tests: z.array(
+            z.object({
+                id: z.string().regex(/^[a-z0-9_]+$/, 'Test id must be lowercase snake_case'),
+                loinc: z.string().regex(/^\d{1,7}-\d$/, 'Invalid LOINC code'),
+                display: z.string().min(1),
+                unit: z.string().min(1), // Canonical UCUM unit
+                specimen: z.enum(['urine']).optional(), // Blood/serum unless stated
+                synonyms: z.array(z.string().min(1)).min(1),
+                conversions: z.record(conversionSchema).default({}) // UCUM unit -> canonical
+            })
+        )
+    })
+    .superRefine((catalog, ctx) => {
+        const seen = new Map<string, string>();
+        catalog.tests.forEach((test, idx) => {
+            for (const synonym of test.synonyms) {
+                const key = synonym.toLowerCase();
+                const owner = seen.get(key);
+                if (owner && owner !== test.id) {
+                    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tests', idx, 'synonyms'], message: `Synonym "${synonym}" already used by ${owner}` });
+                }
+                seen.set(key, test.id);
+            }
+        });
+    });
+
+export type LabTestCatalogData = z.infer<typeof labTestCatalogSchema>;
+export type LabTestDefinition = LabTestCatalogData['tests'][number];
+
+/**
+ * Bundled LOINC test catalog with UCUM unit aliases and conversion factors
+ */
+export class LabTestCatalog {
+    private data: LabTestCatalogData | null = null;
+    private loaded = false;
+
+    constructor(private catalogPath: string) { }
+
+    load(): void {
+        this.loaded = true;
+        this.data = null;
+
+        try {
+            const raw = JSON.parse(fs.readFileSync(this.catalogPath, 'utf8'));
+            const result = labTestCatalogSchema.safeParse(raw);
+
+            if (!result.success) {
+                const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+                console.error(`❌ [LabTestCatalog] Invalid catalog ${this.catalogPath}: ${issues}`);
+                return;
+            }
+
+            this.data = result.data;
+            console.log(`✅ [LabTestCatalog] Loaded v${this.data.version}: ${this.data.tests.length} tests`);
+        } catch (e: any) {
+            console.error(`❌ [LabTestCatalog] Failed to load ${this.catalogPath}:`, e.message);
+        }
+    }
+
+    get(): LabTestCatalogData | null {
+        if (!this.loaded) this.load();
+        return this.data;
+    }
+}
+
+export const labTestCatalog = new LabTestCatalog(process.env.LAB_TEST_CATALOG_PATH || DEFAULT_CATALOG_PATH);
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// Resolves to backend/terminology/reference-ranges.json from both src/ and dist/
+const DEFAULT_RANGES_PATH = path.resolve(__dirname, '../../../terminology/reference-ranges.json');
+
+const limitsSchema = z.object({
+    low: z.number().optional(),
+    high: z.number().optional()
+});
+
+// An interval applies when every criterion it sets matches; unset criteria match anyone
+const intervalSchema = limitsSchema
+    .extend({
+        sex: z.enum(['male', 'female']).optional(),
+        ageMin: z.number().nonnegative().optional(), // Years, inclusive
+        ageMax: z.number().positive().optional(), // Years, exclusive
+        pregnant: z.boolean().optional()
+    })
+    .refine(i => i.low !== undefined || i.high !== undefined, 'Interval needs a low or high limit');
+
+export const referenceRangeCatalogSchema = z
+    .object({
+        version: z.number().int().positive(),
+        source: z.string().optional(),
+        ranges: z.array(
+            z.object({
+                loinc: z.string().regex(/^\d{1,7}-\d$/, 'Invalid LOINC code'),
+                name: z.string().min(1),
+                intervals: z.array(intervalSchema).min(1),
+                critical: limitsSchema.optional()
+            })
+        )
+    })
+    .superRefine((catalog, ctx) => {
+        const seen = new Set<string>();
+        catalog.ranges.forEach((range, idx) => {
+            if (seen.has(range.loinc)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ranges', idx, 'loinc'], message: `Duplicate ranges for ${range.loinc}` });
+            }
+            seen.add(range.loinc);
+        });
+    });
+
+export type ReferenceRangeCatalogData = z.infer<typeof referenceRangeCatalogSchema>;
+export type ReferenceRangeDefinition = ReferenceRangeCatalogData['ranges'][number];
+export type ReferenceInterval = ReferenceRangeDefinition['intervals'][number];
+
+/**
+ * Bundled reference intervals by LOINC code, age band, sex and pregnancy,
+ * in the canonical unit of each test in the lab test catalog
+ */
+export class ReferenceRangeCatalog {
+    private data: ReferenceRangeCatalogData | null = null;
+    private byLoinc = new Map<string, ReferenceRangeDefinition>();
+    private loaded = false;
+
+    constructor(private rangesPath: string) { }
+
+    load(): void {
+        this.loaded = true;
+        this.data = null;
+        this.byLoinc.clear();
+
+        try {
+            const raw = JSON.parse(fs.readFileSync(this.rangesPath, 'utf8'));
+            const result = referenceRangeCatalogSchema.safeParse(raw);
+
+            if (!result.success) {
+                const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+                console.error(`❌ [ReferenceRangeCatalog] Invalid ranges ${this.rangesPath}: ${issues}`);
+                return;
+            }
+
+            this.data = result.data;
+            this.data.ranges.forEach(r => this.byLoinc.set(r.loinc, r));
+            console.log(`✅ [ReferenceRangeCatalog] Loaded v${this.data.version}: ${this.data.ranges.length} tests`);
+        } catch (e: any) {
+            console.error(`❌ [ReferenceRangeCatalog] Failed to load ${this.rangesPath}:`, e.message);
+        }
+    }
+
+    get(loinc: string): ReferenceRangeDefinition | null {
+        if (!this.loaded) this.load();
+        return this.byLoinc.get(loinc) || null;
+    }
+}
+
+export const referenceRangeCatalog = new ReferenceRangeCatalog(process.env.REFERENCE_RANGES_PATH || DEFAULT_RANGES_PATH);
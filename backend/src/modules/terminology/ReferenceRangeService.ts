@@ -0,0 +1,234 @@
+import { supabase } from '../../lib/supabase';
+import { labTestCatalog } from './LabTestCatalog';
+import { labTerminologyService, NormalizedParameter, parseNumericValue } from './LabTerminologyService';
+import { referenceRangeCatalog, ReferenceInterval, ReferenceRangeDefinition } from './ReferenceRangeCatalog';
+
+export type ParameterStatus = 'normal' | 'warning' | 'critical';
+
+// How a status was decided. 'llm' marks the model's own judgement, used only
+// when neither the lab's printed range nor a reference interval applies.
+export type StatusSource = 'lab_range' | 'reference_range' | 'llm' | 'default';
+
+export interface PatientDemographics {
+    ageYears: number | null;
+    sex: 'male' | 'female' | null;
+    pregnant: boolean;
+}
+
+export interface RangeEvaluation {
+    status: ParameterStatus;
+    statusSource: StatusSource;
+    // In the reported unit, so they sit next to the reported value
+    normalRangeMin: number | null;
+    normalRangeMax: number | null;
+    rangeSource: 'lab' | 'reference' | null;
+    referenceRangeText: string | null;
+}
+
+interface Limits {
+    low?: number;
+    high?: number;
+}
+
+// Age bands are only applied when the age is known; otherwise assume an adult
+const DEFAULT_AGE_YEARS = 30;
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const BETWEEN_PATTERN = new RegExp(`${NUMBER}\\s*(?:-|–|to)\\s*${NUMBER}`, 'i');
+const BELOW_PATTERN = new RegExp(`(?:<=?|≤|up\\s*to|less\\s+than|below)\\s*${NUMBER}`, 'i');
+const ABOVE_PATTERN = new RegExp(`(?:>=?|≥|more\\s+than|greater\\s+than|above)\\s*${NUMBER}`, 'i');
+
+/**
+ * Parse a printed reference range ("13.0 - 17.0 g/dL", "< 200", "Up to 40", "> 40")
+ */
+export const parsePrintedRange = (text?: string | null): Limits | null => {
+    if (!text || typeof text !== 'string') return null;
+
+    const between = text.match(BETWEEN_PATTERN);
+    if (between) {
+        const [low, high] = [parseFloat(between[1]), parseFloat(between[2])];
+        return low <= high ? { low, high } : null;
+    }
+
+    const below = text.match(BELOW_PATTERN);
+    if (below) return { high: parseFloat(below[1]) };
+
+    const above = text.match(ABOVE_PATTERN);
+    if (above) return { low: parseFloat(above[1]) };
+
+    return null;
+};
+
+const normalizeSex = (value: unknown): PatientDemographics['sex'] => {
+    const sex = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (sex === 'm' || sex === 'male') return 'male';
+    if (sex === 'f' || sex === 'female') return 'female';
+    return null;
+};
+
+const ageOn = (dob: string, asOf: Date): number | null => {
+    const birth = new Date(dob);
+    if (isNaN(birth.getTime())) return null;
+    return (asOf.getTime() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+};
+
+const isOutside = (value: number, limits: Limits) =>
+    (limits.low !== undefined && value < limits.low) || (limits.high !== undefined && value > limits.high);
+
+// Status words the LLM (or a lab flag) may use, folded into our three levels
+const FALLBACK_STATUS: Record<string, ParameterStatus> = {
+    normal: 'normal',
+    warning: 'warning',
+    high: 'warning',
+    low: 'warning',
+    abnormal: 'warning',
+    borderline: 'warning',
+    critical: 'critical'
+};
+
+export class ReferenceRangeService {
+    /**
+     * Age, sex and pregnancy for a patient as of a measurement date. The profile
+     * wins; the patient details printed on the report fill its gaps.
+     */
+    async getDemographics(
+        userId: string,
+        asOf?: string | null,
+        reportProfile?: { age?: number | null; gender?: string | null } | null
+    ): Promise<PatientDemographics> {
+        let { data: profile, error } = await supabase
+            .from('user_profiles')
+            .select('*')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        // Clinic-registered patients have a patient_master record instead
+        if (!profile && !error) {
+            ({ data: profile, error } = await supabase
+                .from('patient_master')
+                .select('dob, gender:sex')
+                .eq('id', userId)
+                .maybeSingle());
+        }
+
+        if (error) {
+            console.warn(`⚠️ [ReferenceRanges] Could not load profile for ${userId}: ${error.message}`);
+        }
+
+        const asOfDate = asOf && !isNaN(new Date(asOf).getTime()) ? new Date(asOf) : new Date();
+        const ageYears = (profile?.dob ? ageOn(profile.dob, asOfDate) : null)
+            ?? (typeof profile?.age === 'number' ? profile.age : null)
+            ?? (typeof reportProfile?.age === 'number' ? reportProfile.age : null);
+
+        const pregnant = profile?.is_pregnant === true;
+        const sex = normalizeSex(profile?.gender) || normalizeSex(reportProfile?.gender) || (pregnant ? 'female' : null);
+
+        return { ageYears, sex, pregnant };
+    }
+
+    /**
+     * The interval that applies to a patient: the matching interval with the most
+     * criteria set, pregnancy outranking the rest. When the sex is unknown,
+     * sex-specific intervals are merged to the widest range so nothing normal for
+     * either sex is flagged.
+     */
+    selectInterval(definition: ReferenceRangeDefinition, demographics: PatientDemographics): Limits | null {
+        const age = demographics.ageYears ?? DEFAULT_AGE_YEARS;
+
+        const matches = definition.intervals.filter(i =>
+            (i.sex === undefined || demographics.sex === null || i.sex === demographics.sex) &&
+            (i.ageMin === undefined || age >= i.ageMin) &&
+            (i.ageMax === undefined || age < i.ageMax) &&
+            (i.pregnant === undefined || i.pregnant === demographics.pregnant)
+        );
+        if (matches.length === 0) return null;
+
+        const specificity = (i: ReferenceInterval) =>
+            (i.sex !== undefined ? 1 : 0) +
+            (i.ageMin !== undefined || i.ageMax !== undefined ? 1 : 0) +
+            (i.pregnant !== undefined ? 2 : 0);
+
+        const top = Math.max(...matches.map(specificity));
+        const best = matches.filter(i => specificity(i) === top);
+        if (best.length === 1 || demographics.sex !== null) return { low: best[0].low, high: best[0].high };
+
+        const lows = best.map(i => i.low);
+        const highs = best.map(i => i.high);
+        return {
+            low: lows.some(l => l === undefined) ? undefined : Math.min(...(lows as number[])),
+            high: highs.some(h => h === undefined) ? undefined : Math.max(...(highs as number[]))
+        };
+    }
+
+    /**
+     * Decide a parameter's status. The lab's printed range is used when one was
+     * extracted, then the reference interval for the patient; critical limits
+     * always apply to the normalized value. The LLM's status is only a fallback.
+     */
+    evaluate(
+        param: NormalizedParameter,
+        demographics: PatientDemographics,
+        options: { printedRange?: string | null; fallbackStatus?: string | null } = {}
+    ): RangeEvaluation {
+        const rawValue = parseNumericValue(param.rawValue);
+        const printed = parsePrintedRange(options.printedRange);
+        const referenceRangeText = typeof options.printedRange === 'string' ? options.printedRange : null;
+        const definition = param.loincCode ? referenceRangeCatalog.get(param.loincCode) : null;
+
+        const isCritical = param.value !== null && !!definition?.critical && isOutside(param.value, definition.critical);
+
+        if (printed && rawValue !== null) {
+            return {
+                status: isCritical ? 'critical' : isOutside(rawValue, printed) ? 'warning' : 'normal',
+                statusSource: 'lab_range',
+                normalRangeMin: printed.low ?? null,
+                normalRangeMax: printed.high ?? null,
+                rangeSource: 'lab',
+                referenceRangeText
+            };
+        }
+
+        const interval = definition ? this.selectInterval(definition, demographics) : null;
+        const test = param.loincCode ? labTestCatalog.get()?.tests.find(t => t.loinc === param.loincCode) : null;
+
+        if (interval && test && param.value !== null) {
+            const toReported = (limit?: number) =>
+                limit === undefined ? null : labTerminologyService.fromCanonical(test, limit, param.rawUnit);
+
+            return {
+                status: isCritical ? 'critical' : isOutside(param.value, interval) ? 'warning' : 'normal',
+                statusSource: 'reference_range',
+                normalRangeMin: toReported(interval.low),
+                normalRangeMax: toReported(interval.high),
+                rangeSource: 'reference',
+                referenceRangeText
+            };
+        }
+
+        const fallback = FALLBACK_STATUS[String(options.fallbackStatus || '').toLowerCase()];
+        return {
+            status: isCritical ? 'critical' : fallback || 'normal',
+            statusSource: isCritical ? 'reference_range' : fallback ? 'llm' : 'default',
+            normalRangeMin: printed?.low ?? null,
+            normalRangeMax: printed?.high ?? null,
+            rangeSource: printed ? 'lab' : null,
+            referenceRangeText
+        };
+    }
+
+    /**
+     * health_parameters columns for an evaluation
+     */
+    toParameterColumns(evaluation: RangeEvaluation) {
+        return {
+            status: evaluation.status,
+            status_source: evaluation.statusSource,
+            normal_range_min: evaluation.normalRangeMin,
+            normal_range_max: evaluation.normalRangeMax,
+            range_source: evaluation.rangeSource,
+            reference_range_text: evaluation.referenceRangeText
+        };
+    }
+}
+
+export const referenceRangeService = new ReferenceRangeService();
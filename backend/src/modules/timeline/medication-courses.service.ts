@@ -0,0 +1,309 @@
+import { supabase } from '../../lib/supabase';
+import { fhirGet, type FhirBundle } from '../../lib/fhirClient';
+import { getFhirPatientId } from '../../lib/fhir-sync/syncPatient';
+import { eventCanonicalizer } from '../diagnostic-pathway/EventCanonicalizer';
+import type { MedicationMention } from '../diagnostic-pathway/EventExtractionService';
+
+// MedicationRequest / report statuses that end a course
+const STOPPED_STATUSES = ['stopped', 'completed', 'cancelled', 'discontinued', 'entered-in-error'];
+
+const STRENGTH_PATTERN = /\d+(\.\d+)?\s*(mg|mcg|µg|g|gm|ml|iu|units?|%)(\s*\/\s*\d*\s*(ml|g|dose))?/i;
+
+/**
+ * One dated statement that a patient was (or was no longer) taking a drug
+ */
+export interface MedicationObservation {
+    key: string;
+    name: string;
+    date: string; // YYYY-MM-DD
+    dose: string | null;
+    frequency: string | null;
+    route: string | null;
+    stopped: boolean;
+    source: 'report' | 'fhir';
+    sourceId: string | null; // Report id or MedicationRequest id
+    prescriber: string | null;
+}
+
+export interface DoseChange {
+    date: string;
+    fromDose: string | null;
+    toDose: string | null;
+    fromFrequency: string | null;
+    toFrequency: string | null;
+    source: 'report' | 'fhir';
+}
+
+export interface MedicationCourse {
+    key: string;
+    name: string;
+    startDate: string;
+    endDate: string | null;
+    status: 'active' | 'stopped';
+    // 'explicit' when a source marked the drug stopped, 'inferred' when the same
+    // prescriber's next prescription omitted it
+    stopReason: 'explicit' | 'inferred' | null;
+    initialDose: string | null;
+    currentDose: string | null;
+    currentFrequency: string | null;
+    route: string | null;
+    lastSeenDate: string;
+    doseChanges: DoseChange[];
+    observationCount: number;
+    sources: Array<'report' | 'fhir'>;
+}
+
+/**
+ * A prescription, i.e. a report listing all the medications the patient
+ * should take. A drug its prescriber left out of a later prescription is
+ * taken to have been discontinued by that date.
+ */
+interface PrescriptionSnapshot {
+    date: string;
+    reportId: string;
+    prescriber: string | null;
+}
+
+const dateOnly = (d?: string | null): string | null => {
+    if (!d) return null;
+    const t = new Date(d);
+    return isNaN(t.getTime()) ? null : t.toISOString().split('T')[0];
+};
+
+// "5 mg" and "5mg" are the same dose; "OD" and "od" the same schedule
+const sameValue = (a: string | null, b: string | null) =>
+    (a || '').toLowerCase().replace(/\s+/g, '') === (b || '').toLowerCase().replace(/\s+/g, '');
+
+const strengthIn = (text?: string | null): string | null => text?.match(STRENGTH_PATTERN)?.[0].replace(/\s+/g, '') || null;
+
+export const medicationCoursesService = {
+    /**
+     * Build medication courses for a patient from extracted report mentions
+     * and FHIR MedicationRequests. Newest-started courses first.
+     */
+    async getMedicationCourses(patientId: string): Promise<MedicationCourse[]> {
+        const [reportObservations, fhirObservations] = await Promise.all([
+            this.loadReportObservations(patientId),
+            this.loadFhirObservations(patientId)
+        ]);
+
+        const courses = this.buildCourses(
+            [...reportObservations.observations, ...fhirObservations],
+            reportObservations.snapshots
+        );
+
+        console.log(`✅ [MedicationCourses] Built ${courses.length} courses for patient ${patientId}`);
+        return courses;
+    },
+
+    /**
+     * Medication mentions recorded on the patient's canonical medication events
+     */
+    async loadReportObservations(patientId: string) {
+        const { data, error } = await supabase
+            .from('clinical_events')
+            .select('id, event_name, event_date, canonical_key, source_report_ids, metadata')
+            .eq('patient_id', patientId)
+            .eq('event_type', 'medication');
+
+        if (error) throw error;
+
+        const observations: MedicationObservation[] = [];
+        const snapshots = new Map<string, PrescriptionSnapshot>();
+
+        for (const row of data || []) {
+            const key = row.canonical_key || eventCanonicalizer.canonicalize('medication', row.event_name).key;
+            const mentions: MedicationMention[] = Array.isArray(row.metadata?.mentions) && row.metadata.mentions.length > 0
+                ? row.metadata.mentions
+                : [{
+                    date: row.event_date,
+                    report_id: row.source_report_ids?.[0] || null,
+                    name: row.event_name,
+                    dose: row.metadata?.dose || null,
+                    frequency: row.metadata?.frequency || null,
+                    route: row.metadata?.route || null,
+                    status: row.metadata?.status || null
+                }];
+
+            for (const mention of mentions) {
+                const date = dateOnly(mention.date);
+                if (!date) continue;
+
+                observations.push({
+                    key,
+                    name: row.event_name,
+                    date,
+                    dose: mention.dose || strengthIn(mention.name),
+                    frequency: mention.frequency,
+                    route: mention.route,
+                    stopped: STOPPED_STATUSES.includes((mention.status || '').toLowerCase()),
+                    source: 'report',
+                    sourceId: mention.report_id,
+                    prescriber: mention.prescriber || null
+                });
+
+                // Discharge notes, lab reports etc. may mention a single drug; only
+                // prescriptions say what the patient should (no longer) take
+                if (mention.report_id && mention.full_list) {
+                    snapshots.set(mention.report_id, { date, reportId: mention.report_id, prescriber: mention.prescriber || null });
+                }
+            }
+        }
+
+        return { observations, snapshots: Array.from(snapshots.values()) };
+    },
+
+    /**
+     * MedicationRequests on the FHIR server. Missing FHIR mapping or an
+     * unreachable server only means courses are built from reports alone.
+     */
+    async loadFhirObservations(patientId: string): Promise<MedicationObservation[]> {
+        const fhirPatientId = await getFhirPatientId(patientId);
+        if (!fhirPatientId) return [];
+
+        const response = await fhirGet<FhirBundle>('MedicationRequest', {
+            subject: `Patient/${fhirPatientId}`,
+            _count: '500'
+        });
+
+        if (!response.ok || !response.data) {
+            console.warn(`⚠️ [MedicationCourses] Could not load MedicationRequests: ${response.error || response.status}`);
+            return [];
+        }
+
+        const observations: MedicationObservation[] = [];
+
+        for (const entry of response.data.entry || []) {
+            const resource: any = entry.resource;
+            if (resource?.resourceType !== 'MedicationRequest') continue;
+
+            const name = resource.medicationCodeableConcept?.text ||
+                resource.medicationCodeableConcept?.coding?.[0]?.display ||
+                resource.medicationReference?.display;
+            const date = dateOnly(resource.authoredOn || resource.meta?.lastUpdated);
+            if (!name || !date) continue;
+
+            const dosage = resource.dosageInstruction?.[0];
+            const doseQuantity = dosage?.doseAndRate?.[0]?.doseQuantity;
+
+            observations.push({
+                key: eventCanonicalizer.canonicalize('medication', name).key,
+                name: eventCanonicalizer.canonicalize('medication', name).displayName,
+                date,
+                dose: doseQuantity?.value !== undefined
+                    ? `${doseQuantity.value}${doseQuantity.unit || ''}`
+                    : strengthIn(dosage?.text) || strengthIn(name),
+                frequency: dosage?.timing?.code?.text || null,
+                route: dosage?.route?.text || null,
+                stopped: STOPPED_STATUSES.includes(resource.status),
+                source: 'fhir',
+                sourceId: resource.id || null,
+                prescriber: resource.requester?.display || null
+            });
+        }
+
+        return observations;
+    },
+
+    /**
+     * Walk each drug's observations in date order. The first observation starts
+     * a course, a changed dose or frequency is a titration, and a stopped status
+     * or omission from the same prescriber's later prescription ends it; a later
+     * mention starts a new course. Without a known prescriber no stop is inferred.
+     */
+    buildCourses(observations: MedicationObservation[], snapshots: PrescriptionSnapshot[]): MedicationCourse[] {
+        const byDrug = new Map<string, MedicationObservation[]>();
+        for (const obs of observations) {
+            const group = Array.from(byDrug.keys()).find(k => eventCanonicalizer.isSameEntity(k, obs.key)) || obs.key;
+            byDrug.set(group, [...(byDrug.get(group) || []), obs]);
+        }
+
+        const sortedSnapshots = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+        const courses: MedicationCourse[] = [];
+
+        for (const [key, drugObservations] of byDrug) {
+            drugObservations.sort((a, b) => a.date.localeCompare(b.date) || Number(a.stopped) - Number(b.stopped));
+            const drugReports = new Set(drugObservations.map(o => o.sourceId));
+            let course: MedicationCourse | null = null;
+            let prescriber: string | null = null; // Who last prescribed the open course
+
+            // Close the open course if its prescriber's next prescription left the drug out
+            const closeIfOmitted = (before: string | null) => {
+                if (!course || !prescriber) return;
+                const omittedIn = sortedSnapshots.find(s =>
+                    s.date > course!.lastSeenDate && (!before || s.date < before) && !drugReports.has(s.reportId)
+                    && sameValue(s.prescriber, prescriber)
+                );
+                if (omittedIn) {
+                    course.endDate = omittedIn.date;
+                    course.status = 'stopped';
+                    course.stopReason = 'inferred';
+                    course = null;
+                }
+            };
+
+            for (const obs of drugObservations) {
+                closeIfOmitted(obs.date);
+
+                if (!course) {
+                    if (obs.stopped) continue; // A stop with no known start
+                    prescriber = obs.prescriber;
+                    course = {
+                        key,
+                        name: obs.name,
+                        startDate: obs.date,
+                        endDate: null,
+                        status: 'active',
+                        stopReason: null,
+                        initialDose: obs.dose,
+                        currentDose: obs.dose,
+                        currentFrequency: obs.frequency,
+                        route: obs.route,
+                        lastSeenDate: obs.date,
+                        doseChanges: [],
+                        observationCount: 1,
+                        sources: [obs.source]
+                    };
+                    courses.push(course);
+                    continue;
+                }
+
+                course.observationCount++;
+                course.lastSeenDate = obs.date;
+                prescriber = obs.prescriber || prescriber;
+                if (!course.sources.includes(obs.source)) course.sources.push(obs.source);
+
+                if (obs.stopped) {
+                    course.endDate = obs.date;
+                    course.status = 'stopped';
+                    course.stopReason = 'explicit';
+                    course = null;
+                    continue;
+                }
+
+                const doseChanged = obs.dose && course.currentDose && !sameValue(obs.dose, course.currentDose);
+                const frequencyChanged = obs.frequency && course.currentFrequency && !sameValue(obs.frequency, course.currentFrequency);
+
+                if (doseChanged || frequencyChanged) {
+                    course.doseChanges.push({
+                        date: obs.date,
+                        fromDose: course.currentDose,
+                        toDose: obs.dose || course.currentDose,
+                        fromFrequency: course.currentFrequency,
+                        toFrequency: obs.frequency || course.currentFrequency,
+                        source: obs.source
+                    });
+                }
+
+                course.currentDose = obs.dose || course.currentDose;
+                course.currentFrequency = obs.frequency || course.currentFrequency;
+                course.initialDose = course.initialDose || obs.dose;
+                course.route = obs.route || course.route;
+            }
+
+            closeIfOmitted(null);
+        }
+
+        return courses.sort((a, b) => b.startDate.localeCompare(a.startDate));
+    }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { timelineService } from './timeline.service';
+import { medicationCoursesService } from './medication-courses.service';
 
 export const timelineController = {
     /**
@@ -24,6 +25,21 @@ export const timelineController = {
         }
     },
 
+    /**
+     * Get medication courses (start, dose changes, stop) for a patient
+     * GET /api/timeline/patient/:patientId/medication-courses
+     */
+    async getMedicationCourses(req: Request, res: Response) {
+        try {
+            const { patientId } = req.params;
+            const courses = await medicationCoursesService.getMedicationCourses(patientId);
+            res.json({ courses });
+        } catch (error: any) {
+            console.error('Error fetching medication courses:', error);
+            res.status(500).json({ error: error.message });
+        }
+    },
+
     /**
      * Get event details with clinical parameters and trends
      * GET /api/timeline/event/:eventId/details
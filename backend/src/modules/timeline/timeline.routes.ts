@@ -13,6 +13,14 @@ router.get(
     timelineController.getPatientTimeline
 );
 
+// Get medication courses inferred from prescriptions and MedicationRequests
+router.get(
+    '/patient/:patientId/medication-courses',
+    verifyToken,
+    enforceConsent(),
+    timelineController.getMedicationCourses
+);
+
 // Get event details with clinical parameters and trends
 router.get(
     '/event/:eventId/details',
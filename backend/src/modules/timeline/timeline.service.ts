@@ -1,6 +1,8 @@
 import { timelineRepository } from './timeline.repository';
 import { clinicalParametersRepository } from './clinical-parameters.repository';
 import { parameterTrendsRepository } from './parameter-trends.repository';
+import { labTerminologyService } from '../terminology/LabTerminologyService';
+import { referenceRangeService } from '../terminology/ReferenceRangeService';
 
 export const timelineService = {
     /**
@@ -87,19 +89,27 @@ export const timelineService = {
                 return [];
             }
 
+            const demographics = await referenceRangeService.getDemographics(event.patient_id, event.event_time, recordData?.data?.profile);
+
             // Transform parameters from medical record format to health_parameters format
-            return parameters.map((param: any) => ({
-                id: `${event.id}-${param.name}`,
-                timeline_event_id: event.id,
-                parameter_name: param.name,
-                parameter_code: param.name.toLowerCase().replace(/\s+/g, '_'),
-                value: String(param.value),
-                unit: param.unit,
-                normal_range_min: null,
-                normal_range_max: null,
-                interpretation: param.status || 'normal',
-                created_at: new Date().toISOString()
-            }));
+            return parameters.map((param: any) => {
+                const normalized = labTerminologyService.normalize(param.name, param.value, param.unit);
+                const evaluation = referenceRangeService.evaluate(normalized, demographics, {
+                    printedRange: param.referenceRange || param.reference_range || param.normal_range,
+                    fallbackStatus: param.status
+                });
+                return {
+                    id: `${event.id}-${param.name}`,
+                    timeline_event_id: event.id,
+                    parameter_name: param.name,
+                    value: String(param.value),
+                    unit: param.unit,
+                    interpretation: evaluation.status,
+                    created_at: new Date().toISOString(),
+                    ...labTerminologyService.toParameterColumns(normalized),
+                    ...referenceRangeService.toParameterColumns(evaluation)
+                };
+            });
         } catch (error) {
             console.error('Error extracting parameters from medical record:', error);
             return [];
@@ -143,35 +153,64 @@ export const timelineService = {
      * Extract parameters from lab results and compute trends
      */
     async extractParameters(eventId: string, patientId: string, results: any[]) {
-        const parameters = results.map(res => ({
-            timeline_event_id: eventId,
-            parameter_name: res.parameter,
-            parameter_code: res.parameter.toLowerCase().replace(/\s+/g, '_'),
-            value: String(res.value),
-            unit: res.unit,
-            normal_range_min: res.range?.split('-')[0],
-            normal_range_max: res.range?.split('-')[1],
-            interpretation: res.status || 'normal'
-        }));
+        const demographics = await referenceRangeService.getDemographics(patientId);
+
+        const parameters = results.map(res => {
+            const normalized = labTerminologyService.normalize(res.parameter, res.value, res.unit);
+            const evaluation = referenceRangeService.evaluate(normalized, demographics, {
+                printedRange: res.range,
+                fallbackStatus: res.status
+            });
+            return {
+                timeline_event_id: eventId,
+                parameter_name: res.parameter,
+                value: String(res.value),
+                unit: res.unit,
+                interpretation: evaluation.status,
+                ...labTerminologyService.toParameterColumns(normalized),
+                ...referenceRangeService.toParameterColumns(evaluation)
+            };
+        });
 
         await clinicalParametersRepository.createMany(parameters);
 
         // Compute trends for each parameter
         for (const param of parameters) {
-            await this.computeTrend(patientId, param.parameter_code, eventId, param.value);
+            await this.computeTrend(patientId, param.parameter_code, eventId, param);
         }
     },
 
+    /**
+     * Value pair to compare for a trend: normalized values when both are in the
+     * same canonical unit, otherwise raw values only when reported in the same unit
+     */
+    comparableValues(previous: any, current: any): [number, number] | null {
+        if (previous.normalized_value != null && current.normalized_value != null
+            && previous.normalized_unit === current.normalized_unit) {
+            return [Number(previous.normalized_value), Number(current.normalized_value)];
+        }
+
+        const prevUnit = (previous.raw_unit ?? previous.unit ?? '').trim().toLowerCase();
+        const currUnit = (current.raw_unit ?? current.unit ?? '').trim().toLowerCase();
+        if (prevUnit !== currUnit) return null;
+
+        return [parseFloat(previous.raw_value ?? previous.value), parseFloat(current.raw_value ?? current.value)];
+    },
+
     /**
      * Compute trend for a parameter
      */
-    async computeTrend(patientId: string, parameterCode: string, currentEventId: string, currentValue: string) {
+    async computeTrend(patientId: string, parameterCode: string, currentEventId: string, currentParam: any) {
         try {
             const latestParam = await clinicalParametersRepository.findLatestForPatient(patientId, parameterCode, currentEventId);
 
             if (latestParam) {
-                const prevValue = parseFloat(latestParam.value);
-                const currValue = parseFloat(currentValue);
+                const values = this.comparableValues(latestParam, currentParam);
+                if (!values) {
+                    console.warn(`⚠️ [Timeline] Skipping ${parameterCode} trend: units ${latestParam.unit} and ${currentParam.unit} are not comparable`);
+                    return;
+                }
+                const [prevValue, currValue] = values;
 
                 let trend: 'improved' | 'stable' | 'worsened' = 'stable';
 
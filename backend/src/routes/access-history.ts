@@ -0,0 +1,69 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { getAccessHistory, revokeActorAccess } from '../lib/accessHistoryService';
+
+const router = express.Router();
+
+const historyQuerySchema = z.object({
+    from: z.string().datetime({ offset: true }).optional(),
+    to: z.string().datetime({ offset: true }).optional(),
+    outcome: z.enum(['success', 'denied', 'error']).optional(),
+    actorType: z.enum(['organization', 'clinician', 'self']).optional(),
+    organizationId: z.string().uuid().optional(),
+    resourceType: z.string().max(100).optional(),
+    limit: z.coerce.number().int().min(1).max(1000).optional()
+});
+
+const revokeSchema = z.object({
+    actorType: z.enum(['organization', 'clinician']),
+    actorId: z.string().uuid()
+});
+
+/**
+ * GET /api/audit/patient
+ *
+ * Who accessed the signed-in patient's data: accesses and denied attempts
+ * in plain language, newest first, plus a summary per organization/clinician.
+ * Optional filters: ?from&to (ISO), outcome, actorType, organizationId, resourceType, limit
+ */
+router.get('/patient', async (req: Request, res: Response) => {
+    try {
+        const parsed = historyQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid filters', details: parsed.error.flatten() });
+        }
+
+        const history = await getAccessHistory(req.user.id, parsed.data);
+        res.json(history);
+    } catch (error: any) {
+        console.error('❌ [AccessHistory] List error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+/**
+ * POST /api/audit/patient/revoke
+ *
+ * Revokes every consent an organization or clinician from the history
+ * holds on the signed-in patient
+ */
+router.post('/patient/revoke', async (req: Request, res: Response) => {
+    try {
+        const parsed = revokeSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: 'Invalid request', details: parsed.error.flatten() });
+        }
+
+        const result = await revokeActorAccess(req.user.id, parsed.data.actorType, parsed.data.actorId);
+        if (!result.success) {
+            return res.status(400).json({ error: result.error, revoked: result.revoked });
+        }
+
+        res.json({ revoked: result.revoked });
+    } catch (error: any) {
+        console.error('❌ [AccessHistory] Revoke error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+export default router;
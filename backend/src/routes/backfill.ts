@@ -2,9 +2,16 @@ import express, { Request, Response } from 'express';
 import { supabase } from '../lib/supabase';
 import { eventExtractionService } from '../modules/diagnostic-pathway/EventExtractionService';
 import { edgeConstructionService } from '../modules/diagnostic-pathway/EdgeConstructionService';
+import { labTerminologyService } from '../modules/terminology/LabTerminologyService';
+import { verifyToken } from '../middleware/verifyToken';
+import { requireRole } from '../middleware/roleGuard';
 
 const router = express.Router();
 
+// The router is mounted without auth; operations that rewrite or delete
+// existing patient data are for Niraiva admins
+const requireAdmin = [verifyToken, requireRole(['admin'])];
+
 /**
  * POST /api/backfill/extract-events-from-existing-reports
  * 
@@ -150,4 +157,106 @@ router.post('/fix-timeline-dates', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/backfill/merge-duplicate-events
+ * 
+ * Collapses repeated diagnosis/medication events (one per report) into canonical
+ * events, then rebuilds each affected patient's edges.
+ * Optional body: { patientId } to limit the merge to one patient
+ * Admin only
+ */
+router.post('/merge-duplicate-events', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        console.log('🔄 [Backfill] Merging duplicate clinical events...');
+
+        let patientIds: string[];
+        if (req.body?.patientId) {
+            patientIds = [req.body.patientId];
+        } else {
+            const { data: rows, error: fetchErr } = await supabase
+                .from('clinical_events')
+                .select('patient_id')
+                .in('event_type', ['diagnosis', 'medication']);
+
+            if (fetchErr) throw fetchErr;
+            patientIds = Array.from(new Set((rows || []).map((r: any) => r.patient_id)));
+        }
+
+        let removedCount = 0;
+        for (const patientId of patientIds) {
+            try {
+                const removed = await eventExtractionService.mergeDuplicateEvents(patientId);
+                if (removed > 0) {
+                    await edgeConstructionService.constructEdges(patientId);
+                }
+                removedCount += removed;
+            } catch (error: any) {
+                console.error(`❌ [Backfill] Error merging events for patient ${patientId}:`, error.message);
+            }
+        }
+
+        console.log(`✅ [Backfill] Merged ${removedCount} duplicate events across ${patientIds.length} patients`);
+        res.json({ success: true, patients: patientIds.length, removed: removedCount });
+
+    } catch (err: any) {
+        console.error('❌ [Backfill] Event merge failed:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /api/backfill/normalize-parameters
+ * 
+ * Codes existing health_parameters rows to LOINC and fills the normalized
+ * value/unit columns. The reported name, value and unit are left untouched.
+ * Optional body: { userId } to limit the backfill to one user
+ * Admin only
+ */
+router.post('/normalize-parameters', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        console.log('🔄 [Backfill] Normalizing health parameters...');
+
+        let query = supabase
+            .from('health_parameters')
+            .select('id, name, parameter_name, value, unit')
+            .is('normalized_unit', null);
+
+        if (req.body?.userId) {
+            query = query.eq('user_id', req.body.userId);
+        }
+
+        const { data: rows, error: fetchErr } = await query;
+        if (fetchErr) throw fetchErr;
+
+        let mappedCount = 0;
+        let errorCount = 0;
+
+        for (const row of rows || []) {
+            const name = row.name || row.parameter_name;
+            if (!name) continue;
+
+            const normalized = labTerminologyService.normalize(name, row.value, row.unit);
+            if (normalized.loincCode) mappedCount++;
+
+            const { error: updateErr } = await supabase
+                .from('health_parameters')
+                .update(labTerminologyService.toParameterColumns(normalized))
+                .eq('id', row.id);
+
+            if (updateErr) {
+                console.error(`❌ [Backfill] Error normalizing parameter ${row.id}:`, updateErr.message);
+                errorCount++;
+            }
+        }
+
+        const total = rows?.length || 0;
+        console.log(`✅ [Backfill] Normalized ${total} parameters (${mappedCount} mapped to LOINC, ${errorCount} errors)`);
+        res.json({ success: true, processed: total, mapped: mappedCount, unmapped: total - mappedCount, errors: errorCount });
+
+    } catch (err: any) {
+        console.error('❌ [Backfill] Parameter normalization failed:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
 export default router;
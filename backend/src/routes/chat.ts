@@ -93,7 +93,14 @@ router.post('/timeline/stream', async (req, res) => {
                 res.write(`data: ${JSON.stringify({ token: chunk.token, sessionId: chunk.sessionId })}\n\n`);
             }
             if (chunk.done) {
-                res.write(`data: ${JSON.stringify({ done: true, sessionId: chunk.sessionId })}\n\n`);
+                res.write(`data: ${JSON.stringify({
+                    done: true,
+                    sessionId: chunk.sessionId,
+                    citations: chunk.citations || [],
+                    suggestedFollowUps: chunk.suggestedFollowUps,
+                    currentTopic: chunk.currentTopic,
+                    disclaimer: chunk.disclaimer
+                })}\n\n`);
             }
             // Some environments need an explicit flush
             if ((res as any).flush) (res as any).flush();
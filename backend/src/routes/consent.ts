@@ -4,107 +4,12 @@
  */
 
 import { Router, type Request, type Response } from 'express';
-import { grantConsent, revokeConsent, getPatientConsents, validateConsentRequest } from '../lib/consentService';
+import { revokeConsent, getPatientConsents } from '../lib/consentService';
 import { getTokenByConsentId } from '../lib/consentTokenService';
 import { supabaseAdmin } from '../lib/supabaseClient';
-import type { ConsentGrantRequest } from '../types/consentTypes';
 
 const router = Router();
 
-// ============================================================
-// CONSENT GRANT
-// ============================================================
-
-/**
- * POST /api/consent/grant
- * Create a new consent grant (triggered by patient consent popup)
- * 
- * Body:
- * {
- *   organizationId: string,
- *   purposeOfUse: 'TREATMENT' | 'EMERGENCY' | 'INSURANCE' | 'RESEARCH',
- *   allowedResources: string[],
- *   validFrom: string (ISO),
- *   validUntil: string (ISO),
- *   emergencyOverride?: boolean,
- *   notes?: string
- * }
- */
-router.post('/grant', async (req: Request, res: Response) => {
-    try {
-        const user = (req as any).user;
-        if (!user || !user.id) {
-            return res.status(401).json({ error: 'Unauthorized' });
-        }
-
-        // Fetch patient ABHA number
-        const { data: patientMap, error: mapError } = await supabaseAdmin
-            .from('fhir_user_map')
-            .select('abha_number')
-            .eq('supabase_user_id', user.id)
-            .single();
-
-        if (mapError || !patientMap || !patientMap.abha_number) {
-            return res.status(400).json({
-                error: 'ABHA not linked',
-                message: 'Please link your ABHA before granting consent',
-            });
-        }
-
-        // Fetch organization name
-        const { data: org, error: orgError } = await supabaseAdmin
-            .from('organizations')
-            .select('name')
-            .eq('id', req.body.organizationId)
-            .single();
-
-        if (orgError || !org) {
-            return res.status(400).json({ error: 'Organization not found' });
-        }
-
-        // Build consent grant request
-        const grantRequest: ConsentGrantRequest = {
-            patientId: user.id,
-            patientAbha: patientMap.abha_number,
-            organizationId: req.body.organizationId,
-            organizationName: org.name,
-            purposeOfUse: req.body.purposeOfUse,
-            allowedResources: req.body.allowedResources,
-            validFrom: req.body.validFrom || new Date().toISOString(),
-            validUntil: req.body.validUntil,
-            emergencyOverride: req.body.emergencyOverride,
-            notes: req.body.notes,
-        };
-
-        // Validate request
-        const validation = validateConsentRequest(grantRequest);
-        if (!validation.valid) {
-            return res.status(400).json({
-                error: 'Validation failed',
-                errors: validation.errors,
-            });
-        }
-
-        // Grant consent
-        const result = await grantConsent(grantRequest);
-
-        return res.status(201).json({
-            message: 'Consent granted successfully',
-            consentId: result.consent.id,
-            token: result.token,
-            tokenId: result.tokenId,
-            consent: result.consent,
-        });
-
-    } catch (error: any) {
-        console.error('Consent grant error:', error);
-        return res.status(500).json({
-            error: 'Failed to grant consent',
-            message: error.message,
-        });
-    }
-});
-
 // ============================================================
 // CONSENT LIST
 // ============================================================
@@ -0,0 +1,64 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { enforceConsent } from '../middleware/enforceConsent';
+import { criticalAlertService, CriticalAlertStatus } from '../modules/critical-alerts/CriticalAlertService';
+
+const router = express.Router();
+
+const acknowledgeSchema = z.object({
+    note: z.string().max(1000).optional()
+});
+
+/**
+ * GET /api/critical-alerts/:patientId
+ *
+ * Lists critical lab value alerts for a patient, newest first.
+ * Optional ?status=active|acknowledged filter
+ */
+router.get('/:patientId', enforceConsent(), async (req: Request, res: Response) => {
+    try {
+        const { patientId } = req.params;
+        const status = req.query.status as CriticalAlertStatus | undefined;
+
+        if (status && !['active', 'acknowledged'].includes(status)) {
+            return res.status(400).json({ error: `Invalid status "${status}"` });
+        }
+
+        const alerts = await criticalAlertService.listAlerts(patientId, status);
+        res.json({ alerts });
+    } catch (error: any) {
+        console.error('❌ [CriticalAlerts] List error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+/**
+ * POST /api/critical-alerts/:patientId/:alertId/acknowledge
+ *
+ * Marks an alert as seen by the current user and stops its escalation
+ */
+router.post('/:patientId/:alertId/acknowledge', enforceConsent(), async (req: Request, res: Response) => {
+    try {
+        const { patientId, alertId } = req.params;
+
+        const parsed = acknowledgeSchema.safeParse(req.body || {});
+        if (!parsed.success) {
+            return res.status(400).json({
+                error: 'Validation failed',
+                details: parsed.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+            });
+        }
+
+        const alert = await criticalAlertService.acknowledge(patientId, alertId, req.user.id, parsed.data.note);
+        if (!alert) {
+            return res.status(404).json({ error: 'Alert not found' });
+        }
+
+        res.json({ alert });
+    } catch (error: any) {
+        console.error('❌ [CriticalAlerts] Acknowledge error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+export default router;
@@ -1,9 +1,28 @@
 import express, { Request, Response } from 'express';
+import { z } from 'zod';
 import { supabase } from '../lib/supabase';
 import { pathwayProjectionService } from '../modules/diagnostic-pathway/PathwayProjectionService';
+import { conditionPathwayRegistry } from '../modules/diagnostic-pathway/condition-pathways/ConditionPathwayRegistry';
+import { edgeConstructionService } from '../modules/diagnostic-pathway/EdgeConstructionService';
+import { enforceConsent } from '../middleware/enforceConsent';
 
 const router = express.Router();
 
+/**
+ * GET /api/diagnostic-pathway/templates
+ * 
+ * Lists the guideline pathway templates available for projection,
+ * with the synonyms and ICD-10/SNOMED codes each one matches
+ */
+router.get('/templates', (_req: Request, res: Response) => {
+    try {
+        res.json({ templates: conditionPathwayRegistry.list() });
+    } catch (error: any) {
+        console.error('❌ [DiagnosticPathway] Template list error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
 /**
  * GET /api/diagnostic-pathway/:patientId/summary
  * 
@@ -201,7 +220,12 @@ router.get('/:patientId', async (req: Request, res: Response) => {
                     nodes,
                     edges,
                     diagnoses: [], // Client can refetch or we can populate
-                    isGuideline: true
+                    isGuideline: true,
+                    pathway: {
+                        id: projectedGraph.pathwayId,
+                        version: projectedGraph.version,
+                        condition: projectedGraph.condition
+                    }
                 });
             } else {
                 console.log('⚠️ [DiagnosticPathway] No template found, falling back to raw graph filtering');
@@ -335,7 +359,7 @@ router.get('/:patientId', async (req: Request, res: Response) => {
         // 3. Fetch all edges for patient (or skip if not available)
         const { data: edges, error: edgesError } = await supabase
             .from('clinical_event_edges')
-            .select('id, from_event_id, to_event_id, relation_type, confidence')
+            .select('id, from_event_id, to_event_id, relation_type, confidence, evidence_score')
             .eq('patient_id', patientId);
 
         if (edgesError) {
@@ -366,6 +390,11 @@ router.get('/:patientId', async (req: Request, res: Response) => {
                 target: edge.to_event_id,
                 label: edge.relation_type,
                 type: 'smoothstep',
+                data: {
+                    relationType: edge.relation_type,
+                    confidence: edge.confidence,
+                    evidenceScore: edge.evidence_score
+                },
                 animated: edge.confidence > 0.8,
                 style: {
                     stroke: getEdgeColor(edge.relation_type),
@@ -492,6 +521,60 @@ router.get('/:patientId/event/:eventId', async (req: Request, res: Response) =>
     }
 });
 
+const edgeDryRunSchema = z.object({
+    rules: z.array(z.object({
+        fromType: z.string(),
+        toType: z.string(),
+        priority: z.number().min(0).max(10).optional(),
+        maxDays: z.number().int().positive().optional(),
+        semantic: z.enum(['required', 'preferred', 'ignored']).optional()
+    })).optional(),
+    minEvidenceScore: z.number().min(0).max(1).optional()
+});
+
+/**
+ * POST /api/diagnostic-pathway/:patientId/edges/dry-run
+ * 
+ * Runs the edge rules engine for a patient without writing anything.
+ * Accepts per-rule overrides (maxDays, priority, semantic) and a minimum
+ * evidence score, and returns the proposed edges with their evidence breakdown
+ */
+router.post('/:patientId/edges/dry-run', enforceConsent(), async (req: Request, res: Response) => {
+    try {
+        const { patientId } = req.params;
+
+        const parsed = edgeDryRunSchema.safeParse(req.body || {});
+        if (!parsed.success) {
+            return res.status(400).json({
+                error: 'Validation failed',
+                details: parsed.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+            });
+        }
+
+        const proposed = await edgeConstructionService.proposeEdges(patientId, parsed.data);
+
+        const { count: existingCount } = await supabase
+            .from('clinical_event_edges')
+            .select('id', { count: 'exact', head: true })
+            .eq('patient_id', patientId);
+
+        res.json({
+            dryRun: true,
+            rules: edgeConstructionService.getRules().map(rule => ({
+                ...rule,
+                ...parsed.data.rules?.find(o => o.fromType === rule.fromType && o.toType === rule.toType)
+            })),
+            minEvidenceScore: parsed.data.minEvidenceScore,
+            existingEdgeCount: existingCount || 0,
+            proposedEdgeCount: proposed.length,
+            proposed
+        });
+    } catch (error: any) {
+        console.error('❌ [DiagnosticPathway] Edge dry-run error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
 /**
  * Node styling by event type
  */
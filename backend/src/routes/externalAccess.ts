@@ -7,7 +7,24 @@
 import { Router, type Request, type Response } from 'express';
 import { evaluateConsent, evaluateEmergencyAccess, createAuditEvent, getPatientIdFromAbha } from '../lib/consentEnforcementService';
 import { fhirGet, type FhirBundle } from '../lib/fhirClient';
+import { filterBundleByProvision, isResourcePermitted } from '../lib/consentProvisions';
+import { generatePatientDocuments, RECORD_TYPES, type RecordType } from '../lib/fhir-documents';
+import {
+    evaluateExportConsent,
+    everythingHandler,
+    exportKickOffHandler,
+    exportStatusHandler,
+    exportCancelHandler,
+    loadExportJob,
+    getExportFile,
+    type ExportAccess,
+    type ExportConsent,
+    type ExportTarget,
+} from '../lib/fhir-export';
+import { getSignedRevocationList, getSigningJwks, introspectConsentToken } from '../lib/consentTokenService';
+import { deactivateSmartApp, listSmartApps, registerSmartApp, validateSmartAppInput } from '../lib/smart';
 import { supabaseAdmin } from '../lib/supabaseClient';
+import { CLIENT_ASSERTION_TYPE, checkRateLimit, verifyClientAssertion, verifyClientSecret } from '../lib/organizationAuthService';
 import type { ConsentEvaluationRequest, AuditEventData, PurposeOfUse } from '../types/consentTypes';
 
 const router = Router();
@@ -17,39 +34,86 @@ const router = Router();
 // ============================================================
 
 /**
- * Verify organization client credentials
+ * Verify organization client credentials: either a signed JWT client
+ * assertion (private_key_jwt) or client ID + secret. Then apply the
+ * organization's rate limit.
  */
 async function authenticateOrganization(req: Request, res: Response, next: Function) {
     const clientId = req.headers['x-client-id'] as string;
     const clientSecret = req.headers['x-client-secret'] as string;
+    const clientAssertion = req.headers['x-client-assertion'] as string;
+    const clientAssertionType = req.headers['x-client-assertion-type'] as string;
 
-    if (!clientId) {
-        return res.status(401).json({ error: 'Missing X-Client-ID header' });
-    }
+    let organization: any;
+
+    if (clientAssertion) {
+        if (clientAssertionType && clientAssertionType !== CLIENT_ASSERTION_TYPE) {
+            return res.status(401).json({ error: `Unsupported client assertion type. Use ${CLIENT_ASSERTION_TYPE}` });
+        }
 
-    // Fetch organization
-    const { data: org, error } = await supabaseAdmin
-        .from('organizations')
-        .select('*')
-        .eq('client_id', clientId)
-        .eq('active', true)
-        .single();
+        const audience = process.env.ORG_ASSERTION_AUDIENCE || `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+        const result = await verifyClientAssertion(clientAssertion, audience);
+
+        if (!result.authenticated) {
+            console.warn(`⚠️ [ExternalAccess] Client assertion rejected: ${result.error}`);
+            return res.status(401).json({ error: 'Invalid client credentials', reason: result.error });
+        }
+        organization = result.organization;
+    } else {
+        if (!clientId) {
+            return res.status(401).json({ error: 'Missing X-Client-ID header' });
+        }
+        if (!clientSecret) {
+            return res.status(401).json({ error: 'Missing X-Client-Secret or X-Client-Assertion header' });
+        }
+
+        // Fetch organization
+        const { data: org, error } = await supabaseAdmin
+            .from('organizations')
+            .select('*')
+            .eq('client_id', clientId)
+            .eq('active', true)
+            .single();
 
-    if (error || !org) {
-        return res.status(401).json({ error: 'Invalid client credentials' });
+        if (error || !org || !(await verifyClientSecret(org, clientSecret))) {
+            return res.status(401).json({ error: 'Invalid client credentials' });
+        }
+        organization = org;
     }
 
-    // TODO: Verify client_secret_hash with bcrypt
-    // For now, skip secret validation in development
-    // const bcrypt = require('bcrypt');
-    // const valid = await bcrypt.compare(clientSecret, org.client_secret_hash);
-    // if (!valid) return res.status(401).json({ error: 'Invalid client secret' });
+    const rateLimit = checkRateLimit(organization);
+    res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+    res.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+    res.setHeader('X-RateLimit-Reset', Math.ceil(rateLimit.resetAt / 1000));
+
+    if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', Math.ceil((rateLimit.resetAt - Date.now()) / 1000));
+        return res.status(429).json({ error: 'Rate limit exceeded' });
+    }
 
     // Attach organization to request
-    (req as any).organization = org;
+    (req as any).organization = organization;
     next();
 }
 
+// ============================================================
+// PUBLIC SIGNING KEYS
+// ============================================================
+
+/**
+ * GET /api/external/token/keys
+ * JWK Set for verifying consent tokens and revocation lists. Public, so
+ * it is registered before the organization authentication below.
+ */
+router.get('/token/keys', (req: Request, res: Response) => {
+    try {
+        return res.json(getSigningJwks());
+    } catch (error: any) {
+        console.error('Signing keys error:', error);
+        return res.status(500).json({ error: 'Signing key not configured' });
+    }
+});
+
 router.use(authenticateOrganization);
 
 // ============================================================
@@ -61,8 +125,8 @@ router.use(authenticateOrganization);
  * Get patient data by ABHA (requires consent token)
  * 
  * Headers:
- * - X-Client-ID: Organization client ID
- * - X-Client-Secret: Organization client secret
+ * - X-Client-ID + X-Client-Secret: Organization client credentials, or
+ * - X-Client-Assertion: Signed JWT client assertion (private_key_jwt)
  * - Authorization: Bearer <consent-token>
  * - X-Purpose-Of-Use: TREATMENT | EMERGENCY | INSURANCE | RESEARCH
  */
@@ -244,6 +308,12 @@ router.get('/observations/:abhaNumber', async (req: Request, res: Response) => {
             return res.status(500).json({ error: 'Failed to fetch observations' });
         }
 
+        // Drop entries outside the consented data period or withheld by the patient
+        // (emergency grants carry no provisions)
+        const { bundle: observations, excluded } = evaluation.provision
+            ? filterBundleByProvision(observationsResponse.data!, evaluation.provision)
+            : { bundle: observationsResponse.data!, excluded: 0 };
+
         // Log successful access
         await logAuditEvent({
             patientId,
@@ -255,11 +325,11 @@ router.get('/observations/:abhaNumber', async (req: Request, res: Response) => {
             outcome: 'success',
             ipAddress: req.ip,
             userAgent: req.headers['user-agent'],
-            metadata: { count: observationsResponse.data?.entry?.length || 0 },
+            metadata: { count: observations.entry?.length || 0, excluded },
         });
 
         return res.json({
-            observations: observationsResponse.data,
+            observations,
             consent: {
                 consentId: evaluation.consentId,
                 restrictions: evaluation.restrictions,
@@ -341,6 +411,10 @@ router.get('/documents/:abhaNumber', async (req: Request, res: Response) => {
             return res.status(500).json({ error: 'Failed to fetch documents' });
         }
 
+        const { bundle: documents, excluded } = evaluation.provision
+            ? filterBundleByProvision(documentsResponse.data!, evaluation.provision)
+            : { bundle: documentsResponse.data!, excluded: 0 };
+
         // Log successful access
         await logAuditEvent({
             patientId,
@@ -352,11 +426,11 @@ router.get('/documents/:abhaNumber', async (req: Request, res: Response) => {
             outcome: 'success',
             ipAddress: req.ip,
             userAgent: req.headers['user-agent'],
-            metadata: { count: documentsResponse.data?.entry?.length || 0 },
+            metadata: { count: documents.entry?.length || 0, excluded },
         });
 
         return res.json({
-            documents: documentsResponse.data,
+            documents,
             consent: {
                 consentId: evaluation.consentId,
                 restrictions: evaluation.restrictions,
@@ -369,6 +443,321 @@ router.get('/documents/:abhaNumber', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/external/records/:abhaNumber
+ * Get the patient's health records as ABDM (NRCeS) document Bundles
+ * (requires consent token). Only documents that pass profile validation
+ * are served; a document holding anything the consent excludes is left out.
+ *
+ * Query: type (OPConsultRecord | DiagnosticReportRecord | PrescriptionRecord |
+ *        DischargeSummaryRecord | WellnessRecord), reportId
+ */
+router.get('/records/:abhaNumber', async (req: Request, res: Response) => {
+    const { abhaNumber } = req.params;
+    const organization = (req as any).organization;
+    const consentToken = req.headers.authorization?.replace('Bearer ', '');
+    const purposeOfUse = req.headers['x-purpose-of-use'] as PurposeOfUse;
+    const recordType = req.query.type as RecordType | undefined;
+    const reportId = req.query.reportId as string | undefined;
+
+    if (recordType && !RECORD_TYPES.includes(recordType)) {
+        return res.status(400).json({ error: `type must be one of: ${RECORD_TYPES.join(', ')}` });
+    }
+
+    try {
+        const patientId = await getPatientIdFromAbha(abhaNumber);
+        if (!patientId) {
+            return res.status(404).json({ error: 'Patient not found' });
+        }
+
+        // Evaluate consent
+        const evaluation = await evaluateConsent({
+            patientAbha: abhaNumber,
+            organizationId: organization.id,
+            resourceType: 'DocumentReference',
+            action: 'search',
+            purposeOfUse,
+            consentToken,
+        });
+
+        if (!evaluation.allowed) {
+            await logAuditEvent({
+                patientId,
+                organizationId: organization.id,
+                action: 'search',
+                resourceType: 'DocumentReference',
+                purposeOfUse,
+                outcome: 'denied',
+                outcomeReason: evaluation.reason,
+                ipAddress: req.ip,
+                userAgent: req.headers['user-agent'],
+            });
+            return res.status(403).json({
+                error: 'Access denied',
+                reason: evaluation.reason,
+            });
+        }
+
+        const generated = await generatePatientDocuments(patientId, { recordType, reportId });
+        if (!generated) {
+            return res.status(404).json({ error: 'Patient profile not found' });
+        }
+
+        // Documents are shared whole: drop any with a clinical entry the consent excludes
+        const clinicalTypes = ['Encounter', 'Condition', 'Observation', 'MedicationRequest', 'DiagnosticReport'];
+        const permitted = evaluation.provision
+            ? generated.filter((doc) => ((doc.bundle as any).entry || []).every((e: any) =>
+                !clinicalTypes.includes(e.resource?.resourceType) || isResourcePermitted(evaluation.provision!, e.resource)))
+            : generated;
+        const excluded = generated.length - permitted.length;
+
+        const conformant = permitted.filter((doc) => doc.valid);
+        const nonConformant = permitted.filter((doc) => !doc.valid);
+
+        // Log successful access
+        await logAuditEvent({
+            patientId,
+            organizationId: organization.id,
+            action: 'search',
+            resourceType: 'DocumentReference',
+            consentId: evaluation.consentId,
+            purposeOfUse,
+            outcome: 'success',
+            ipAddress: req.ip,
+            userAgent: req.headers['user-agent'],
+            metadata: { count: conformant.length, excluded, nonConformant: nonConformant.length, recordType },
+        });
+
+        return res.json({
+            records: {
+                resourceType: 'Bundle',
+                type: 'searchset',
+                total: conformant.length,
+                entry: conformant.map((doc) => ({ resource: doc.bundle })),
+            },
+            nonConformant: nonConformant.map((doc) => ({
+                reportId: doc.reportId,
+                recordType: doc.recordType,
+                issues: doc.issues.filter((i) => i.severity === 'error'),
+            })),
+            consent: {
+                consentId: evaluation.consentId,
+                restrictions: evaluation.restrictions,
+            },
+        });
+
+    } catch (error: any) {
+        console.error('Records access error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// ============================================================
+// WHOLE RECORD ($everything / $export)
+// ============================================================
+
+/**
+ * The record of the patient with this ABHA number, narrowed to the
+ * requested types the organization's consent covers
+ */
+interface ConsentedExportTarget extends ExportTarget {
+    consent: ExportConsent;
+    purposeOfUse: PurposeOfUse;
+}
+
+const consentedRecordAccess: ExportAccess<ConsentedExportTarget> = {
+    async resolve(req, types, operation) {
+        const { abhaNumber } = req.params;
+        const organization = (req as any).organization;
+        const consentToken = req.headers.authorization?.replace('Bearer ', '');
+        const purposeOfUse = req.headers['x-purpose-of-use'] as PurposeOfUse;
+
+        const patientId = await getPatientIdFromAbha(abhaNumber);
+        if (!patientId) {
+            return { status: 404, code: 'not-found', message: 'Patient not found' };
+        }
+
+        const consent = await evaluateExportConsent({ patientAbha: abhaNumber, organizationId: organization.id, purposeOfUse, consentToken }, types);
+
+        if (consent.scope.resourceTypes.length === 0) {
+            const reason = consent.denied.map((d) => d.reason).filter(Boolean)[0] || 'No requested resource type is covered by the consent';
+            await logAuditEvent({
+                patientId,
+                organizationId: organization.id,
+                action: 'search',
+                resourceType: 'Patient',
+                purposeOfUse,
+                outcome: 'denied',
+                outcomeReason: reason,
+                ipAddress: req.ip,
+                userAgent: req.headers['user-agent'],
+                metadata: { operation, resourceTypes: types },
+            });
+            return { status: 403, code: 'forbidden', message: reason };
+        }
+
+        const { data: patientMap } = await supabaseAdmin
+            .from('fhir_user_map')
+            .select('fhir_patient_id')
+            .eq('abha_number', abhaNumber)
+            .single();
+
+        if (!patientMap) {
+            return { status: 404, code: 'not-found', message: 'Patient FHIR mapping not found' };
+        }
+
+        return {
+            userId: patientId,
+            fhirPatientId: patientMap.fhir_patient_id,
+            scope: consent.scope,
+            requester: { type: 'organization', organizationId: organization.id, consentId: consent.consentId, purposeOfUse },
+            consent,
+            purposeOfUse,
+        };
+    },
+    async onSuccess(req, target, success) {
+        await logAuditEvent({
+            patientId: target.userId,
+            organizationId: (req as any).organization.id,
+            action: 'search',
+            resourceType: 'Patient',
+            consentId: target.consent.consentId,
+            purposeOfUse: target.purposeOfUse,
+            outcome: 'success',
+            ipAddress: req.ip,
+            userAgent: req.headers['user-agent'],
+            metadata: {
+                ...success,
+                deniedResourceTypes: target.consent.denied.map((d) => d.resourceType),
+            },
+        });
+    },
+    everythingBody: (bundle, target) => ({
+        record: bundle,
+        consent: {
+            consentId: target.consent.consentId,
+            restrictions: target.consent.restrictions,
+            deniedResourceTypes: target.consent.denied,
+        },
+    }),
+    ownsJob: (req, job) => job.requester_type === 'organization' && job.organization_id === (req as any).organization.id,
+    sendError: (res, error) => {
+        res.status(error.status).json(error.status === 403 ? { error: 'Access denied', reason: error.message } : { error: error.message });
+    },
+};
+
+/**
+ * GET /api/external/patient/:abhaNumber/$everything
+ * The patient's whole record as one searchset Bundle (requires consent token).
+ * Consent is evaluated per resource type; types the consent does not cover
+ * are left out and listed under consent.deniedResourceTypes.
+ *
+ * Query: _type (comma-separated resource types), _since (instant)
+ */
+router.get('/patient/:abhaNumber/\\$everything', everythingHandler(consentedRecordAccess));
+
+/**
+ * GET /api/external/patient/:abhaNumber/$export
+ * Bulk Data kick-off (requires consent token and "Prefer: respond-async").
+ * Answers 202 with the status URL in Content-Location. The export covers
+ * the requested types the consent allows, filtered by its provisions.
+ *
+ * Query: _type, _since, _outputFormat (NDJSON only)
+ */
+router.get('/patient/:abhaNumber/\\$export', exportKickOffHandler(consentedRecordAccess));
+
+/**
+ * GET /api/external/$export-status/:jobId
+ * 202 with X-Progress while running, 200 with the manifest when done
+ */
+router.get('/\\$export-status/:jobId', exportStatusHandler(consentedRecordAccess));
+
+/**
+ * DELETE /api/external/$export-status/:jobId
+ * Cancel an export, or delete its files
+ */
+router.delete('/\\$export-status/:jobId', exportCancelHandler(consentedRecordAccess));
+
+/**
+ * GET /api/external/$export-file/:jobId/:resourceType
+ * One NDJSON file of a finished export (requires consent token). Consent is
+ * evaluated again, so a consent revoked since the kick-off stops downloads.
+ */
+router.get('/\\$export-file/:jobId/:resourceType', async (req: Request, res: Response) => {
+    const { resourceType } = req.params;
+    const organization = (req as any).organization;
+    const consentToken = req.headers.authorization?.replace('Bearer ', '');
+
+    try {
+        const found = await loadExportJob(consentedRecordAccess, req, res);
+        if (!found) return;
+        const { job } = found;
+
+        const { data: patientMap } = await supabaseAdmin
+            .from('fhir_user_map')
+            .select('abha_number')
+            .eq('supabase_user_id', job.user_id)
+            .single();
+
+        if (!patientMap?.abha_number) {
+            return res.status(404).json({ error: 'Patient not found' });
+        }
+
+        const purposeOfUse = job.purpose_of_use as PurposeOfUse;
+        const evaluation = await evaluateConsent({
+            patientAbha: patientMap.abha_number,
+            organizationId: organization.id,
+            resourceType,
+            action: 'search',
+            purposeOfUse,
+            consentToken,
+        });
+
+        if (!evaluation.allowed) {
+            await logAuditEvent({
+                patientId: job.user_id,
+                organizationId: organization.id,
+                action: 'read',
+                resourceType,
+                purposeOfUse,
+                outcome: 'denied',
+                outcomeReason: evaluation.reason,
+                ipAddress: req.ip,
+                userAgent: req.headers['user-agent'],
+                metadata: { operation: '$export', jobId: job.id },
+            });
+            return res.status(403).json({
+                error: 'Access denied',
+                reason: evaluation.reason,
+            });
+        }
+
+        const ndjson = job.status === 'completed' ? await getExportFile(job.id, resourceType) : null;
+        if (ndjson === null) {
+            return res.status(404).json({ error: 'No such file in this export' });
+        }
+
+        await logAuditEvent({
+            patientId: job.user_id,
+            organizationId: organization.id,
+            action: 'read',
+            resourceType,
+            consentId: evaluation.consentId,
+            purposeOfUse,
+            outcome: 'success',
+            ipAddress: req.ip,
+            userAgent: req.headers['user-agent'],
+            metadata: { operation: '$export', jobId: job.id },
+        });
+
+        return res.type('application/fhir+ndjson').send(ndjson);
+
+    } catch (error: any) {
+        console.error('$export file error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 // ============================================================
 // EMERGENCY ACCESS
 // ============================================================
@@ -405,8 +794,9 @@ router.post('/emergency-access', async (req: Request, res: Response) => {
         const evaluation = await evaluateEmergencyAccess(
             abhaNumber,
             organization.id,
-            `${reason}: ${justification}`,
-            resourceType
+            reason,
+            resourceType,
+            justification
         );
 
         if (!evaluation.allowed) {
@@ -433,6 +823,7 @@ router.post('/emergency-access', async (req: Request, res: Response) => {
             organizationId: organization.id,
             action: 'emergency_access',
             resourceType,
+            consentId: evaluation.consentId,
             outcome: 'success',
             outcomeReason: `Emergency access granted: ${reason}`,
             ipAddress: req.ip,
@@ -442,8 +833,9 @@ router.post('/emergency-access', async (req: Request, res: Response) => {
 
         return res.json({
             message: 'Emergency access granted',
+            grantId: evaluation.consentId?.replace('EMERGENCY:', ''),
             restrictions: evaluation.restrictions,
-            warning: 'Patient has been notified of emergency access',
+            warning: 'Patient has been notified of emergency access and can dispute it',
         });
 
     } catch (error: any) {
@@ -452,6 +844,138 @@ router.post('/emergency-access', async (req: Request, res: Response) => {
     }
 });
 
+// ============================================================
+// TOKEN INTROSPECTION & REVOCATION LIST
+// ============================================================
+
+/**
+ * POST /api/external/token/introspect
+ * OAuth2 token introspection (RFC 7662) for consent tokens issued to
+ * the calling organization
+ * 
+ * Body (JSON or form-encoded):
+ * {
+ *   token: string
+ * }
+ */
+router.post('/token/introspect', async (req: Request, res: Response) => {
+    const organization = (req as any).organization;
+    const { token } = req.body || {};
+
+    if (!token) {
+        return res.status(400).json({ error: 'invalid_request', error_description: 'token is required' });
+    }
+
+    try {
+        const introspection = await introspectConsentToken(token, organization.id);
+        res.setHeader('Cache-Control', 'no-store');
+        return res.json(introspection);
+
+    } catch (error: any) {
+        console.error('Token introspection error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * GET /api/external/token/revocations
+ * Signed list (JWS, RS256) of the calling organization's revoked consent
+ * tokens that have not yet expired. Poll again at nextUpdate.
+ * 
+ * Query params:
+ * - since: only revocations at or after this ISO timestamp
+ */
+router.get('/token/revocations', async (req: Request, res: Response) => {
+    const organization = (req as any).organization;
+    const since = req.query.since as string | undefined;
+
+    if (since && isNaN(new Date(since).getTime())) {
+        return res.status(400).json({ error: 'since must be an ISO timestamp' });
+    }
+
+    try {
+        const list = await getSignedRevocationList(organization.id, since);
+        return res.json(list);
+
+    } catch (error: any) {
+        console.error('Revocation list error:', error);
+        return res.status(500).json({ error: 'Failed to build revocation list' });
+    }
+});
+
+// ============================================================
+// SMART APPS
+// ============================================================
+
+/**
+ * POST /api/external/smart-apps
+ * Register a SMART app that can then be authorized on the /fhir API
+ * 
+ * Body:
+ * {
+ *   name: string,
+ *   redirectUris: string[],
+ *   launchUrl?: string,        // For EHR launch by doctors
+ *   scopes: string[],          // e.g. ["launch", "launch/patient", "patient/Observation.read"]
+ *   confidential: boolean      // true: the app gets a client secret
+ * }
+ */
+router.post('/smart-apps', async (req: Request, res: Response) => {
+    const organization = (req as any).organization;
+
+    const invalid = validateSmartAppInput(req.body);
+    if (invalid) {
+        return res.status(400).json({ error: invalid });
+    }
+
+    try {
+        const { app, clientSecret } = await registerSmartApp(organization.id, req.body);
+        return res.status(201).json({
+            ...app,
+            ...(clientSecret ? { client_secret: clientSecret, warning: 'Store the client secret now; it cannot be shown again' } : {}),
+        });
+
+    } catch (error: any) {
+        console.error('SMART app registration error:', error);
+        return res.status(500).json({ error: 'Failed to register app' });
+    }
+});
+
+/**
+ * GET /api/external/smart-apps
+ * The organization's registered SMART apps
+ */
+router.get('/smart-apps', async (req: Request, res: Response) => {
+    const organization = (req as any).organization;
+
+    try {
+        return res.json({ apps: await listSmartApps(organization.id) });
+    } catch (error: any) {
+        console.error('SMART app list error:', error);
+        return res.status(500).json({ error: 'Failed to list apps' });
+    }
+});
+
+/**
+ * DELETE /api/external/smart-apps/:clientId
+ * Deactivate an app; its tokens stop working
+ */
+router.delete('/smart-apps/:clientId', async (req: Request, res: Response) => {
+    const organization = (req as any).organization;
+
+    try {
+        const found = await deactivateSmartApp(organization.id, req.params.clientId);
+        if (!found) {
+            return res.status(404).json({ error: 'App not found' });
+        }
+        return res.json({ message: 'App deactivated' });
+
+    } catch (error: any) {
+        console.error('SMART app deactivation error:', error);
+        return res.status(500).json({ error: 'Failed to deactivate app' });
+    }
+});
+
 // ============================================================
 // HELPER FUNCTIONS
 // ============================================================
@@ -2,16 +2,22 @@ import type { Request, Response } from "express";
 import { Router } from "express";
 import { supabaseAdmin } from "../lib/supabaseClient";
 import {
-    syncPatient,
     syncObservation,
-    getFhirPatientId,
+    syncPatientHistory,
+    retryHistorySync,
+    importPatientFromFhir,
+    getImportConflicts,
+    type HistorySyncResult,
 } from "../lib/fhir-sync";
+import { generatePatientDocuments, RECORD_TYPES, type RecordType } from "../lib/fhir-documents";
 
 const router = Router();
 
 /**
  * POST /sync-to-fhir
- * Main sync endpoint - syncs all patient data to FHIR
+ * Main sync endpoint - syncs the profile, vitals and all stored reports to
+ * FHIR as transaction Bundles. Safe to re-run: resources are conditional
+ * creates on their Niraiva identifiers.
  */
 router.post("/sync-to-fhir", async (req: Request, res: Response) => {
     const user = (req as any).user;
@@ -21,111 +27,64 @@ router.post("/sync-to-fhir", async (req: Request, res: Response) => {
     }
 
     try {
-        // Create sync log
-        const { data: syncLog, error: logError } = await supabaseAdmin
-            .from("fhir_sync_logs")
-            .insert({
-                user_id: user.id,
-                sync_type: "full",
-                status: "in_progress",
-            })
-            .select()
-            .single();
-
-        if (logError) {
-            console.error("Failed to create sync log:", logError);
-            return res.status(500).json({ error: "Failed to create sync log" });
-        }
-
-        const syncedResources: any[] = [];
-        const errors: string[] = [];
-
-        // 1. Sync Patient profile
-        const { data: profile } = await supabaseAdmin
-            .from("user_profiles")
-            .select("*")
-            .eq("user_id", user.id)
-            .single();
+        const result = await syncPatientHistory(user.id);
+        return res.json(summarizeSync(result));
+    } catch (error) {
+        console.error("Sync to FHIR error:", error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : "Unknown sync error",
+        });
+    }
+});
 
-        if (profile) {
-            const patientResponse = await syncPatient({
-                userId: user.id,
-                firstName: profile.first_name,
-                middleName: profile.middle_name,
-                lastName: profile.last_name,
-                email: profile.email,
-                mobile: profile.mobile,
-                gender: profile.gender,
-                dob: profile.dob,
-                abhaNumber: profile.abha_number,
-            });
+/**
+ * POST /sync-retry/:syncId
+ * Re-submit the resources that failed in a partial or failed sync
+ */
+router.post("/sync-retry/:syncId", async (req: Request, res: Response) => {
+    const user = (req as any).user;
 
-            if (patientResponse.ok && patientResponse.data) {
-                syncedResources.push({
-                    resourceType: "Patient",
-                    id: patientResponse.data.id,
-                });
-            } else {
-                errors.push(`Patient sync failed: ${patientResponse.error}`);
-            }
-        }
+    if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
 
-        // 2. Sync recent vitals/observations
-        const { data: observations } = await supabaseAdmin
-            .from("observations")
-            .select("*")
-            .eq("user_id", user.id)
-            .order("timestamp", { ascending: false })
-            .limit(10);
-
-        if (observations && observations.length > 0) {
-            for (const obs of observations) {
-                const vitalResponse = await syncObservation(user.id, {
-                    type: obs.code as any,
-                    value: obs.value,
-                    unit: obs.unit,
-                    timestamp: obs.timestamp,
-                });
-
-                if (vitalResponse.ok && vitalResponse.data) {
-                    syncedResources.push({
-                        resourceType: "Observation",
-                        id: vitalResponse.data.id,
-                    });
-                } else {
-                    errors.push(
-                        `Observation sync failed for ${obs.code}: ${vitalResponse.error}`
-                    );
-                }
-            }
+    try {
+        const result = await retryHistorySync(user.id, req.params.syncId);
+        if (!result) {
+            return res.status(404).json({ error: "No failed sync found to retry" });
         }
 
-        // Update sync log
-        const finalStatus = errors.length === 0 ? "completed" : "failed";
-        await supabaseAdmin
-            .from("fhir_sync_logs")
-            .update({
-                status: finalStatus,
-                resources_synced: syncedResources,
-                error_message: errors.length > 0 ? errors.join("; ") : null,
-                completed_at: new Date().toISOString(),
-            })
-            .eq("id", syncLog.id);
-
-        return res.json({
-            success: errors.length === 0,
-            syncId: syncLog.id,
-            syncedResources,
-            errors: errors.length > 0 ? errors : undefined,
-        });
+        return res.json({ ...summarizeSync(result), retryOf: req.params.syncId });
     } catch (error) {
-        console.error("Sync to FHIR error:", error);
+        console.error("Sync retry error:", error);
         return res.status(500).json({
             error: error instanceof Error ? error.message : "Unknown sync error",
         });
     }
 });
 
+function summarizeSync(result: HistorySyncResult) {
+    const failed = result.resources.filter((r) => r.status === "failed");
+    const counts: Record<string, number> = {};
+    result.resources.forEach((r) => {
+        counts[r.status] = (counts[r.status] || 0) + 1;
+    });
+
+    return {
+        success: result.status === "completed",
+        syncId: result.syncId,
+        status: result.status,
+        bundles: result.bundles,
+        counts,
+        syncedResources: result.resources
+            .filter((r) => r.status !== "failed" && r.status !== "skipped")
+            .map((r) => ({ resourceType: r.resourceType, id: r.id, status: r.status })),
+        errors: failed.length > 0
+            ? Array.from(new Set(failed.map((r) => `${r.source}: ${r.error}`)))
+            : undefined,
+    };
+}
+
 /**
  * POST /sync-vitals
  * Sync specific vitals observation
@@ -276,4 +235,100 @@ router.get("/sync-history", async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /import-from-fhir
+ * Pull the user's Observations and Conditions written to FHIR by other
+ * systems into Niraiva. Items Niraiva already has are linked, not copied.
+ */
+router.post("/import-from-fhir", async (req: Request, res: Response) => {
+    const user = (req as any).user;
+
+    if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    try {
+        const result = await importPatientFromFhir(user.id);
+        if (!result) {
+            return res.status(404).json({ error: "Patient has not been synced to FHIR yet" });
+        }
+
+        const counts: Record<string, number> = {};
+        result.resources.forEach((r) => {
+            counts[r.status] = (counts[r.status] || 0) + 1;
+        });
+
+        return res.json({
+            success: result.errors.length === 0 && !result.resources.some((r) => r.error),
+            counts,
+            resources: result.resources,
+            errors: result.errors.length > 0 ? result.errors : undefined,
+        });
+    } catch (error) {
+        console.error("Import from FHIR error:", error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : "Unknown import error",
+        });
+    }
+});
+
+/**
+ * GET /import-conflicts
+ * Imported items that disagreed with Niraiva's data (Niraiva's were kept)
+ */
+router.get("/import-conflicts", async (req: Request, res: Response) => {
+    const user = (req as any).user;
+
+    if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    try {
+        const conflicts = await getImportConflicts(user.id);
+        return res.json({ conflicts });
+    } catch (error) {
+        console.error("Get import conflicts error:", error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
+/**
+ * GET /documents
+ * The patient's reports as ABDM (NRCeS) document Bundles, with the profile
+ * validation result of each - what an organization with consent would get
+ * Query: type (record type), reportId
+ */
+router.get("/documents", async (req: Request, res: Response) => {
+    const user = (req as any).user;
+
+    if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const recordType = req.query.type as RecordType | undefined;
+    if (recordType && !RECORD_TYPES.includes(recordType)) {
+        return res.status(400).json({ error: `type must be one of: ${RECORD_TYPES.join(", ")}` });
+    }
+
+    try {
+        const documents = await generatePatientDocuments(user.id, {
+            recordType,
+            reportId: req.query.reportId as string | undefined,
+        });
+
+        if (!documents) {
+            return res.status(404).json({ error: "Patient profile not found" });
+        }
+
+        return res.json({ documents });
+    } catch (error) {
+        console.error("Generate documents error:", error);
+        return res.status(500).json({
+            error: error instanceof Error ? error.message : "Unknown error",
+        });
+    }
+});
+
 export default router;
@@ -6,14 +6,30 @@ import {
     fhirPut,
     fhirDelete,
     type FhirResource,
-    type FhirBundle,
     type FhirResponse,
 } from "../lib/fhirClient";
 import {
     getPatientIdFromRequest,
-    filterBundleByPatient,
     isResourceOwnedByPatient,
 } from "../lib/patientAccess";
+import {
+    translateSearch,
+    searchPatientResources,
+    type SearchableResourceType,
+} from "../lib/fhirSearch";
+import { validateFhirBody } from "../middleware/fhir.validation";
+import { requireSmartScope, rejectSmartToken, smartReadableTypes } from "../middleware/smartAuth";
+import { getFhirPatientId } from "../lib/fhir-sync";
+import {
+    everythingHandler,
+    exportKickOffHandler,
+    exportStatusHandler,
+    exportCancelHandler,
+    loadExportJob,
+    getExportFile,
+    type ExportAccess,
+    type ExportTarget,
+} from "../lib/fhir-export";
 
 const router = Router();
 
@@ -30,14 +46,20 @@ const asyncHandler = (
 const sendFhirResponse = (res: Response, fhirResponse: FhirResponse<unknown>) => {
     res.status(fhirResponse.status);
 
-    if (!fhirResponse.ok && fhirResponse.error) {
+    // HAPI's own diagnostics (and connection errors) stay in the server log
+    if (!fhirResponse.ok) {
+        console.error("❌ [FHIR] Server responded", fhirResponse.status, fhirResponse.error || JSON.stringify(fhirResponse.data));
         res.json({
             resourceType: "OperationOutcome",
             issue: [
                 {
                     severity: "error",
-                    code: "processing",
-                    diagnostics: fhirResponse.error,
+                    code: fhirResponse.status === 404 ? "not-found" : fhirResponse.status < 500 ? "processing" : "exception",
+                    diagnostics: fhirResponse.status === 404
+                        ? "Resource not found"
+                        : fhirResponse.status < 500
+                            ? "The FHIR server could not process the request"
+                            : "The FHIR server is unavailable",
                 },
             ],
         });
@@ -69,6 +91,32 @@ const validatePatientOwnershipMiddleware = (
     next();
 };
 
+/**
+ * Run a search pinned to the patient: unsupported or malformed parameters
+ * get an OperationOutcome, paging links point back at this router
+ */
+const sendPatientSearch = async (req: Request, res: Response, resourceType: SearchableResourceType) => {
+    const patientId = (req as any).patientId;
+
+    const search = translateSearch(resourceType, req.query, patientId);
+    if (!search.ok) {
+        res.status(search.status).json(search.outcome);
+        return;
+    }
+
+    const proxyBaseUrl = `${req.protocol}://${req.get("host")}${req.baseUrl}`;
+    const response = await searchPatientResources(resourceType, search.params, patientId, proxyBaseUrl);
+
+    // SMART apps only get included resources their scopes can read
+    if (req.smart && response.ok && response.data?.entry) {
+        response.data.entry = response.data.entry.filter((entry: any) =>
+            entry.search?.mode !== "include" || smartReadableTypes(req, [entry.resource?.resourceType]).length > 0
+        );
+    }
+
+    sendFhirResponse(res, response);
+};
+
 // ============= PATIENT ENDPOINTS =============
 
 /**
@@ -78,6 +126,7 @@ const validatePatientOwnershipMiddleware = (
 router.get(
     "/Patient/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Patient", "read"),
     asyncHandler(async (req, res) => {
         const patientId = (req as any).patientId;
         const requestedId = req.params.id;
@@ -108,23 +157,11 @@ router.get(
 router.post(
     "/Patient",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Patient", "create"),
+    validateFhirBody("Patient"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientData: FhirResource = req.body;
 
-        // Ensure resourceType is Patient
-        if (patientData.resourceType !== "Patient") {
-            return res.status(400).json({
-                resourceType: "OperationOutcome",
-                issue: [
-                    {
-                        severity: "error",
-                        code: "invalid",
-                        diagnostics: "Resource type must be Patient",
-                    },
-                ],
-            });
-        }
-
         const response = await fhirPost<FhirResource>("Patient", patientData);
         sendFhirResponse(res, response);
     })
@@ -137,6 +174,8 @@ router.post(
 router.put(
     "/Patient/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Patient", "update"),
+    validateFhirBody("Patient"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const requestedId = req.params.id;
@@ -163,35 +202,126 @@ router.put(
     })
 );
 
-// ============= OBSERVATION ENDPOINTS =============
+// ============= WHOLE RECORD ($everything / $export) =============
+
+const operationOutcome = (code: string, diagnostics: string) => ({
+    resourceType: "OperationOutcome",
+    issue: [{ severity: "error", code, diagnostics }],
+});
 
 /**
- * GET /fhir/Observation
- * Get all observations for patient (filtered by subject)
+ * Own record only: the Patient id in the path may be the user id or the
+ * synced FHIR Patient id. SMART apps get the types their scopes can read.
  */
-router.get(
-    "/Observation",
-    validatePatientOwnershipMiddleware,
-    asyncHandler(async (req: Request, res: Response) => {
+const ownRecordAccess: ExportAccess<ExportTarget> = {
+    async resolve(req, types) {
         const patientId = (req as any).patientId;
+        const fhirPatientId = await getFhirPatientId(patientId);
 
-        // Query for observations where subject = this patient
-        const queryParams = {
-            subject: `Patient/${patientId}`,
-            ...req.query,
+        if (req.params.id !== patientId && req.params.id !== fhirPatientId) {
+            return { status: 403, code: "forbidden", message: "You can only access your own record" };
+        }
+
+        const resourceTypes = smartReadableTypes(req, types);
+        if (resourceTypes.length === 0) {
+            return { status: 403, code: "forbidden", message: "The app's scopes allow none of the requested resource types" };
+        }
+
+        return {
+            userId: patientId,
+            // The synced FHIR Patient id, else the user id itself
+            fhirPatientId: fhirPatientId || patientId,
+            scope: { resourceTypes },
+            requester: { type: "patient" },
         };
+    },
+    ownsJob: (req, job) => job.requester_type === "patient" && job.user_id === (req as any).patientId,
+    sendError: (res, error) => {
+        res.status(error.status).json(operationOutcome(error.code, error.message));
+    },
+};
 
-        const response = await fhirGet<FhirBundle>("Observation", queryParams as Record<string, string | string[]>);
+/**
+ * GET /fhir/Patient/:id/$everything
+ * The patient's whole record as one searchset Bundle
+ * Query: _type (comma-separated resource types), _since (instant)
+ */
+router.get(
+    "/Patient/:id/\\$everything",
+    validatePatientOwnershipMiddleware,
+    requireSmartScope("Patient", "read"),
+    everythingHandler(ownRecordAccess)
+);
 
-        // Double-check: filter bundle results to ensure only patient's data
-        if (response.ok && response.data?.entry) {
-            response.data = filterBundleByPatient(
-                response.data as FhirBundle,
-                patientId
-            );
+/**
+ * GET /fhir/Patient/:id/$export
+ * Bulk Data kick-off: export the patient's record as NDJSON files.
+ * Requires "Prefer: respond-async"; answers 202 with the status URL in
+ * Content-Location.
+ * Query: _type, _since, _outputFormat (NDJSON only)
+ */
+router.get(
+    "/Patient/:id/\\$export",
+    validatePatientOwnershipMiddleware,
+    requireSmartScope("Patient", "read"),
+    exportKickOffHandler(ownRecordAccess)
+);
+
+/**
+ * GET /fhir/$export-status/:jobId
+ * 202 with X-Progress while running, 200 with the manifest when done
+ */
+router.get(
+    "/\\$export-status/:jobId",
+    validatePatientOwnershipMiddleware,
+    requireSmartScope("Patient", "read"),
+    exportStatusHandler(ownRecordAccess)
+);
+
+/**
+ * DELETE /fhir/$export-status/:jobId
+ * Cancel an export, or delete its files
+ */
+router.delete(
+    "/\\$export-status/:jobId",
+    validatePatientOwnershipMiddleware,
+    requireSmartScope("Patient", "read"),
+    exportCancelHandler(ownRecordAccess)
+);
+
+/**
+ * GET /fhir/$export-file/:jobId/:resourceType
+ * One NDJSON file of a finished export
+ */
+router.get(
+    "/\\$export-file/:jobId/:resourceType",
+    validatePatientOwnershipMiddleware,
+    requireSmartScope((req) => req.params.resourceType, "read"),
+    asyncHandler(async (req: Request, res: Response) => {
+        const found = await loadExportJob(ownRecordAccess, req, res);
+        if (!found) return;
+
+        const ndjson = found.job.status === "completed" ? await getExportFile(found.job.id, req.params.resourceType) : null;
+        if (ndjson === null) {
+            return res.status(404).json(operationOutcome("not-found", "No such file in this export"));
         }
 
-        sendFhirResponse(res, response);
+        res.type("application/fhir+ndjson").send(ndjson);
+    })
+);
+
+// ============= OBSERVATION ENDPOINTS =============
+
+/**
+ * GET /fhir/Observation
+ * Search the patient's observations (search parameters: lib/fhirSearch)
+ */
+router.get(
+    "/Observation",
+    validatePatientOwnershipMiddleware,
+    requireSmartScope("Observation", "search"),
+    asyncHandler(async (req: Request, res: Response) => {
+        await sendPatientSearch(req, res, "Observation");
     })
 );
 
@@ -202,6 +332,7 @@ router.get(
 router.get(
     "/Observation/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Observation", "read"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const observationId = req.params.id;
@@ -238,24 +369,12 @@ router.get(
 router.post(
     "/Observation",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Observation", "create"),
+    validateFhirBody("Observation"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const observationData: FhirResource = req.body;
 
-        // Ensure resourceType is Observation
-        if (observationData.resourceType !== "Observation") {
-            return res.status(400).json({
-                resourceType: "OperationOutcome",
-                issue: [
-                    {
-                        severity: "error",
-                        code: "invalid",
-                        diagnostics: "Resource type must be Observation",
-                    },
-                ],
-            });
-        }
-
         // Ensure observation is for this patient
         const subject = (observationData as any).subject;
         const subjectRef =
@@ -291,29 +410,14 @@ router.post(
 
 /**
  * GET /fhir/Condition
- * Get all conditions for patient
+ * Search the patient's conditions (search parameters: lib/fhirSearch)
  */
 router.get(
     "/Condition",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Condition", "search"),
     asyncHandler(async (req: Request, res: Response) => {
-        const patientId = (req as any).patientId;
-
-        const queryParams = {
-            subject: `Patient/${patientId}`,
-            ...req.query,
-        };
-
-        const response = await fhirGet<FhirBundle>("Condition", queryParams as Record<string, string | string[]>);
-
-        if (response.ok && response.data?.entry) {
-            response.data = filterBundleByPatient(
-                response.data as FhirBundle,
-                patientId
-            );
-        }
-
-        sendFhirResponse(res, response);
+        await sendPatientSearch(req, res, "Condition");
     })
 );
 
@@ -324,6 +428,7 @@ router.get(
 router.get(
     "/Condition/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Condition", "read"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const conditionId = req.params.id;
@@ -359,23 +464,12 @@ router.get(
 router.post(
     "/Condition",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Condition", "create"),
+    validateFhirBody("Condition"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const conditionData: FhirResource = req.body;
 
-        if (conditionData.resourceType !== "Condition") {
-            return res.status(400).json({
-                resourceType: "OperationOutcome",
-                issue: [
-                    {
-                        severity: "error",
-                        code: "invalid",
-                        diagnostics: "Resource type must be Condition",
-                    },
-                ],
-            });
-        }
-
         const subject = (conditionData as any).subject;
         const subjectRef =
             typeof subject === "string"
@@ -410,32 +504,14 @@ router.post(
 
 /**
  * GET /fhir/MedicationRequest
- * Get all medication requests for patient
+ * Search the patient's medication requests (search parameters: lib/fhirSearch)
  */
 router.get(
     "/MedicationRequest",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("MedicationRequest", "search"),
     asyncHandler(async (req: Request, res: Response) => {
-        const patientId = (req as any).patientId;
-
-        const queryParams = {
-            subject: `Patient/${patientId}`,
-            ...req.query,
-        };
-
-        const response = await fhirGet<FhirBundle>(
-            "MedicationRequest",
-            queryParams as Record<string, string | string[]>
-        );
-
-        if (response.ok && response.data?.entry) {
-            response.data = filterBundleByPatient(
-                response.data as FhirBundle,
-                patientId
-            );
-        }
-
-        sendFhirResponse(res, response);
+        await sendPatientSearch(req, res, "MedicationRequest");
     })
 );
 
@@ -446,6 +522,7 @@ router.get(
 router.get(
     "/MedicationRequest/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("MedicationRequest", "read"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const medReqId = req.params.id;
@@ -482,23 +559,12 @@ router.get(
 router.post(
     "/MedicationRequest",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("MedicationRequest", "create"),
+    validateFhirBody("MedicationRequest"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const medReqData: FhirResource = req.body;
 
-        if (medReqData.resourceType !== "MedicationRequest") {
-            return res.status(400).json({
-                resourceType: "OperationOutcome",
-                issue: [
-                    {
-                        severity: "error",
-                        code: "invalid",
-                        diagnostics: "Resource type must be MedicationRequest",
-                    },
-                ],
-            });
-        }
-
         const subject = (medReqData as any).subject;
         const subjectRef =
             typeof subject === "string"
@@ -534,32 +600,14 @@ router.post(
 
 /**
  * GET /fhir/DiagnosticReport
- * Get all diagnostic reports for patient
+ * Search the patient's diagnostic reports (search parameters: lib/fhirSearch)
  */
 router.get(
     "/DiagnosticReport",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("DiagnosticReport", "search"),
     asyncHandler(async (req: Request, res: Response) => {
-        const patientId = (req as any).patientId;
-
-        const queryParams = {
-            subject: `Patient/${patientId}`,
-            ...req.query,
-        };
-
-        const response = await fhirGet<FhirBundle>(
-            "DiagnosticReport",
-            queryParams as Record<string, string | string[]>
-        );
-
-        if (response.ok && response.data?.entry) {
-            response.data = filterBundleByPatient(
-                response.data as FhirBundle,
-                patientId
-            );
-        }
-
-        sendFhirResponse(res, response);
+        await sendPatientSearch(req, res, "DiagnosticReport");
     })
 );
 
@@ -570,6 +618,7 @@ router.get(
 router.get(
     "/DiagnosticReport/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("DiagnosticReport", "read"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const reportId = req.params.id;
@@ -606,23 +655,12 @@ router.get(
 router.post(
     "/DiagnosticReport",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("DiagnosticReport", "create"),
+    validateFhirBody("DiagnosticReport"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const reportData: FhirResource = req.body;
 
-        if (reportData.resourceType !== "DiagnosticReport") {
-            return res.status(400).json({
-                resourceType: "OperationOutcome",
-                issue: [
-                    {
-                        severity: "error",
-                        code: "invalid",
-                        diagnostics: "Resource type must be DiagnosticReport",
-                    },
-                ],
-            });
-        }
-
         const subject = (reportData as any).subject;
         const subjectRef =
             typeof subject === "string"
@@ -658,32 +696,14 @@ router.post(
 
 /**
  * GET /fhir/DocumentReference
- * Get all documents for patient
+ * Search the patient's documents (search parameters: lib/fhirSearch)
  */
 router.get(
     "/DocumentReference",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("DocumentReference", "search"),
     asyncHandler(async (req: Request, res: Response) => {
-        const patientId = (req as any).patientId;
-
-        const queryParams = {
-            subject: `Patient/${patientId}`,
-            ...req.query,
-        };
-
-        const response = await fhirGet<FhirBundle>(
-            "DocumentReference",
-            queryParams as Record<string, string | string[]>
-        );
-
-        if (response.ok && response.data?.entry) {
-            response.data = filterBundleByPatient(
-                response.data as FhirBundle,
-                patientId
-            );
-        }
-
-        sendFhirResponse(res, response);
+        await sendPatientSearch(req, res, "DocumentReference");
     })
 );
 
@@ -694,6 +714,7 @@ router.get(
 router.get(
     "/DocumentReference/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("DocumentReference", "read"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const docId = req.params.id;
@@ -730,23 +751,12 @@ router.get(
 router.post(
     "/DocumentReference",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("DocumentReference", "create"),
+    validateFhirBody("DocumentReference"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const docData: FhirResource = req.body;
 
-        if (docData.resourceType !== "DocumentReference") {
-            return res.status(400).json({
-                resourceType: "OperationOutcome",
-                issue: [
-                    {
-                        severity: "error",
-                        code: "invalid",
-                        diagnostics: "Resource type must be DocumentReference",
-                    },
-                ],
-            });
-        }
-
         const subject = (docData as any).subject;
         const subjectRef =
             typeof subject === "string"
@@ -782,32 +792,14 @@ router.post(
 
 /**
  * GET /fhir/Encounter
- * Get all encounters for patient
+ * Search the patient's encounters (search parameters: lib/fhirSearch)
  */
 router.get(
     "/Encounter",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Encounter", "search"),
     asyncHandler(async (req: Request, res: Response) => {
-        const patientId = (req as any).patientId;
-
-        const queryParams = {
-            subject: `Patient/${patientId}`,
-            ...req.query,
-        };
-
-        const response = await fhirGet<FhirBundle>(
-            "Encounter",
-            queryParams as Record<string, string | string[]>
-        );
-
-        if (response.ok && response.data?.entry) {
-            response.data = filterBundleByPatient(
-                response.data as FhirBundle,
-                patientId
-            );
-        }
-
-        sendFhirResponse(res, response);
+        await sendPatientSearch(req, res, "Encounter");
     })
 );
 
@@ -818,6 +810,7 @@ router.get(
 router.get(
     "/Encounter/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Encounter", "read"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const encounterId = req.params.id;
@@ -853,23 +846,12 @@ router.get(
 router.post(
     "/Encounter",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Encounter", "create"),
+    validateFhirBody("Encounter"),
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const encounterData: FhirResource = req.body;
 
-        if (encounterData.resourceType !== "Encounter") {
-            return res.status(400).json({
-                resourceType: "OperationOutcome",
-                issue: [
-                    {
-                        severity: "error",
-                        code: "invalid",
-                        diagnostics: "Resource type must be Encounter",
-                    },
-                ],
-            });
-        }
-
         const subject = (encounterData as any).subject;
         const subjectRef =
             typeof subject === "string"
@@ -910,6 +892,7 @@ router.post(
 router.get(
     "/Binary/:id",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Binary", "read"),
     asyncHandler(async (req: Request, res: Response) => {
         const binaryId = req.params.id;
 
@@ -936,6 +919,7 @@ router.get(
 router.post(
     "/Binary",
     validatePatientOwnershipMiddleware,
+    requireSmartScope("Binary", "create"),
     asyncHandler(async (req: Request, res: Response) => {
         const binaryData = req.body;
 
@@ -969,6 +953,7 @@ router.post(
 router.post(
     "/process-file",
     validatePatientOwnershipMiddleware,
+    rejectSmartToken,
     asyncHandler(async (req: Request, res: Response) => {
         const patientId = (req as any).patientId;
         const { name, type, contentBase64 } = req.body;
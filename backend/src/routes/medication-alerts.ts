@@ -0,0 +1,94 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { enforceConsent } from '../middleware/enforceConsent';
+import { medicationAlertService, AlertStatus } from '../modules/medication-safety/MedicationAlertService';
+
+const router = express.Router();
+
+const checkSchema = z.object({
+    medications: z.array(z.string().min(1)).optional(),
+    source: z.enum(['extraction', 'voice', 'manual']).optional()
+});
+
+const acknowledgeSchema = z.object({
+    note: z.string().max(1000).optional()
+});
+
+const validationError = (res: Response, error: z.ZodError) =>
+    res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+    });
+
+/**
+ * GET /api/medication-alerts/:patientId
+ *
+ * Lists drug–drug and drug–allergy alerts for a patient, most severe first.
+ * Optional ?status=active|acknowledged|resolved filter
+ */
+router.get('/:patientId', enforceConsent(), async (req: Request, res: Response) => {
+    try {
+        const { patientId } = req.params;
+        const status = req.query.status as AlertStatus | undefined;
+
+        if (status && !['active', 'acknowledged', 'resolved'].includes(status)) {
+            return res.status(400).json({ error: `Invalid status "${status}"` });
+        }
+
+        const alerts = await medicationAlertService.listAlerts(patientId, status);
+        res.json({ alerts });
+    } catch (error: any) {
+        console.error('❌ [MedicationAlerts] List error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+/**
+ * POST /api/medication-alerts/:patientId/check
+ *
+ * Checks the patient's medications against each other and their allergies.
+ * With body.medications, only pairs involving those (newly added) drugs are
+ * checked; without it, the full list is re-checked and stale alerts resolved
+ */
+router.post('/:patientId/check', enforceConsent(), async (req: Request, res: Response) => {
+    try {
+        const { patientId } = req.params;
+
+        const parsed = checkSchema.safeParse(req.body || {});
+        if (!parsed.success) return validationError(res, parsed.error);
+
+        const raised = await medicationAlertService.checkPatient(patientId, parsed.data.medications, parsed.data.source || 'manual');
+        const alerts = await medicationAlertService.listAlerts(patientId, 'active');
+
+        res.json({ raised, alerts });
+    } catch (error: any) {
+        console.error('❌ [MedicationAlerts] Check error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+/**
+ * POST /api/medication-alerts/:patientId/:alertId/acknowledge
+ *
+ * Marks an alert as seen by the current user, with an optional note
+ */
+router.post('/:patientId/:alertId/acknowledge', enforceConsent(), async (req: Request, res: Response) => {
+    try {
+        const { patientId, alertId } = req.params;
+
+        const parsed = acknowledgeSchema.safeParse(req.body || {});
+        if (!parsed.success) return validationError(res, parsed.error);
+
+        const alert = await medicationAlertService.acknowledge(patientId, alertId, req.user.id, parsed.data.note);
+        if (!alert) {
+            return res.status(404).json({ error: 'Alert not found' });
+        }
+
+        res.json({ alert });
+    } catch (error: any) {
+        console.error('❌ [MedicationAlerts] Acknowledge error:', error);
+        res.status(500).json({ error: error.message || 'Internal Server Error' });
+    }
+});
+
+export default router;
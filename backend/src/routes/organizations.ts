@@ -6,10 +6,31 @@
 import { Router, type Request, type Response } from 'express';
 import { fhirPost, type FhirResource } from '../lib/fhirClient';
 import { supabaseAdmin } from '../lib/supabaseClient';
+import { requireRole } from '../middleware/roleGuard';
+import { getEmergencyAccessReport } from '../lib/emergencyAccessService';
+import {
+    createTemplate,
+    deactivateTemplate,
+    listTemplates,
+    updateTemplate,
+    validateTemplateInput,
+} from '../lib/consentTemplateService';
+import {
+    getPublicKeys,
+    hashClientSecret,
+    registerPublicKey,
+    revokePreviousClientSecrets,
+    revokePublicKey,
+    rotateClientSecret,
+} from '../lib/organizationAuthService';
 import crypto from 'crypto';
 
 const router = Router();
 
+// Credential, key, rate limit and consent template management and compliance
+// reporting are for Niraiva admins (the router is mounted behind verifyToken)
+const requireAdmin = requireRole(['admin']);
+
 // ============================================================
 // ORGANIZATION REGISTRATION
 // ============================================================
@@ -26,17 +47,22 @@ const router = Router();
  *     address?: string,
  *     contact?: string,
  *     ...
- *   }
+ *   },
+ *   rateLimitPerMinute?: number
  * }
  */
 router.post('/register', async (req: Request, res: Response) => {
     try {
-        const { name, type, metadata } = req.body;
+        const { name, type, metadata, rateLimitPerMinute } = req.body;
 
         if (!name || !type) {
             return res.status(400).json({ error: 'Name and type are required' });
         }
 
+        if (rateLimitPerMinute !== undefined && (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1)) {
+            return res.status(400).json({ error: 'rateLimitPerMinute must be a positive integer' });
+        }
+
         const validTypes = ['hospital', 'lab', 'hiu', 'caregiver', 'research'];
         if (!validTypes.includes(type)) {
             return res.status(400).json({
@@ -47,11 +73,7 @@ router.post('/register', async (req: Request, res: Response) => {
         // Generate client credentials
         const clientId = `${type}-${crypto.randomBytes(8).toString('hex')}`;
         const clientSecret = crypto.randomBytes(32).toString('hex');
-
-        // TODO: Hash client secret with bcrypt
-        // const bcrypt = require('bcrypt');
-        // const clientSecretHash = await bcrypt.hash(clientSecret, 10);
-        const clientSecretHash = clientSecret; // Temporary for development
+        const clientSecretHash = hashClientSecret(clientSecret);
 
         // Create FHIR Organization resource
         const fhirOrganization: FhirResource = {
@@ -109,6 +131,7 @@ router.post('/register', async (req: Request, res: Response) => {
                 client_secret_hash: clientSecretHash,
                 active: true,
                 metadata: metadata || {},
+                rate_limit_per_minute: rateLimitPerMinute || null,
             })
             .select()
             .single();
@@ -144,6 +167,168 @@ router.post('/register', async (req: Request, res: Response) => {
     }
 });
 
+// ============================================================
+// EMERGENCY ACCESS COMPLIANCE
+// ============================================================
+
+/**
+ * GET /api/organizations/emergency-access-report
+ * Break-the-glass accesses per organization, with review and notification
+ * outcomes (admin only)
+ * 
+ * Query params:
+ * - organizationId: limit to one organization
+ * - from, to: ISO dates bounding when access was granted
+ */
+router.get('/emergency-access-report', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { organizationId, from, to } = req.query;
+
+        const report = await getEmergencyAccessReport({
+            organizationId: organizationId as string | undefined,
+            from: from as string | undefined,
+            to: to as string | undefined,
+        });
+
+        return res.json({
+            report,
+            totals: {
+                organizations: report.length,
+                accesses: report.reduce((sum, row) => sum + row.total, 0),
+                disputed: report.reduce((sum, row) => sum + row.disputed, 0),
+                pendingReview: report.reduce((sum, row) => sum + row.pendingReview, 0),
+            },
+            period: { from: from || null, to: to || null },
+        });
+
+    } catch (error: any) {
+        console.error('Emergency access report error:', error);
+        return res.status(500).json({
+            error: 'Failed to build emergency access report',
+            message: error.message,
+        });
+    }
+});
+
+// ============================================================
+// CONSENT TEMPLATES
+// ============================================================
+
+/**
+ * GET /api/organizations/consent-templates
+ * Consent templates offered to patients
+ *
+ * Query params:
+ * - type: organization type (hospital, lab, hiu, caregiver, research)
+ * - organizationId: templates defined for one organization
+ * - includeInactive: 'true' to include retired templates
+ */
+router.get('/consent-templates', async (req: Request, res: Response) => {
+    try {
+        const templates = await listTemplates({
+            organizationType: req.query.type as string | undefined,
+            organizationId: req.query.organizationId as string | undefined,
+            includeInactive: req.query.includeInactive === 'true',
+        });
+
+        return res.json({ templates, count: templates.length });
+
+    } catch (error: any) {
+        console.error('Consent template list error:', error);
+        return res.status(500).json({
+            error: 'Failed to fetch consent templates',
+            message: error.message,
+        });
+    }
+});
+
+/**
+ * POST /api/organizations/consent-templates
+ * Define a consent template for an organization type (or one organization) (admin only)
+ *
+ * Body:
+ * {
+ *   name: string,
+ *   description?: string,
+ *   organizationType?: string (omit for every type),
+ *   organizationId?: string,
+ *   purposeOfUse: 'TREATMENT' | 'EMERGENCY' | 'INSURANCE' | 'RESEARCH',
+ *   allowedResources: string[],
+ *   excludedCategories?: string[],
+ *   durationDays: number,
+ *   renewable?: boolean,
+ *   renewalReminderDays?: number
+ * }
+ */
+router.post('/consent-templates', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const errors = validateTemplateInput(req.body);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Validation failed', errors });
+        }
+
+        const template = await createTemplate(req.body);
+
+        return res.status(201).json({ message: 'Consent template created', template });
+
+    } catch (error: any) {
+        console.error('Consent template create error:', error);
+        return res.status(500).json({
+            error: 'Failed to create consent template',
+            message: error.message,
+        });
+    }
+});
+
+/**
+ * PUT /api/organizations/consent-templates/:templateId
+ * Change a template; consents already granted keep their terms (admin only)
+ */
+router.put('/consent-templates/:templateId', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const errors = validateTemplateInput(req.body, true);
+        if (errors.length > 0) {
+            return res.status(400).json({ error: 'Validation failed', errors });
+        }
+
+        const template = await updateTemplate(req.params.templateId, req.body);
+        if (!template) {
+            return res.status(404).json({ error: 'Consent template not found' });
+        }
+
+        return res.json({ message: 'Consent template updated', template });
+
+    } catch (error: any) {
+        console.error('Consent template update error:', error);
+        return res.status(500).json({
+            error: 'Failed to update consent template',
+            message: error.message,
+        });
+    }
+});
+
+/**
+ * DELETE /api/organizations/consent-templates/:templateId
+ * Retire a template, no longer offered or renewable (admin only)
+ */
+router.delete('/consent-templates/:templateId', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const deactivated = await deactivateTemplate(req.params.templateId);
+        if (!deactivated) {
+            return res.status(404).json({ error: 'Consent template not found' });
+        }
+
+        return res.json({ message: 'Consent template retired' });
+
+    } catch (error: any) {
+        console.error('Consent template retire error:', error);
+        return res.status(500).json({
+            error: 'Failed to retire consent template',
+            message: error.message,
+        });
+    }
+});
+
 // ============================================================
 // ORGANIZATION DETAILS
 // ============================================================
@@ -214,43 +399,222 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // ============================================================
-// REGENERATE CREDENTIALS
+// ROTATE CREDENTIALS
 // ============================================================
 
 /**
  * POST /api/organizations/:id/credentials
- * Regenerate client credentials (admin only - TODO: add auth)
+ * Issue a new client secret (admin only).
+ * The previous secret keeps working until previousSecretValidUntil.
+ * 
+ * Body:
+ * {
+ *   graceHours?: number   // Overlap window, 0 ends the previous secret immediately
+ * }
  */
-router.post('/:id/credentials', async (req: Request, res: Response) => {
+router.post('/:id/credentials', requireAdmin, async (req: Request, res: Response) => {
     try {
-        // TODO: Add admin authentication
         const { id } = req.params;
+        const { graceHours } = req.body || {};
 
-        const clientSecret = crypto.randomBytes(32).toString('hex');
-        const clientSecretHash = clientSecret; // TODO: Hash with bcrypt
+        if (graceHours !== undefined && (typeof graceHours !== 'number' || graceHours < 0)) {
+            return res.status(400).json({ error: 'graceHours must be a non-negative number' });
+        }
 
         const { data: org, error } = await supabaseAdmin
             .from('organizations')
-            .update({ client_secret_hash: clientSecretHash })
-            .eq('id', id)
             .select('client_id')
+            .eq('id', id)
             .single();
 
         if (error || !org) {
             return res.status(404).json({ error: 'Organization not found' });
         }
 
+        const { clientSecret, previousValidUntil } = await rotateClientSecret(id, graceHours);
+
         return res.json({
-            message: 'Credentials regenerated successfully',
+            message: 'Credentials rotated successfully',
             credentials: {
                 clientId: org.client_id,
                 clientSecret,
             },
+            previousSecretValidUntil: previousValidUntil,
             warning: 'Store client secret securely. It will not be shown again.',
         });
 
     } catch (error: any) {
-        console.error('Credentials regeneration error:', error);
+        console.error('Credentials rotation error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * POST /api/organizations/:id/credentials/revoke-previous
+ * End the rotation overlap: only the current secret remains valid (admin only)
+ */
+router.post('/:id/credentials/revoke-previous', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const revoked = await revokePreviousClientSecrets(id);
+
+        return res.json({
+            message: 'Previous secrets revoked',
+            revoked,
+        });
+
+    } catch (error: any) {
+        console.error('Secret revocation error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// ============================================================
+// CLIENT ASSERTION KEYS (private_key_jwt)
+// ============================================================
+
+/**
+ * GET /api/organizations/:id/keys
+ * Public keys registered for client assertions (admin only)
+ */
+router.get('/:id/keys', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const keys = await getPublicKeys(id);
+
+        return res.json({
+            keys: keys.map((k) => ({
+                kid: k.kid,
+                alg: k.alg,
+                jwk: k.public_jwk,
+                createdAt: k.created_at,
+                expiresAt: k.expires_at,
+                revokedAt: k.revoked_at,
+                lastUsedAt: k.last_used_at,
+            })),
+            total: keys.length,
+        });
+
+    } catch (error: any) {
+        console.error('Keys fetch error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * POST /api/organizations/:id/keys
+ * Register a public key (admin only). Registering the
+ * next key before revoking the current one rotates keys without downtime.
+ * 
+ * Body:
+ * {
+ *   jwk: JsonWebKey,      // RSA or EC public key; kid and alg optional
+ *   expiresAt?: string
+ * }
+ */
+router.post('/:id/keys', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { jwk, expiresAt } = req.body;
+
+        if (!jwk || typeof jwk !== 'object') {
+            return res.status(400).json({ error: 'jwk is required' });
+        }
+
+        const { data: org, error } = await supabaseAdmin
+            .from('organizations')
+            .select('id')
+            .eq('id', id)
+            .single();
+
+        if (error || !org) {
+            return res.status(404).json({ error: 'Organization not found' });
+        }
+
+        let key;
+        try {
+            key = await registerPublicKey(id, jwk, expiresAt);
+        } catch (keyError: any) {
+            return res.status(400).json({ error: keyError.message });
+        }
+
+        return res.status(201).json({
+            message: 'Key registered successfully',
+            key: {
+                kid: key.kid,
+                alg: key.alg,
+                expiresAt: key.expires_at,
+            },
+        });
+
+    } catch (error: any) {
+        console.error('Key registration error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * DELETE /api/organizations/:id/keys/:kid
+ * Revoke a client assertion key (admin only)
+ */
+router.delete('/:id/keys/:kid', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { id, kid } = req.params;
+
+        const revoked = await revokePublicKey(id, kid);
+        if (!revoked) {
+            return res.status(404).json({ error: 'Key not found or already revoked' });
+        }
+
+        return res.json({ message: 'Key revoked', kid });
+
+    } catch (error: any) {
+        console.error('Key revocation error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// ============================================================
+// RATE LIMIT
+// ============================================================
+
+/**
+ * PUT /api/organizations/:id/rate-limit
+ * Set the organization's external API budget (admin only)
+ * 
+ * Body:
+ * {
+ *   rateLimitPerMinute: number | null   // null = server default
+ * }
+ */
+router.put('/:id/rate-limit', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { rateLimitPerMinute } = req.body;
+
+        if (rateLimitPerMinute !== null && (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1)) {
+            return res.status(400).json({ error: 'rateLimitPerMinute must be a positive integer or null' });
+        }
+
+        const { data: org, error } = await supabaseAdmin
+            .from('organizations')
+            .update({ rate_limit_per_minute: rateLimitPerMinute })
+            .eq('id', id)
+            .select('id, rate_limit_per_minute')
+            .single();
+
+        if (error || !org) {
+            return res.status(404).json({ error: 'Organization not found' });
+        }
+
+        return res.json({
+            message: 'Rate limit updated',
+            rateLimitPerMinute: org.rate_limit_per_minute,
+        });
+
+    } catch (error: any) {
+        console.error('Rate limit update error:', error);
         return res.status(500).json({ error: 'Internal server error' });
     }
 });
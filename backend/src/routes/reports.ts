@@ -196,6 +196,50 @@ router.get("/:id/status", verifyToken, async (req: any, res: Response) => {
     }
 });
 
+/**
+ * GET /:id/file
+ * Returns a short-lived signed URL for the original document of a report,
+ * so cited evidence can be opened in the file viewer.
+ * Reports uploaded through /upload-report keep only the parsed text (404).
+ */
+router.get("/:id/file", verifyToken, async (req: any, res: Response) => {
+    try {
+        const { id } = req.params;
+        const supabase = getSupabaseAdminClient();
+
+        const { data: report, error } = await supabase
+            .from('reports')
+            .select('id, storage_path, content_type, original_filename')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) {
+            return res.status(500).json({ error: error.message });
+        }
+        if (!report?.storage_path) {
+            return res.status(404).json({ error: 'No original file stored for this report' });
+        }
+
+        const bucketName = process.env.SUPABASE_BUCKET || 'reports';
+        const { data: signed, error: signError } = await supabase.storage
+            .from(bucketName)
+            .createSignedUrl(report.storage_path, 60 * 10);
+
+        if (signError || !signed) {
+            return res.status(500).json({ error: signError?.message || 'Could not sign file URL' });
+        }
+
+        return res.json({
+            url: signed.signedUrl,
+            contentType: report.content_type,
+            filename: report.original_filename
+        });
+    } catch (err) {
+        console.error('Report file route error:', err);
+        return res.status(500).json({ error: String(err) });
+    }
+});
+
 /**
  * GET /timeline
  * Returns all timeline events for the authenticated user
@@ -0,0 +1,366 @@
+/**
+ * SMART on FHIR Authorization Routes
+ * OAuth2 endpoints for third-party apps on /fhir (authorize, token,
+ * introspect, revoke), the consent screen's API, EHR launch for doctors
+ * and the patient's list of authorized apps
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { verifyToken } from '../middleware/verifyToken';
+import {
+    CONTEXT_SCOPES,
+    SMART_RESOURCE_TYPES,
+    authenticateSmartClient,
+    createEhrLaunch,
+    decideAuthorization,
+    exchangeAuthorizationCode,
+    getAuthorizationForReview,
+    introspectSmartToken,
+    listAuthorizedApps,
+    listLaunchableApps,
+    refreshAccessToken,
+    revokeAppAccess,
+    revokeSmartToken,
+    startAuthorization,
+    type AuthorizeParams,
+} from '../lib/smart';
+
+const router = Router();
+
+/**
+ * The FHIR base URL apps are authorized for (aud) and the authorization
+ * server's own base URL
+ */
+const fhirBaseUrl = (req: Request) =>
+    (process.env.SMART_FHIR_BASE_URL || `${req.protocol}://${req.get('host')}/fhir`).replace(/\/$/, '');
+
+const smartBaseUrl = (req: Request) => `${req.protocol}://${req.get('host')}/api/smart`;
+
+/**
+ * GET /fhir/.well-known/smart-configuration
+ * SMART discovery document (public, mounted outside the /fhir auth)
+ */
+export function smartConfiguration(req: Request, res: Response) {
+    const base = smartBaseUrl(req);
+    res.json({
+        issuer: base,
+        authorization_endpoint: `${base}/authorize`,
+        token_endpoint: `${base}/token`,
+        introspection_endpoint: `${base}/introspect`,
+        revocation_endpoint: `${base}/revoke`,
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        grant_types_supported: ['authorization_code', 'refresh_token'],
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: [
+            ...CONTEXT_SCOPES,
+            ...['patient', 'user'].flatMap((context) =>
+                ['*', ...SMART_RESOURCE_TYPES].flatMap((type) => [`${context}/${type}.read`, `${context}/${type}.rs`, `${context}/${type}.cruds`])
+            ),
+        ],
+        capabilities: [
+            'launch-ehr',
+            'launch-standalone',
+            'client-public',
+            'client-confidential-symmetric',
+            'context-ehr-patient',
+            'context-standalone-patient',
+            'context-banner',
+            'permission-offline',
+            'permission-patient',
+            'permission-user',
+            'permission-v1',
+            'permission-v2',
+        ],
+    });
+}
+
+// ============================================================
+// AUTHORIZATION
+// ============================================================
+
+/**
+ * GET /api/smart/authorize
+ * Authorization endpoint. A valid request is sent on to the Niraiva
+ * consent screen; errors go back to the app when its redirect URI is known.
+ */
+router.get('/authorize', async (req: Request, res: Response) => {
+    try {
+        // Repeated parameters are not valid OAuth; keep single values only
+        const params = Object.fromEntries(
+            Object.entries(req.query).filter(([, value]) => typeof value === 'string')
+        ) as AuthorizeParams;
+
+        const result = await startAuthorization(params, fhirBaseUrl(req));
+
+        if (!result.ok) {
+            if (result.redirect) return res.redirect(result.redirect);
+            return res.status(400).json({ error: result.error, error_description: result.description });
+        }
+
+        const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/+$/, '');
+        return res.redirect(`${frontendUrl}/smart/authorize?request=${result.requestId}`);
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Authorize error:', error);
+        return res.status(500).json({ error: 'server_error' });
+    }
+});
+
+/**
+ * GET /api/smart/authorize/requests/:id
+ * What the consent screen shows: app, scopes, patient in context
+ */
+router.get('/authorize/requests/:id', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const result = await getAuthorizationForReview(req.params.id, req.user.id);
+        if (!result.request) {
+            return res.status(result.status || 400).json({ error: result.error });
+        }
+        return res.json(result.request);
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Authorization review error:', error);
+        return res.status(500).json({ error: 'Failed to load the authorization request' });
+    }
+});
+
+/**
+ * POST /api/smart/authorize/requests/:id
+ * The user's decision
+ *
+ * Body:
+ * {
+ *   approve: boolean,
+ *   scopes?: string[]     // Approve only these of the requested scopes
+ * }
+ * Returns { redirectUrl } to send the browser back to the app
+ */
+router.post('/authorize/requests/:id', verifyToken, async (req: Request, res: Response) => {
+    const { approve, scopes } = req.body || {};
+
+    if (typeof approve !== 'boolean') {
+        return res.status(400).json({ error: 'approve must be true or false' });
+    }
+    if (scopes !== undefined && (!Array.isArray(scopes) || scopes.some((s: unknown) => typeof s !== 'string'))) {
+        return res.status(400).json({ error: 'scopes must be an array of strings' });
+    }
+
+    try {
+        const result = await decideAuthorization(req.params.id, req.user.id, { approve, scopes }, {
+            ipAddress: req.ip,
+            userAgent: req.headers['user-agent'],
+        });
+
+        if (!result.redirectUrl) {
+            return res.status(result.status || 400).json({ error: result.error });
+        }
+        return res.json({ redirectUrl: result.redirectUrl });
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Authorization decision error:', error);
+        return res.status(500).json({ error: 'Failed to record the decision' });
+    }
+});
+
+// ============================================================
+// TOKENS
+// ============================================================
+
+/**
+ * Client credentials from HTTP Basic (client_secret_basic) or the body
+ * (client_secret_post, or client_id alone for public apps)
+ */
+function readClientCredentials(req: Request): { clientId?: string; clientSecret?: string } {
+    const header = req.headers.authorization || '';
+    if (header.startsWith('Basic ')) {
+        const decoded = Buffer.from(header.slice(6), 'base64').toString();
+        const separator = decoded.indexOf(':');
+        if (separator > 0) {
+            return {
+                clientId: decodeURIComponent(decoded.slice(0, separator)),
+                clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+            };
+        }
+    }
+    return { clientId: req.body?.client_id, clientSecret: req.body?.client_secret };
+}
+
+async function authenticateClient(req: Request, res: Response) {
+    const { clientId, clientSecret } = readClientCredentials(req);
+    const app = await authenticateSmartClient(clientId, clientSecret);
+
+    if (!app) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="smart"');
+        res.status(401).json({ error: 'invalid_client' });
+        return null;
+    }
+    return app;
+}
+
+/**
+ * POST /api/smart/token
+ * Token endpoint (form-encoded): authorization_code and refresh_token grants
+ */
+router.post('/token', async (req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+
+    try {
+        const app = await authenticateClient(req, res);
+        if (!app) return;
+
+        const grantType = req.body?.grant_type;
+        const result = grantType === 'authorization_code'
+            ? await exchangeAuthorizationCode(app, req.body)
+            : grantType === 'refresh_token'
+                ? await refreshAccessToken(app, req.body)
+                : { ok: false as const, error: 'unsupported_grant_type', description: 'Use authorization_code or refresh_token' };
+
+        if (!result.ok) {
+            return res.status(400).json({ error: result.error, error_description: result.description });
+        }
+        return res.json(result.response);
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Token error:', error);
+        return res.status(500).json({ error: 'server_error' });
+    }
+});
+
+/**
+ * POST /api/smart/introspect
+ * Token introspection (RFC 7662) for the calling app's tokens
+ *
+ * Body (form-encoded or JSON):
+ * {
+ *   token: string
+ * }
+ */
+router.post('/introspect', async (req: Request, res: Response) => {
+    try {
+        const app = await authenticateClient(req, res);
+        if (!app) return;
+
+        const { token } = req.body || {};
+        if (!token) {
+            return res.status(400).json({ error: 'invalid_request', error_description: 'token is required' });
+        }
+
+        res.setHeader('Cache-Control', 'no-store');
+        return res.json(await introspectSmartToken(app, token, smartBaseUrl(req)));
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Introspection error:', error);
+        return res.status(500).json({ error: 'server_error' });
+    }
+});
+
+/**
+ * POST /api/smart/revoke
+ * Token revocation (RFC 7009); unknown tokens are not an error
+ */
+router.post('/revoke', async (req: Request, res: Response) => {
+    try {
+        const app = await authenticateClient(req, res);
+        if (!app) return;
+
+        const { token } = req.body || {};
+        if (!token) {
+            return res.status(400).json({ error: 'invalid_request', error_description: 'token is required' });
+        }
+
+        await revokeSmartToken(app, token);
+        return res.status(200).end();
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Revocation error:', error);
+        return res.status(500).json({ error: 'server_error' });
+    }
+});
+
+// ============================================================
+// EHR LAUNCH (DOCTORS)
+// ============================================================
+
+/**
+ * GET /api/smart/apps
+ * Apps a doctor can launch from a patient's record
+ */
+router.get('/apps', verifyToken, async (req: Request, res: Response) => {
+    try {
+        return res.json({ apps: await listLaunchableApps() });
+    } catch (error: any) {
+        console.error('❌ [SMART] App list error:', error);
+        return res.status(500).json({ error: 'Failed to list apps' });
+    }
+});
+
+/**
+ * POST /api/smart/launch
+ * Launch an app with a patient in context. The patient must have given
+ * the doctor active consent.
+ *
+ * Body:
+ * {
+ *   clientId: string,
+ *   patientId: string     // Patient's user ID
+ * }
+ * Returns { launchUrl } to open
+ */
+router.post('/launch', verifyToken, async (req: Request, res: Response) => {
+    const { clientId, patientId } = req.body || {};
+
+    if (!clientId || !patientId) {
+        return res.status(400).json({ error: 'clientId and patientId are required' });
+    }
+
+    try {
+        const result = await createEhrLaunch(req.user.id, clientId, patientId, fhirBaseUrl(req));
+        if (!result.launchUrl) {
+            return res.status(result.status || 400).json({ error: result.error });
+        }
+        return res.json({ launchUrl: result.launchUrl });
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Launch error:', error);
+        return res.status(500).json({ error: 'Failed to launch the app' });
+    }
+});
+
+// ============================================================
+// AUTHORIZED APPS (PATIENTS)
+// ============================================================
+
+/**
+ * GET /api/smart/authorizations
+ * Apps that currently hold access to the signed-in patient's record
+ */
+router.get('/authorizations', verifyToken, async (req: Request, res: Response) => {
+    try {
+        return res.json({ authorizations: await listAuthorizedApps(req.user.id) });
+    } catch (error: any) {
+        console.error('❌ [SMART] Authorized apps error:', error);
+        return res.status(500).json({ error: 'Failed to list authorized apps' });
+    }
+});
+
+/**
+ * DELETE /api/smart/authorizations/:clientId
+ * Withdraw an app's access to the signed-in patient's record
+ */
+router.delete('/authorizations/:clientId', verifyToken, async (req: Request, res: Response) => {
+    try {
+        const revoked = await revokeAppAccess(req.user.id, req.params.clientId);
+        if (revoked === 0) {
+            return res.status(404).json({ error: 'This app has no access to your record' });
+        }
+        return res.json({ message: 'App access revoked', revokedTokens: revoked });
+
+    } catch (error: any) {
+        console.error('❌ [SMART] Revoke app access error:', error);
+        return res.status(500).json({ error: 'Failed to revoke app access' });
+    }
+});
+
+export default router;
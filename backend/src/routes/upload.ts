@@ -5,6 +5,9 @@ import { smartExtract } from "../utils/extractors/smartExtractor";
 import { getSupabaseAdminClient } from "../lib/supabaseClient";
 import { verifyToken } from "../middleware/verifyToken";
 import { MultiLLMService } from "../services/MultiLLMService";
+import { labTerminologyService } from "../modules/terminology/LabTerminologyService";
+import { referenceRangeService } from "../modules/terminology/ReferenceRangeService";
+import { evidenceIndexService } from "../modules/ai/EvidenceIndex";
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
@@ -433,15 +436,28 @@ ${extractedText}
             // Insert parsed health parameters into health_parameters table
             if (aiStatus === 'parsed' && aiJSON.data?.parameters && Array.isArray(aiJSON.data.parameters)) {
                 console.log(`📊 Inserting ${aiJSON.data.parameters.length} health parameters...`);
-                const parametersToInsert = aiJSON.data.parameters.map((param: any) => ({
-                    user_id: userId,
-                    name: param.name || param.parameter || 'Unknown',
-                    value: param.value || 0,
-                    unit: param.unit || '',
-                    status: param.status || param.interpretation || 'normal',
-                    measured_at: new Date().toISOString(),
-                    source: 'uploaded_report',
-                }));
+                const measuredAt = new Date().toISOString();
+                const demographics = await referenceRangeService.getDemographics(userId, measuredAt, aiJSON.data.profile);
+
+                const parametersToInsert = aiJSON.data.parameters.map((param: any) => {
+                    const name = param.name || param.parameter || 'Unknown';
+                    const normalized = labTerminologyService.normalize(name, param.value, param.unit);
+                    const evaluation = referenceRangeService.evaluate(normalized, demographics, {
+                        printedRange: param.referenceRange || param.reference_range || param.normal_range,
+                        fallbackStatus: param.status || param.interpretation
+                    });
+                    return {
+                        user_id: userId,
+                        name,
+                        value: param.value || 0,
+                        unit: param.unit || '',
+                        measured_at: measuredAt,
+                        source: 'uploaded_report',
+                        report_id: reportData.id,
+                        ...labTerminologyService.toParameterColumns(normalized),
+                        ...referenceRangeService.toParameterColumns(evaluation),
+                    };
+                });
 
                 const { error: paramError } = await supabaseAdmin
                     .from('health_parameters')
@@ -456,6 +472,7 @@ ${extractedText}
             }
 
             console.log("✅ Report and timeline events stored successfully");
+            evidenceIndexService.invalidate(userId);
 
             res.json({
                 status: "success",
@@ -5,6 +5,9 @@ const pdf = require("pdf-parse");
 import { getSupabaseAdminClient, getSupabaseClient } from "../lib/supabaseClient";
 import { MultiLLMService } from "../services/MultiLLMService";
 import { extractClinicalDates, resolvePrimaryClinicialDate, logDateExtraction } from "../lib/clinicalDateExtraction";
+import { labTerminologyService } from "../modules/terminology/LabTerminologyService";
+import { referenceRangeService } from "../modules/terminology/ReferenceRangeService";
+import { evidenceIndexService } from "../modules/ai/EvidenceIndex";
 import fs from "fs";
 import path from "path";
 
@@ -268,7 +271,8 @@ RULES FOR parameters in data:
 - ALWAYS extract Kidney and Liver markers: Creatinine, GFR, Urea, ALT, AST, Bilirubin.
 - ALWAYS extract CBC markers: Hemoglobin, WBC count, Platelets.
 - Blood Pressure should be captures as "Blood Pressure" (e.g. "120/80") or split into "Systolic" and "Diastolic".
-- If a value is mentioned but not explicitly labeled as normal/high, use your medical knowledge to determine the status (normal/warning/critical).
+- ALWAYS copy the reference range exactly as printed next to each parameter into "referenceRange" (e.g. "13.0 - 17.0", "< 200"). Use null if none is printed.
+- Set "status" from the report's own flags (H, L, High, Low, *) when present. Otherwise give your best judgement (normal/warning/critical); it is only used when no reference range is available.
 - NEVER skip a parameter just because it is normal. Include ALL found parameters.
 
 RULES FOR eventInfo:
@@ -637,15 +641,27 @@ ${cleanedText}
                                 ? new Date(clinicalEventDate).toISOString()
                                 : (reportDate ? new Date(reportDate).toISOString() : eventTime);
 
-                            const parametersToInsert = aiJSON.data.parameters.map((param: any) => ({
-                                user_id: user.id,
-                                name: param.name || param.parameter || 'Unknown',
-                                value: typeof param.value === 'number' ? param.value : parseFloat(String(param.value || 0)),
-                                unit: param.unit || '',
-                                status: param.status || param.interpretation || 'normal',
-                                measured_at: measuredAt,
-                                source: 'uploaded_report',
-                            })).filter((p: any) => !isNaN(p.value));
+                            const demographics = await referenceRangeService.getDemographics(user.id, measuredAt, aiJSON.data.profile);
+
+                            const parametersToInsert = aiJSON.data.parameters.map((param: any) => {
+                                const name = param.name || param.parameter || 'Unknown';
+                                const normalized = labTerminologyService.normalize(name, param.value, param.unit);
+                                const evaluation = referenceRangeService.evaluate(normalized, demographics, {
+                                    printedRange: param.referenceRange || param.reference_range || param.normal_range,
+                                    fallbackStatus: param.status || param.interpretation
+                                });
+                                return {
+                                    user_id: user.id,
+                                    name,
+                                    value: typeof param.value === 'number' ? param.value : parseFloat(String(param.value || 0)),
+                                    unit: param.unit || '',
+                                    measured_at: measuredAt,
+                                    source: 'uploaded_report',
+                                    report_id: reportData.id,
+                                    ...labTerminologyService.toParameterColumns(normalized),
+                                    ...referenceRangeService.toParameterColumns(evaluation),
+                                };
+                            }).filter((p: any) => !isNaN(p.value));
 
                             if (parametersToInsert.length > 0) {
                                 const { error: paramError } = await supabaseAdmin
@@ -658,8 +674,22 @@ ${cleanedText}
                                 } else {
                                     console.log(`✅ Successfully inserted ${parametersToInsert.length} health parameters`);
                                     debugLog(`✅ Successfully inserted ${parametersToInsert.length} health parameters`);
+                                    // New values must be retrievable by the chat right away
+                                    evidenceIndexService.invalidate(user.id);
                                 }
                             }
+
+                            // 🚨 Raise critical-value alerts and notify the patient and consented doctors
+                            try {
+                                const { criticalAlertService } = await import('../modules/critical-alerts/CriticalAlertService');
+                                const critical = await criticalAlertService.checkParameters(user.id, aiJSON.data.parameters, {
+                                    reportId: reportData.id,
+                                    measuredAt
+                                });
+                                if (critical.length > 0) debugLog(`🚨 [CriticalAlerts] Raised ${critical.length} critical value alert(s)`);
+                            } catch (alertErr: any) {
+                                console.warn('⚠️ [CriticalAlerts] Critical value check failed:', alertErr.message);
+                            }
                         }
                     } catch (e: any) {
                         console.warn('Timeline/Parameters insert error:', e);
@@ -685,11 +715,16 @@ ${cleanedText}
                             aiJSON
                         );
 
-                        // Build causal edges
-                        const edgeIds = await edgeConstructionService.constructEdges(user.id);
+                        // Build causal edges for the newly created events only
+                        const edgeIds = await edgeConstructionService.constructEdges(user.id, eventIds);
 
                         console.log(`✅ [DiagnosticPathway] Extracted ${eventIds.length} events, created ${edgeIds.length} edges`);
                         debugLog(`✅ [DiagnosticPathway] Extracted ${eventIds.length} events, created ${edgeIds.length} edges`);
+
+                        // Check newly extracted medications for interactions and allergy conflicts
+                        const { medicationAlertService } = await import('../modules/medication-safety/MedicationAlertService');
+                        const alerts = await medicationAlertService.checkNewEvents(user.id, eventIds);
+                        if (alerts.length > 0) debugLog(`⚠️ [MedicationAlerts] Raised ${alerts.length} medication alert(s)`);
                     } catch (e: any) {
                         console.warn('⚠️ [DiagnosticPathway] Event extraction error (non-critical):', e.message);
                         debugLog(`⚠️ [DiagnosticPathway] Event extraction error: ${e.message}`);
@@ -0,0 +1,39 @@
+/**
+ * Export Audit Segment
+ * 
+ * Writes entries from..to of the audit chain with a signature over the
+ * segment (AUDIT_SIGNING_PRIVATE_KEY) for compliance reviews.
+ * Run with: npx ts-node src/scripts/export_audit_segment.ts --from N --to N [--out file.json]
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import { exportAuditSegment } from '../lib/auditLog';
+
+function getArg(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function exportSegment() {
+    const from = parseInt(getArg('from') || '');
+    const to = parseInt(getArg('to') || '');
+
+    if (isNaN(from) || isNaN(to) || from < 1 || to < from) {
+        console.error('Usage: export_audit_segment.ts --from N --to N [--out file.json]');
+        process.exit(1);
+    }
+
+    const out = getArg('out') || `audit-segment-${from}-${to}.json`;
+
+    console.log(`📦 Exporting audit entries ${from}-${to}...`);
+    const segment = await exportAuditSegment(from, to);
+    fs.writeFileSync(out, JSON.stringify(segment, null, 2));
+
+    console.log(`✅ Wrote ${segment.entries.length} signed entries to ${out}`);
+}
+
+exportSegment().catch((error) => {
+    console.error('❌ Export failed:', error.message);
+    process.exit(1);
+});
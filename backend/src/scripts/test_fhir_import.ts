@@ -0,0 +1,109 @@
+/**
+ * Test FHIR Import
+ *
+ * Against the local HAPI server (infra/docker-compose.fhir.yml): writes an
+ * Observation and a Condition for a patient as a partner system would,
+ * imports them, imports again (nothing should change), then updates the
+ * Observation remotely and runs the polling import.
+ * The user must have been synced to FHIR first (POST /api/fhir/sync-to-fhir).
+ * Run with: npx ts-node src/scripts/test_fhir_import.ts --user <supabase user id>
+ */
+
+import 'dotenv/config';
+import { fhirPost, fhirPut, FHIR_BASE_URL, type FhirResource } from '../lib/fhirClient';
+import { supabaseAdmin } from '../lib/supabaseClient';
+import { importFhirChanges, importPatientFromFhir, type FhirImportResult } from '../lib/fhir-sync';
+
+const PARTNER_SOURCE = 'partner-lab-test';
+
+function getArg(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function printResult(label: string, result: FhirImportResult | null) {
+    if (!result) {
+        console.log(`   ${label}: patient is not linked to FHIR`);
+        return;
+    }
+    console.log(`   ${label}: ${result.pages} page(s), ${result.resources.length} resource(s) processed`);
+    for (const r of result.resources) {
+        const detail = r.conflict ? ` (${r.conflict.field}: local ${JSON.stringify(r.conflict.local)}, remote ${JSON.stringify(r.conflict.remote)})` : '';
+        console.log(`     ${r.resourceType}/${r.fhirId} v${r.versionId} → ${r.status}${r.reason || r.error ? ` [${r.reason || r.error}]` : ''}${detail}`);
+    }
+    result.errors.forEach((e) => console.log(`     ❌ ${e}`));
+}
+
+async function testImport() {
+    const userId = getArg('user');
+    if (!userId) {
+        console.error('❌ Usage: npx ts-node src/scripts/test_fhir_import.ts --user <supabase user id>');
+        process.exit(1);
+    }
+
+    const { data: mapping } = await supabaseAdmin
+        .from('fhir_user_map')
+        .select('fhir_patient_id')
+        .eq('supabase_user_id', userId)
+        .maybeSingle();
+
+    if (!mapping?.fhir_patient_id) {
+        console.error('❌ User has no FHIR patient yet; run a sync first');
+        process.exit(1);
+    }
+
+    console.log(`🔌 FHIR server: ${FHIR_BASE_URL}, patient ${mapping.fhir_patient_id}`);
+    const subject = { reference: `Patient/${mapping.fhir_patient_id}` };
+    const today = new Date().toISOString();
+
+    // 1. Partner writes
+    const observation: FhirResource = {
+        resourceType: 'Observation',
+        meta: { source: PARTNER_SOURCE },
+        status: 'final',
+        category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'laboratory' }] }],
+        code: { coding: [{ system: 'http://loinc.org', code: '4548-4', display: 'Hemoglobin A1c' }], text: 'HbA1c' },
+        subject,
+        effectiveDateTime: today,
+        valueQuantity: { value: 6.9, unit: '%', system: 'http://unitsofmeasure.org', code: '%' },
+        interpretation: [{ coding: [{ code: 'H' }] }],
+    };
+    const condition: FhirResource = {
+        resourceType: 'Condition',
+        meta: { source: PARTNER_SOURCE },
+        clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }] },
+        verificationStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'confirmed' }] },
+        code: { coding: [{ system: 'http://snomed.info/sct', code: '44054006', display: 'Type 2 diabetes mellitus' }] },
+        subject,
+        onsetDateTime: today,
+    };
+
+    const createdObservation = await fhirPost<FhirResource>('Observation', observation);
+    const createdCondition = await fhirPost<FhirResource>('Condition', condition);
+    if (!createdObservation.ok || !createdCondition.ok) {
+        console.error('❌ Could not write test resources:', createdObservation.error || createdObservation.data, createdCondition.error || createdCondition.data);
+        process.exit(1);
+    }
+    console.log(`📝 Wrote Observation/${createdObservation.data?.id} and Condition/${createdCondition.data?.id}`);
+
+    // 2. Import, then import again
+    printResult('First import', await importPatientFromFhir(userId));
+    printResult('Second import (expect nothing new)', await importPatientFromFhir(userId));
+
+    // 3. Partner corrects the result; polling picks up the new version
+    const corrected = { ...createdObservation.data!, status: 'corrected', valueQuantity: { ...observation.valueQuantity as object, value: 7.1 } };
+    const updated = await fhirPut<FhirResource>(`Observation/${createdObservation.data?.id}`, corrected);
+    if (!updated.ok) {
+        console.error('❌ Could not update the Observation:', updated.error || updated.data);
+        process.exit(1);
+    }
+    console.log(`📝 Updated Observation/${createdObservation.data?.id} to 7.1%`);
+
+    printResult('Polling import', await importFhirChanges());
+    console.log('✅ Done');
+}
+
+testImport().catch((error) => {
+    console.error('❌ Test failed:', error.message);
+    process.exit(1);
+});
@@ -0,0 +1,67 @@
+/**
+ * Verify Audit Chain
+ * 
+ * Recomputes the hash chain of audit_events and reports gaps, broken links
+ * and edited entries. Exits non-zero when the chain does not hold.
+ * Run with: npx ts-node src/scripts/verify_audit_chain.ts [--from N] [--to N]
+ * 
+ * Check an exported signed segment instead:
+ * npx ts-node src/scripts/verify_audit_chain.ts --segment segment.json
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import { verifyAuditChain, verifyAuditSegment, type AuditChainIssue } from '../lib/auditLog';
+
+function getArg(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function printIssues(issues: AuditChainIssue[]) {
+    for (const issue of issues) {
+        console.log(`   ❌ #${issue.sequence} [${issue.type}] ${issue.detail}`);
+    }
+}
+
+async function verify() {
+    const segmentPath = getArg('segment');
+
+    if (segmentPath) {
+        console.log(`🔏 Verifying audit segment ${segmentPath}...`);
+        const segment = JSON.parse(fs.readFileSync(segmentPath, 'utf8'));
+        const issues = verifyAuditSegment(segment);
+
+        if (issues.length > 0) {
+            console.log(`❌ Segment ${segment.from}-${segment.to} failed verification:`);
+            printIssues(issues);
+            process.exit(1);
+        }
+        console.log(`✅ Segment ${segment.from}-${segment.to} is intact (${segment.entries.length} entries, signature valid)`);
+        return;
+    }
+
+    const from = getArg('from');
+    const to = getArg('to');
+
+    console.log('🔗 Verifying audit chain...');
+    const result = await verifyAuditChain({
+        from: from ? parseInt(from) : undefined,
+        to: to ? parseInt(to) : undefined,
+    });
+
+    console.log(`📊 Checked ${result.checked} entries (${result.firstSequence ?? '-'}-${result.lastSequence ?? '-'})`);
+    console.log(`   Head hash: ${result.headHash ?? '-'}`);
+
+    if (!result.valid) {
+        console.log(`❌ ${result.issues.length} problem(s) found:`);
+        printIssues(result.issues);
+        process.exit(1);
+    }
+    console.log('✅ Audit chain is intact');
+}
+
+verify().catch((error) => {
+    console.error('❌ Verification failed:', error.message);
+    process.exit(1);
+});
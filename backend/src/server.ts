@@ -2,6 +2,7 @@ import "dotenv/config";
 import cors from "cors";
 import express, { type NextFunction, type Request, type Response } from "express";
 import { verifyToken } from "./middleware/verifyToken";
+import { verifyFhirToken } from "./middleware/smartAuth";
 import { fhirRouter } from "./routes/fhir";
 // import { demoRouter } from "./routes/demo"; // Removed for production
 import uploadReportRouter from "./routes/uploadReport";
@@ -20,6 +21,7 @@ import doctorRouter from "./routes/doctor";
 import userRouter from "./routes/user";
 import authRouter from "./routes/auth";
 import timelineRouter from "./modules/timeline/timeline.routes";
+import smartRouter, { smartConfiguration } from "./routes/smart";
 
 const app = express();
 
@@ -104,8 +106,12 @@ app.get("/test-cors", (_req, res) => {
 
 console.log("📍 Registering routes...");
 
+// SMART discovery is public; everything else on /fhir needs a Supabase
+// session or a SMART access token
+app.get("/fhir/.well-known/smart-configuration", smartConfiguration);
+
 // Protected FHIR endpoints
-app.use("/fhir", verifyToken, fhirRouter);
+app.use("/fhir", verifyFhirToken, fhirRouter);
 console.log("✅ /fhir routes registered");
 
 // Protected FHIR Sync endpoints
@@ -167,8 +173,41 @@ import diagnosticPathwayRouter from "./routes/diagnostic-pathway";
 app.use("/api/diagnostic-pathway", verifyToken, diagnosticPathwayRouter);
 console.log("✅ /api/diagnostic-pathway routes registered");
 
+import medicationAlertsRouter from "./routes/medication-alerts";
+app.use("/api/medication-alerts", verifyToken, medicationAlertsRouter);
+console.log("✅ /api/medication-alerts routes registered");
+
+import criticalAlertsRouter from "./routes/critical-alerts";
+app.use("/api/critical-alerts", verifyToken, criticalAlertsRouter);
+console.log("✅ /api/critical-alerts routes registered");
+
+import accessHistoryRouter from "./routes/access-history";
+app.use("/api/audit", verifyToken, accessHistoryRouter);
+console.log("✅ /api/audit routes registered");
+
+// Consent requests and clinician consents (router authenticates per route)
+import consentRouter from "./modules/consent/consent.routes";
+app.use("/api/consent", consentRouter);
+console.log("✅ /api/consent routes registered");
+
+// SMART on FHIR authorization server (router authenticates per route)
+app.use("/api/smart", smartRouter);
+console.log("✅ /api/smart routes registered");
+
+// Partner organization API: consented data access, exports, token
+// introspection and SMART app registration (router authenticates the organization)
+import externalAccessRouter from "./routes/externalAccess";
+app.use("/api/external", externalAccessRouter);
+console.log("✅ /api/external routes registered");
+
+// Organization registry; credential, key and rate limit management and the
+// emergency access compliance report are admin only
+import organizationsRouter from "./routes/organizations";
+app.use("/api/organizations", verifyToken, organizationsRouter);
+console.log("✅ /api/organizations routes registered");
+
 import backfillRouter from "./routes/backfill";
-app.use("/api/backfill", backfillRouter);  // No auth - one-time admin operation
+app.use("/api/backfill", backfillRouter);  // One-time admin operations; merges and rewrites of existing data require an admin
 console.log("✅ /api/backfill routes registered");
 
 // ABHA-specific error handler (must be after ABHA routes)
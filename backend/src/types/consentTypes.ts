@@ -48,6 +48,7 @@ export interface FhirConsent {
 
 export interface ConsentProvision {
     type: 'deny' | 'permit';
+    // When the consent itself is valid
     period?: {
         start: string;
         end: string;
@@ -81,12 +82,20 @@ export interface ConsentProvision {
         code: string;
         display?: string;
     }>;
+    // "Observation" restricts by resource type, "DocumentReference/123" matches one record
     data?: Array<{
         meaning: 'instance' | 'related' | 'dependents' | 'authoredby';
         reference: {
             reference: string;
         };
     }>;
+    // Clinical dates of the data covered, e.g. only records from 2023-2024
+    dataPeriod?: {
+        start?: string;
+        end?: string;
+    };
+    // Exceptions to this provision (a deny inside a permit, and so on)
+    provision?: ConsentProvision[];
 }
 
 // ============================================================
@@ -104,8 +113,17 @@ export interface ConsentGrantRequest {
     validUntil: string;
     emergencyOverride?: boolean;
     notes?: string;
+    // Fine-grained provisions
+    dataPeriod?: {
+        start?: string;
+        end?: string;
+    };
+    excludedCategories?: SensitiveCategory[];
+    excludedRecords?: string[]; // "DocumentReference/123"
 }
 
+export type SensitiveCategory = 'mental_health' | 'hiv' | 'reproductive_health' | 'substance_use';
+
 // ============================================================
 // CONSENT EVALUATION
 // ============================================================
@@ -127,7 +145,15 @@ export interface ConsentEvaluationResult {
     restrictions?: {
         allowedResources: string[];
         validUntil: string;
+        dataPeriod?: {
+            start?: string;
+            end?: string;
+        };
+        excludedCategories?: SensitiveCategory[];
+        excludedRecords?: string[];
     };
+    // Consent provision to apply to each returned entry
+    provision?: ConsentProvision;
 }
 
 // ============================================================
@@ -228,6 +254,7 @@ export interface ConsentListItem {
     status: 'active' | 'expired' | 'revoked';
     revokedAt?: string;
     revokedReason?: string;
+    templateId?: string;            // Granted from a consent template (renewable in one tap)
 }
 
 // ============================================================
@@ -243,3 +270,35 @@ export interface PendingAccessRequest {
     requestedResources: string[];
     message?: string;
 }
+
+// ============================================================
+// CONSENT TEMPLATES
+// ============================================================
+
+export interface ConsentTemplate {
+    id: string;
+    organizationType: string | null;    // NULL = offered to every organization type
+    organizationId: string | null;      // Set for templates defined by one organization
+    name: string;
+    description: string | null;
+    purposeOfUse: PurposeOfUse;
+    allowedResources: string[];
+    excludedCategories: SensitiveCategory[];
+    durationDays: number;
+    renewable: boolean;
+    renewalReminderDays: number;
+    isActive: boolean;
+}
+
+export interface ConsentTemplateInput {
+    organizationType?: string | null;
+    organizationId?: string | null;
+    name: string;
+    description?: string;
+    purposeOfUse: PurposeOfUse;
+    allowedResources: string[];
+    excludedCategories?: SensitiveCategory[];
+    durationDays: number;
+    renewable?: boolean;
+    renewalReminderDays?: number;
+}
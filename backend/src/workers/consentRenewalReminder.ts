@@ -0,0 +1,67 @@
+/**
+ * Consent Renewal Reminder Worker
+ * Reminds patients to renew long-running consents before they end
+ *
+ * Run this as a separate process:
+ * ts-node src/workers/consentRenewalReminder.ts
+ *
+ * Or once:
+ * ts-node src/workers/consentRenewalReminder.ts --once
+ */
+
+import 'dotenv/config';
+import { sendRenewalReminders } from '../lib/consentTemplateService';
+
+const REMINDER_CHECK_INTERVAL = parseInt(process.env.CONSENT_RENEWAL_CHECK_INTERVAL || '3600000'); // 1 hour
+
+async function remind() {
+    try {
+        const sent = await sendRenewalReminders();
+        if (sent > 0) {
+            console.log(`🔔 Sent ${sent} consent renewal reminder(s)`);
+        }
+    } catch (error: any) {
+        console.error('❌ Reminder error:', error.message);
+    }
+}
+
+/**
+ * Start the worker
+ */
+async function startWorker() {
+    const args = process.argv.slice(2);
+
+    if (args[0] === '--once') {
+        await remind();
+        process.exit(0);
+    }
+
+    console.log('🔔 Consent Renewal Reminder Worker Started');
+    console.log(`   Interval: ${REMINDER_CHECK_INTERVAL}ms`);
+    console.log('');
+
+    // Initial run
+    await remind();
+
+    // Set up interval
+    setInterval(async () => {
+        await remind();
+    }, REMINDER_CHECK_INTERVAL);
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+// Start the worker
+startWorker().catch((error) => {
+    console.error('❌ Worker failed to start:', error);
+    process.exit(1);
+});
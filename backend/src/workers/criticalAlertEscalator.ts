@@ -0,0 +1,65 @@
+/**
+ * Critical Value Alert Escalation Worker
+ * Re-notifies critical lab value alerts that nobody has acknowledged within
+ * CRITICAL_ALERT_ESCALATION_MINUTES, adding the configured escalation contacts
+ *
+ * Run this as a separate process:
+ * ts-node src/workers/criticalAlertEscalator.ts
+ *
+ * Or once:
+ * ts-node src/workers/criticalAlertEscalator.ts --once
+ */
+
+import 'dotenv/config';
+import { criticalAlertService } from '../modules/critical-alerts/CriticalAlertService';
+
+const ESCALATION_CHECK_INTERVAL = parseInt(process.env.CRITICAL_ALERT_CHECK_INTERVAL || '60000'); // 1 minute
+
+async function escalate() {
+    try {
+        await criticalAlertService.escalateOverdue();
+    } catch (error: any) {
+        console.error('❌ Escalation error:', error.message);
+    }
+}
+
+/**
+ * Start the worker
+ */
+async function startWorker() {
+    const args = process.argv.slice(2);
+
+    if (args[0] === '--once') {
+        await escalate();
+        process.exit(0);
+    }
+
+    console.log('🚨 Critical Alert Escalation Worker Started');
+    console.log(`   Interval: ${ESCALATION_CHECK_INTERVAL}ms`);
+    console.log('');
+
+    // Initial run
+    await escalate();
+
+    // Set up interval
+    setInterval(async () => {
+        await escalate();
+    }, ESCALATION_CHECK_INTERVAL);
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+// Start the worker
+startWorker().catch((error) => {
+    console.error('❌ Worker failed to start:', error);
+    process.exit(1);
+});
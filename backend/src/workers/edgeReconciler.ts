@@ -0,0 +1,67 @@
+/**
+ * Clinical Event Edge Reconciliation Worker
+ * Removes diagnostic graph edges whose endpoint events were deleted
+ * or re-assigned, which incremental edge construction never revisits
+ *
+ * Run this as a separate process:
+ * ts-node src/workers/edgeReconciler.ts
+ *
+ * Or once, for a single patient:
+ * ts-node src/workers/edgeReconciler.ts --once [patientId]
+ */
+
+import 'dotenv/config';
+import { edgeConstructionService } from '../modules/diagnostic-pathway/EdgeConstructionService';
+
+const RECONCILE_INTERVAL = parseInt(process.env.EDGE_RECONCILE_INTERVAL || '21600000'); // 6 hours
+
+async function reconcile(patientId?: string) {
+    const startTime = Date.now();
+    try {
+        const removed = await edgeConstructionService.reconcileEdges(patientId);
+        console.log(`✅ Reconciliation finished in ${Date.now() - startTime}ms, removed ${removed} edge(s)`);
+    } catch (error: any) {
+        console.error('❌ Reconciliation error:', error.message);
+    }
+}
+
+/**
+ * Start the worker
+ */
+async function startWorker() {
+    const args = process.argv.slice(2);
+
+    if (args[0] === '--once') {
+        await reconcile(args[1]);
+        process.exit(0);
+    }
+
+    console.log('🧹 Edge Reconciliation Worker Started');
+    console.log(`   Interval: ${RECONCILE_INTERVAL}ms`);
+    console.log('');
+
+    // Initial run
+    await reconcile();
+
+    // Set up interval
+    setInterval(async () => {
+        await reconcile();
+    }, RECONCILE_INTERVAL);
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+// Start the worker
+startWorker().catch((error) => {
+    console.error('❌ Worker failed to start:', error);
+    process.exit(1);
+});
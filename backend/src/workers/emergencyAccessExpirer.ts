@@ -0,0 +1,67 @@
+/**
+ * Emergency Access Expiry Worker
+ * Closes break-the-glass grants once they pass their expiry time
+ *
+ * Run this as a separate process:
+ * ts-node src/workers/emergencyAccessExpirer.ts
+ *
+ * Or once:
+ * ts-node src/workers/emergencyAccessExpirer.ts --once
+ */
+
+import 'dotenv/config';
+import { expireEmergencyGrants } from '../lib/emergencyAccessService';
+
+const EXPIRY_CHECK_INTERVAL = parseInt(process.env.EMERGENCY_ACCESS_CHECK_INTERVAL || '300000'); // 5 minutes
+
+async function expire() {
+    try {
+        const expired = await expireEmergencyGrants();
+        if (expired > 0) {
+            console.log(`⏰ Expired ${expired} emergency access grant(s)`);
+        }
+    } catch (error: any) {
+        console.error('❌ Expiry error:', error.message);
+    }
+}
+
+/**
+ * Start the worker
+ */
+async function startWorker() {
+    const args = process.argv.slice(2);
+
+    if (args[0] === '--once') {
+        await expire();
+        process.exit(0);
+    }
+
+    console.log('🚑 Emergency Access Expiry Worker Started');
+    console.log(`   Interval: ${EXPIRY_CHECK_INTERVAL}ms`);
+    console.log('');
+
+    // Initial run
+    await expire();
+
+    // Set up interval
+    setInterval(async () => {
+        await expire();
+    }, EXPIRY_CHECK_INTERVAL);
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+// Start the worker
+startWorker().catch((error) => {
+    console.error('❌ Worker failed to start:', error);
+    process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * FHIR Import Worker
+ * Polls the FHIR server for Observations and Conditions written by other
+ * systems and imports them into Niraiva
+ *
+ * Run this as a separate process:
+ * ts-node src/workers/fhirImporter.ts
+ *
+ * Or once:
+ * ts-node src/workers/fhirImporter.ts --once
+ */
+
+import 'dotenv/config';
+import { importFhirChanges } from '../lib/fhir-sync';
+
+const IMPORT_INTERVAL = parseInt(process.env.FHIR_IMPORT_INTERVAL || '300000'); // 5 minutes
+
+async function runImport() {
+    try {
+        const result = await importFhirChanges();
+        const changed = result.resources.filter((r) => ['imported', 'updated', 'merged'].includes(r.status)).length;
+        const conflicts = result.resources.filter((r) => r.status === 'conflict').length;
+
+        if (changed > 0 || conflicts > 0) {
+            console.log(`📥 Imported ${changed} FHIR resource(s), ${conflicts} conflict(s)`);
+        }
+        result.errors.forEach((error) => console.error('❌ Import error:', error));
+    } catch (error: any) {
+        console.error('❌ Import error:', error.message);
+    }
+}
+
+/**
+ * Start the worker
+ */
+async function startWorker() {
+    const args = process.argv.slice(2);
+
+    if (args[0] === '--once') {
+        await runImport();
+        process.exit(0);
+    }
+
+    console.log('📥 FHIR Import Worker Started');
+    console.log(`   Interval: ${IMPORT_INTERVAL}ms`);
+    console.log('');
+
+    // Initial run
+    await runImport();
+
+    // Set up interval
+    setInterval(async () => {
+        await runImport();
+    }, IMPORT_INTERVAL);
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+    console.log('\n🛑 Worker shutting down gracefully...');
+    process.exit(0);
+});
+
+// Start the worker
+startWorker().catch((error) => {
+    console.error('❌ Worker failed to start:', error);
+    process.exit(1);
+});
@@ -14,6 +14,9 @@ import fs from 'fs';
 import path from 'path';
 import axios from 'axios';
 import { eventExtractionService } from '../modules/diagnostic-pathway/EventExtractionService';
+import { edgeConstructionService } from '../modules/diagnostic-pathway/EdgeConstructionService';
+import { medicationAlertService } from '../modules/medication-safety/MedicationAlertService';
+import { criticalAlertService } from '../modules/critical-alerts/CriticalAlertService';
 
 const POLL_INTERVAL = parseInt(process.env.WORKER_POLL_INTERVAL || '5000'); // 5 seconds
 const MAX_CONCURRENT_JOBS = parseInt(process.env.WORKER_MAX_CONCURRENT || '3');
@@ -353,18 +356,39 @@ async function processAIParseJob(job: any) {
     }
 
     // 🏥 Extract Clinical Events for Diagnostic Pathway
+    let eventIds: string[] = [];
     try {
         console.log(`🔍 Extracting clinical events for report ${job.report_id}...`);
-        await eventExtractionService.processReportEvents(
+        eventIds = await eventExtractionService.processReportEvents(
             job.reports.patient_id,
             job.report_id,
             parsed
         );
+        await edgeConstructionService.constructEdges(job.reports.patient_id, eventIds);
     } catch (eventErr: any) {
         console.error(`⚠️ Failed to extract clinical events: ${eventErr.message}`);
         // Continue - don't fail the whole job for this
     }
 
+    // 💊 Check newly extracted medications for interactions and allergy conflicts
+    try {
+        await medicationAlertService.checkNewEvents(job.reports.patient_id, eventIds);
+    } catch (alertErr: any) {
+        console.error(`⚠️ Failed to check medication interactions: ${alertErr.message}`);
+    }
+
+    // 🚨 Raise critical-value alerts for parameters beyond critical limits
+    try {
+        const parsedData = (parsed as any).data || parsed;
+        await criticalAlertService.checkParameters(job.reports.patient_id, parsedData.parameters || parsedData.tests || [], {
+            reportId: job.report_id,
+            measuredAt: (parsed as any).metadata?.documentDate || null,
+            source: 'worker'
+        });
+    } catch (alertErr: any) {
+        console.error(`⚠️ Failed to check critical values: ${alertErr.message}`);
+    }
+
     // Update report status
     await supabase
         .from('reports')
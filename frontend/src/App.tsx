@@ -23,6 +23,7 @@ import DoctorLogin from "./pages/doctor/DoctorLogin";
 import DoctorDashboard from "./apps/doctor/pages/DoctorDashboard";
 import DoctorPatientProfile from "./apps/doctor/pages/DoctorPatientProfile";
 import DoctorProfile from "./apps/doctor/pages/DoctorProfile";
+import SmartAuthorize from "./pages/SmartAuthorize";
 import React, { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 
@@ -185,6 +186,16 @@ const AppRoutes = () => {
           }
         />
 
+        {/* Consent screen for third-party SMART apps (patients and doctors) */}
+        <Route
+          path="/smart/authorize"
+          element={
+            <ProtectedRoute>
+              <SmartAuthorize />
+            </ProtectedRoute>
+          }
+        />
+
         <Route path="*" element={<NotFound />} />
       </Routes>
     </AnimatePresence>
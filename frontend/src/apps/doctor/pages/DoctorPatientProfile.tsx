@@ -17,6 +17,9 @@ import {
     FileText
 } from 'lucide-react';
 import { getApiBaseUrl } from '@/lib/fhir';
+import { MedicationAlertsCard } from '@/components/MedicationAlertsCard';
+import { CriticalAlertsCard } from '@/components/CriticalAlertsCard';
+import { fetchMedicationCourses, describeCourseEnd, describeDoseChange, formatCourseDate, MedicationCourse } from '@/lib/medicationCourses';
 import { motion } from 'framer-motion';
 import { HealthCard } from '@/components/HealthCard';
 import { Textarea } from '@/components/ui/textarea';
@@ -86,6 +89,8 @@ export default function DoctorPatientProfile() {
     const [loading, setLoading] = useState(true);
     const [patient, setPatient] = useState<PatientProfile | null>(null);
     const [medications, setMedications] = useState<Medication[]>([]);
+    const [courses, setCourses] = useState<MedicationCourse[]>([]);
+    const [accessToken, setAccessToken] = useState<string | undefined>();
     const [parameters, setParameters] = useState<HealthParameter[]>([]);
     const [notes, setNotes] = useState<DoctorNote[]>([]);
     const [reports, setReports] = useState<MedicalDocument[]>([]);
@@ -194,6 +199,15 @@ export default function DoctorPatientProfile() {
 
                 if (!medError) setMedications(medData || []);
 
+                // 2b. Fetch medication courses (starts, dose changes, stops)
+                try {
+                    const { data: sessionData } = await supabase.auth.getSession();
+                    setAccessToken(sessionData.session?.access_token);
+                    setCourses(await fetchMedicationCourses(patientUserId, sessionData.session?.access_token));
+                } catch (courseErr) {
+                    console.warn('Medication courses unavailable:', courseErr);
+                }
+
                 // 3. Fetch Health Parameters
                 const { data: paramData, error: paramError } = await supabase
                     .from('health_parameters')
@@ -448,6 +462,14 @@ export default function DoctorPatientProfile() {
                             </div>
                         </section>
 
+                        {/* Critical results, then interaction and allergy alerts */}
+                        {patientUserId && accessToken && (
+                            <>
+                                <CriticalAlertsCard patientId={patientUserId} accessToken={accessToken} allowNotes />
+                                <MedicationAlertsCard patientId={patientUserId} accessToken={accessToken} allowNotes />
+                            </>
+                        )}
+
                         {/* Medications */}
                         <section>
                             <div className="flex items-center gap-2 mb-3">
@@ -487,6 +509,44 @@ export default function DoctorPatientProfile() {
                             </div>
                         </section>
 
+                        {/* Medication Course History */}
+                        {courses.length > 0 && (
+                            <section>
+                                <div className="flex items-center gap-2 mb-3">
+                                    <Activity className="w-5 h-5 text-cyan-600" />
+                                    <h2 className="text-lg font-bold text-gray-900">Medication History</h2>
+                                </div>
+                                <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                                    <div className="divide-y divide-gray-100">
+                                        {courses.map((course) => (
+                                            <div key={`${course.key}-${course.startDate}`} className="p-4">
+                                                <div className="flex items-center justify-between gap-4">
+                                                    <h3 className="font-semibold text-gray-900">
+                                                        {course.name}
+                                                        {course.initialDose && <span className="font-normal text-gray-600"> {course.initialDose}</span>}
+                                                    </h3>
+                                                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${course.status === 'active' ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+                                                        {course.status === 'active' ? 'Active' : 'Stopped'}
+                                                    </span>
+                                                </div>
+                                                <p className="text-sm text-gray-500 mt-1">
+                                                    Started {formatCourseDate(course.startDate, 'MMM d, yyyy')}
+                                                </p>
+                                                {course.doseChanges.map((change) => (
+                                                    <p key={change.date} className="text-sm text-gray-700 mt-1">
+                                                        {course.name} {describeDoseChange(change)}
+                                                    </p>
+                                                ))}
+                                                {describeCourseEnd(course) && (
+                                                    <p className="text-sm text-gray-500 mt-1">{describeCourseEnd(course)}</p>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            </section>
+                        )}
+
                         {/* Clinical Notes Section */}
                         <section>
                             <div className="flex items-center gap-2 mb-3">
@@ -1,24 +1,24 @@
 
 import React, { useEffect, useState } from 'react';
-import { Shield, Check, X, Clock, AlertTriangle, FileText, Lock, Activity, Eye, History } from 'lucide-react';
+import { Shield, Check, X, Clock, AlertTriangle, FileText, Lock, Activity, Eye, History, Siren, Building2, RefreshCw } from 'lucide-react';
 import { Toaster, toast } from 'sonner';
 
 interface ConsentRequest {
     id: string;
-    doctor_id: string;
+    requester_id: string;
+    requester_name: string;
+    organization_name: string | null;
     purpose: string;
+    requested_scopes: string[];
+    requested_duration_hours: number;
+    status: 'requested' | 'approved' | 'partially_approved' | 'denied' | 'expired';
+    expires_at: string;
+    created_at: string;
+}
+
+interface RequestChanges {
     scopes: string[];
     duration_hours: number;
-    status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'EXPIRED';
-    created_at: string;
-    doctors: {
-        id: string; // Doctor Internal ID
-        user_profiles: {
-            first_name: string;
-            last_name: string;
-        } | null; // might be null if structure is diff
-    };
-    // Correction: In backend controller, we fetch: doctors ( id, user_profiles ( first_name, last_name ) )
 }
 
 interface ActiveConsent {
@@ -32,30 +32,119 @@ interface ActiveConsent {
     };
 }
 
-interface AuditLog {
+interface AccessEntry {
+    id: string;
+    occurredAt: string;
+    actorType: 'organization' | 'clinician' | 'self';
+    actorId: string | null;
+    actorName: string;
+    outcome: 'success' | 'denied' | 'error';
+    description: string;
+    reason: string | null;
+}
+
+interface AccessActor {
+    actorType: 'organization' | 'clinician' | 'self';
+    actorId: string | null;
+    actorName: string;
+    accessCount: number;
+    deniedCount: number;
+    lastAccessAt: string;
+    canRevoke: boolean;
+    entries: AccessEntry[];
+}
+
+interface EmergencyAccess {
     id: string;
-    action: string;
-    details: any;
-    timestamp: string;
-    doctors?: {
+    resource_types: string[];
+    reason: string;
+    justification: string | null;
+    status: 'active' | 'expired' | 'revoked';
+    granted_at: string;
+    expires_at: string;
+    revoked_at: string | null;
+    review_status: 'pending' | 'acknowledged' | 'disputed';
+    review_comment: string | null;
+    organizations?: {
         name: string;
-        hospital?: string;
+        type?: string;
     };
-    ip_address?: string;
+}
+
+interface Organization {
+    id: string;
+    name: string;
+    type: string;
+}
+
+interface ConsentTemplate {
+    id: string;
+    name: string;
+    description: string | null;
+    purposeOfUse: string;
+    allowedResources: string[];
+    durationDays: number;
+    renewable: boolean;
+}
+
+interface CustomGrant {
+    allowedResources: string[];
+    validUntil: string;
+    dataStart: string;
+    dataEnd: string;
+    excludedCategories: string[];
+}
+
+const SHAREABLE_RESOURCES = ['Observation', 'DiagnosticReport', 'Condition', 'MedicationRequest', 'Encounter', 'DocumentReference'];
+
+const SENSITIVE_CATEGORIES: { id: string; label: string }[] = [
+    { id: 'mental_health', label: 'Mental health' },
+    { id: 'hiv', label: 'HIV/AIDS' },
+    { id: 'reproductive_health', label: 'Reproductive health' },
+    { id: 'substance_use', label: 'Substance use' },
+];
+
+const emptyCustomGrant = (): CustomGrant => ({
+    allowedResources: [],
+    validUntil: '',
+    dataStart: '',
+    dataEnd: '',
+    excludedCategories: [],
+});
+
+interface OrganizationConsent {
+    id: string;
+    organizationName: string;
+    purposeOfUse: string;
+    allowedResources: string[];
+    validUntil: string;
+    status: 'active' | 'expired' | 'revoked';
+    templateId?: string;
 }
 
 export default function ConsentDashboard() {
-    const [activeTab, setActiveTab] = useState<'requests' | 'active' | 'audit'>('requests');
+    const [activeTab, setActiveTab] = useState<'requests' | 'active' | 'organizations' | 'emergency' | 'audit'>('requests');
 
     // Data States
     const [requests, setRequests] = useState<ConsentRequest[]>([]);
+    const [modifying, setModifying] = useState<string | null>(null);
+    const [changes, setChanges] = useState<RequestChanges>({ scopes: [], duration_hours: 0 });
     const [activeConsents, setActiveConsents] = useState<ActiveConsent[]>([]);
-    const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+    const [accessActors, setAccessActors] = useState<AccessActor[]>([]);
+    const [expandedActor, setExpandedActor] = useState<string | null>(null);
+    const [outcomeFilter, setOutcomeFilter] = useState<'' | 'success' | 'denied'>('');
+    const [periodFilter, setPeriodFilter] = useState<'' | '7' | '30' | '90'>('30');
+    const [emergencyAccesses, setEmergencyAccesses] = useState<EmergencyAccess[]>([]);
+    const [organizations, setOrganizations] = useState<Organization[]>([]);
+    const [selectedOrg, setSelectedOrg] = useState('');
+    const [templates, setTemplates] = useState<ConsentTemplate[]>([]);
+    const [orgConsents, setOrgConsents] = useState<OrganizationConsent[]>([]);
+    const [customGrant, setCustomGrant] = useState<CustomGrant>(emptyCustomGrant());
     const [loading, setLoading] = useState(false);
 
     useEffect(() => {
         fetchData();
-    }, [activeTab]);
+    }, [activeTab, outcomeFilter, periodFilter]);
 
     const fetchData = async () => {
         setLoading(true);
@@ -65,17 +154,33 @@ export default function ConsentDashboard() {
 
         try {
             if (activeTab === 'requests') {
-                const res = await fetch(`${apiUrl}/api/consent/patient/requests`, { headers });
+                const res = await fetch(`${apiUrl}/api/consent/patient/requests?status=requested`, { headers });
                 const data = await res.json();
-                if (res.ok) setRequests(data);
+                if (res.ok) setRequests(data.requests);
             } else if (activeTab === 'active') {
                 const res = await fetch(`${apiUrl}/api/consent/patient/active-consents`, { headers });
                 const data = await res.json();
                 if (res.ok) setActiveConsents(data);
+            } else if (activeTab === 'organizations') {
+                const [consentsRes, orgsRes] = await Promise.all([
+                    fetch(`${apiUrl}/api/consent/organization-consents`, { headers }),
+                    fetch(`${apiUrl}/api/organizations`, { headers })
+                ]);
+                const consentsData = await consentsRes.json();
+                const orgsData = await orgsRes.json();
+                if (consentsRes.ok) setOrgConsents(consentsData.consents);
+                if (orgsRes.ok) setOrganizations(orgsData.organizations);
+            } else if (activeTab === 'emergency') {
+                const res = await fetch(`${apiUrl}/api/consent/emergency-access`, { headers });
+                const data = await res.json();
+                if (res.ok) setEmergencyAccesses(data.grants);
             } else if (activeTab === 'audit') {
-                const res = await fetch(`${apiUrl}/api/audit/patient`, { headers });
+                const params = new URLSearchParams();
+                if (outcomeFilter) params.set('outcome', outcomeFilter);
+                if (periodFilter) params.set('from', new Date(Date.now() - Number(periodFilter) * 24 * 60 * 60 * 1000).toISOString());
+                const res = await fetch(`${apiUrl}/api/audit/patient?${params}`, { headers });
                 const data = await res.json();
-                if (res.ok) setAuditLogs(data);
+                if (res.ok) setAccessActors(data.actors);
             }
         } catch (err) {
             console.error(err);
@@ -85,24 +190,39 @@ export default function ConsentDashboard() {
         }
     };
 
-    const handleApprove = async (requestId: string) => {
+    const handleApprove = async (requestId: string, modified?: RequestChanges) => {
         try {
             const token = localStorage.getItem('token');
             const res = await fetch(`${import.meta.env.VITE_API_URL}/api/consent/approve/${requestId}`, {
                 method: 'POST',
-                headers: { 'Authorization': `Bearer ${token}` }
+                headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+                body: JSON.stringify(modified || {})
             });
             if (res.ok) {
-                toast.success("Access Granted");
+                toast.success(modified ? "Access Granted with your changes" : "Access Granted");
+                setModifying(null);
                 fetchData(); // Refresh
             } else {
-                toast.error("Approval failed");
+                const data = await res.json().catch(() => ({}));
+                toast.error(data.error || "Approval failed");
             }
         } catch (err) {
             toast.error("Error approving request");
         }
     };
 
+    const startModify = (req: ConsentRequest) => {
+        setModifying(req.id);
+        setChanges({ scopes: req.requested_scopes, duration_hours: req.requested_duration_hours });
+    };
+
+    const toggleScope = (scope: string) => {
+        setChanges(prev => ({
+            ...prev,
+            scopes: prev.scopes.includes(scope) ? prev.scopes.filter(s => s !== scope) : [...prev.scopes, scope]
+        }));
+    };
+
     const handleReject = async (requestId: string) => {
         try {
             const token = localStorage.getItem('token');
@@ -137,6 +257,149 @@ export default function ConsentDashboard() {
         }
     };
 
+    const handleEmergencyReview = async (grantId: string, decision: 'acknowledged' | 'disputed') => {
+        let comment: string | undefined;
+        if (decision === 'disputed') {
+            const input = prompt("Why do you dispute this access? Disputing also ends the access if it is still open.");
+            if (!input) return;
+            comment = input;
+        }
+
+        try {
+            const token = localStorage.getItem('token');
+            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/consent/emergency-access/${grantId}/review`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ decision, comment })
+            });
+            if (res.ok) {
+                toast.success(decision === 'disputed' ? "Access Disputed" : "Access Acknowledged");
+                fetchData();
+            } else {
+                toast.error("Review failed");
+            }
+        } catch (err) {
+            toast.error("Error reviewing access");
+        }
+    };
+
+    const handleSelectOrg = async (organizationId: string) => {
+        setSelectedOrg(organizationId);
+        setTemplates([]);
+        if (!organizationId) return;
+
+        try {
+            const token = localStorage.getItem('token');
+            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/consent/templates?organizationId=${organizationId}`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await res.json();
+            if (res.ok) setTemplates(data.templates);
+        } catch (err) {
+            toast.error("Failed to load consent options");
+        }
+    };
+
+    const handleGrantTemplate = async (template: ConsentTemplate) => {
+        try {
+            const token = localStorage.getItem('token');
+            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/consent/grant-template`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ templateId: template.id, organizationId: selectedOrg })
+            });
+            if (res.ok) {
+                toast.success(`Consent granted for ${template.durationDays} days`);
+                setSelectedOrg('');
+                setTemplates([]);
+                fetchData();
+            } else {
+                const data = await res.json().catch(() => ({}));
+                toast.error(data.error || "Grant failed");
+            }
+        } catch (err) {
+            toast.error("Error granting consent");
+        }
+    };
+
+    const toggleCustomGrant = (field: 'allowedResources' | 'excludedCategories', value: string) => {
+        setCustomGrant(prev => ({
+            ...prev,
+            [field]: prev[field].includes(value) ? prev[field].filter(v => v !== value) : [...prev[field], value]
+        }));
+    };
+
+    const handleGrantCustom = async () => {
+        const { allowedResources, validUntil, dataStart, dataEnd, excludedCategories } = customGrant;
+        try {
+            const token = localStorage.getItem('token');
+            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/consent/grant-organization`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    organizationId: selectedOrg,
+                    purposeOfUse: 'TREATMENT',
+                    allowedResources,
+                    validUntil: new Date(`${validUntil}T23:59:59`).toISOString(),
+                    dataPeriod: dataStart || dataEnd ? { start: dataStart || undefined, end: dataEnd || undefined } : undefined,
+                    excludedCategories: excludedCategories.length > 0 ? excludedCategories : undefined
+                })
+            });
+            if (res.ok) {
+                toast.success("Consent Granted");
+                setSelectedOrg('');
+                setTemplates([]);
+                setCustomGrant(emptyCustomGrant());
+                fetchData();
+            } else {
+                const data = await res.json().catch(() => ({}));
+                toast.error(data.error || "Grant failed");
+            }
+        } catch (err) {
+            toast.error("Error granting consent");
+        }
+    };
+
+    const handleRenew = async (tokenId: string) => {
+        try {
+            const token = localStorage.getItem('token');
+            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/consent/renew/${tokenId}`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (res.ok) {
+                toast.success("Consent Renewed");
+                fetchData();
+            } else {
+                const data = await res.json().catch(() => ({}));
+                toast.error(data.error || "Renewal failed");
+            }
+        } catch (err) {
+            toast.error("Error renewing consent");
+        }
+    };
+
+    const handleRevokeActor = async (actor: AccessActor) => {
+        if (!confirm(`Revoke all access for ${actor.actorName}? They will lose access to your records immediately.`)) return;
+
+        try {
+            const token = localStorage.getItem('token');
+            const res = await fetch(`${import.meta.env.VITE_API_URL}/api/audit/patient/revoke`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ actorType: actor.actorType, actorId: actor.actorId })
+            });
+            if (res.ok) {
+                toast.success("Access Revoked");
+                fetchData();
+            } else {
+                toast.error("Revocation failed");
+            }
+        } catch (err) {
+            toast.error("Revocation failed");
+        }
+    };
+
     const formatDate = (iso: string) => new Date(iso).toLocaleString();
 
     return (
@@ -163,6 +426,18 @@ export default function ConsentDashboard() {
                 >
                     <Lock className="w-4 h-4" /> Active Access
                 </button>
+                <button
+                    onClick={() => setActiveTab('organizations')}
+                    className={`pb-3 px-4 font-medium flex items-center gap-2 ${activeTab === 'organizations' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-gray-500'}`}
+                >
+                    <Building2 className="w-4 h-4" /> Organizations
+                </button>
+                <button
+                    onClick={() => setActiveTab('emergency')}
+                    className={`pb-3 px-4 font-medium flex items-center gap-2 ${activeTab === 'emergency' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-gray-500'}`}
+                >
+                    <Siren className="w-4 h-4" /> Emergency Access
+                </button>
                 <button
                     onClick={() => setActiveTab('audit')}
                     className={`pb-3 px-4 font-medium flex items-center gap-2 ${activeTab === 'audit' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-gray-500'}`}
@@ -179,38 +454,84 @@ export default function ConsentDashboard() {
 
                     {/* 1. REQUESTS TAB */}
                     {activeTab === 'requests' && (
-                        requests.filter(r => r.status === 'PENDING').length === 0 ? (
+                        requests.length === 0 ? (
                             <div className="text-center py-12 bg-gray-50 rounded-lg text-gray-500">No pending requests</div>
                         ) :
-                            requests.filter(r => r.status === 'PENDING').map(req => (
-                                <div key={req.id} className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
-                                    <div>
-                                        <div className="flex items-center gap-2 mb-1">
-                                            <h3 className="font-semibold text-lg">
-                                                Dr. {req.doctors?.user_profiles?.first_name || 'Generic'} {req.doctors?.user_profiles?.last_name || 'Doctor'}
-                                            </h3>
-                                            <span className="bg-orange-100 text-orange-700 text-xs px-2 py-0.5 rounded font-medium">Pending</span>
+                            requests.map(req => (
+                                <div key={req.id} className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+                                    <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                                        <div>
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <h3 className="font-semibold text-lg">Dr. {req.requester_name}</h3>
+                                                <span className="bg-orange-100 text-orange-700 text-xs px-2 py-0.5 rounded font-medium">Pending</span>
+                                            </div>
+                                            {req.organization_name && (
+                                                <p className="text-sm text-gray-500 mb-1">{req.organization_name} will also receive access if you approve</p>
+                                            )}
+                                            <p className="text-gray-600 mb-2">{req.purpose}</p>
+                                            <div className="flex flex-wrap gap-3 text-sm text-gray-500">
+                                                <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {req.requested_duration_hours} Hours</span>
+                                                <span className="flex items-center gap-1"><FileText className="w-3 h-3" /> {req.requested_scopes.join(', ')}</span>
+                                                <span>Answer by {formatDate(req.expires_at)}</span>
+                                            </div>
                                         </div>
-                                        <p className="text-gray-600 mb-2">{req.purpose}</p>
-                                        <div className="flex gap-3 text-sm text-gray-500">
-                                            <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {req.duration_hours} Hours</span>
-                                            <span className="flex items-center gap-1"><FileText className="w-3 h-3" /> {req.scopes.join(', ')}</span>
+                                        <div className="flex gap-3 w-full md:w-auto">
+                                            <button
+                                                onClick={() => handleReject(req.id)}
+                                                className="flex-1 md:flex-none py-2 px-4 border border-gray-300 rounded-lg hover:bg-gray-50 transition font-medium"
+                                            >
+                                                Reject
+                                            </button>
+                                            <button
+                                                onClick={() => modifying === req.id ? setModifying(null) : startModify(req)}
+                                                className="flex-1 md:flex-none py-2 px-4 border border-teal-600 text-teal-700 rounded-lg hover:bg-teal-50 transition font-medium"
+                                            >
+                                                Modify
+                                            </button>
+                                            <button
+                                                onClick={() => handleApprove(req.id)}
+                                                className="flex-1 md:flex-none py-2 px-4 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-medium shadow-sm"
+                                            >
+                                                Approve
+                                            </button>
                                         </div>
                                     </div>
-                                    <div className="flex gap-3 w-full md:w-auto">
-                                        <button
-                                            onClick={() => handleReject(req.id)}
-                                            className="flex-1 md:flex-none py-2 px-4 border border-gray-300 rounded-lg hover:bg-gray-50 transition font-medium"
-                                        >
-                                            Reject
-                                        </button>
-                                        <button
-                                            onClick={() => handleApprove(req.id)}
-                                            className="flex-1 md:flex-none py-2 px-4 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-medium shadow-sm"
-                                        >
-                                            Approve
-                                        </button>
-                                    </div>
+                                    {modifying === req.id && (
+                                        <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+                                            <p className="text-sm font-medium text-gray-700">Share only:</p>
+                                            <div className="flex flex-wrap gap-4">
+                                                {req.requested_scopes.map(scope => (
+                                                    <label key={scope} className="flex items-center gap-2 text-sm text-gray-600">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={changes.scopes.includes(scope)}
+                                                            onChange={() => toggleScope(scope)}
+                                                        />
+                                                        {scope}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                            <label className="flex items-center gap-2 text-sm text-gray-600">
+                                                For
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    max={req.requested_duration_hours}
+                                                    value={changes.duration_hours}
+                                                    onChange={(e) => setChanges(prev => ({ ...prev, duration_hours: Number(e.target.value) }))}
+                                                    className="w-20 border border-gray-300 rounded px-2 py-1"
+                                                />
+                                                hours (up to {req.requested_duration_hours})
+                                            </label>
+                                            <button
+                                                onClick={() => handleApprove(req.id, changes)}
+                                                disabled={changes.scopes.length === 0 || changes.duration_hours < 1 || changes.duration_hours > req.requested_duration_hours}
+                                                className="py-2 px-4 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-medium shadow-sm disabled:opacity-50"
+                                            >
+                                                Approve with changes
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
                             ))
                     )}
@@ -246,47 +567,274 @@ export default function ConsentDashboard() {
                             ))
                     )}
 
-                    {/* 3. AUDIT TAB */}
-                    {activeTab === 'audit' && (
-                        <div className="bg-white border border-gray-100 rounded-xl overflow-hidden shadow-sm">
-                            <table className="w-full text-sm text-left">
-                                <thead className="bg-gray-50 text-gray-500">
-                                    <tr>
-                                        <th className="px-6 py-3 font-medium">Time</th>
-                                        <th className="px-6 py-3 font-medium">Actor</th>
-                                        <th className="px-6 py-3 font-medium">Action</th>
-                                        <th className="px-6 py-3 font-medium">Details</th>
-                                    </tr>
-                                </thead>
-                                <tbody className="divide-y divide-gray-100">
-                                    {auditLogs.map(log => (
-                                        <tr key={log.id} className="hover:bg-gray-50">
-                                            <td className="px-6 py-3 text-gray-500">{formatDate(log.timestamp)}</td>
-                                            <td className="px-6 py-3 font-medium text-gray-900">
-                                                {log.doctors?.name || 'Self'}
-                                            </td>
-                                            <td className="px-6 py-3">
-                                                <span className={`px-2 py-1 rounded text-xs font-bold ${log.action === 'APPROVE' ? 'bg-green-100 text-green-700' :
-                                                        log.action === 'REVOKE' ? 'bg-red-100 text-red-700' :
-                                                            'bg-gray-100 text-gray-700'
-                                                    }`}>
-                                                    {log.action}
-                                                </span>
-                                            </td>
-                                            <td className="px-6 py-3 text-gray-500 max-w-xs truncate">
-                                                {JSON.stringify(log.details)}
-                                                {log.ip_address && <span className="text-gray-400 text-xs block mt-1">IP: {log.ip_address}</span>}
-                                            </td>
-                                        </tr>
+                    {/* 3. ORGANIZATIONS TAB */}
+                    {activeTab === 'organizations' && (
+                        <>
+                            <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm space-y-4">
+                                <h3 className="font-semibold text-lg text-gray-900">Share with an organization</h3>
+                                <select
+                                    value={selectedOrg}
+                                    onChange={e => handleSelectOrg(e.target.value)}
+                                    className="w-full md:w-80 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                                >
+                                    <option value="">Choose a hospital, lab or insurer</option>
+                                    {organizations.map(org => (
+                                        <option key={org.id} value={org.id}>{org.name}</option>
                                     ))}
-                                    {auditLogs.length === 0 && (
-                                        <tr>
-                                            <td colSpan={4} className="px-6 py-8 text-center text-gray-400">No logs found</td>
-                                        </tr>
+                                </select>
+                                {selectedOrg && templates.length === 0 && (
+                                    <p className="text-sm text-gray-500">No ready-made consents for this organization</p>
+                                )}
+                                {templates.map(template => (
+                                    <div key={template.id} className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 border-t border-gray-100 pt-4">
+                                        <div>
+                                            <p className="font-medium text-gray-800">{template.name}</p>
+                                            {template.description && <p className="text-sm text-gray-600">{template.description}</p>}
+                                            <div className="flex flex-wrap gap-3 text-sm text-gray-500 mt-1">
+                                                <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {template.durationDays} days</span>
+                                                <span className="flex items-center gap-1"><FileText className="w-3 h-3" /> {template.allowedResources.join(', ')}</span>
+                                            </div>
+                                        </div>
+                                        <button
+                                            onClick={() => handleGrantTemplate(template)}
+                                            className="py-2 px-4 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-medium shadow-sm"
+                                        >
+                                            Grant
+                                        </button>
+                                    </div>
+                                ))}
+                                {selectedOrg && (
+                                    <div className="border-t border-gray-100 pt-4 space-y-4">
+                                        <p className="font-medium text-gray-800">Or choose exactly what to share</p>
+                                        <div>
+                                            <p className="text-sm font-medium text-gray-700 mb-2">Records</p>
+                                            <div className="flex flex-wrap gap-3">
+                                                {SHAREABLE_RESOURCES.map(resource => (
+                                                    <label key={resource} className="flex items-center gap-2 text-sm text-gray-700">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={customGrant.allowedResources.includes(resource)}
+                                                            onChange={() => toggleCustomGrant('allowedResources', resource)}
+                                                        />
+                                                        {resource}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                                            <label className="flex flex-col gap-1">
+                                                Share until
+                                                <input
+                                                    type="date"
+                                                    value={customGrant.validUntil}
+                                                    onChange={e => setCustomGrant(prev => ({ ...prev, validUntil: e.target.value }))}
+                                                    className="border border-gray-300 rounded-lg px-3 py-2"
+                                                />
+                                            </label>
+                                            <label className="flex flex-col gap-1">
+                                                Only records from
+                                                <input
+                                                    type="date"
+                                                    value={customGrant.dataStart}
+                                                    onChange={e => setCustomGrant(prev => ({ ...prev, dataStart: e.target.value }))}
+                                                    className="border border-gray-300 rounded-lg px-3 py-2"
+                                                />
+                                            </label>
+                                            <label className="flex flex-col gap-1">
+                                                to
+                                                <input
+                                                    type="date"
+                                                    value={customGrant.dataEnd}
+                                                    onChange={e => setCustomGrant(prev => ({ ...prev, dataEnd: e.target.value }))}
+                                                    className="border border-gray-300 rounded-lg px-3 py-2"
+                                                />
+                                            </label>
+                                        </div>
+                                        <div>
+                                            <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1"><Lock className="w-3 h-3" /> Never share</p>
+                                            <div className="flex flex-wrap gap-3">
+                                                {SENSITIVE_CATEGORIES.map(category => (
+                                                    <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={customGrant.excludedCategories.includes(category.id)}
+                                                            onChange={() => toggleCustomGrant('excludedCategories', category.id)}
+                                                        />
+                                                        {category.label}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <button
+                                            onClick={handleGrantCustom}
+                                            disabled={customGrant.allowedResources.length === 0 || !customGrant.validUntil}
+                                            className="py-2 px-4 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-medium shadow-sm disabled:opacity-50"
+                                        >
+                                            Grant
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+
+                            {orgConsents.filter(c => c.status === 'active').length === 0 ? (
+                                <div className="text-center py-12 bg-gray-50 rounded-lg text-gray-500">No organization has access to your records</div>
+                            ) :
+                                orgConsents.filter(c => c.status === 'active').map(consent => (
+                                    <div key={consent.id} className="bg-white border border-green-100 rounded-xl p-6 shadow-sm flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                                        <div>
+                                            <h3 className="font-semibold text-lg text-gray-900">{consent.organizationName}</h3>
+                                            <div className="flex flex-wrap gap-3 text-sm text-gray-500">
+                                                <span className="flex items-center gap-1 text-green-700"><Clock className="w-3 h-3" /> Until {formatDate(consent.validUntil)}</span>
+                                                <span className="flex items-center gap-1"><FileText className="w-3 h-3" /> {consent.allowedResources.join(', ')}</span>
+                                            </div>
+                                        </div>
+                                        {consent.templateId && (
+                                            <button
+                                                onClick={() => handleRenew(consent.id)}
+                                                className="flex items-center gap-2 py-2 px-4 border border-teal-600 text-teal-700 rounded-lg hover:bg-teal-50 transition font-medium"
+                                            >
+                                                <RefreshCw className="w-4 h-4" /> Renew
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                        </>
+                    )}
+
+                    {/* 4. EMERGENCY ACCESS TAB */}
+                    {activeTab === 'emergency' && (
+                        emergencyAccesses.length === 0 ? (
+                            <div className="text-center py-12 bg-gray-50 rounded-lg text-gray-500">No emergency access to your records</div>
+                        ) :
+                            emergencyAccesses.map(grant => (
+                                <div key={grant.id} className="bg-white border border-red-100 rounded-xl p-6 shadow-sm flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                                    <div className="flex gap-4">
+                                        <div className="bg-red-50 p-3 rounded-full h-fit">
+                                            <Siren className="w-6 h-6 text-red-600" />
+                                        </div>
+                                        <div>
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <h3 className="font-semibold text-lg text-gray-900">
+                                                    {grant.organizations?.name || 'Unknown organization'}
+                                                </h3>
+                                                <span className={`text-xs px-2 py-0.5 rounded font-medium ${grant.status === 'active' ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700'}`}>
+                                                    {grant.status === 'active' ? 'Open' : grant.status === 'revoked' ? 'Revoked' : 'Expired'}
+                                                </span>
+                                                {grant.review_status !== 'pending' && (
+                                                    <span className={`text-xs px-2 py-0.5 rounded font-medium ${grant.review_status === 'disputed' ? 'bg-orange-100 text-orange-700' : 'bg-green-100 text-green-700'}`}>
+                                                        {grant.review_status === 'disputed' ? 'Disputed' : 'Acknowledged'}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <p className="text-gray-600 mb-2">
+                                                {grant.reason}
+                                                {grant.justification && <span className="text-gray-500"> - {grant.justification}</span>}
+                                            </p>
+                                            <div className="flex flex-wrap gap-3 text-sm text-gray-500">
+                                                <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {formatDate(grant.granted_at)} → {formatDate(grant.revoked_at || grant.expires_at)}</span>
+                                                <span className="flex items-center gap-1"><FileText className="w-3 h-3" /> {grant.resource_types.join(', ')}</span>
+                                            </div>
+                                            {grant.review_comment && (
+                                                <p className="text-sm text-gray-500 mt-2">Your note: {grant.review_comment}</p>
+                                            )}
+                                        </div>
+                                    </div>
+                                    {grant.review_status === 'pending' && (
+                                        <div className="flex gap-3 w-full md:w-auto">
+                                            <button
+                                                onClick={() => handleEmergencyReview(grant.id, 'disputed')}
+                                                className="flex-1 md:flex-none py-2 px-4 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition font-medium"
+                                            >
+                                                Dispute
+                                            </button>
+                                            <button
+                                                onClick={() => handleEmergencyReview(grant.id, 'acknowledged')}
+                                                className="flex-1 md:flex-none py-2 px-4 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition font-medium shadow-sm"
+                                            >
+                                                Acknowledge
+                                            </button>
+                                        </div>
                                     )}
-                                </tbody>
-                            </table>
-                        </div>
+                                </div>
+                            ))
+                    )}
+
+                    {/* 5. AUDIT TAB */}
+                    {activeTab === 'audit' && (
+                        <>
+                            <div className="flex gap-3">
+                                <select
+                                    value={periodFilter}
+                                    onChange={e => setPeriodFilter(e.target.value as typeof periodFilter)}
+                                    className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                                >
+                                    <option value="7">Last 7 days</option>
+                                    <option value="30">Last 30 days</option>
+                                    <option value="90">Last 90 days</option>
+                                    <option value="">All time</option>
+                                </select>
+                                <select
+                                    value={outcomeFilter}
+                                    onChange={e => setOutcomeFilter(e.target.value as typeof outcomeFilter)}
+                                    className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                                >
+                                    <option value="">Accesses and attempts</option>
+                                    <option value="success">Accesses only</option>
+                                    <option value="denied">Blocked attempts only</option>
+                                </select>
+                            </div>
+
+                            {accessActors.length === 0 ? (
+                                <div className="text-center py-12 bg-gray-50 rounded-lg text-gray-500">No one has accessed your data in this period</div>
+                            ) :
+                                accessActors.map(actor => {
+                                    const key = `${actor.actorType}:${actor.actorId}`;
+                                    return (
+                                        <div key={key} className="bg-white border border-gray-200 rounded-xl shadow-sm">
+                                            <div className="p-6 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                                                <button className="text-left" onClick={() => setExpandedActor(expandedActor === key ? null : key)}>
+                                                    <h3 className="font-semibold text-lg text-gray-900 flex items-center gap-2">
+                                                        <Eye className="w-4 h-4 text-gray-400" /> {actor.actorName}
+                                                    </h3>
+                                                    <div className="flex flex-wrap gap-3 text-sm text-gray-500 mt-1">
+                                                        <span>{actor.accessCount} access{actor.accessCount === 1 ? '' : 'es'}</span>
+                                                        {actor.deniedCount > 0 && (
+                                                            <span className="text-red-600">{actor.deniedCount} blocked</span>
+                                                        )}
+                                                        <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> Last: {formatDate(actor.lastAccessAt)}</span>
+                                                    </div>
+                                                </button>
+                                                {actor.canRevoke && (
+                                                    <button
+                                                        onClick={() => handleRevokeActor(actor)}
+                                                        className="text-red-600 hover:bg-red-50 px-4 py-2 rounded-lg text-sm font-medium transition"
+                                                    >
+                                                        Revoke Access
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {expandedActor === key && (
+                                                <ul className="border-t border-gray-100 divide-y divide-gray-100">
+                                                    {actor.entries.map(entry => (
+                                                        <li key={entry.id} className="px-6 py-3 text-sm flex gap-3">
+                                                            {entry.outcome === 'success'
+                                                                ? <Check className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
+                                                                : <X className="w-4 h-4 text-red-600 shrink-0 mt-0.5" />}
+                                                            <div>
+                                                                <p className="text-gray-800">{entry.description}</p>
+                                                                <p className="text-gray-400 text-xs mt-0.5">
+                                                                    {formatDate(entry.occurredAt)}
+                                                                    {entry.reason && ` · ${entry.reason}`}
+                                                                </p>
+                                                            </div>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                        </>
                     )}
                 </div>
             )}
@@ -11,6 +11,8 @@ import { checkAbhaLinked, saveAbhaProfile } from '@/utils/healthData';
 import { useAuth } from '@/contexts/AuthContext';
 import { useReports } from '@/contexts/ReportContext';
 import { Pill, Thermometer, Heart, UploadCloud } from 'lucide-react';
+import { MedicationAlertsCard } from '@/components/MedicationAlertsCard';
+import { CriticalAlertsCard } from '@/components/CriticalAlertsCard';
 
 const calculateAge = (dob: string | null | undefined): number | null => {
   if (!dob) return null;
@@ -495,6 +497,10 @@ const Dashboard = () => {
             </div>
           </motion.div>
 
+          {/* Interaction and allergy alerts */}
+          {user?.id && <CriticalAlertsCard patientId={user.id} accessToken={session?.access_token} className="mb-5" />}
+          {user?.id && <MedicationAlertsCard patientId={user.id} accessToken={session?.access_token} className="mb-5" />}
+
           {/* Current Medications */}
           {derivedData?.medications && derivedData.medications.length > 0 && (
             <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5, delay: 0.2 }} className="bg-white dark:bg-dark-card rounded-xl shadow-sm border border-gray-100 dark:border-dark-cardBorder p-4 md:p-6 mb-5 transition-colors duration-300">
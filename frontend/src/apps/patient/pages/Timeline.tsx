@@ -11,6 +11,8 @@ import { getApiBaseUrl } from '@/lib/fhir';
 import { groupTimelineByDate, formatTimelineDate } from '@/lib/timelineDate';
 import { ReportUploader } from '@/components/ReportUploader';
 import { useReports } from '@/contexts/ReportContext';
+import MedicationCourseGantt from '@/components/MedicationCourseGantt';
+import { fetchMedicationCourses, MedicationCourse } from '@/lib/medicationCourses';
 
 const Timeline = () => {
   const { user, session } = useAuth();
@@ -22,6 +24,8 @@ const Timeline = () => {
   const [filteredEvents, setFilteredEvents] = useState<any[]>([]);
   const [activeChatEvent, setActiveChatEvent] = useState<any>(null);
   const [chatKey, setChatKey] = useState(0);
+  const [courses, setCourses] = useState<MedicationCourse[]>([]);
+  const [coursesLoading, setCoursesLoading] = useState(true);
 
   // Verify Context is available
   useEffect(() => {
@@ -88,6 +92,27 @@ const Timeline = () => {
     }
   }, [isProcessing, user?.id]);
 
+  // Medication courses are rebuilt after each processed report
+  useEffect(() => {
+    if (!user?.id || isProcessing) return;
+    const loadCourses = async () => {
+      try {
+        setCoursesLoading(true);
+        setCourses(await fetchMedicationCourses(user.id, session?.access_token));
+      } catch (err) {
+        console.error('Error fetching medication courses:', err);
+      } finally {
+        setCoursesLoading(false);
+      }
+    };
+    loadCourses();
+  }, [user?.id, session?.access_token, isProcessing]);
+
+  const medicationChanges = courses.reduce(
+    (count, course) => count + course.doseChanges.length + (course.endDate ? 1 : 0),
+    0
+  );
+
   useEffect(() => {
     if (!searchQuery) {
       setFilteredEvents(events);
@@ -117,6 +142,8 @@ const Timeline = () => {
 
           {/* Main Timeline Column (8/12) */}
           <div className="lg:col-span-8 space-y-8">
+            <MedicationCourseGantt courses={courses} loading={coursesLoading} />
+
             <div className="flex items-center justify-between mb-2">
               <h1 className="text-2xl font-black text-slate-800 dark:text-white tracking-tight">Recent Events</h1>
               <div className="flex items-center gap-6">
@@ -206,8 +233,8 @@ const Timeline = () => {
                 {[
                   { label: 'Completed Tests', value: 3 },
                   { label: 'Upcoming Appointments', value: 1 },
-                  { label: 'Active Treatments', value: 0 },
-                  { label: 'Medication Changes', value: 1 },
+                  { label: 'Active Treatments', value: courses.filter(c => c.status === 'active').length },
+                  { label: 'Medication Changes', value: medicationChanges },
                 ].map((item) => (
                   <div key={item.label} className="flex items-center justify-between pb-3 border-b border-slate-50 last:border-0 last:pb-0">
                     <span className="text-xs font-bold text-slate-500 tracking-wide">{item.label}</span>
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import FileViewer from '@/components/FileViewer';
+import { ChatCitation, ReportFile, describeCitation, fetchReportFile } from '@/lib/chatCitations';
+
+interface CitationSourceDialogProps {
+  citation: ChatCitation | null;
+  accessToken?: string;
+  onClose: () => void;
+}
+
+/**
+ * The evidence behind a chat citation: the cited value and, when the
+ * original document was stored, the document itself.
+ */
+export function CitationSourceDialog({ citation, accessToken, onClose }: CitationSourceDialogProps) {
+  const [file, setFile] = useState<ReportFile | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setFile(null);
+    if (!citation?.reportId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchReportFile(citation.reportId, accessToken)
+      .then(result => { if (!cancelled) setFile(result); })
+      .catch(err => console.error('Error fetching cited report file:', err))
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [citation, accessToken]);
+
+  return (
+    <Dialog open={!!citation} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="z-[70] max-w-3xl">
+        {citation && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <FileText className="w-4 h-4 text-niraiva-600" />
+                [{citation.label}] {describeCitation(citation)}
+              </DialogTitle>
+              <DialogDescription>
+                {[citation.date, citation.status && `Status: ${citation.status}`, citation.reportId && `Report ${citation.reportId}`]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </DialogDescription>
+            </DialogHeader>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-40">
+                <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+              </div>
+            ) : file ? (
+              <FileViewer url={file.url} type={file.contentType || ''} className="h-[60vh]" />
+            ) : (
+              <p className="text-sm text-slate-500">
+                The original document for this {citation.sourceType === 'event' ? 'event' : 'result'} is not available. The value above was read from your uploaded report.
+              </p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, Siren } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { CriticalValueAlert, acknowledgeCriticalAlert, fetchCriticalAlerts } from '@/lib/criticalAlerts';
+
+interface CriticalAlertsCardProps {
+  patientId: string;
+  accessToken?: string;
+  // Clinicians record a note when acknowledging; patients just confirm
+  allowNotes?: boolean;
+  className?: string;
+}
+
+/**
+ * Unacknowledged critical lab values with an acknowledgement action.
+ * Renders nothing when there are no active alerts.
+ */
+export function CriticalAlertsCard({ patientId, accessToken, allowNotes = false, className }: CriticalAlertsCardProps) {
+  const [alerts, setAlerts] = useState<CriticalValueAlert[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    if (!patientId) return;
+    try {
+      setAlerts(await fetchCriticalAlerts(patientId, accessToken));
+    } catch (err) {
+      console.error('Error fetching critical alerts:', err);
+    }
+  }, [patientId, accessToken]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const handleAcknowledge = async (alert: CriticalValueAlert) => {
+    setPendingId(alert.id);
+    try {
+      await acknowledgeCriticalAlert(patientId, alert.id, accessToken, notes[alert.id]?.trim() || undefined);
+      setAlerts(prev => prev.filter(a => a.id !== alert.id));
+      toast.success('Critical result acknowledged');
+    } catch (err) {
+      console.error('Error acknowledging critical alert:', err);
+      toast.error('Failed to acknowledge alert');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className={cn('bg-white dark:bg-dark-card rounded-xl shadow-sm border border-red-300 dark:border-dark-cardBorder p-4 md:p-6', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Siren className="w-5 h-5 text-red-600" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Critical Results</h2>
+        </div>
+        <span className="text-sm text-gray-500">{alerts.length} unacknowledged</span>
+      </div>
+
+      <div className="space-y-3">
+        {alerts.map((alert) => (
+          <div key={alert.id} className="rounded-lg border border-red-200 bg-red-50 p-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full bg-red-600 text-white">
+                    Critical {alert.direction}
+                  </span>
+                  <span className="font-medium text-gray-900 text-sm">{alert.parameter_name}</span>
+                </div>
+                <p className="text-sm text-gray-700 mt-1">{alert.message}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {new Date(alert.measured_at || alert.created_at).toLocaleDateString()}
+                  {alert.escalation_level > 0 && ` · reminded ${alert.escalation_level} time${alert.escalation_level > 1 ? 's' : ''}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={pendingId === alert.id}
+                onClick={() => handleAcknowledge(alert)}
+                className="shrink-0"
+              >
+                <Check className="w-4 h-4 mr-1" /> Acknowledge
+              </Button>
+            </div>
+            {allowNotes && (
+              <Textarea
+                placeholder="Note (optional): e.g. patient contacted, repeat test ordered"
+                value={notes[alert.id] || ''}
+                onChange={(e) => setNotes(prev => ({ ...prev, [alert.id]: e.target.value }))}
+                className="mt-2 min-h-[60px] text-sm bg-white"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
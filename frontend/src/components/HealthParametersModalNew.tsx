@@ -24,8 +24,18 @@ interface HealthParameter {
     measured_at: string;
     source?: string;
     interpretation?: string;
+    normal_range_min?: number | null;
+    normal_range_max?: number | null;
+    status_source?: 'lab_range' | 'reference_range' | 'llm' | 'default' | null;
 }
 
+const formatRange = (min?: number | null, max?: number | null): string | null => {
+    if (min != null && max != null) return `${min} – ${max}`;
+    if (max != null) return `< ${max}`;
+    if (min != null) return `> ${min}`;
+    return null;
+};
+
 interface ParameterGroup {
     group: string;
     icon: string;
@@ -252,6 +262,7 @@ const StatusPill = ({ status }: { status: 'normal' | 'warning' | 'critical' }) =
 const HealthParameterCard = ({ param }: { param: HealthParameter }) => {
     const interpretation = getParameterInterpretation(param.name, param.status);
     const isValid = param.value !== null && !isNaN(Number(param.value));
+    const range = formatRange(param.normal_range_min, param.normal_range_max);
 
     const statusColors = {
         normal: 'bg-green-50 border-green-200 dark:bg-green-950 dark:border-green-800',
@@ -294,6 +305,19 @@ const HealthParameterCard = ({ param }: { param: HealthParameter }) => {
                         Data not available
                     </p>
                 )}
+
+                {range && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Normal range: {range} {param.unit}
+                    </p>
+                )}
+
+                {/* No lab or reference range applied; the status is the AI's estimate */}
+                {param.status_source === 'llm' && (
+                    <p className="text-xs italic text-gray-500 dark:text-gray-400 mt-1">
+                        Status estimated by AI
+                    </p>
+                )}
             </div>
 
             {/* Patient-Friendly Interpretation */}
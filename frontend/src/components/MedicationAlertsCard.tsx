@@ -0,0 +1,115 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  MedicationAlert,
+  MEDICATION_ALERTS_UPDATED,
+  SEVERITY_STYLES,
+  acknowledgeMedicationAlert,
+  fetchMedicationAlerts
+} from '@/lib/medicationAlerts';
+
+interface MedicationAlertsCardProps {
+  patientId: string;
+  accessToken?: string;
+  // Clinicians record a note when acknowledging; patients just dismiss
+  allowNotes?: boolean;
+  className?: string;
+}
+
+/**
+ * Active drug–drug and drug–allergy alerts with an acknowledgement action.
+ * Renders nothing when there are no active alerts.
+ */
+export function MedicationAlertsCard({ patientId, accessToken, allowNotes = false, className }: MedicationAlertsCardProps) {
+  const [alerts, setAlerts] = useState<MedicationAlert[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    if (!patientId) return;
+    try {
+      setAlerts(await fetchMedicationAlerts(patientId, accessToken));
+    } catch (err) {
+      console.error('Error fetching medication alerts:', err);
+    }
+  }, [patientId, accessToken]);
+
+  useEffect(() => {
+    loadAlerts();
+    window.addEventListener(MEDICATION_ALERTS_UPDATED, loadAlerts);
+    return () => window.removeEventListener(MEDICATION_ALERTS_UPDATED, loadAlerts);
+  }, [loadAlerts]);
+
+  const handleAcknowledge = async (alert: MedicationAlert) => {
+    setPendingId(alert.id);
+    try {
+      await acknowledgeMedicationAlert(patientId, alert.id, accessToken, notes[alert.id]?.trim() || undefined);
+      setAlerts(prev => prev.filter(a => a.id !== alert.id));
+      toast.success('Alert acknowledged');
+    } catch (err) {
+      console.error('Error acknowledging alert:', err);
+      toast.error('Failed to acknowledge alert');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className={cn('bg-white dark:bg-dark-card rounded-xl shadow-sm border border-red-100 dark:border-dark-cardBorder p-4 md:p-6', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Medication Alerts</h2>
+        </div>
+        <span className="text-sm text-gray-500">{alerts.length} active</span>
+      </div>
+
+      <div className="space-y-3">
+        {alerts.map((alert) => {
+          const style = SEVERITY_STYLES[alert.severity];
+          return (
+            <div key={alert.id} className={cn('rounded-lg border p-3', style.border)}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className={cn('text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full', style.badge)}>
+                      {style.label}
+                    </span>
+                    <span className="font-medium text-gray-900 text-sm">
+                      {alert.medication} {alert.alert_type === 'drug_allergy' ? '· allergy to' : '+'} {alert.counterpart}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 mt-1">{alert.effect}</p>
+                  {alert.management && <p className="text-xs text-gray-500 mt-1">{alert.management}</p>}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pendingId === alert.id}
+                  onClick={() => handleAcknowledge(alert)}
+                  className="shrink-0"
+                >
+                  <Check className="w-4 h-4 mr-1" /> Acknowledge
+                </Button>
+              </div>
+              {allowNotes && (
+                <Textarea
+                  placeholder="Note (optional): e.g. benefits outweigh risk, monitoring INR"
+                  value={notes[alert.id] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [alert.id]: e.target.value }))}
+                  className="mt-2 min-h-[60px] text-sm bg-white"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
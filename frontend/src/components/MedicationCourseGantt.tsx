@@ -0,0 +1,113 @@
+import React from 'react';
+import { Pill } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import {
+  MedicationCourse,
+  describeCourseEnd,
+  describeDoseChange,
+  formatCourseDate
+} from '@/lib/medicationCourses';
+
+interface MedicationCourseGanttProps {
+  courses: MedicationCourse[];
+  loading?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (date: string) => new Date(date).getTime();
+
+/**
+ * Gantt-style chart of medication courses: one row per course, a bar from
+ * start to stop (or today) and a marker at every dose change.
+ */
+const MedicationCourseGantt = ({ courses, loading }: MedicationCourseGanttProps) => {
+  const today = new Date().toISOString().split('T')[0];
+  const rangeStart = courses.length > 0 ? Math.min(...courses.map(c => toTime(c.startDate))) : toTime(today);
+  const rangeEnd = Math.max(toTime(today), ...courses.map(c => toTime(c.endDate || today)));
+  const span = Math.max(rangeEnd - rangeStart, DAY_MS);
+
+  const position = (date: string) => ((toTime(date) - rangeStart) / span) * 100;
+
+  // Oldest courses at the top, like a schedule
+  const rows = [...courses].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  return (
+    <Card className="p-6 border-slate-100 shadow-sm rounded-2xl bg-white">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest">Medication Courses</h3>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-[#10B981]" />
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Active</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-slate-300" />
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Stopped</span>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="w-8 h-8 border-2 border-niraiva-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-xs font-bold text-slate-400 uppercase tracking-widest text-center py-6">
+          No medications recorded
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {rows.map((course) => {
+            const left = position(course.startDate);
+            const width = Math.max(position(course.endDate || today) - left, 1);
+            const end = describeCourseEnd(course);
+
+            return (
+              <div key={`${course.key}-${course.startDate}`} className="grid grid-cols-12 gap-4 items-center">
+                <div className="col-span-4 flex items-center gap-2 min-w-0">
+                  <Pill className="h-4 w-4 text-niraiva-600 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-black text-slate-800 tracking-tight truncate">{course.name}</p>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                      {[course.currentDose, course.currentFrequency].filter(Boolean).join(' · ') || 'Dose not recorded'}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="col-span-8">
+                  <div className="relative h-6 bg-slate-50 rounded-full">
+                    <div
+                      className={cn(
+                        'absolute top-1 h-4 rounded-full',
+                        course.status === 'active' ? 'bg-[#10B981]' : 'bg-slate-300',
+                        course.stopReason === 'inferred' && 'opacity-70'
+                      )}
+                      style={{ left: `${left}%`, width: `${width}%` }}
+                      title={`Started ${formatCourseDate(course.startDate, 'MMM d, yyyy')}${end ? ` · ${end}` : ''}`}
+                    />
+                    {course.doseChanges.map((change) => (
+                      <div
+                        key={change.date}
+                        className="absolute top-0 h-6 w-1 rounded-full bg-[#F59E0B]"
+                        style={{ left: `${position(change.date)}%` }}
+                        title={describeDoseChange(change)}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-between mt-1 text-[10px] font-bold text-slate-400">
+                    <span>{formatCourseDate(course.startDate, 'MMM d, yyyy')}</span>
+                    <span>{course.endDate ? formatCourseDate(course.endDate, 'MMM d, yyyy') : 'Ongoing'}</span>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default MedicationCourseGantt;
@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { getApiBaseUrl } from '@/lib/fhir';
+import { ChatCitation, describeCitation } from '@/lib/chatCitations';
+import { CitationSourceDialog } from '@/components/CitationSourceDialog';
 
 interface TimelineAssistantProps {
     eventContext?: any;
@@ -14,12 +16,14 @@ interface Message {
     role: 'user' | 'assistant';
     content: string;
     followUpType?: string;
+    citations?: ChatCitation[];
 }
 
 interface ChatResponse {
     token?: string;
     sessionId?: string;
     done?: boolean;
+    citations?: ChatCitation[];
     suggestedFollowUps?: string[];
     currentTopic?: string;
     disclaimer?: string;
@@ -37,6 +41,7 @@ const TimelineAssistant: React.FC<TimelineAssistantProps> = ({ eventContext }) =
     const [suggestedFollowUps, setSuggestedFollowUps] = useState<string[]>([]); // STEP 10: Dynamic follow-ups
     const [currentTopic, setCurrentTopic] = useState<string>(''); // STEP 8: Track current topic
     const [disclaimer, setDisclaimer] = useState<string>('');
+    const [openCitation, setOpenCitation] = useState<ChatCitation | null>(null);
 
     // 🔴 CRITICAL FIX: AbortController for stream lifecycle management
     // Keep one controller per component instance, abort old stream before starting new one
@@ -213,6 +218,17 @@ const TimelineAssistant: React.FC<TimelineAssistantProps> = ({ eventContext }) =
                                 setChatSessionId(data.sessionId);
                             }
                             if (data.done) {
+                                // Evidence the answer cited, shown as links under the message
+                                if (data.citations?.length) {
+                                    const citations = data.citations;
+                                    setMessages(prev => {
+                                        const next = [...prev];
+                                        if (next.length > 0) {
+                                            next[next.length - 1] = { ...next[next.length - 1], citations };
+                                        }
+                                        return next;
+                                    });
+                                }
                                 // STEP 10: Capture dynamic follow-ups
                                 if (data.suggestedFollowUps) {
                                     console.log('📌 Received follow-ups:', data.suggestedFollowUps);
@@ -414,6 +430,20 @@ const TimelineAssistant: React.FC<TimelineAssistantProps> = ({ eventContext }) =
                                         {msg.content.split('\n').map((line: string, j: number) => (
                                             <p key={j} className={`text-left whitespace-normal ${j > 0 ? "mt-1" : ""}`}>{line}</p>
                                         ))}
+                                        {msg.citations && msg.citations.length > 0 && (
+                                            <div className="mt-2 pt-2 border-t border-slate-100 flex flex-wrap gap-1">
+                                                {msg.citations.map(citation => (
+                                                    <button
+                                                        key={citation.label}
+                                                        onClick={() => setOpenCitation(citation)}
+                                                        title={[citation.date, citation.status].filter(Boolean).join(' · ')}
+                                                        className="px-2 py-0.5 rounded-full bg-niraiva-50 text-[10px] font-medium text-niraiva-700 hover:bg-niraiva-100 transition-colors"
+                                                    >
+                                                        [{citation.label}] {describeCitation(citation)}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             ))}
@@ -490,6 +520,12 @@ const TimelineAssistant: React.FC<TimelineAssistantProps> = ({ eventContext }) =
                     <Bot className="h-6 w-6 text-niraiva-400 group-hover:text-niraiva-300 transition-colors" />
                 </motion.button>
             )}
+
+            <CitationSourceDialog
+                citation={openCitation}
+                accessToken={session?.access_token}
+                onClose={() => setOpenCitation(null)}
+            />
         </div>
     );
 };
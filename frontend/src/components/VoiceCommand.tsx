@@ -19,6 +19,7 @@ import {
 } from '@/utils/voiceCommands';
 import { addHealthParameter } from '@/utils/healthData';
 import { findRouteByCommand } from '@/utils/routes';
+import { checkMedicationInteractions, SEVERITY_STYLES } from '@/lib/medicationAlerts';
 
 const SILENCE_CONFIG = {
   minDecibels: -65,
@@ -51,7 +52,7 @@ export function VoiceCommand({ className }: VoiceCommandProps) {
 
   const navigate = useNavigate();
   const { applyUpdate, refreshUserData } = useData();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
 
   // Speech recognition ref
   const recognitionRef = useRef<any>(null);
@@ -175,6 +176,31 @@ export function VoiceCommand({ className }: VoiceCommandProps) {
                 } catch { valueText = String(instruction.value); }
 
                 toast({ description: `${opText} ${section}: ${valueText}` });
+
+                // New medications and allergies are checked for interactions
+                if (instruction.op === 'add' && (section === 'medications' || section === 'allergies')) {
+                  try {
+                    const medicationName = section === 'medications'
+                      ? (typeof instruction.value === 'string' ? instruction.value : instruction.value?.name)
+                      : null;
+                    const raised = await checkMedicationInteractions(
+                      user.id,
+                      session?.access_token,
+                      medicationName ? [medicationName] : undefined,
+                      'voice'
+                    );
+                    if (raised.length > 0) {
+                      const worst = SEVERITY_STYLES[raised[0].severity].label;
+                      toast({
+                        variant: 'destructive',
+                        title: `${raised.length} medication alert${raised.length > 1 ? 's' : ''} (${worst})`,
+                        description: raised.map(a => `${a.medication} + ${a.counterpart}`).join('; ')
+                      });
+                    }
+                  } catch (alertErr) {
+                    console.error('Interaction check failed:', alertErr);
+                  }
+                }
               } else if (parsedCommand.type !== 'navigation') {
                 toast({ description: 'Invalid command format or unsupported action' });
               }
@@ -204,7 +230,7 @@ export function VoiceCommand({ className }: VoiceCommandProps) {
       toast({ variant: 'destructive', description: 'Failed to start speech recognition' });
       cleanup();
     }
-  }, [cleanup, user, navigate, applyUpdate, refreshUserData]);
+  }, [cleanup, user, session, navigate, applyUpdate, refreshUserData]);
 
   // Stop recording function
   const stopRecording = useCallback(() => {
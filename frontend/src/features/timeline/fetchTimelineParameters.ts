@@ -7,7 +7,7 @@ export async function fetchTimelineParameters(
     try {
         const { data, error } = await supabase
             .from("health_parameters")
-            .select("id, name, value, unit, status, measured_at, source")
+            .select("id, name, value, unit, status, measured_at, source, loinc_code, normalized_value, normalized_unit, normal_range_min, normal_range_max, status_source")
             .eq("user_id", userId)
             .lte("measured_at", `${eventDate}T23:59:59`)
             .gte("measured_at", `${eventDate}T00:00:00`)
@@ -18,12 +18,13 @@ export async function fetchTimelineParameters(
             throw error;
         }
 
-        // Deduplicate per parameter name (keep latest)
+        // Deduplicate per test (keep latest); "Hb" and "Haemoglobin" share a LOINC code
         const latestByName = new Map<string, any>();
 
         for (const row of data ?? []) {
-            if (!latestByName.has(row.name)) {
-                latestByName.set(row.name, row);
+            const key = row.loinc_code || row.name;
+            if (!latestByName.has(key)) {
+                latestByName.set(key, row);
             }
         }
 
@@ -0,0 +1,55 @@
+/**
+ * Chat Citation Utilities
+ *
+ * Assistant answers cite the evidence they used as [S1], [S2], ...
+ * Each citation points at a report, lab value or clinical event, so the
+ * original document can be opened from the chat.
+ */
+
+import { getApiBaseUrl } from '@/lib/fhir';
+
+export interface ChatCitation {
+    label: string;
+    reportId: string | null;
+    sourceType: 'report' | 'parameter' | 'event';
+    sourceId: string;
+    date: string | null;
+    title: string;
+    value: string | null;
+    unit: string | null;
+    status: string | null;
+}
+
+export interface ReportFile {
+    url: string;
+    contentType: string | null;
+    filename: string | null;
+}
+
+/**
+ * Signed URL for a report's original document, or null when only the
+ * parsed text of the report was kept
+ */
+export async function fetchReportFile(reportId: string, accessToken?: string): Promise<ReportFile | null> {
+    const response = await fetch(`${getApiBaseUrl()}/api/reports/${reportId}/file`, {
+        headers: {
+            'Authorization': `Bearer ${accessToken || ''}`,
+            'Accept': 'application/json'
+        }
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new Error(`Failed to fetch report file: ${response.status}`);
+    }
+
+    return response.json();
+}
+
+/**
+ * "Haemoglobin 10.2 g/dL" for values, the title otherwise
+ */
+export function describeCitation(citation: ChatCitation): string {
+    if (citation.value === null) return citation.title;
+    return `${citation.title} ${citation.value}${citation.unit ? ` ${citation.unit}` : ''}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Critical Value Alert Utilities
+ *
+ * Client for alerts raised when a lab value comes back beyond a critical
+ * limit. Alerts escalate until the patient or a clinician acknowledges them.
+ */
+
+import { getApiBaseUrl } from '@/lib/fhir';
+
+export type CriticalAlertStatus = 'active' | 'acknowledged';
+
+export interface CriticalValueAlert {
+    id: string;
+    patient_id: string;
+    loinc_code: string;
+    parameter_name: string;
+    direction: 'low' | 'high';
+    value: number;
+    unit: string;
+    critical_limit: number;
+    raw_value: string;
+    raw_unit: string | null;
+    message: string;
+    report_id: string | null;
+    measured_at: string | null;
+    status: CriticalAlertStatus;
+    escalation_level: number;
+    acknowledged_by: string | null;
+    acknowledged_at: string | null;
+    acknowledgement_note: string | null;
+    created_at: string;
+}
+
+const headers = (accessToken?: string) => ({
+    'Authorization': `Bearer ${accessToken || ''}`,
+    'Accept': 'application/json',
+    'Content-Type': 'application/json'
+});
+
+export async function fetchCriticalAlerts(patientId: string, accessToken?: string, status: CriticalAlertStatus = 'active'): Promise<CriticalValueAlert[]> {
+    const response = await fetch(`${getApiBaseUrl()}/api/critical-alerts/${patientId}?status=${status}`, {
+        headers: headers(accessToken)
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch critical alerts: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.alerts || [];
+}
+
+export async function acknowledgeCriticalAlert(
+    patientId: string,
+    alertId: string,
+    accessToken?: string,
+    note?: string
+): Promise<CriticalValueAlert> {
+    const response = await fetch(`${getApiBaseUrl()}/api/critical-alerts/${patientId}/${alertId}/acknowledge`, {
+        method: 'POST',
+        headers: headers(accessToken),
+        body: JSON.stringify({ note })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to acknowledge alert: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.alert;
+}
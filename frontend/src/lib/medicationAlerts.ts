@@ -0,0 +1,105 @@
+/**
+ * Medication Alert Utilities
+ *
+ * Client for drug–drug and drug–allergy interaction alerts raised by the
+ * backend when medications are extracted from reports or added by voice.
+ */
+
+import { getApiBaseUrl } from '@/lib/fhir';
+
+export type AlertSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+export type AlertStatus = 'active' | 'acknowledged' | 'resolved';
+
+export interface MedicationAlert {
+    id: string;
+    patient_id: string;
+    alert_type: 'drug_drug' | 'drug_allergy';
+    rule_id: string;
+    severity: AlertSeverity;
+    medication: string;
+    counterpart: string;
+    effect: string;
+    management: string | null;
+    status: AlertStatus;
+    source: string;
+    acknowledged_by: string | null;
+    acknowledged_at: string | null;
+    acknowledgement_note: string | null;
+    created_at: string;
+}
+
+// Fired after a check or acknowledgement so open alert panels refresh
+export const MEDICATION_ALERTS_UPDATED = 'medication-alerts-updated';
+
+export const SEVERITY_STYLES: Record<AlertSeverity, { label: string; badge: string; border: string }> = {
+    contraindicated: { label: 'Contraindicated', badge: 'bg-red-600 text-white', border: 'border-red-200 bg-red-50' },
+    major: { label: 'Major', badge: 'bg-orange-500 text-white', border: 'border-orange-200 bg-orange-50' },
+    moderate: { label: 'Moderate', badge: 'bg-amber-100 text-amber-800', border: 'border-amber-200 bg-amber-50' },
+    minor: { label: 'Minor', badge: 'bg-gray-100 text-gray-700', border: 'border-gray-200 bg-gray-50' }
+};
+
+const headers = (accessToken?: string) => ({
+    'Authorization': `Bearer ${accessToken || ''}`,
+    'Accept': 'application/json',
+    'Content-Type': 'application/json'
+});
+
+export async function fetchMedicationAlerts(patientId: string, accessToken?: string, status: AlertStatus = 'active'): Promise<MedicationAlert[]> {
+    const response = await fetch(`${getApiBaseUrl()}/api/medication-alerts/${patientId}?status=${status}`, {
+        headers: headers(accessToken)
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch medication alerts: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.alerts || [];
+}
+
+/**
+ * Check medications for interactions. Pass the newly added medications to check
+ * only those; omit them to re-check everything (e.g. after adding an allergy).
+ * Returns the alerts newly raised by this check.
+ */
+export async function checkMedicationInteractions(
+    patientId: string,
+    accessToken?: string,
+    medications?: string[],
+    source: 'voice' | 'manual' = 'manual'
+): Promise<MedicationAlert[]> {
+    const response = await fetch(`${getApiBaseUrl()}/api/medication-alerts/${patientId}/check`, {
+        method: 'POST',
+        headers: headers(accessToken),
+        body: JSON.stringify({ medications, source })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to check medication interactions: ${response.status}`);
+    }
+
+    const result = await response.json();
+    window.dispatchEvent(new Event(MEDICATION_ALERTS_UPDATED));
+    return result.raised || [];
+}
+
+export async function acknowledgeMedicationAlert(
+    patientId: string,
+    alertId: string,
+    accessToken?: string,
+    note?: string
+): Promise<MedicationAlert> {
+    const response = await fetch(`${getApiBaseUrl()}/api/medication-alerts/${patientId}/${alertId}/acknowledge`, {
+        method: 'POST',
+        headers: headers(accessToken),
+        body: JSON.stringify({ note })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to acknowledge alert: ${response.status}`);
+    }
+
+    const result = await response.json();
+    window.dispatchEvent(new Event(MEDICATION_ALERTS_UPDATED));
+    return result.alert;
+}
@@ -0,0 +1,82 @@
+/**
+ * Medication Course Utilities
+ *
+ * Types and helpers for medication courses built by the backend from
+ * prescriptions and FHIR MedicationRequests: when a drug was started,
+ * how its dose changed, and when it was stopped.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { getApiBaseUrl } from '@/lib/fhir';
+
+export interface DoseChange {
+    date: string;
+    fromDose: string | null;
+    toDose: string | null;
+    fromFrequency: string | null;
+    toFrequency: string | null;
+    source: 'report' | 'fhir';
+}
+
+export interface MedicationCourse {
+    key: string;
+    name: string;
+    startDate: string;
+    endDate: string | null;
+    status: 'active' | 'stopped';
+    stopReason: 'explicit' | 'inferred' | null;
+    initialDose: string | null;
+    currentDose: string | null;
+    currentFrequency: string | null;
+    route: string | null;
+    lastSeenDate: string;
+    doseChanges: DoseChange[];
+    observationCount: number;
+    sources: Array<'report' | 'fhir'>;
+}
+
+/**
+ * Fetch medication courses for a patient
+ */
+export async function fetchMedicationCourses(patientId: string, accessToken?: string): Promise<MedicationCourse[]> {
+    const response = await fetch(`${getApiBaseUrl()}/api/timeline/patient/${patientId}/medication-courses`, {
+        headers: {
+            'Authorization': `Bearer ${accessToken || ''}`,
+            'Accept': 'application/json'
+        }
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch medication courses: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.courses || [];
+}
+
+export function formatCourseDate(date: string, pattern: string = 'MMMM d'): string {
+    try {
+        return format(parseISO(date), pattern);
+    } catch {
+        return date;
+    }
+}
+
+/**
+ * Describe a dose change, e.g. "5mg → 10mg on March 3" or "OD → BD on March 3"
+ */
+export function describeDoseChange(change: DoseChange): string {
+    const doseChanged = change.fromDose !== change.toDose;
+    const from = doseChanged ? change.fromDose : change.fromFrequency;
+    const to = doseChanged ? change.toDose : change.toFrequency;
+    return `${from} → ${to} on ${formatCourseDate(change.date)}`;
+}
+
+/**
+ * Describe how a course ended, e.g. "Stopped on June 1 (not on later prescription)"
+ */
+export function describeCourseEnd(course: MedicationCourse): string | null {
+    if (!course.endDate) return null;
+    const suffix = course.stopReason === 'inferred' ? ' (not on later prescription)' : '';
+    return `Stopped on ${formatCourseDate(course.endDate)}${suffix}`;
+}
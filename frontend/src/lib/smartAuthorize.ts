@@ -0,0 +1,97 @@
+/**
+ * SMART App Authorization Utilities
+ *
+ * Client for the consent screen third-party SMART apps send users to:
+ * load the app's pending request, then approve (all or some scopes) or deny.
+ */
+
+import { getApiBaseUrl } from '@/lib/fhir';
+
+export interface SmartAuthorizationRequest {
+    id: string;
+    app: {
+        clientId: string;
+        name: string;
+        organization: string | null;
+    };
+    scopes: string[];
+    launchType: 'standalone' | 'ehr';
+    patient: {
+        id: string;
+        name: string | null;
+    };
+    expiresAt: string;
+}
+
+const headers = (accessToken?: string) => ({
+    'Authorization': `Bearer ${accessToken || ''}`,
+    'Accept': 'application/json',
+    'Content-Type': 'application/json'
+});
+
+const ACTIONS: Record<string, string> = {
+    read: 'read and search',
+    write: 'add and change',
+    '*': 'read and change',
+    c: 'add',
+    r: 'read',
+    u: 'change',
+    d: 'delete',
+    s: 'search',
+};
+
+/**
+ * A plain-language line for a scope, e.g. "read and search Observation"
+ */
+export function describeScope(scope: string): string {
+    if (scope === 'launch' || scope === 'launch/patient') return 'Know which patient record is open';
+    if (scope === 'offline_access') return 'Keep access when you are not using the app';
+
+    const match = /^(patient|user)\/([A-Za-z*]+)\.([a-z*]+)$/.exec(scope);
+    if (!match) return scope;
+
+    const [, , resourceType, permissions] = match;
+    const action = ACTIONS[permissions]
+        || permissions.split('').map(letter => ACTIONS[letter]).filter(Boolean).join(', ');
+    const what = resourceType === '*' ? 'all health records' : resourceType;
+    return `${action.charAt(0).toUpperCase()}${action.slice(1)} ${what}`;
+}
+
+export function isDataScope(scope: string): boolean {
+    return /^(patient|user)\//.test(scope);
+}
+
+export async function fetchAuthorizationRequest(requestId: string, accessToken?: string): Promise<SmartAuthorizationRequest> {
+    const response = await fetch(`${getApiBaseUrl()}/api/smart/authorize/requests/${requestId}`, {
+        headers: headers(accessToken)
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || `Failed to load the request: ${response.status}`);
+    }
+    return result;
+}
+
+/**
+ * Record the decision
+ * @returns URL to send the browser back to the app
+ */
+export async function decideAuthorization(
+    requestId: string,
+    approve: boolean,
+    accessToken?: string,
+    scopes?: string[]
+): Promise<string> {
+    const response = await fetch(`${getApiBaseUrl()}/api/smart/authorize/requests/${requestId}`, {
+        method: 'POST',
+        headers: headers(accessToken),
+        body: JSON.stringify({ approve, scopes })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || `Failed to record the decision: ${response.status}`);
+    }
+    return result.redirectUrl;
+}
@@ -3,6 +3,8 @@ export interface DiagnosticSummary {
     patientName?: string;
     age?: number;
     diagnosisDate?: string;
+    lastSeenDate?: string;
+    reportCount?: number;
     severity?: string;
     status?: 'Controlled' | 'Uncontrolled';
 }
@@ -12,6 +14,7 @@ export interface TreatmentSummary {
         name: string;
         dose?: string;
         frequency?: string;
+        since?: string;
     }[];
 }
 
@@ -33,11 +36,67 @@ export interface DiagnosticViewModel {
     trends: HealthTrend[];
 }
 
+interface RawClinicalEvent {
+    event_name?: string;
+    event_type?: string;
+    event_date?: string;
+    canonical_key?: string;
+    first_seen_date?: string;
+    last_seen_date?: string;
+    source_report_id?: string;
+    source_report_ids?: string[];
+    metadata?: Record<string, unknown>;
+}
+
+// Diagnoses and medications are ongoing: one entry per condition/drug regardless of date
+const MERGEABLE_TYPES = ['diagnosis', 'medication'];
+
+const DOSE_PATTERN = /\b\d+(\.\d+)?\s*(mg|mcg|g|ml|iu|units?)\b/gi;
+const FORM_WORDS = /\b(tab|tablet|cap|capsule|syrup|inj|injection|sr|xr|er|od|bd|tds)\b/gi;
+
+/**
+ * Identity of an event for deduplication. Uses the backend's canonical_key when
+ * present; older rows fall back to a normalized name.
+ */
+function canonicalKey(e: RawClinicalEvent): string {
+    if (e.canonical_key) return e.canonical_key;
+    let name = (e.event_name || '').toLowerCase();
+    if (e.event_type === 'medication') {
+        name = name.replace(DOSE_PATTERN, ' ').replace(FORM_WORDS, ' ');
+    }
+    return name.replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+const dateOnly = (d?: string) => (d ? new Date(d).toISOString().split('T')[0] : undefined);
+
+function mergeEvents(existing: RawClinicalEvent, e: RawClinicalEvent): RawClinicalEvent {
+    // Keep the one with more metadata keys as the base
+    const existingKeys = existing.metadata ? Object.keys(existing.metadata).length : 0;
+    const newKeys = e.metadata ? Object.keys(e.metadata).length : 0;
+    const base = newKeys > existingKeys ? e : existing;
+
+    const dates = [existing.first_seen_date, existing.event_date, existing.last_seen_date, e.first_seen_date, e.event_date, e.last_seen_date]
+        .map(dateOnly)
+        .filter(Boolean)
+        .sort();
+
+    return {
+        ...base,
+        event_date: dates[0] || base.event_date,
+        first_seen_date: dates[0],
+        last_seen_date: dates[dates.length - 1],
+        source_report_ids: Array.from(new Set([
+            ...(existing.source_report_ids || [existing.source_report_id]),
+            ...(e.source_report_ids || [e.source_report_id])
+        ].filter(Boolean)))
+    };
+}
+
 export function buildDiagnosticViewModel(
     rawEvents: any[]
 ): DiagnosticViewModel {
-    // Deduplicate events based on name, date, and generic type
-    // We prefer events with more metadata if duplicates exist
+    // Deduplicate events: diagnoses/medications by canonical identity,
+    // everything else by name and date
     const uniqueMap = new Map();
 
     rawEvents.forEach(e => {
@@ -45,19 +104,14 @@ export function buildDiagnosticViewModel(
         // Using date + name ensures we don't treat different events on same day as dupes, 
         // nor same event on different days
         const dateStr = e.event_date ? new Date(e.event_date).toISOString().split('T')[0] : 'no-date';
-        const key = `${e.event_name?.toLowerCase().trim()}|${dateStr}`;
+        const key = MERGEABLE_TYPES.includes(e.event_type)
+            ? `${e.event_type}|${canonicalKey(e)}`
+            : `${e.event_name?.toLowerCase().trim()}|${dateStr}`;
 
         if (!uniqueMap.has(key)) {
             uniqueMap.set(key, e);
         } else {
-            // detailed logic: keep the one with more metadata keys if available
-            const existing = uniqueMap.get(key);
-            const existingKeys = existing.metadata ? Object.keys(existing.metadata).length : 0;
-            const newKeys = e.metadata ? Object.keys(e.metadata).length : 0;
-
-            if (newKeys > existingKeys) {
-                uniqueMap.set(key, e);
-            }
+            uniqueMap.set(key, mergeEvents(uniqueMap.get(key), e));
         }
     });
 
@@ -72,6 +126,7 @@ export function buildDiagnosticViewModel(
     const primaryDiagnosis = diagnoses[0]; // Simplification
 
     const diagnosisDate = primaryDiagnosis?.event_date && new Date(primaryDiagnosis.event_date).toLocaleDateString();
+    const lastSeenDate = primaryDiagnosis?.last_seen_date && new Date(primaryDiagnosis.last_seen_date).toLocaleDateString();
 
     const severity =
         primaryDiagnosis?.metadata?.severity || 'Unknown';
@@ -147,6 +202,8 @@ export function buildDiagnosticViewModel(
     return {
         summary: {
             diagnosisDate: diagnosisDate || 'N/A',
+            lastSeenDate: lastSeenDate || undefined,
+            reportCount: primaryDiagnosis?.source_report_ids?.length,
             severity,
             status
         },
@@ -154,7 +211,8 @@ export function buildDiagnosticViewModel(
             medications: activeMedications.map(m => ({
                 name: m.event_name,
                 dose: m.metadata?.dose,
-                frequency: m.metadata?.frequency
+                frequency: m.metadata?.frequency,
+                since: m.event_date ? new Date(m.event_date).toLocaleDateString() : undefined
             }))
         },
         notes,
@@ -308,6 +308,7 @@ export default function DiagnosticPathwayPage() {
                                     <li key={i} className="text-xs bg-slate-50 p-2 rounded border border-slate-100">
                                         <div className="font-bold text-slate-700">{m.name}</div>
                                         <div className="text-slate-500">{m.dose} {m.frequency}</div>
+                                        {m.since && <div className="text-slate-400">Since {m.since}</div>}
                                     </li>
                                 ))}
                             </ul>
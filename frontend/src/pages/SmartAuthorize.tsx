@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AppWindow, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  SmartAuthorizationRequest,
+  decideAuthorization,
+  describeScope,
+  fetchAuthorizationRequest,
+  isDataScope,
+} from '@/lib/smartAuthorize';
+
+/**
+ * Consent screen for third-party SMART apps. The app's authorization
+ * request lands here; the user approves all or some of the requested
+ * access, or denies it, and the browser goes back to the app.
+ */
+export default function SmartAuthorize() {
+  const [searchParams] = useSearchParams();
+  const requestId = searchParams.get('request');
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+
+  const [request, setRequest] = useState<SmartAuthorizationRequest | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!requestId || !accessToken) return;
+    fetchAuthorizationRequest(requestId, accessToken)
+      .then((loaded) => {
+        setRequest(loaded);
+        setSelected(loaded.scopes);
+      })
+      .catch((err) => setError(err.message));
+  }, [requestId, accessToken]);
+
+  const toggleScope = (scope: string) => {
+    setSelected(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleDecision = async (approve: boolean) => {
+    if (!requestId) return;
+    setSubmitting(true);
+    try {
+      window.location.href = await decideAuthorization(requestId, approve, accessToken, approve ? selected : undefined);
+    } catch (err) {
+      console.error('Error recording SMART authorization:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to record your decision');
+      setSubmitting(false);
+    }
+  };
+
+  if (!requestId || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center max-w-md px-6">
+          <Lock className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+          <p className="text-lg text-gray-700">{error || 'No authorization request to show'}</p>
+          <p className="text-sm text-gray-500 mt-2">Start again from the app.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!request) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  const dataSelected = selected.some(isDataScope);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-lg bg-white rounded-xl shadow-sm border p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <AppWindow className="h-8 w-8 text-cyan-600" />
+          <div>
+            <h1 className="text-xl font-semibold">{request.app.name}</h1>
+            {request.app.organization && (
+              <p className="text-sm text-gray-500">by {request.app.organization}</p>
+            )}
+          </div>
+        </div>
+
+        <p className="text-gray-700">
+          {request.launchType === 'ehr'
+            ? `wants access to the record of ${request.patient.name || 'this patient'}, opened from your patient list.`
+            : 'wants access to your Niraiva health record.'}
+        </p>
+
+        <ul className="space-y-2">
+          {request.scopes.map(scope => (
+            <li key={scope}>
+              <label className="flex items-center gap-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  disabled={submitting}
+                />
+                <span>{describeScope(scope)}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <p className="text-xs text-gray-500">
+          You can withdraw this access at any time. The app can only see what you allow here.
+        </p>
+
+        <div className="flex gap-3 justify-end">
+          <Button variant="outline" onClick={() => handleDecision(false)} disabled={submitting}>
+            Deny
+          </Button>
+          <Button onClick={() => handleDecision(true)} disabled={submitting || !dataSelected}>
+            Allow
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}